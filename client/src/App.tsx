@@ -4,10 +4,20 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SearchProvider } from "@/hooks/use-search";
+import { RouterSelectionProvider } from "@/hooks/use-router-selection";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { useDriftNotifications } from "@/hooks/use-drift-notifications";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import AuthPage from "@/pages/auth";
 import Dashboard from "@/pages/dashboard";
 import NetworkTopology from "@/pages/topology";
 import ConnectedDevices from "@/pages/devices";
 import WiFiSettings from "@/pages/wifi";
+import GuestNetworkQrPage from "@/pages/guest-network-qr";
+import PortForwardingPage from "@/pages/port-forwarding";
+import DhcpReservationsPage from "@/pages/dhcp-reservations";
+import ConfigDriftPage from "@/pages/config-drift";
+import AlertsPage from "@/pages/alerts";
 
 
 import SystemSettings from "@/pages/system";
@@ -19,10 +29,12 @@ import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/sidebar";
 import TopBar from "@/components/top-bar";
 import { useState } from "react";
-import { Menu } from "lucide-react";
+import { Menu, RefreshCw } from "lucide-react";
 
 function Router() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  useDriftNotifications();
+  useLiveUpdates();
 
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
@@ -54,6 +66,10 @@ function Router() {
               <Route path="/devices/:id" component={DeviceDetailsPage} />
 
               <Route path="/wifi" component={WiFiSettings} />
+              <Route path="/port-forwarding" component={PortForwardingPage} />
+              <Route path="/dhcp-reservations" component={DhcpReservationsPage} />
+              <Route path="/config-drift" component={ConfigDriftPage} />
+              <Route path="/alerts" component={AlertsPage} />
 
 
 
@@ -68,16 +84,45 @@ function Router() {
   );
 }
 
+// Everything past the login page needs a session, including the router list
+function AuthenticatedApp() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
+  return (
+    <RouterSelectionProvider>
+      <SearchProvider>
+        <Switch>
+          {/* Printed for visitors, so it leaves out the sidebar and header */}
+          <Route path="/wifi/guests/:interface/print" component={GuestNetworkQrPage} />
+          <Route component={Router} />
+        </Switch>
+      </SearchProvider>
+    </RouterSelectionProvider>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <SearchProvider>
+        <AuthProvider>
           <div className="dark">
             <Toaster />
-            <Router />
+            <AuthenticatedApp />
           </div>
-        </SearchProvider>
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AuditEvent } from "@shared/schema";
+import { RefreshCw, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const OUTCOME_COLORS: Record<string, string> = {
+  success: "bg-green-500/20 text-green-400",
+  failure: "bg-red-500/20 text-red-400",
+  denied: "bg-yellow-500/20 text-yellow-400",
+};
+
+function parseCommands(sshCommands: string | null): string[] {
+  if (!sshCommands) return [];
+  try {
+    return JSON.parse(sshCommands);
+  } catch {
+    return [];
+  }
+}
+
+function formatPayload(payload: string | null): string {
+  if (!payload) return "";
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
+
+export default function AuditLog() {
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState("");
+  const [outcome, setOutcome] = useState("all");
+  const [allRouters, setAllRouters] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const params = new URLSearchParams();
+  if (actor) params.set("actor", actor);
+  if (action) params.set("action", action);
+  if (outcome !== "all") params.set("outcome", outcome);
+  if (allRouters) params.set("allRouters", "true");
+
+  const { data: events, isLoading, refetch } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit-events?${params.toString()}`],
+    refetchInterval: 10000,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder="Filter by user"
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          className="w-40 h-8"
+        />
+        <Input
+          placeholder="Filter by action or path"
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          className="w-56 h-8"
+        />
+        <Select value={outcome} onValueChange={setOutcome}>
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All outcomes</SelectItem>
+            <SelectItem value="success">Success</SelectItem>
+            <SelectItem value="failure">Failure</SelectItem>
+            <SelectItem value="denied">Denied</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center space-x-2">
+          <Switch id="audit-all-routers" checked={allRouters} onCheckedChange={setAllRouters} />
+          <Label htmlFor="audit-all-routers" className="text-sm font-normal">All routers</Label>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isLoading}
+          className="ml-auto"
+        >
+          <RefreshCw className={`h-3 w-3 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="border border-border rounded-lg h-80 overflow-y-auto divide-y divide-border">
+        {events && events.length > 0 ? (
+          events.map((event) => {
+            const commands = parseCommands(event.sshCommands);
+            const isExpanded = expandedId === event.id;
+
+            return (
+              <div key={event.id} className="text-xs">
+                <button
+                  type="button"
+                  className="w-full flex items-center gap-3 p-2 text-left hover:bg-accent"
+                  onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                >
+                  {isExpanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+                  <span className="text-muted-foreground w-36 shrink-0">
+                    {event.createdAt ? new Date(event.createdAt).toLocaleString() : ""}
+                  </span>
+                  <span className="font-medium w-24 shrink-0 truncate">{event.actor}</span>
+                  <span className="font-mono flex-1 truncate">{event.action}</span>
+                  {commands.length > 0 && (
+                    <span className="text-muted-foreground shrink-0">{commands.length} SSH</span>
+                  )}
+                  <span className="text-muted-foreground w-14 text-right shrink-0">{event.durationMs}ms</span>
+                  <Badge className={`${OUTCOME_COLORS[event.outcome] || ""} shrink-0`}>{event.outcome}</Badge>
+                </button>
+                {isExpanded && (
+                  <div className="px-8 pb-3 space-y-2">
+                    <div className="text-muted-foreground">
+                      Target: <span className="font-mono text-foreground">{event.target}</span>
+                      {event.statusCode && <> · HTTP {event.statusCode}</>}
+                    </div>
+                    {event.errorMessage && (
+                      <div className="text-red-400">{event.errorMessage}</div>
+                    )}
+                    {event.payload && (
+                      <pre className="bg-black text-green-400 p-2 rounded font-mono overflow-x-auto">
+                        {formatPayload(event.payload)}
+                      </pre>
+                    )}
+                    {commands.length > 0 && (
+                      <div className="bg-black text-green-400 p-2 rounded font-mono space-y-1 overflow-x-auto">
+                        {commands.map((command, index) => (
+                          <div key={index} className="whitespace-pre-wrap">$ {command}</div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">
+            {isLoading ? "Loading audit events..." : "No audit events match these filters"}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { PlayCircle, Clock, CheckCircle, AlertCircle, RefreshCw, Info, Code, Database, Edit, Save, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { useLiveConnected } from "@/hooks/use-live-updates";
 
 interface BackgroundJob {
   id: string;
@@ -26,6 +27,7 @@ export default function BackgroundServicesManager() {
   const { toast } = useToast();
   const [editingJobId, setEditingJobId] = useState<string | null>(null);
   const [editCronExpression, setEditCronExpression] = useState<string>('');
+  const live = useLiveConnected();
 
   // Define available background services that should always be visible
   const defaultServices: BackgroundJob[] = [
@@ -73,7 +75,7 @@ export default function BackgroundServicesManager() {
 
   const { data: backendJobs, isLoading, refetch } = useQuery<BackgroundJob[]>({
     queryKey: ["/api/background-services"],
-    refetchInterval: 5000, // Refresh every 5 seconds
+    refetchInterval: live ? false : 5000, // Job state is pushed while live, otherwise refresh every 5 seconds
   });
 
   // Use backend data if available, otherwise show default services
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Activity } from "lucide-react";
+
+interface UtilizationPoint {
+  timestamp: string;
+  busy: number;
+  tx: number;
+  rx: number;
+  obss: number;
+  interference: number;
+  glitches: number;
+  noise: number | null;
+}
+
+interface RadioUtilization {
+  unit: number;
+  band: string;
+  label: string;
+  chanspec: string;
+  latest: UtilizationPoint;
+  averageBusy: number;
+  points: UtilizationPoint[];
+}
+
+const RANGES = [
+  { hours: 1, label: "1h" },
+  { hours: 24, label: "24h" },
+  { hours: 168, label: "7d" },
+];
+
+const airtimeConfig = {
+  tx: { label: "Transmitting (%)", color: "hsl(217 91% 60%)" },
+  rx: { label: "Receiving (%)", color: "hsl(142 71% 45%)" },
+  obss: { label: "Other networks (%)", color: "hsl(38 92% 50%)" },
+  interference: { label: "Interference (%)", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+const noiseConfig = {
+  noise: { label: "Noise (dBm)", color: "hsl(262 83% 58%)" },
+  glitches: { label: "Glitches (/s)", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+function formatTick(value: string, hours: number) {
+  const date = new Date(value);
+  return hours > 24 ? date.toLocaleDateString([], { weekday: "short" }) : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function busyColor(busy: number) {
+  if (busy >= 80) return "bg-red-500/20 text-red-400";
+  if (busy >= 50) return "bg-yellow-500/20 text-yellow-400";
+  return "bg-green-500/20 text-green-400";
+}
+
+// How each radio's airtime was spent, sampled every minute, with noise and glitches underneath
+export default function ChannelUtilizationCharts() {
+  const [hours, setHours] = useState(24);
+
+  const { data: radios, isLoading } = useQuery<RadioUtilization[]>({
+    queryKey: [`/api/wifi/utilization?hours=${hours}`],
+    refetchInterval: 60000,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Busy airtime is time the radio could not transmit: its own traffic, neighbouring networks and interference
+        </p>
+        <Tabs value={String(hours)} onValueChange={(value) => setHours(parseInt(value))}>
+          <TabsList>
+            {RANGES.map(range => (
+              <TabsTrigger key={range.hours} value={String(range.hours)}>{range.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : radios && radios.length > 0 ? (
+        radios.map(radio => (
+          <Card key={radio.unit}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Activity className="h-5 w-5" />
+                {radio.label}
+                <Badge variant="outline" className="font-mono text-xs">{radio.chanspec}</Badge>
+              </CardTitle>
+              <div className="flex items-center gap-2 text-sm">
+                <Badge className={busyColor(radio.latest.busy)}>{radio.latest.busy}% busy now</Badge>
+                <span className="text-muted-foreground">{radio.averageBusy}% on average</span>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ChartContainer config={airtimeConfig} className="h-56 w-full">
+                <AreaChart data={radio.points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="timestamp" tickFormatter={(value) => formatTick(value, hours)} minTickGap={32} />
+                  <YAxis width={40} domain={[0, 100]} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => new Date(value).toLocaleString()} />} />
+                  {(Object.keys(airtimeConfig) as (keyof typeof airtimeConfig)[]).map(key => (
+                    <Area key={key} dataKey={key} type="monotone" stackId="airtime" stroke={`var(--color-${key})`} fill={`var(--color-${key})`} fillOpacity={0.4} />
+                  ))}
+                </AreaChart>
+              </ChartContainer>
+              <ChartContainer config={noiseConfig} className="h-32 w-full">
+                <LineChart data={radio.points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="timestamp" tickFormatter={(value) => formatTick(value, hours)} minTickGap={32} />
+                  <YAxis yAxisId="noise" width={40} domain={["auto", "auto"]} />
+                  <YAxis yAxisId="glitches" orientation="right" width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => new Date(value).toLocaleString()} />} />
+                  <Line yAxisId="noise" dataKey="noise" type="monotone" stroke="var(--color-noise)" dot={false} connectNulls />
+                  <Line yAxisId="glitches" dataKey="glitches" type="monotone" stroke="var(--color-glitches)" dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        <div className="text-muted-foreground text-center py-8 text-sm">
+          No airtime recorded yet; each radio is sampled every minute while the router is connected
+        </div>
+      )}
+    </div>
+  );
+}
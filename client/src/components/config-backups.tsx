@@ -0,0 +1,437 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { ConfigBackup } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { formatBytes } from "@/lib/utils";
+import { Save, Download, GitCompare, Upload, Trash2, Pencil, Check } from "lucide-react";
+
+type ConfigBackupSummary = Omit<ConfigBackup, "nvram" | "jffsScripts"> & { scripts: string[] };
+
+interface NvramDumpDiff {
+  added: { key: string; value: string }[];
+  removed: { key: string; value: string }[];
+  changed: { key: string; before: string; after: string }[];
+  scriptsAdded: string[];
+  scriptsRemoved: string[];
+  scriptsChanged: string[];
+}
+
+interface RestorePreview {
+  diff: NvramDumpDiff;
+  changeCount: number;
+  skipped: string[];
+  kept: number;
+  scripts: string[];
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "manual",
+  scheduled: "nightly",
+  pre_restore: "pre-restore",
+};
+
+function describeBackup(backup: ConfigBackupSummary) {
+  const date = backup.createdAt ? new Date(backup.createdAt).toLocaleString() : "";
+  return backup.label ? `${backup.label} (${date})` : date;
+}
+
+function ConfigDiffView({ diff }: { diff: NvramDumpDiff }) {
+  const total = diff.added.length + diff.removed.length + diff.changed.length;
+  const scripts = [
+    ...diff.scriptsAdded.map(path => ({ path, kind: "added" })),
+    ...diff.scriptsRemoved.map(path => ({ path, kind: "removed" })),
+    ...diff.scriptsChanged.map(path => ({ path, kind: "changed" })),
+  ];
+
+  return (
+    <div className="space-y-3 text-xs">
+      <p className="text-sm text-muted-foreground">
+        {total + scripts.length === 0
+          ? "No differences."
+          : `${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed NVRAM keys; ${scripts.length} scripts differ`}
+      </p>
+      {total > 0 && (
+        <div className="border border-border rounded max-h-80 overflow-y-auto divide-y divide-border font-mono">
+          {diff.changed.map((entry) => (
+            <div key={entry.key} className="p-2 space-y-1">
+              <div className="text-foreground">{entry.key}</div>
+              <div className="text-red-400 break-all">- {entry.before}</div>
+              <div className="text-green-400 break-all">+ {entry.after}</div>
+            </div>
+          ))}
+          {diff.added.map((entry) => (
+            <div key={entry.key} className="p-2 text-green-400 break-all">+ {entry.key}={entry.value}</div>
+          ))}
+          {diff.removed.map((entry) => (
+            <div key={entry.key} className="p-2 text-red-400 break-all">- {entry.key}={entry.value}</div>
+          ))}
+        </div>
+      )}
+      {scripts.length > 0 && (
+        <div className="space-y-1">
+          {scripts.map(({ path, kind }) => (
+            <div key={path} className="flex items-center justify-between font-mono">
+              <span>{path}</span>
+              <span className="text-muted-foreground">{kind}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CompareDialog({ from, to, onClose }: { from: ConfigBackupSummary | null; to: number | "current"; onClose: () => void }) {
+  const { data: diff, isLoading, error } = useQuery<NvramDumpDiff>({
+    queryKey: [`/api/config-backups/compare?from=${from?.id}&to=${to}`],
+    enabled: !!from,
+    gcTime: 0,
+  });
+
+  return (
+    <Dialog open={!!from} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Compare Backups</DialogTitle>
+          <DialogDescription>
+            Changes from {from ? describeBackup(from) : ""} to {to === "current" ? "the router's current config" : `backup #${to}`}. Passwords and keys are masked.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-400">{getErrorMessage(error as Error) || "Failed to compare backups"}</p>
+        ) : diff ? (
+          <ConfigDiffView diff={diff} />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RestoreDialog({ backup, onClose }: { backup: ConfigBackupSummary | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [confirm, setConfirm] = useState("");
+  const [includeScripts, setIncludeScripts] = useState(false);
+
+  const { data: preview, isLoading, error } = useQuery<RestorePreview>({
+    queryKey: [`/api/config-backups/${backup?.id}/restore-preview`],
+    enabled: !!backup,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const close = () => {
+    setConfirm("");
+    setIncludeScripts(false);
+    onClose();
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/config-backups/${backup!.id}/restore`, { confirm, includeScripts });
+      return await response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config-backups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+      close();
+      toast({
+        title: "Backup Restored",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config-backups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+      toast({
+        title: "Restore Failed",
+        description: getErrorMessage(error) || "Failed to restore backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!backup} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            Writes the settings from {backup ? describeBackup(backup) : ""} back to the router. The current config is
+            backed up first, and the change is rolled back if the router doesn't come back healthy.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-400">{getErrorMessage(error as Error) || "Failed to preview restore"}</p>
+        ) : preview ? (
+          <div className="space-y-3">
+            <ConfigDiffView diff={preview.diff} />
+            <p className="text-xs text-muted-foreground">
+              {preview.changeCount} settings will be written. {preview.kept} keys that aren't in the backup are left as they are.
+              {preview.skipped.length > 0 && ` ${preview.skipped.length} hardware or runtime keys are skipped (${preview.skipped.slice(0, 5).join(", ")}${preview.skipped.length > 5 ? ", …" : ""}).`}
+            </p>
+            {preview.scripts.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="restore-scripts"
+                  checked={includeScripts}
+                  onCheckedChange={(checked) => setIncludeScripts(checked === true)}
+                />
+                <Label htmlFor="restore-scripts" className="text-sm">
+                  Also restore {preview.scripts.length} JFFS scripts
+                </Label>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <div className="flex items-center justify-end space-x-2">
+          <Input
+            placeholder="Type RESTORE to confirm"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            className="max-w-xs"
+          />
+          <Button
+            variant="destructive"
+            onClick={() => restoreMutation.mutate()}
+            disabled={confirm !== "RESTORE" || !preview || restoreMutation.isPending}
+          >
+            {restoreMutation.isPending ? "Restoring..." : "Restore"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ConfigBackups() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const [label, setLabel] = useState("");
+  const [editing, setEditing] = useState<{ id: number; label: string } | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [compare, setCompare] = useState<{ from: ConfigBackupSummary; to: number | "current" } | null>(null);
+  const [restoring, setRestoring] = useState<ConfigBackupSummary | null>(null);
+
+  const { data: backups } = useQuery<ConfigBackupSummary[]>({
+    queryKey: ["/api/config-backups"],
+  });
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error) || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/system/backup", { label });
+      return await response.json();
+    },
+    onSuccess: (data: { backup: ConfigBackupSummary }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config-backups"] });
+      setLabel("");
+      toast({
+        title: "Backup Created",
+        description: `Saved ${data.backup.keyCount} NVRAM settings and ${data.backup.scripts.length} scripts`,
+      });
+    },
+    onError: showError("Failed to create configuration backup"),
+  });
+
+  const labelMutation = useMutation({
+    mutationFn: async ({ id, label }: { id: number; label: string }) => {
+      return await apiRequest("PUT", `/api/config-backups/${id}`, { label });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config-backups"] });
+      setEditing(null);
+    },
+    onError: showError("Failed to update backup"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/config-backups/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config-backups"] });
+      setSelected(current => current.filter(selectedId => selectedId !== id));
+    },
+    onError: showError("Failed to delete backup"),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: async (backup: ConfigBackupSummary) => {
+      const response = await apiRequest("GET", `/api/config-backups/${backup.id}/download`);
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? `backup-${backup.id}.json`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: showError("Failed to download backup"),
+  });
+
+  const toggleSelected = (id: number) => {
+    setSelected(current => current.includes(id) ? current.filter(selectedId => selectedId !== id) : [...current.slice(-1), id]);
+  };
+
+  // Compare oldest to newest of the two picked, or the one picked against the live router
+  const startCompare = () => {
+    const picked = (backups ?? []).filter(backup => selected.includes(backup.id)).reverse();
+    if (picked.length === 2) {
+      setCompare({ from: picked[0], to: picked[1].id });
+    } else if (picked.length === 1) {
+      setCompare({ from: picked[0], to: "current" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Save className="h-5 w-5" />
+          <span>Backup & Restore</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Label (optional)"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!hasRole("operator") || createMutation.isPending}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {createMutation.isPending ? "Saving..." : "Create Backup"}
+          </Button>
+        </div>
+
+        <div className="border border-border rounded-lg max-h-80 overflow-y-auto divide-y divide-border">
+          {backups && backups.length > 0 ? (
+            backups.map((backup) => (
+              <div key={backup.id} className="flex items-center gap-2 p-2 text-xs hover:bg-accent">
+                <Checkbox
+                  checked={selected.includes(backup.id)}
+                  onCheckedChange={() => toggleSelected(backup.id)}
+                />
+                <div className="flex-1 min-w-0">
+                  {editing?.id === backup.id ? (
+                    <form
+                      className="flex gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        labelMutation.mutate(editing);
+                      }}
+                    >
+                      <Input
+                        autoFocus
+                        className="h-6 text-xs"
+                        value={editing.label}
+                        onChange={(e) => setEditing({ id: backup.id, label: e.target.value })}
+                      />
+                      <Button type="submit" size="sm" variant="ghost" className="h-6 px-2">
+                        <Check className="h-3 w-3" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className="font-medium truncate">{backup.label || (backup.createdAt ? new Date(backup.createdAt).toLocaleString() : "")}</div>
+                  )}
+                  <div className="text-muted-foreground truncate">
+                    {backup.label && backup.createdAt ? `${new Date(backup.createdAt).toLocaleString()} · ` : ""}
+                    {[backup.model, backup.firmware].filter(Boolean).join(" ")} · {backup.keyCount} keys · {backup.scripts.length} scripts · {formatBytes(backup.sizeBytes)}
+                  </div>
+                </div>
+                <Badge variant="secondary" className="shrink-0">{SOURCE_LABELS[backup.source] ?? backup.source}</Badge>
+                {hasRole("operator") && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2"
+                    title="Label"
+                    onClick={() => setEditing({ id: backup.id, label: backup.label ?? "" })}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                )}
+                {isAdmin && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      title="Download"
+                      onClick={() => downloadMutation.mutate(backup)}
+                    >
+                      <Download className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      title="Restore"
+                      onClick={() => setRestoring(backup)}
+                    >
+                      <Upload className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2"
+                      title="Delete"
+                      onClick={() => deleteMutation.mutate(backup.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="text-muted-foreground text-center py-8 text-sm">
+              No backups yet; one is taken automatically every night
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            Select one backup to compare with the router, or two to compare with each other
+          </span>
+          <Button size="sm" variant="outline" onClick={startCompare} disabled={selected.length === 0}>
+            <GitCompare className="h-4 w-4 mr-2" />
+            Compare
+          </Button>
+        </div>
+      </CardContent>
+
+      <CompareDialog from={compare?.from ?? null} to={compare?.to ?? "current"} onClose={() => setCompare(null)} />
+      <RestoreDialog backup={restoring} onClose={() => setRestoring(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import type { ConnectedDevice } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { formatBytes } from "@/lib/utils";
+import { Activity } from "lucide-react";
+
+interface DeviceUsagePoint {
+  timestamp: string;
+  downloadBytes: number;
+  uploadBytes: number;
+  downloadMbps: number;
+  uploadMbps: number;
+}
+
+const RANGES = [
+  { hours: 1, label: "1h" },
+  { hours: 24, label: "24h" },
+  { hours: 168, label: "7d" },
+];
+
+const chartConfig = {
+  downloadMbps: { label: "Download (Mbps)", color: "hsl(217 91% 60%)" },
+  uploadMbps: { label: "Upload (Mbps)", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+function formatTick(value: string, hours: number) {
+  const date = new Date(value);
+  return hours > 24 ? date.toLocaleDateString([], { weekday: "short" }) : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export default function DeviceBandwidthChart({ device }: { device: ConnectedDevice }) {
+  const [hours, setHours] = useState(24);
+
+  const { data: usage, isLoading } = useQuery<DeviceUsagePoint[]>({
+    queryKey: [`/api/devices/${device.id}/bandwidth?hours=${hours}`],
+    refetchInterval: 60000,
+  });
+
+  const totalDownload = usage?.reduce((total, point) => total + point.downloadBytes, 0) ?? 0;
+  const totalUpload = usage?.reduce((total, point) => total + point.uploadBytes, 0) ?? 0;
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <Activity className="h-5 w-5 mr-2" />
+          Usage History
+        </CardTitle>
+        <Tabs value={String(hours)} onValueChange={(value) => setHours(parseInt(value))}>
+          <TabsList>
+            {RANGES.map(range => (
+              <TabsTrigger key={range.hours} value={String(range.hours)}>{range.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Downloaded</p>
+            <p className="text-lg">{formatBytes(totalDownload)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Uploaded</p>
+            <p className="text-lg">{formatBytes(totalUpload)}</p>
+          </div>
+        </div>
+        {isLoading ? (
+          <Skeleton className="h-56 w-full" />
+        ) : usage && usage.length > 0 ? (
+          <ChartContainer config={chartConfig} className="h-56 w-full">
+            <AreaChart data={usage}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="timestamp" tickFormatter={(value) => formatTick(value, hours)} minTickGap={32} />
+              <YAxis width={40} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => new Date(value).toLocaleString()} />} />
+              <Area dataKey="downloadMbps" type="monotone" stroke="var(--color-downloadMbps)" fill="var(--color-downloadMbps)" fillOpacity={0.2} />
+              <Area dataKey="uploadMbps" type="monotone" stroke="var(--color-uploadMbps)" fill="var(--color-uploadMbps)" fillOpacity={0.2} />
+            </AreaChart>
+          </ChartContainer>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">
+            No traffic recorded yet; samples are collected every minute while the device is online
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMutation } from "@tanstack/react-query";
+import type { ConnectedDevice } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { isScheduleActive, parseSchedule } from "@/components/schedule-editor";
+import { Ban, CheckCircle, PauseCircle } from "lucide-react";
+
+const PAUSE_OPTIONS = [15, 30, 60, 120];
+
+function formatPause(minutes: number) {
+  return minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? "s" : ""}`;
+}
+
+// Shown wherever a device's state is, so a paused or scheduled-offline device reads differently
+// from one that is simply offline
+export function RestrictionBadge({ device }: { device: ConnectedDevice }) {
+  if (device.isBlocked) {
+    return (
+      <Badge variant="destructive">
+        {device.blockedUntil
+          ? `Paused until ${new Date(device.blockedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+          : "Blocked"}
+      </Badge>
+    );
+  }
+  const schedule = parseSchedule(device.parentalSchedule);
+  if (schedule.length === 0) return null;
+  return isScheduleActive(schedule)
+    ? <Badge variant="destructive">Offline by schedule</Badge>
+    : <Badge variant="outline">Scheduled</Badge>;
+}
+
+export default function DeviceBlockMenu({ device, size = "sm" }: { device: ConnectedDevice; size?: "sm" | "icon" }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+
+  const blockMutation = useMutation({
+    mutationFn: async ({ blocked, minutes }: { blocked: boolean; minutes?: number }) => {
+      const res = await apiRequest("POST", `/api/devices/${device.id}/${blocked ? "block" : "unblock"}`, minutes ? { minutes } : {});
+      return await res.json() as { device: ConnectedDevice };
+    },
+    onSuccess: (_result, { blocked, minutes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: !blocked ? "Internet access restored" : minutes ? "Internet access paused" : "Internet access blocked",
+        description: !blocked
+          ? `${device.name} can reach the internet again`
+          : minutes
+            ? `${device.name} is paused for ${formatPause(minutes)}`
+            : `${device.name} is blocked until you unblock it`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to change internet access", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!hasRole("operator")) return null;
+
+  if (device.isBlocked) {
+    return (
+      <Button
+        variant="outline"
+        size={size}
+        onClick={(event) => {
+          event.stopPropagation();
+          blockMutation.mutate({ blocked: false });
+        }}
+        disabled={blockMutation.isPending}
+        title="Unblock"
+      >
+        <CheckCircle className={`h-4 w-4 ${size === "sm" ? "mr-2" : ""}`} />
+        {size === "sm" && (blockMutation.isPending ? "Unblocking..." : "Unblock")}
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size={size}
+          disabled={blockMutation.isPending}
+          onClick={(event) => event.stopPropagation()}
+          title="Block or pause"
+        >
+          <Ban className={`h-4 w-4 ${size === "sm" ? "mr-2" : ""}`} />
+          {size === "sm" && (blockMutation.isPending ? "Applying..." : "Block")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+        <DropdownMenuItem onClick={() => blockMutation.mutate({ blocked: true })}>
+          <Ban className="h-4 w-4 mr-2" />
+          Block internet access
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Pause for</DropdownMenuLabel>
+        {PAUSE_OPTIONS.map((minutes) => (
+          <DropdownMenuItem key={minutes} onClick={() => blockMutation.mutate({ blocked: true, minutes })}>
+            <PauseCircle className="h-4 w-4 mr-2" />
+            {formatPause(minutes)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { ConnectedDevice, DeviceGroup, DeviceTag } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { DEVICE_TYPES } from "@/lib/utils";
+import { Edit } from "lucide-react";
+
+const NO_CHANGE = "none";
+
+interface BulkEditForm {
+  deviceType: string;
+  addGroupId: string;
+  removeGroupId: string;
+  addTagId: string;
+  removeTagId: string;
+  replaceNotes: boolean;
+  notes: string;
+}
+
+const EMPTY_FORM: BulkEditForm = {
+  deviceType: NO_CHANGE,
+  addGroupId: NO_CHANGE,
+  removeGroupId: NO_CHANGE,
+  addTagId: NO_CHANGE,
+  removeTagId: NO_CHANGE,
+  replaceNotes: false,
+  notes: "",
+};
+
+function NamedSelect({ value, onChange, items, placeholder }: {
+  value: string;
+  onChange: (value: string) => void;
+  items: { id: number; name: string }[];
+  placeholder: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CHANGE}>No change</SelectItem>
+        {items.map(item => (
+          <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function DeviceBulkEditDialog({ devices, onDone }: { devices: ConnectedDevice[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<BulkEditForm>(EMPTY_FORM);
+
+  const { data: groups = [] } = useQuery<DeviceGroup[]>({ queryKey: ["/api/device-groups"], enabled: open });
+  const { data: tags = [] } = useQuery<DeviceTag[]>({ queryKey: ["/api/device-tags"], enabled: open });
+
+  const ids = (value: string) => value === NO_CHANGE ? undefined : [Number(value)];
+  const edit = {
+    ...(form.deviceType !== NO_CHANGE && { deviceType: form.deviceType }),
+    ...(form.replaceNotes && { notes: form.notes || null }),
+    addGroupIds: ids(form.addGroupId),
+    removeGroupIds: ids(form.removeGroupId),
+    addTagIds: ids(form.addTagId),
+    removeTagIds: ids(form.removeTagId),
+  };
+  const hasChanges = Object.values(edit).some(value => value !== undefined);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/devices/bulk-update", { deviceIds: devices.map(device => device.id), ...edit });
+      return await res.json() as { updated: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/device-groups"] });
+      toast({ title: "Devices updated", description: `${result.updated} of ${devices.length} selected device${devices.length === 1 ? "" : "s"} changed` });
+      setOpen(false);
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bulk edit failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setForm(EMPTY_FORM);
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <Edit className="h-4 w-4 mr-2" />
+          Edit {devices.length} device{devices.length === 1 ? "" : "s"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit {devices.length} device{devices.length === 1 ? "" : "s"}</DialogTitle>
+          <DialogDescription>
+            Only the fields you change are applied; everything else keeps its value on each device.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Device type</Label>
+            <Select value={form.deviceType} onValueChange={(deviceType) => setForm({ ...form, deviceType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CHANGE}>No change</SelectItem>
+                {DEVICE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Add to group</Label>
+              <NamedSelect value={form.addGroupId} onChange={(addGroupId) => setForm({ ...form, addGroupId })} items={groups} placeholder="No change" />
+            </div>
+            <div>
+              <Label>Remove from group</Label>
+              <NamedSelect value={form.removeGroupId} onChange={(removeGroupId) => setForm({ ...form, removeGroupId })} items={groups} placeholder="No change" />
+            </div>
+            <div>
+              <Label>Add tag</Label>
+              <NamedSelect value={form.addTagId} onChange={(addTagId) => setForm({ ...form, addTagId })} items={tags} placeholder="No change" />
+            </div>
+            <div>
+              <Label>Remove tag</Label>
+              <NamedSelect value={form.removeTagId} onChange={(removeTagId) => setForm({ ...form, removeTagId })} items={tags} placeholder="No change" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="bulk-replace-notes"
+                checked={form.replaceNotes}
+                onCheckedChange={(checked) => setForm({ ...form, replaceNotes: checked === true })}
+              />
+              <Label htmlFor="bulk-replace-notes">Replace notes</Label>
+            </div>
+            {form.replaceNotes && (
+              <Textarea
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="Leave empty to clear the notes"
+              />
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !hasChanges}>
+            {saveMutation.isPending ? "Saving..." : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { Fingerprint, Radar } from "lucide-react";
+
+interface DhcpLoggingStatus {
+  enabled: boolean;
+  active: boolean;
+  jffsConfigsEnabled: boolean;
+}
+
+interface IdentificationSummary {
+  fingerprints: number;
+  discovered: number;
+  renamed: number;
+  reclassified: number;
+}
+
+export default function DeviceIdentificationSettings() {
+  const { toast } = useToast();
+
+  const { data: logging, isLoading } = useQuery<DhcpLoggingStatus>({
+    queryKey: ["/api/device-identification/dhcp-logging"],
+    retry: false,
+  });
+
+  const loggingMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const res = await apiRequest("POST", "/api/device-identification/dhcp-logging", { enabled });
+      return await res.json() as DhcpLoggingStatus;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(["/api/device-identification/dhcp-logging"], status);
+      toast({
+        title: status.enabled ? "DHCP logging enabled" : "DHCP logging disabled",
+        description: "dnsmasq was restarted to apply the change",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to change DHCP logging", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/device-identification/run");
+      return await res.json() as IdentificationSummary;
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: "Discovery finished",
+        description: `${summary.fingerprints} DHCP fingerprints, ${summary.discovered} discovery answers; ${summary.renamed} renamed, ${summary.reclassified} reclassified`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Discovery failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Fingerprint className="h-5 w-5" />
+          <span>Device Identification</span>
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+          <Radar className="h-4 w-4 mr-2" />
+          {runMutation.isPending ? "Discovering..." : "Run Discovery Now"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !logging ? (
+          <p className="text-muted-foreground">Connect to the router to manage DHCP fingerprinting.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">DHCP request logging</span>
+                  {logging.enabled && !logging.active && <Badge variant="secondary">Pending restart</Badge>}
+                </div>
+                <p className="text-muted-foreground">
+                  Logs the options each device asks for, which identifies many phones, laptops and consoles.
+                </p>
+              </div>
+              <Switch
+                checked={logging.enabled}
+                disabled={loggingMutation.isPending || !logging.jffsConfigsEnabled}
+                onCheckedChange={(checked) => loggingMutation.mutate(checked)}
+              />
+            </div>
+            {!logging.jffsConfigsEnabled && (
+              <p className="text-muted-foreground">
+                Enable "JFFS custom scripts and configs" under Administration → System on the router to use DHCP logging.
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              mDNS, SSDP and NetBIOS discovery runs from this server, so it only finds devices when the server is on the same LAN.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ConnectedDevice, DeviceAttribute } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Fingerprint } from "lucide-react";
+
+interface Classification {
+  value: string;
+  source: string;
+  detail: string;
+}
+
+interface DeviceIdentificationData {
+  attributes: DeviceAttribute[];
+  classifiedBy: Classification | null;
+  os: Classification | null;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  dhcp: "DHCP",
+  mdns: "mDNS",
+  ssdp: "SSDP",
+  netbios: "NetBIOS",
+  oui: "Vendor",
+  hostname: "Hostname",
+  mac: "MAC",
+};
+
+const ATTRIBUTE_LABELS: Record<string, string> = {
+  name: "Name",
+  model: "Model",
+  manufacturer: "Manufacturer",
+  os: "Operating System",
+  services: "Services",
+  upnpDeviceType: "UPnP Type",
+  dhcpParameterList: "DHCP Options",
+  dhcpVendorClass: "DHCP Vendor Class",
+};
+
+function Reason({ label, classification }: { label: string; classification: Classification }) {
+  return (
+    <p className="text-sm">
+      {label} <span className="font-medium">{classification.value}</span> from{" "}
+      <Badge variant="outline">{SOURCE_LABELS[classification.source] ?? classification.source}</Badge>{" "}
+      <span className="text-muted-foreground break-all">({classification.detail})</span>
+    </p>
+  );
+}
+
+export default function DeviceIdentification({ device }: { device: ConnectedDevice }) {
+  const { data, isLoading } = useQuery<DeviceIdentificationData>({
+    queryKey: [`/api/devices/${device.id}/attributes`],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Fingerprint className="h-5 w-5 mr-2" />
+          Identification
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="space-y-1">
+              {data.classifiedBy ? (
+                <Reason label="Classified as" classification={data.classifiedBy} />
+              ) : (
+                <p className="text-sm text-muted-foreground">No signal matched a device type yet.</p>
+              )}
+              {data.os && <Reason label="Runs" classification={data.os} />}
+            </div>
+
+            {data.attributes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing observed yet. Attributes appear once DHCP logging is on or the device answers mDNS, SSDP or NetBIOS discovery.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {data.attributes.map((attribute) => (
+                  <div key={attribute.id} className="flex items-start justify-between gap-4 text-sm">
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {ATTRIBUTE_LABELS[attribute.attribute] ?? attribute.attribute}
+                    </span>
+                    <div className="flex items-center gap-2 text-right">
+                      <span className="break-all">{attribute.value}</span>
+                      <Badge variant="secondary">{SOURCE_LABELS[attribute.source] ?? attribute.source}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, routerHeaders, getErrorMessage } from "@/lib/queryClient";
+import { Download, FileJson, FileSpreadsheet, Upload } from "lucide-react";
+
+interface InventoryChange {
+  deviceId: number;
+  macAddress: string;
+  deviceName: string;
+  fields: { field: "name" | "deviceType" | "notes"; from: string | null; to: string | null }[];
+  addGroups: string[];
+  removeGroups: string[];
+  addTags: string[];
+  removeTags: string[];
+}
+
+interface InventoryPlan {
+  changes: InventoryChange[];
+  unchanged: number;
+  unmatched: string[];
+  newGroups: string[];
+  newTags: string[];
+  errors: string[];
+}
+
+const FIELD_LABELS = { name: "Name", deviceType: "Type", notes: "Notes" };
+
+async function postFile(url: string, content: string) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "text/plain", ...routerHeaders() },
+    body: content,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return await res.json();
+}
+
+// Export and import of the device inventory; an import is always previewed before it is applied
+export default function DeviceInventoryMenu() {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [content, setContent] = useState<string | null>(null);
+  const [plan, setPlan] = useState<InventoryPlan | null>(null);
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: "csv" | "json") => {
+      const response = await apiRequest("GET", `/api/devices/export?format=${format}`);
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? `devices.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const text = await file.text();
+      setContent(text);
+      return await postFile("/api/devices/import/preview", text) as InventoryPlan;
+    },
+    onSuccess: setPlan,
+    onError: (error: Error) => {
+      toast({ title: "Could not read the file", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => await postFile("/api/devices/import", content ?? "") as { updated: number },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/device-groups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/device-tags"] });
+      toast({ title: "Devices imported", description: `${result.updated} device${result.updated === 1 ? "" : "s"} updated` });
+      setPlan(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const canImport = hasRole("operator");
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title="Export or import devices" disabled={exportMutation.isPending || previewMutation.isPending}>
+            <Download className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => exportMutation.mutate("csv")}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportMutation.mutate("json")}>
+            <FileJson className="h-4 w-4 mr-2" />
+            Export JSON
+          </DropdownMenuItem>
+          {canImport && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => fileInput.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV or JSON...
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) previewMutation.mutate(file);
+          event.target.value = "";
+        }}
+      />
+
+      <Dialog open={plan !== null} onOpenChange={(open) => !open && setPlan(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import preview</DialogTitle>
+            <DialogDescription>
+              Devices are matched by MAC address. Columns left out of the file keep their current values.
+            </DialogDescription>
+          </DialogHeader>
+          {plan && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge>{plan.changes.length} to update</Badge>
+                <Badge variant="secondary">{plan.unchanged} unchanged</Badge>
+                {plan.unmatched.length > 0 && (
+                  <Badge variant="outline" title={plan.unmatched.join(", ")}>{plan.unmatched.length} not found on this router</Badge>
+                )}
+                {plan.newGroups.length > 0 && <Badge variant="outline">New groups: {plan.newGroups.join(", ")}</Badge>}
+                {plan.newTags.length > 0 && <Badge variant="outline">New tags: {plan.newTags.join(", ")}</Badge>}
+              </div>
+              {plan.errors.length > 0 && (
+                <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1 max-h-32 overflow-y-auto">
+                  {plan.errors.map((error) => <p key={error}>{error}</p>)}
+                </div>
+              )}
+              {plan.changes.length > 0 && (
+                <div className="max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Device</TableHead>
+                        <TableHead>Changes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.changes.map((change) => (
+                        <TableRow key={change.deviceId}>
+                          <TableCell>
+                            <div className="font-medium">{change.deviceName}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{change.macAddress}</div>
+                          </TableCell>
+                          <TableCell className="text-sm space-y-1">
+                            {change.fields.map(({ field, from, to }) => (
+                              <div key={field}>
+                                <span className="text-muted-foreground">{FIELD_LABELS[field]}:</span>{" "}
+                                <span className="line-through text-muted-foreground">{from || "—"}</span> → {to || "—"}
+                              </div>
+                            ))}
+                            {(change.addGroups.length > 0 || change.removeGroups.length > 0) && (
+                              <div>
+                                <span className="text-muted-foreground">Groups:</span>{" "}
+                                {change.addGroups.map(name => `+${name}`).concat(change.removeGroups.map(name => `−${name}`)).join(", ")}
+                              </div>
+                            )}
+                            {(change.addTags.length > 0 || change.removeTags.length > 0) && (
+                              <div>
+                                <span className="text-muted-foreground">Tags:</span>{" "}
+                                {change.addTags.map(name => `+${name}`).concat(change.removeTags.map(name => `−${name}`)).join(", ")}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlan(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={importMutation.isPending || !plan || plan.errors.length > 0 || plan.changes.length === 0}
+            >
+              {importMutation.isPending ? "Importing..." : `Apply ${plan?.changes.length ?? 0} change${plan?.changes.length === 1 ? "" : "s"}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
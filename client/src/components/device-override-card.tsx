@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { DeviceWithOverride, NameSource, NicknameStatus } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { DEVICE_TYPES } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, PenLine, RotateCcw } from "lucide-react";
+
+interface OverrideForm {
+  name: string;
+  deviceType: string;
+  icon: string;
+  owner: string;
+  notes: string;
+}
+
+// Select value for "nothing set here, use what the router reports"
+const FROM_ROUTER = "router";
+
+const NICKNAME_STATUS: Record<NicknameStatus, { label: string; className: string }> = {
+  synced: { label: "Same on router", className: "bg-green-500/20 text-green-400" },
+  pending: { label: "Not on router yet", className: "bg-blue-500/20 text-blue-400" },
+  conflict: { label: "Conflict", className: "bg-yellow-500/20 text-yellow-400" },
+};
+
+function lastEdited(device: DeviceWithOverride) {
+  const override = device.override;
+  if (!override?.updatedAt) return "Nothing set by hand yet";
+  const when = formatDistanceToNow(new Date(override.updatedAt), { addSuffix: true });
+  if (override.nameSource === "router") return `Name last edited on the router or in the ASUS app, imported ${when}`;
+  return `Last edited here ${when}${override.updatedBy ? ` by ${override.updatedBy}` : ""}`;
+}
+
+function formFor(device: DeviceWithOverride): OverrideForm {
+  return {
+    name: device.override?.name ?? "",
+    deviceType: device.override?.deviceType ?? FROM_ROUTER,
+    icon: device.override?.icon ?? FROM_ROUTER,
+    owner: device.override?.owner ?? "",
+    notes: device.override?.notes ?? "",
+  };
+}
+
+function TypeSelect({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled: boolean }) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={FROM_ROUTER}>As reported</SelectItem>
+        {DEVICE_TYPES.map(type => (
+          <SelectItem key={type} value={type}>{type}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Sync keeps rewriting what the router reports; the values set here sit on top and are never overwritten
+export default function DeviceOverrideCard({ device }: { device: DeviceWithOverride }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [form, setForm] = useState<OverrideForm>(() => formFor(device));
+  const canEdit = hasRole("operator");
+
+  // Only a saved change replaces what is being typed, not every refetch
+  const savedAt = device.override?.updatedAt ? String(device.override.updatedAt) : null;
+  useEffect(() => {
+    setForm(formFor(device));
+  }, [device.id, savedAt]);
+
+  const onSaved = (updated: DeviceWithOverride) => {
+    queryClient.setQueryData<DeviceWithOverride[]>(["/api/devices"], (devices) =>
+      devices?.map(existing => existing.id === updated.id ? updated : existing));
+    queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+    setForm(formFor(updated));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/devices/${device.id}/override`, {
+        name: form.name,
+        deviceType: form.deviceType === FROM_ROUTER ? null : form.deviceType,
+        icon: form.icon === FROM_ROUTER ? null : form.icon,
+        owner: form.owner,
+        notes: form.notes,
+      });
+      return await res.json() as DeviceWithOverride;
+    },
+    onSuccess: (updated) => {
+      onSaved(updated);
+      toast({ title: "Device updated", description: `${updated.name} keeps these values through every sync` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save device", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/devices/${device.id}/override`);
+      return await res.json() as DeviceWithOverride;
+    },
+    onSuccess: (updated) => {
+      onSaved(updated);
+      toast({ title: "Device reset", description: `${updated.name} shows what the router reports again` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reset device", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (keep: NameSource) => {
+      const res = await apiRequest("POST", `/api/devices/${device.id}/override/resolve`, { keep });
+      return await res.json() as DeviceWithOverride;
+    },
+    onSuccess: (updated) => {
+      onSaved(updated);
+      toast({ title: "Conflict resolved", description: `${updated.name} is the name on both sides now` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to resolve conflict", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const rows = [
+    {
+      label: "Name",
+      reported: device.reportedName,
+      input: <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder={device.reportedName} disabled={!canEdit} maxLength={64} />,
+    },
+    {
+      label: "Type",
+      reported: device.reportedDeviceType,
+      input: <TypeSelect value={form.deviceType} onChange={(deviceType) => setForm({ ...form, deviceType })} disabled={!canEdit} />,
+    },
+    {
+      label: "Icon",
+      reported: device.reportedDeviceType,
+      input: <TypeSelect value={form.icon} onChange={(icon) => setForm({ ...form, icon })} disabled={!canEdit} />,
+    },
+    {
+      label: "Owner",
+      reported: null,
+      input: <Input value={form.owner} onChange={(e) => setForm({ ...form, owner: e.target.value })} placeholder="Nobody" disabled={!canEdit} maxLength={64} />,
+    },
+  ];
+  const isDirty = JSON.stringify(form) !== JSON.stringify(formFor(device));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <PenLine className="h-5 w-5 mr-2" />
+          Name and Ownership
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {device.nicknameStatus === "conflict" && (
+          <div className="rounded-md border border-yellow-500/50 p-3 text-sm space-y-2">
+            <p className="flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 text-yellow-500 mt-0.5 shrink-0" />
+              <span>
+                The router's client list now calls this device <span className="font-medium">"{device.override?.routerName || "nothing"}"</span>,
+                but <span className="font-medium">"{device.override?.name || device.reportedName}"</span> set here had not reached the router yet.
+              </span>
+            </p>
+            {canEdit && (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => resolveMutation.mutate("app")} disabled={resolveMutation.isPending}>
+                  Keep this name
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => resolveMutation.mutate("router")} disabled={resolveMutation.isPending}>
+                  Use the router's
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+        <div className="grid grid-cols-[5rem_1fr_1fr] gap-x-4 gap-y-2 items-center">
+          <span />
+          <p className="text-sm font-medium text-muted-foreground">Router reports</p>
+          <p className="text-sm font-medium text-muted-foreground">Custom</p>
+          {rows.map(row => (
+            <div key={row.label} className="contents">
+              <p className="text-sm font-medium text-muted-foreground">{row.label}</p>
+              <p className="text-sm truncate" title={row.reported ?? undefined}>{row.reported ?? "—"}</p>
+              {row.input}
+            </div>
+          ))}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Notes</p>
+          <Textarea
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="Where it is, what it is for..."
+            disabled={!canEdit}
+            maxLength={2000}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {device.nicknameStatus && (
+              <Badge className={NICKNAME_STATUS[device.nicknameStatus].className}>{NICKNAME_STATUS[device.nicknameStatus].label}</Badge>
+            )}
+            <span>{lastEdited(device)}</span>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending || !device.override}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !isDirty}>
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ConnectedDevice, DeviceSession } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { History } from "lucide-react";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+interface Segment {
+  start: number;
+  end: number;
+  session: DeviceSession;
+}
+
+function startOfDay(time: number) {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Splits sessions into per-day segments for the timeline and sums the minutes online for
+// each weekday and hour of the day, all in local time
+function summarize(sessions: DeviceSession[], days: number) {
+  const now = Date.now();
+  const firstDay = startOfDay(now) - (days - 1) * DAY_MS;
+  const rows = Array.from({ length: days }, (_, index) => ({ day: firstDay + index * DAY_MS, segments: [] as Segment[] }));
+  const heatmap = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+
+  for (const session of sessions) {
+    const start = Math.max(new Date(session.startedAt).getTime(), firstDay);
+    const end = session.endedAt ? new Date(session.endedAt).getTime() : now;
+
+    for (let cursor = start; cursor < end;) {
+      const hour = new Date(cursor);
+      hour.setMinutes(0, 0, 0);
+      const hourEnd = Math.min(hour.getTime() + HOUR_MS, end);
+      heatmap[(hour.getDay() + 6) % 7][hour.getHours()] += (hourEnd - cursor) / 60000;
+      cursor = hourEnd;
+    }
+
+    rows.forEach(row => {
+      const segmentStart = Math.max(start, row.day);
+      const segmentEnd = Math.min(end, row.day + DAY_MS);
+      if (segmentEnd > segmentStart) row.segments.push({ start: segmentStart, end: segmentEnd, session });
+    });
+  }
+
+  return { rows: rows.reverse(), heatmap };
+}
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export default function DevicePresence({ device }: { device: ConnectedDevice }) {
+  const [days, setDays] = useState(7);
+
+  const { data: sessions, isLoading } = useQuery<DeviceSession[]>({
+    queryKey: [`/api/devices/${device.id}/sessions?days=${days}`],
+    refetchInterval: 60000,
+  });
+
+  const { rows, heatmap } = summarize(sessions ?? [], days);
+  const busiestHour = Math.max(1, ...heatmap.flat());
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Presence History
+        </CardTitle>
+        <Tabs value={String(days)} onValueChange={(value) => setDays(parseInt(value))}>
+          <TabsList>
+            <TabsTrigger value="7">7d</TabsTrigger>
+            <TabsTrigger value="30">30d</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-56 w-full" />
+        ) : sessions && sessions.length > 0 ? (
+          <>
+            <TooltipProvider>
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-muted-foreground mb-2">Timeline</p>
+                {rows.map(row => (
+                  <div key={row.day} className="flex items-center gap-3">
+                    <span className="w-20 shrink-0 text-xs text-muted-foreground">
+                      {new Date(row.day).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })}
+                    </span>
+                    <div className="relative h-3 flex-1 rounded bg-muted overflow-hidden">
+                      {row.segments.map(segment => (
+                        <Tooltip key={`${segment.session.id}-${segment.start}`}>
+                          <TooltipTrigger asChild>
+                            <div
+                              className="absolute inset-y-0 bg-green-500"
+                              style={{
+                                left: `${((segment.start - row.day) / DAY_MS) * 100}%`,
+                                width: `${Math.max(((segment.end - segment.start) / DAY_MS) * 100, 0.3)}%`,
+                              }}
+                            />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{formatTime(segment.start)} – {segment.session.endedAt || segment.end < Date.now() - 60000 ? formatTime(segment.end) : "now"}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {[segment.session.aimeshNode, segment.session.wirelessBand ?? segment.session.connectionType].filter(Boolean).join(" · ")}
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between pl-[5.75rem] text-xs text-muted-foreground">
+                  <span>00:00</span>
+                  <span>06:00</span>
+                  <span>12:00</span>
+                  <span>18:00</span>
+                  <span>24:00</span>
+                </div>
+              </div>
+            </TooltipProvider>
+
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-2">Activity by hour</p>
+              <div className="space-y-1">
+                {heatmap.map((hours, weekday) => (
+                  <div key={WEEKDAYS[weekday]} className="flex items-center gap-3">
+                    <span className="w-20 shrink-0 text-xs text-muted-foreground">{WEEKDAYS[weekday]}</span>
+                    <div className="grid flex-1 gap-0.5" style={{ gridTemplateColumns: "repeat(24, minmax(0, 1fr))" }}>
+                      {hours.map((minutes, hour) => (
+                        <div
+                          key={hour}
+                          title={`${WEEKDAYS[weekday]} ${String(hour).padStart(2, "0")}:00 – ${Math.round(minutes)} min online`}
+                          className="h-4 rounded-sm bg-green-500"
+                          style={{ opacity: minutes > 0 ? 0.15 + (minutes / busiestHour) * 0.85 : 0.05 }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">
+            No presence recorded yet; sessions are tracked from the next device sync
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
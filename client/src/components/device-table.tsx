@@ -1,16 +1,24 @@
 import { useQuery } from "@tanstack/react-query";
-import type { ConnectedDevice } from "@shared/schema";
+import type { DeviceWithOverride, DhcpReservation } from "@shared/schema";
 import { useSearch } from "@/hooks/use-search";
+import { useAuth } from "@/hooks/use-auth";
+import { useLiveConnected } from "@/hooks/use-live-updates";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { RefreshCw, Search, Laptop, Smartphone, Monitor, Tv, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { RefreshCw, Search, Laptop, Smartphone, Monitor, Tv, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { getDeviceIcon, getDeviceColorClass, formatMacAddress } from "@/lib/utils";
 import { Link } from "wouter";
 import { useState } from "react";
+import DeviceBlockMenu, { RestrictionBadge } from "@/components/device-block-menu";
+import DhcpReservationDialog from "@/components/dhcp-reservation-dialog";
+import WakeMenu from "@/components/wake-menu";
+import DeviceInventoryMenu from "@/components/device-inventory-menu";
+import DeviceBulkEditDialog from "@/components/device-bulk-edit-dialog";
 
 interface DeviceTableProps {
   className?: string;
@@ -41,12 +49,23 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
   const { searchQuery, setSearchQuery } = useSearch();
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const live = useLiveConnected();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("operator");
 
-  const { data: devices, isLoading, refetch } = useQuery<ConnectedDevice[]>({
+  const { data: devices, isLoading, refetch } = useQuery<DeviceWithOverride[]>({
     queryKey: ["/api/devices"],
-    refetchInterval: 2000, // Fast progressive loading - refresh every 2 seconds
+    // Joins and leaves are pushed while live; otherwise refresh every 2 seconds for progressive loading
+    refetchInterval: live ? 60000 : 2000,
   });
 
+  const { data: reservations } = useQuery<DhcpReservation[]>({
+    queryKey: ["/api/dhcp-reservations"],
+    refetchInterval: 60000,
+  });
+  const reservationsByMac = new Map(reservations?.map(reservation => [reservation.macAddress, reservation]));
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -65,7 +84,8 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
     ?.filter(device =>
       device.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       device.ipAddress.includes(searchQuery) ||
-      device.macAddress.toLowerCase().includes(searchQuery.toLowerCase())
+      device.macAddress.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (device.vendor?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false)
     )
     .sort((a, b) => {
       let comparison = 0;
@@ -90,6 +110,17 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
       return sortDirection === 'asc' ? comparison : -comparison;
     }) || [];
 
+  // Devices that dropped out of the list or the search are no longer part of the selection
+  const selectedDevices = filteredAndSortedDevices.filter(device => selectedIds.has(device.id));
+  const allSelected = filteredAndSortedDevices.length > 0 && selectedDevices.length === filteredAndSortedDevices.length;
+
+  const toggleSelected = (id: number, selected: boolean) => {
+    const next = new Set(selectedIds);
+    if (selected) next.add(id);
+    else next.delete(id);
+    setSelectedIds(next);
+  };
+
   if (isLoading) {
     return (
       <Card className={className}>
@@ -123,6 +154,7 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
                 />
               </div>
             )}
+            <DeviceInventoryMenu />
             <Button
               variant="ghost"
               size="icon"
@@ -132,6 +164,17 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
             </Button>
           </div>
         </div>
+        {selectedDevices.length > 0 && (
+          <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 mt-2">
+            <span className="text-sm">{selectedDevices.length} selected</span>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                Clear
+              </Button>
+              <DeviceBulkEditDialog devices={selectedDevices} onDone={() => setSelectedIds(new Set())} />
+            </div>
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         {filteredAndSortedDevices.length === 0 ? (
@@ -143,6 +186,16 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
             <Table>
               <TableHeader>
                 <TableRow>
+                  {canEdit && (
+                    <TableHead className="w-8">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(checked === true ? new Set(filteredAndSortedDevices.map(device => device.id)) : new Set())}
+                        aria-label="Select all devices"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead>
                     <Button
                       variant="ghost"
@@ -165,6 +218,7 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
                       {getSortIcon('ipAddress')}
                     </Button>
                   </TableHead>
+                  <TableHead>Vendor</TableHead>
                   <TableHead>
                     <Button
                       variant="ghost"
@@ -191,53 +245,94 @@ export default function DeviceTable({ className, showSearch = true }: DeviceTabl
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredAndSortedDevices.map((device) => (
-                  <TableRow key={device.id} className="hover:bg-muted/50 cursor-pointer">
-                    <TableCell>
-                      <Link href={`/devices/${device.id}`}>
-                        <a className="flex items-center space-x-3 w-full">
-                          <div className={`device-icon ${getDeviceColorClass(device.deviceType)}`}>
-                            <DeviceIcon type={device.deviceType} />
-                          </div>
-                          <div>
-                            <div className="font-medium">{device.name}</div>
-                            <div className="text-sm text-muted-foreground font-mono">
-                              {formatMacAddress(device.macAddress)}
+                {filteredAndSortedDevices.map((device) => {
+                  const reservation = reservationsByMac.get(formatMacAddress(device.macAddress));
+                  return (
+                    <TableRow key={device.id} className="hover:bg-muted/50 cursor-pointer" data-state={selectedIds.has(device.id) ? "selected" : undefined}>
+                      {canEdit && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(device.id)}
+                            onCheckedChange={(checked) => toggleSelected(device.id, checked === true)}
+                            aria-label={`Select ${device.name}`}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Link href={`/devices/${device.id}`}>
+                          <a className="flex items-center space-x-3 w-full">
+                            <div className={`device-icon ${getDeviceColorClass(device.icon ?? device.deviceType)}`}>
+                              <DeviceIcon type={device.icon ?? device.deviceType} />
+                            </div>
+                            <div>
+                              <div className="font-medium flex items-center gap-1">
+                                {device.name}
+                                {device.nicknameStatus === "conflict" && (
+                                  <AlertTriangle className="h-3 w-3 text-yellow-500" aria-label="Renamed both here and on the router" />
+                                )}
+                              </div>
+                              <div className="text-sm text-muted-foreground font-mono">
+                                {formatMacAddress(device.macAddress)}
+                              </div>
                             </div>
+                          </a>
+                        </Link>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {device.ipAddress}
+                        {reservation && (
+                          <div className="mt-1">
+                            <Badge variant="outline" className="font-sans" title={`Reserved: ${reservation.ipAddress}`}>
+                              Reserved{reservation.ipAddress !== device.ipAddress ? ` ${reservation.ipAddress}` : ""}
+                            </Badge>
                           </div>
-                        </a>
-                      </Link>
-                    </TableCell>
-                    <TableCell className="font-mono text-sm">
-                      {device.ipAddress}
-                    </TableCell>
-                    <TableCell>
-                      <Badge 
-                        variant={device.isOnline ? "default" : "secondary"}
-                        className={device.isOnline ? "bg-green-500 hover:bg-green-600" : "bg-red-500 hover:bg-red-600"}
-                      >
-                        {device.isOnline ? "Online" : "Offline"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-sm">
-                      {device.isOnline ? (
-                        <div className="space-y-1">
-                          <div>↓ {device.downloadSpeed ? device.downloadSpeed.toFixed(1) : "0"} MB/s</div>
-                          <div>↑ {device.uploadSpeed ? device.uploadSpeed.toFixed(1) : "0"} MB/s</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {device.isRandomizedMac ? (
+                          <Badge variant="outline" title="Locally administered address; the vendor cannot be looked up">
+                            Private MAC
+                          </Badge>
+                        ) : (
+                          <span className={device.vendor ? "" : "text-muted-foreground"}>{device.vendor || "Unknown"}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge 
+                          variant={device.isOnline ? "default" : "secondary"}
+                          className={device.isOnline ? "bg-green-500 hover:bg-green-600" : "bg-red-500 hover:bg-red-600"}
+                        >
+                          {device.isOnline ? "Online" : "Offline"}
+                        </Badge>
+                        <div className="mt-1">
+                          <RestrictionBadge device={device} />
                         </div>
-                      ) : (
-                        <span className="text-muted-foreground">0 MB/s</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <Link href={`/devices/${device.id}`}>
-                        <a>
-                          <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                        </a>
-                      </Link>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {device.isOnline ? (
+                          <div className="space-y-1">
+                            <div>↓ {device.downloadSpeed ? device.downloadSpeed.toFixed(1) : "0"} MB/s</div>
+                            <div>↑ {device.uploadSpeed ? device.uploadSpeed.toFixed(1) : "0"} MB/s</div>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">0 MB/s</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end space-x-2">
+                          {!device.isOnline && <WakeMenu target={{ type: "device", device }} size="icon" />}
+                          <DhcpReservationDialog device={device} reservation={reservation} size="icon" />
+                          <DeviceBlockMenu device={device} size="icon" />
+                          <Link href={`/devices/${device.id}`}>
+                            <a>
+                              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                            </a>
+                          </Link>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { ConnectedDevice, DhcpReservation, InsertDhcpReservation } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { formatMacAddress } from "@/lib/utils";
+import { Bookmark, Edit, Plus } from "lucide-react";
+
+interface DhcpReservationDialogProps {
+  // Editing an existing reservation, or reserving for a device row; neither means a blank form
+  reservation?: DhcpReservation;
+  device?: ConnectedDevice;
+  size?: "sm" | "icon";
+}
+
+// Device names often contain spaces and apostrophes that are not valid in a hostname
+function toHostname(name: string) {
+  return name.replace(/['’]/g, "").replace(/[^A-Za-z0-9-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 32);
+}
+
+function initialForm(reservation?: DhcpReservation, device?: ConnectedDevice): InsertDhcpReservation {
+  if (reservation) {
+    return {
+      macAddress: reservation.macAddress,
+      ipAddress: reservation.ipAddress,
+      hostname: reservation.hostname ?? "",
+      dnsServer: reservation.dnsServer ?? "",
+    };
+  }
+  return {
+    macAddress: device ? formatMacAddress(device.macAddress) : "",
+    ipAddress: device?.ipAddress ?? "",
+    hostname: device ? toHostname(device.name) : "",
+    dnsServer: "",
+  };
+}
+
+export default function DhcpReservationDialog({ reservation, device, size = "sm" }: DhcpReservationDialogProps) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<InsertDhcpReservation>(() => initialForm(reservation, device));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: InsertDhcpReservation) => {
+      const res = reservation
+        ? await apiRequest("PUT", `/api/dhcp-reservations/${reservation.id}`, values)
+        : await apiRequest("POST", "/api/dhcp-reservations", values);
+      return await res.json() as DhcpReservation[];
+    },
+    onSuccess: (reservations) => {
+      queryClient.setQueryData(["/api/dhcp-reservations"], reservations);
+      toast({
+        title: reservation ? "Reservation updated" : "Address reserved",
+        description: `${form.hostname || form.macAddress} always gets ${form.ipAddress}; dnsmasq was restarted to apply it`,
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      // Conflicts come back as a list so every problem can be fixed in one go
+      try {
+        const body = JSON.parse(error.message.replace(/^\d+:\s*/, ""));
+        if (Array.isArray(body.errors)) {
+          setErrors(body.errors);
+          return;
+        }
+      } catch {
+        // Not a validation response; fall through to the toast
+      }
+      toast({ title: "Failed to save reservation", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!hasRole("operator")) return null;
+
+  const title = reservation ? "Edit DHCP Reservation" : device ? `Reserve IP for ${device.name}` : "Add DHCP Reservation";
+  const Icon = reservation ? Edit : device ? Bookmark : Plus;
+  const iconOnly = size === "icon" || !!reservation;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) {
+          setForm(initialForm(reservation, device));
+          setErrors([]);
+        }
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant={iconOnly ? "ghost" : "default"}
+          size={iconOnly ? "icon" : "sm"}
+          onClick={(event) => event.stopPropagation()}
+          title={reservation ? "Edit reservation" : "Reserve IP address"}
+        >
+          <Icon className={`h-4 w-4 ${iconOnly ? "" : "mr-2"}`} />
+          {!iconOnly && (device ? "Reserve IP" : "Add Reservation")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md" onClick={(event) => event.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            The router always hands this address to the device. Saving writes dhcp_staticlist and restarts dnsmasq.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="reservation-mac">MAC Address</Label>
+              <Input
+                id="reservation-mac"
+                className="font-mono"
+                value={form.macAddress}
+                onChange={(e) => setForm({ ...form, macAddress: e.target.value })}
+                placeholder="AA:BB:CC:DD:EE:FF"
+                disabled={!!device && !reservation}
+              />
+            </div>
+            <div>
+              <Label htmlFor="reservation-ip">IP Address</Label>
+              <Input
+                id="reservation-ip"
+                className="font-mono"
+                value={form.ipAddress}
+                onChange={(e) => setForm({ ...form, ipAddress: e.target.value })}
+                placeholder="192.168.1.100"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="reservation-hostname">Hostname</Label>
+              <Input
+                id="reservation-hostname"
+                value={form.hostname ?? ""}
+                onChange={(e) => setForm({ ...form, hostname: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <Label htmlFor="reservation-dns">DNS Server</Label>
+              <Input
+                id="reservation-dns"
+                className="font-mono"
+                value={form.dnsServer ?? ""}
+                onChange={(e) => setForm({ ...form, dnsServer: e.target.value })}
+                placeholder="Router default"
+              />
+            </div>
+          </div>
+          {errors.length > 0 && (
+            <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1">
+              {errors.map((error) => <p key={error}>{error}</p>)}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              setErrors([]);
+              saveMutation.mutate({
+                ...form,
+                hostname: form.hostname || null,
+                dnsServer: form.dnsServer || null,
+              });
+            }}
+            disabled={saveMutation.isPending || !form.macAddress || !form.ipAddress}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Reservation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { PASSPHRASE_SECURITY_MODES, WIFI_SECURITY_MODES, WIFI_SECURITY_MODES_6GHZ, formatTimeLeft } from "@/lib/utils";
+
+export interface GuestNetwork {
+  interface: string;
+  unit: number;
+  band: string;
+  label: string;
+  enabled: boolean;
+  ssid: string;
+  securityMode: string;
+  accessDuration: number;
+  remainingSeconds: number | null;
+  lanAccess: boolean;
+  downloadLimit: number | null;
+  uploadLimit: number | null;
+  clients: number;
+}
+
+interface GuestForm {
+  ssid: string;
+  securityMode: string;
+  password: string;
+  accessDuration: string;
+  lanAccess: boolean;
+  // Mbit/s as typed, empty for no cap
+  downloadLimit: string;
+  uploadLimit: string;
+}
+
+const ACCESS_DURATIONS = [
+  { value: "0", label: "No limit" },
+  { value: String(60 * 60), label: "1 hour" },
+  { value: String(2 * 60 * 60), label: "2 hours" },
+  { value: String(4 * 60 * 60), label: "4 hours" },
+  { value: String(8 * 60 * 60), label: "8 hours" },
+  { value: String(24 * 60 * 60), label: "1 day" },
+  { value: String(7 * 24 * 60 * 60), label: "1 week" },
+];
+
+const toMbps = (kbps: number | null) => kbps ? String(kbps / 1000) : "";
+const toKbps = (mbps: string) => mbps.trim() ? Math.round(parseFloat(mbps) * 1000) || null : null;
+
+function formFor(guest: GuestNetwork): GuestForm {
+  return {
+    ssid: guest.ssid,
+    securityMode: guest.enabled ? guest.securityMode : guest.band === "6GHz" ? "WPA3" : "WPA2",
+    password: "",
+    accessDuration: String(guest.accessDuration),
+    lanAccess: guest.lanAccess,
+    downloadLimit: toMbps(guest.downloadLimit),
+    uploadLimit: toMbps(guest.uploadLimit),
+  };
+}
+
+// Switches a guest network on or edits one that is on. Saving restarts wireless, so every
+// client of that radio drops for a moment.
+export default function GuestNetworkDialog({ guest, onClose }: { guest: GuestNetwork; onClose: () => void }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<GuestForm>(() => formFor(guest));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/wifi/guests/${guest.interface}`, {
+        enabled: true,
+        ssid: form.ssid,
+        securityMode: form.securityMode,
+        ...(form.password && { password: form.password }),
+        accessDuration: Number(form.accessDuration),
+        lanAccess: form.lanAccess,
+        downloadLimit: toKbps(form.downloadLimit),
+        uploadLimit: toKbps(form.uploadLimit),
+      });
+      return await res.json() as GuestNetwork;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wifi/guests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wifi"] });
+      toast({ title: "Guest network saved", description: `${saved.ssid} is on${saved.remainingSeconds ? ` for ${formatTimeLeft(saved.remainingSeconds)}` : ""}` });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save guest network", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const securityModes = guest.band === "6GHz" ? WIFI_SECURITY_MODES_6GHZ : WIFI_SECURITY_MODES;
+  const usesPassword = PASSPHRASE_SECURITY_MODES.includes(form.securityMode);
+  // A slot switched off before keeps the password it had
+  const needsPassword = usesPassword && !PASSPHRASE_SECURITY_MODES.includes(guest.securityMode);
+  const durations = ACCESS_DURATIONS.some(duration => duration.value === form.accessDuration)
+    ? ACCESS_DURATIONS
+    : [...ACCESS_DURATIONS, { value: form.accessDuration, label: formatTimeLeft(Number(form.accessDuration)) }];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{guest.enabled ? "Edit" : "Turn on"} {guest.label} guest network</DialogTitle>
+          <DialogDescription>
+            Saving restarts wireless on the router, so connected clients drop for a few seconds.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="guest-ssid">Network name</Label>
+            <Input id="guest-ssid" value={form.ssid} onChange={(e) => setForm({ ...form, ssid: e.target.value })} maxLength={32} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Security</Label>
+              <Select value={form.securityMode} onValueChange={(securityMode) => setForm({ ...form, securityMode })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {securityModes.map(mode => (
+                    <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="guest-password">Password</Label>
+              <Input
+                id="guest-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                placeholder={needsPassword ? "Required" : "Unchanged"}
+                disabled={!usesPassword}
+                maxLength={64}
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Access time</Label>
+            <Select value={form.accessDuration} onValueChange={(accessDuration) => setForm({ ...form, accessDuration })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {durations.map(duration => (
+                  <SelectItem key={duration.value} value={duration.value}>{duration.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">The router turns the network off when the time is up. Changing it starts the timer again.</p>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="guest-lan-access">Access to the home network</Label>
+              <p className="text-xs text-muted-foreground">Lets guests reach printers, shares and other devices on the LAN</p>
+            </div>
+            <Switch id="guest-lan-access" checked={form.lanAccess} onCheckedChange={(lanAccess) => setForm({ ...form, lanAccess })} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="guest-download">Download cap (Mbps)</Label>
+              <Input
+                id="guest-download"
+                type="number"
+                min="0"
+                step="0.1"
+                value={form.downloadLimit}
+                onChange={(e) => setForm({ ...form, downloadLimit: e.target.value })}
+                placeholder="No cap"
+              />
+            </div>
+            <div>
+              <Label htmlFor="guest-upload">Upload cap (Mbps)</Label>
+              <Input
+                id="guest-upload"
+                type="number"
+                min="0"
+                step="0.1"
+                value={form.uploadLimit}
+                onChange={(e) => setForm({ ...form, uploadLimit: e.target.value })}
+                placeholder="No cap"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.ssid.trim() || (needsPassword && !form.password)}
+          >
+            {saveMutation.isPending ? "Applying..." : guest.enabled ? "Save" : "Turn on"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { formatTimeLeft } from "@/lib/utils";
+import GuestNetworkDialog, { type GuestNetwork } from "@/components/guest-network-dialog";
+import { AlertTriangle, Clock, Edit, Gauge, Power, QrCode, Users } from "lucide-react";
+
+function formatCap(kbps: number | null) {
+  return kbps ? `${kbps / 1000} Mbps` : "no cap";
+}
+
+// Every guest slot on every radio, grouped by radio; the counts and timers refresh while open
+export default function GuestNetworksPanel() {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<GuestNetwork | null>(null);
+  const canEdit = hasRole("operator");
+
+  const { data: guests, isLoading, error } = useQuery<GuestNetwork[]>({
+    queryKey: ["/api/wifi/guests"],
+    refetchInterval: 15000,
+    retry: false,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (guest: GuestNetwork) => {
+      const res = await apiRequest("PUT", `/api/wifi/guests/${guest.interface}`, { enabled: false });
+      return await res.json() as GuestNetwork;
+    },
+    onSuccess: (guest) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wifi/guests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wifi"] });
+      toast({ title: "Guest network off", description: `${guest.ssid} no longer accepts clients` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to turn off guest network", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (error) {
+    return (
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{getErrorMessage(error)}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const radios = Array.from(new Set((guests ?? []).map(guest => guest.label)));
+
+  return (
+    <div className="space-y-6">
+      {radios.map(label => (
+        <Card key={label}>
+          <CardHeader>
+            <CardTitle className="text-base">{label} guest networks</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(guests ?? []).filter(guest => guest.label === label).map(guest => (
+              <div key={guest.interface} className="flex flex-col md:flex-row md:items-center justify-between gap-3 rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{guest.enabled ? guest.ssid : "Off"}</span>
+                    <Badge variant="outline" className="font-mono text-xs">{guest.interface}</Badge>
+                    {guest.enabled && <Badge className="bg-green-500/20 text-green-400">On</Badge>}
+                  </div>
+                  {guest.enabled && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {guest.clients} client{guest.clients === 1 ? "" : "s"}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {guest.remainingSeconds !== null ? `${formatTimeLeft(guest.remainingSeconds)} left` : "No time limit"}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Gauge className="h-3 w-3" />
+                        ↓ {formatCap(guest.downloadLimit)} · ↑ {formatCap(guest.uploadLimit)}
+                      </span>
+                      <span>{guest.securityMode}</span>
+                      <span>{guest.lanAccess ? "Can reach the home network" : "Internet only"}</span>
+                    </div>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    {guest.enabled && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/wifi/guests/${guest.interface}/print`} target="_blank" rel="noreferrer">
+                          <QrCode className="h-4 w-4 mr-1" />
+                          QR code
+                        </a>
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => setEditing(guest)}>
+                      {guest.enabled ? <Edit className="h-4 w-4 mr-1" /> : <Power className="h-4 w-4 mr-1" />}
+                      {guest.enabled ? "Edit" : "Turn on"}
+                    </Button>
+                    {guest.enabled && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => disableMutation.mutate(guest)}
+                        disabled={disableMutation.isPending}
+                      >
+                        <Power className="h-4 w-4 mr-1" />
+                        Turn off
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+      {editing && <GuestNetworkDialog key={editing.interface} guest={editing} onClose={() => setEditing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { NvramChangeSet } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { History, ChevronDown, ChevronRight, Play, X, Plus } from "lucide-react";
+
+interface NvramDiffEntry {
+  key: string;
+  before: string | null;
+  after: string;
+  changed: boolean;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  staged: "bg-blue-500/20 text-blue-400",
+  applying: "bg-yellow-500/20 text-yellow-400",
+  applied: "bg-green-500/20 text-green-400",
+  rolled_back: "bg-orange-500/20 text-orange-400",
+  failed: "bg-red-500/20 text-red-400",
+  discarded: "bg-muted text-muted-foreground",
+};
+
+// "key=value" per line; values may themselves contain "="
+function parseChangeLines(text: string): Record<string, string> {
+  return Object.fromEntries(
+    text
+      .split("\n")
+      .map(line => line.trim())
+      .filter(line => line.includes("="))
+      .map(line => [line.slice(0, line.indexOf("=")).trim(), line.slice(line.indexOf("=") + 1)]),
+  );
+}
+
+function ChangeSetDiff({ changeSet }: { changeSet: NvramChangeSet }) {
+  const { data: diff, isLoading, error } = useQuery<NvramDiffEntry[]>({
+    queryKey: [`/api/nvram/change-sets/${changeSet.id}/preview`],
+  });
+
+  if (isLoading) {
+    return <div className="text-muted-foreground">Reading current values...</div>;
+  }
+  if (error) {
+    return <div className="text-red-400">{getErrorMessage(error as Error) || "Failed to load diff"}</div>;
+  }
+
+  return (
+    <div className="border border-border rounded divide-y divide-border font-mono">
+      {diff?.map((entry) => (
+        <div key={entry.key} className="p-2 space-y-1">
+          <div className="text-foreground">{entry.key}{!entry.changed && <span className="text-muted-foreground"> (unchanged)</span>}</div>
+          <div className="text-red-400 break-all">- {entry.before ?? "(not read)"}</div>
+          <div className="text-green-400 break-all">+ {entry.after}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function NvramChangeSets() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("admin");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [description, setDescription] = useState("");
+  const [changesText, setChangesText] = useState("");
+  const [services, setServices] = useState("");
+
+  const { data: changeSets } = useQuery<NvramChangeSet[]>({
+    queryKey: ["/api/nvram/change-sets"],
+    refetchInterval: 15000,
+  });
+
+  const showError = (fallback: string) => (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+    toast({
+      title: "Error",
+      description: getErrorMessage(error) || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const stageMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/nvram/change-sets", {
+        description,
+        changes: parseChangeLines(changesText),
+        services: services.split(/[\s,]+/).filter(Boolean),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+      setDescription("");
+      setChangesText("");
+      setServices("");
+      toast({
+        title: "Changes Staged",
+        description: "Review the diff before applying",
+      });
+    },
+    onError: showError("Failed to stage changes"),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/nvram/change-sets/${id}/apply`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+      toast({
+        title: "Changes Applied",
+        description: "The router came back healthy with the new values",
+      });
+    },
+    onError: showError("Failed to apply changes"),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/nvram/change-sets/${id}/discard`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+    },
+    onError: showError("Failed to discard changes"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>NVRAM Changes</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border border-border rounded-lg max-h-96 overflow-y-auto divide-y divide-border">
+          {changeSets && changeSets.length > 0 ? (
+            changeSets.map((changeSet) => {
+              const isExpanded = expandedId === changeSet.id;
+              return (
+                <div key={changeSet.id} className="text-xs">
+                  <div className="flex items-center gap-3 p-2 hover:bg-accent">
+                    <button
+                      type="button"
+                      className="flex flex-1 items-center gap-3 text-left min-w-0"
+                      onClick={() => setExpandedId(isExpanded ? null : changeSet.id)}
+                    >
+                      {isExpanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+                      <span className="text-muted-foreground w-36 shrink-0">
+                        {changeSet.createdAt ? new Date(changeSet.createdAt).toLocaleString() : ""}
+                      </span>
+                      <span className="font-medium w-20 shrink-0 truncate">{changeSet.createdBy}</span>
+                      <span className="flex-1 truncate">{changeSet.description}</span>
+                    </button>
+                    {changeSet.status === "staged" && isAdmin && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 px-2"
+                          onClick={() => applyMutation.mutate(changeSet.id)}
+                          disabled={applyMutation.isPending}
+                        >
+                          <Play className="h-3 w-3 mr-1" />
+                          {applyMutation.isPending && applyMutation.variables === changeSet.id ? "Applying..." : "Apply"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2"
+                          onClick={() => discardMutation.mutate(changeSet.id)}
+                          disabled={discardMutation.isPending}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                    <Badge className={`${STATUS_COLORS[changeSet.status] || ""} shrink-0`}>
+                      {changeSet.status.replace("_", " ")}
+                    </Badge>
+                  </div>
+                  {isExpanded && (
+                    <div className="px-8 pb-3 space-y-2">
+                      {changeSet.errorMessage && <div className="text-red-400">{changeSet.errorMessage}</div>}
+                      <ChangeSetDiff changeSet={changeSet} />
+                      {JSON.parse(changeSet.services).length > 0 && (
+                        <div className="text-muted-foreground">
+                          Services: <span className="font-mono text-foreground">{JSON.parse(changeSet.services).join(", ")}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <div className="text-muted-foreground text-center py-8 text-sm">
+              No NVRAM changes have been made from here yet
+            </div>
+          )}
+        </div>
+
+        {isAdmin && (
+          <div className="space-y-3 pt-4 border-t border-border">
+            <Input
+              placeholder="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <Textarea
+              placeholder={"One key=value per line, e.g.\nwl0_ssid=MyNetwork"}
+              value={changesText}
+              onChange={(e) => setChangesText(e.target.value)}
+              className="font-mono text-xs"
+              rows={4}
+            />
+            <div className="flex gap-3">
+              <Input
+                placeholder="Services to restart, e.g. restart_wireless"
+                value={services}
+                onChange={(e) => setServices(e.target.value)}
+              />
+              <Button
+                onClick={() => stageMutation.mutate()}
+                disabled={!description || !changesText.includes("=") || stageMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Stage
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, routerHeaders, getErrorMessage } from "@/lib/queryClient";
+import { Factory, Upload } from "lucide-react";
+
+interface OuiRegistryInfo {
+  source: "bundled" | "imported";
+  entries: number;
+  importedAt: string | null;
+  files: string[];
+}
+
+export default function OuiRegistry() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: registry, isLoading } = useQuery<OuiRegistryInfo>({
+    queryKey: ["/api/oui"],
+  });
+
+  // Registry files run to several megabytes, so they go up as a plain-text body rather than JSON
+  const importMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      let result: OuiRegistryInfo & { updatedDevices: number } | undefined;
+      for (const file of files) {
+        const res = await fetch(`/api/oui/import?name=${encodeURIComponent(file.name)}`, {
+          method: "POST",
+          headers: { "Content-Type": "text/plain", ...routerHeaders() },
+          body: file,
+          credentials: "include",
+        });
+        if (!res.ok) {
+          throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+        }
+        result = await res.json();
+      }
+      return result!;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/oui"], result);
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: "Vendor database imported",
+        description: `${result.entries.toLocaleString()} prefixes; ${result.updatedDevices} devices updated`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Factory className="h-5 w-5" />
+          <span>MAC Vendor Database</span>
+        </CardTitle>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.txt"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            const files = Array.from(event.target.files ?? []);
+            if (files.length > 0) importMutation.mutate(files);
+            event.target.value = "";
+          }}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={importMutation.isPending}>
+          <Upload className="h-4 w-4 mr-2" />
+          {importMutation.isPending ? "Importing..." : "Import Registry"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {isLoading || !registry ? (
+          <Skeleton className="h-12 w-full" />
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Badge variant={registry.source === "imported" ? "default" : "secondary"}>
+                {registry.source === "imported" ? "Imported" : "Bundled"}
+              </Badge>
+              <span>{registry.entries.toLocaleString()} vendor prefixes</span>
+              {registry.importedAt && (
+                <span className="text-muted-foreground">
+                  from {registry.files.join(", ")} on {new Date(registry.importedAt).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+            <p className="text-muted-foreground">
+              Download oui.csv (and optionally mam.csv and oui36.csv) from the IEEE registration authority and import
+              them here to identify vendors the bundled list does not cover. Imported files are merged with the previous import.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { ConnectedDevice, DeviceGroup, ScheduleRule } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import ScheduleEditor, { parseSchedule } from "@/components/schedule-editor";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { CalendarClock } from "lucide-react";
+
+type ScheduleTarget = { type: "device"; device: ConnectedDevice } | { type: "group"; group: DeviceGroup };
+
+export default function ParentalScheduleDialog({ target }: { target: ScheduleTarget }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const saved = parseSchedule(target.type === "device" ? target.device.parentalSchedule : target.group.parentalSchedule);
+  const [rules, setRules] = useState<ScheduleRule[]>(saved);
+  const name = target.type === "device" ? target.device.name : target.group.name;
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: ScheduleRule[]) => {
+      const url = target.type === "device"
+        ? `/api/devices/${target.device.id}/schedule`
+        : `/api/device-groups/${target.group.id}/schedule`;
+      const res = await apiRequest("PUT", url, { rules: next });
+      return await res.json() as { skippedRouters?: number[] };
+    },
+    onSuccess: (result, next) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      if (target.type === "group") {
+        queryClient.invalidateQueries({ queryKey: ["/api/device-groups"] });
+      }
+      const skipped = result.skippedRouters?.length ?? 0;
+      toast({
+        title: next.length > 0 ? "Schedule saved" : "Schedule removed",
+        description: `${name} ${next.length > 0 ? "now follows the offline times set here" : "is no longer restricted by schedule"}` +
+          (skipped > 0 ? `; ${skipped} router(s) skipped because they are not connected` : ""),
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save schedule", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!hasRole("operator")) return null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        // Start from what the router has each time, not from an abandoned edit
+        if (next) setRules(saved);
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Internet schedule for {name}</DialogTitle>
+          <DialogDescription>
+            Marked times are offline. The schedule is written to the router's parental controls
+            {target.type === "group" ? " for every device in the group" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <ScheduleEditor value={rules} onChange={setRules} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate(rules)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
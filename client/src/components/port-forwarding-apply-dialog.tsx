@@ -0,0 +1,147 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Plus, Minus, RefreshCw } from "lucide-react";
+
+interface VtsRule {
+  name: string;
+  protocol: string;
+  externalPort: number;
+  externalPortEnd: number | null;
+  internalPort: number;
+  internalIp: string;
+  sourceIp: string | null;
+}
+
+interface PortForwardingDiff {
+  enabled: boolean;
+  currentValue: string;
+  proposedValue: string;
+  added: VtsRule[];
+  removed: VtsRule[];
+  unchanged: VtsRule[];
+  hasChanges: boolean;
+}
+
+interface PortForwardingApplyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied: () => void;
+}
+
+function describeRule(rule: VtsRule) {
+  const ports = rule.externalPortEnd ? `${rule.externalPort}:${rule.externalPortEnd}` : `${rule.externalPort}`;
+  const target = rule.externalPortEnd ? rule.internalIp : `${rule.internalIp}:${rule.internalPort}`;
+  return `${rule.protocol} ${ports} → ${target}${rule.sourceIp ? ` (from ${rule.sourceIp})` : ""}`;
+}
+
+function DiffRow({ rule, kind }: { rule: VtsRule; kind: "added" | "removed" | "unchanged" }) {
+  const styles = {
+    added: "bg-green-500/10 text-green-400",
+    removed: "bg-red-500/10 text-red-400",
+    unchanged: "text-muted-foreground",
+  };
+
+  return (
+    <div className={`flex items-center space-x-2 px-3 py-2 text-sm ${styles[kind]}`}>
+      {kind === "added" && <Plus className="h-3 w-3 shrink-0" />}
+      {kind === "removed" && <Minus className="h-3 w-3 shrink-0" />}
+      {kind === "unchanged" && <span className="w-3 shrink-0" />}
+      <span className="font-medium truncate">{rule.name}</span>
+      <span className="font-mono text-xs ml-auto shrink-0">{describeRule(rule)}</span>
+    </div>
+  );
+}
+
+// Shows what writing our rules to vts_rulelist would change on the router before anything is committed
+export default function PortForwardingApplyDialog({ open, onOpenChange, onApplied }: PortForwardingApplyDialogProps) {
+  const { toast } = useToast();
+
+  const { data: diff, isFetching, error, refetch } = useQuery<PortForwardingDiff>({
+    queryKey: ["/api/port-forwarding/preview"],
+    enabled: open,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/port-forwarding/apply", {
+        expectedValue: diff?.currentValue,
+      });
+      return await response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      onApplied();
+      onOpenChange(false);
+      toast({
+        title: "Port Forwarding Applied",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      refetch();
+      toast({
+        title: "Apply Failed",
+        description: getErrorMessage(error) || "Failed to apply port forwarding rules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review Port Forwarding Changes</DialogTitle>
+          <DialogDescription>
+            Applying writes these rules to the router's vts_rulelist, commits NVRAM and restarts the firewall.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching && !diff ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-400">{getErrorMessage(error as Error) || "Failed to load preview"}</p>
+        ) : diff ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {diff.hasChanges
+                ? `${diff.added.length} to add, ${diff.removed.length} to remove, ${diff.unchanged.length} unchanged`
+                : "The router already has exactly these rules."}
+            </p>
+            <div className="border border-border rounded-lg max-h-80 overflow-y-auto divide-y divide-border">
+              {diff.added.map((rule, index) => <DiffRow key={`added-${index}`} rule={rule} kind="added" />)}
+              {diff.removed.map((rule, index) => <DiffRow key={`removed-${index}`} rule={rule} kind="removed" />)}
+              {diff.unchanged.map((rule, index) => <DiffRow key={`unchanged-${index}`} rule={rule} kind="unchanged" />)}
+              {diff.added.length + diff.removed.length + diff.unchanged.length === 0 && (
+                <div className="text-center text-sm text-muted-foreground py-6">No rules on the router or here</div>
+              )}
+            </div>
+            {!diff.enabled && (
+              <p className="text-sm text-yellow-400">
+                Port forwarding is switched off on the router; the rules are saved but won't take effect until it is enabled.
+              </p>
+            )}
+          </div>
+        ) : null}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!diff?.hasChanges || isFetching || applyMutation.isPending}
+          >
+            {applyMutation.isPending ? "Applying..." : "Apply to Router"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
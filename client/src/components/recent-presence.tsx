@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeftRight, LogIn, LogOut } from "lucide-react";
+
+interface PresenceChange {
+  type: "joined" | "left";
+  at: string;
+  macAddress: string;
+  deviceId: number | null;
+  name: string;
+  wirelessBand: string | null;
+  aimeshNode: string | null;
+}
+
+export default function RecentPresence({ limit = 8 }: { limit?: number }) {
+  // Refreshed by the live updates hook whenever a device joins or leaves
+  const { data: changes, isLoading } = useQuery<PresenceChange[]>({
+    queryKey: [`/api/device-presence/recent?hours=24&limit=${limit}`],
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          <span>Recently Joined / Left</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : changes && changes.length > 0 ? (
+          <div className="space-y-2">
+            {changes.map(change => {
+              const row = (
+                <div className="flex items-center justify-between rounded p-1 text-sm hover:bg-accent">
+                  <span className="flex items-center gap-2 truncate">
+                    {change.type === "joined" ? (
+                      <LogIn className="h-4 w-4 text-green-600 shrink-0" />
+                    ) : (
+                      <LogOut className="h-4 w-4 text-muted-foreground shrink-0" />
+                    )}
+                    <span className="truncate">{change.name}</span>
+                    {(change.aimeshNode || change.wirelessBand) && (
+                      <span className="text-xs text-muted-foreground truncate">
+                        {[change.aimeshNode, change.wirelessBand].filter(Boolean).join(" · ")}
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0 ml-2">
+                    {formatDistanceToNow(new Date(change.at), { addSuffix: true })}
+                  </span>
+                </div>
+              );
+              const key = `${change.macAddress}-${change.type}-${change.at}`;
+              return change.deviceId !== null ? (
+                <Link key={key} href={`/devices/${change.deviceId}`}>{row}</Link>
+              ) : (
+                <div key={key}>{row}</div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">
+            No devices joined or left in the last 24 hours
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
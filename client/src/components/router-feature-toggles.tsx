@@ -0,0 +1,86 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { RouterFeatures } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { ToggleRight } from "lucide-react";
+
+const FEATURES = [
+  {
+    id: "adaptiveQos",
+    field: "adaptiveQosEnabled",
+    label: "Adaptive QoS",
+    description: "Prioritize traffic by application type",
+  },
+  {
+    id: "aiProtection",
+    field: "aiProtectionEnabled",
+    label: "AiProtection",
+    description: "Trend Micro malicious site blocking and intrusion prevention",
+  },
+] as const;
+
+export default function RouterFeatureToggles() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+
+  const { data: features } = useQuery<RouterFeatures>({
+    queryKey: ["/api/router/features"],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ feature, enabled }: { feature: string; enabled: boolean }) => {
+      return await apiRequest("PUT", `/api/router/features/${feature}`, { enabled });
+    },
+    onSuccess: (_, { feature, enabled }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/router/features"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+      const label = FEATURES.find(item => item.id === feature)?.label;
+      toast({
+        title: "Feature Updated",
+        description: `${label} ${enabled ? "enabled" : "disabled"} and confirmed on the router`,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nvram/change-sets"] });
+      toast({
+        title: "Change Not Applied",
+        description: getErrorMessage(error) || "Failed to change router feature",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ToggleRight className="h-5 w-5" />
+          <span>Router Features</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {FEATURES.map((feature) => (
+          <div key={feature.id} className="flex items-center justify-between">
+            <div>
+              <Label htmlFor={`feature-${feature.id}`}>{feature.label}</Label>
+              <p className="text-sm text-muted-foreground">{feature.description}</p>
+            </div>
+            <Switch
+              id={`feature-${feature.id}`}
+              checked={!!features?.[feature.field]}
+              onCheckedChange={(enabled) => toggleMutation.mutate({ feature: feature.id, enabled })}
+              disabled={!hasRole("operator") || toggleMutation.isPending}
+            />
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Changes restart the affected services and are rolled back automatically if the router doesn't recover.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
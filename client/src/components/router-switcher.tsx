@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Router as RouterIcon, Plus, Pencil, Trash2, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useRouterSelection, type ManagedRouter } from "@/hooks/use-router-selection";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+const MANAGE_ROUTERS_VALUE = "__manage__";
+
+interface RouterSwitcherProps {
+  className?: string;
+}
+
+export default function RouterSwitcher({ className }: RouterSwitcherProps) {
+  const { routers, selectedRouter, selectRouter } = useRouterSelection();
+  const { hasRole } = useAuth();
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const handleChange = (value: string) => {
+    if (value === MANAGE_ROUTERS_VALUE) {
+      setManageOpen(true);
+      return;
+    }
+    selectRouter(parseInt(value));
+  };
+
+  return (
+    <>
+      <Select value={selectedRouter ? String(selectedRouter.id) : undefined} onValueChange={handleChange}>
+        <SelectTrigger className={className ?? "w-48"}>
+          <div className="flex items-center space-x-2 truncate">
+            <RouterIcon className="h-4 w-4 shrink-0 text-primary" />
+            <SelectValue placeholder="Select router" />
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          {routers.map((router) => (
+            <SelectItem key={router.id} value={String(router.id)}>
+              <div className="flex items-center space-x-2">
+                <span className={`w-2 h-2 rounded-full ${router.isConnected ? "bg-green-500" : "bg-gray-500"}`} />
+                <span>{router.name}</span>
+              </div>
+            </SelectItem>
+          ))}
+          {hasRole("admin") && (
+            <SelectItem value={MANAGE_ROUTERS_VALUE}>
+              <span className="text-muted-foreground">Manage routers...</span>
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+
+      <ManageRoutersDialog open={manageOpen} onOpenChange={setManageOpen} />
+    </>
+  );
+}
+
+interface ManageRoutersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ManageRoutersDialog({ open, onOpenChange }: ManageRoutersDialogProps) {
+  const { toast } = useToast();
+  const { routers, selectedRouter, selectRouter } = useRouterSelection();
+  const [newName, setNewName] = useState("");
+  const [newLocation, setNewLocation] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const createRouterMutation = useMutation({
+    mutationFn: async (data: { name: string; location?: string }) => {
+      const response = await apiRequest("POST", "/api/routers", data);
+      return response.json() as Promise<ManagedRouter>;
+    },
+    onSuccess: (router) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/routers"] });
+      setNewName("");
+      setNewLocation("");
+      selectRouter(router.id);
+      toast({
+        title: "Router added",
+        description: `${router.name} is now selected. Configure its SSH connection in System Settings.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add router",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renameRouterMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      return await apiRequest("PUT", `/api/routers/${id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/routers"] });
+      setEditingId(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to rename router",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRouterMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/routers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/routers"] });
+      toast({
+        title: "Router removed",
+        description: "The router and its stored data have been removed",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove router",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    createRouterMutation.mutate({
+      name: newName.trim(),
+      location: newLocation.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Manage Routers</DialogTitle>
+          <DialogDescription>
+            Each router keeps its own SSH connection, devices, WiFi networks and settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {routers.map((router) => (
+            <div key={router.id} className="flex items-center justify-between p-3 border border-border rounded-lg">
+              {editingId === router.id ? (
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  className="mr-2"
+                  autoFocus
+                />
+              ) : (
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium">{router.name}</p>
+                    {selectedRouter?.id === router.id && <Badge variant="secondary">Selected</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {router.location || "No location"} · {router.isConnected ? "Connected" : "Not connected"}
+                  </p>
+                </div>
+              )}
+              <div className="flex items-center space-x-1">
+                {editingId === router.id ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => renameRouterMutation.mutate({ id: router.id, name: editingName.trim() })}
+                    disabled={!editingName.trim() || renameRouterMutation.isPending}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setEditingId(router.id);
+                      setEditingName(router.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-red-500"
+                  onClick={() => {
+                    if (confirm(`Remove ${router.name} and all of its stored data?`)) {
+                      deleteRouterMutation.mutate(router.id);
+                    }
+                  }}
+                  disabled={routers.length <= 1 || deleteRouterMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 pt-2 border-t border-border">
+          <div className="grid grid-cols-2 gap-3 pt-3">
+            <div className="space-y-1">
+              <Label htmlFor="router-name">Name</Label>
+              <Input
+                id="router-name"
+                placeholder="Office Router"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="router-location">Location</Label>
+              <Input
+                id="router-location"
+                placeholder="Optional"
+                value={newLocation}
+                onChange={(e) => setNewLocation(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={!newName.trim() || createRouterMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Router
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import type { ScheduleRule } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+
+// Half-hour slots per day; the router stores minutes, but bedtimes rarely need finer steps
+const SLOTS_PER_DAY = 48;
+const SLOT_MINUTES = 30;
+// Monday first, as on the presence heatmap; values are the router's day numbers (0 = Sunday)
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type Grid = boolean[][];
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTime(slot: number) {
+  const minutes = (slot * SLOT_MINUTES) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function emptyGrid(): Grid {
+  return Array.from({ length: 7 }, () => new Array<boolean>(SLOTS_PER_DAY).fill(false));
+}
+
+// An end at or before the start carries on into the next day
+export function rulesToGrid(rules: ScheduleRule[]): Grid {
+  const grid = emptyGrid();
+  const mark = (day: number, from: number, to: number) => {
+    for (let slot = Math.floor(from / SLOT_MINUTES); slot < Math.ceil(to / SLOT_MINUTES); slot++) {
+      grid[day][slot] = true;
+    }
+  };
+
+  for (const rule of rules) {
+    const start = toMinutes(rule.start);
+    const end = toMinutes(rule.end);
+    for (const day of rule.days) {
+      if (end > start) {
+        mark(day, start, end);
+      } else {
+        mark(day, start, 24 * 60);
+        mark((day + 1) % 7, 0, end);
+      }
+    }
+  }
+  return grid;
+}
+
+// Turns painted slots back into as few rules as possible: an evening that runs into the next
+// morning becomes one overnight period, and days with the same period share a rule
+export function gridToRules(grid: Grid): ScheduleRule[] {
+  const runs = grid.map(slots => {
+    const dayRuns: { start: number; end: number }[] = [];
+    slots.forEach((offline, slot) => {
+      const last = dayRuns[dayRuns.length - 1];
+      if (!offline) return;
+      if (last && last.end === slot) last.end = slot + 1;
+      else dayRuns.push({ start: slot, end: slot + 1 });
+    });
+    return dayRuns;
+  });
+
+  // Which evenings continue into the next morning, found before any period is emitted so a
+  // Sunday morning is still recognised as the end of Saturday night
+  const overnight = new Map<number, number>();
+  runs.forEach((dayRuns, day) => {
+    const evening = dayRuns[dayRuns.length - 1];
+    const morning = runs[(day + 1) % 7][0];
+    if (evening && evening.end === SLOTS_PER_DAY && evening.start > 0 && morning && morning.start === 0 && morning.end < SLOTS_PER_DAY) {
+      overnight.set(day, morning.end);
+    }
+  });
+
+  const periods: { day: number; start: number; end: number }[] = [];
+  runs.forEach((dayRuns, day) => {
+    dayRuns.forEach((run, index) => {
+      if (index === 0 && run.start === 0 && overnight.has((day + 6) % 7)) return;
+      const end = index === dayRuns.length - 1 && overnight.has(day) ? overnight.get(day)! : run.end;
+      periods.push({ day, start: run.start, end });
+    });
+  });
+
+  const rules = new Map<string, ScheduleRule>();
+  for (const period of periods) {
+    const start = toTime(period.start);
+    const end = toTime(period.end);
+    const key = `${start}-${end}`;
+    const rule = rules.get(key) ?? { days: [], start, end };
+    rule.days.push(period.day);
+    rules.set(key, rule);
+  }
+  return Array.from(rules.values());
+}
+
+export function isScheduleActive(rules: ScheduleRule[], now: Date = new Date()): boolean {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const day = now.getDay();
+  return rules.some(rule => {
+    const start = toMinutes(rule.start);
+    const end = toMinutes(rule.end);
+    if (end > start) {
+      return rule.days.includes(day) && minutes >= start && minutes < end;
+    }
+    return (rule.days.includes(day) && minutes >= start) || (rule.days.includes((day + 6) % 7) && minutes < end);
+  });
+}
+
+export function parseSchedule(value: string | null | undefined): ScheduleRule[] {
+  if (!value) return [];
+  try {
+    return JSON.parse(value) as ScheduleRule[];
+  } catch {
+    return [];
+  }
+}
+
+export function describeRule(rule: ScheduleRule) {
+  const days = DAY_ORDER.filter(day => rule.days.includes(day)).map(day => DAY_NAMES[day]).join(", ");
+  return rule.start === rule.end ? `${days}: all day` : `${days}: ${rule.start} – ${rule.end}`;
+}
+
+interface ScheduleEditorProps {
+  value: ScheduleRule[];
+  onChange: (rules: ScheduleRule[]) => void;
+}
+
+// Click or drag across the grid to mark offline times; dragging from an offline slot clears instead
+export default function ScheduleEditor({ value, onChange }: ScheduleEditorProps) {
+  const [grid, setGrid] = useState<Grid>(() => rulesToGrid(value));
+  const [painting, setPainting] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setGrid(rulesToGrid(value));
+  }, [value]);
+
+  useEffect(() => {
+    const stop = () => setPainting(null);
+    window.addEventListener("mouseup", stop);
+    return () => window.removeEventListener("mouseup", stop);
+  }, []);
+
+  const paint = (day: number, slot: number, offline: boolean) => {
+    if (grid[day][slot] === offline) return;
+    const next = grid.map(slots => [...slots]);
+    next[day][slot] = offline;
+    setGrid(next);
+    onChange(gridToRules(next));
+  };
+
+  const rules = gridToRules(grid);
+
+  return (
+    <div className="space-y-3 select-none">
+      <div className="overflow-x-auto">
+        <div className="inline-block">
+          <div className="flex ml-10 text-[10px] text-muted-foreground">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="w-6 text-left">{hour % 3 === 0 ? hour : ""}</div>
+            ))}
+          </div>
+          {DAY_ORDER.map(day => (
+            <div key={day} className="flex items-center">
+              <div className="w-10 text-xs text-muted-foreground">{DAY_NAMES[day]}</div>
+              {grid[day].map((offline, slot) => (
+                <div
+                  key={slot}
+                  className={`w-3 h-5 border-r border-b border-background cursor-pointer ${
+                    offline ? "bg-destructive" : slot % 2 === 0 ? "bg-muted" : "bg-muted/60"
+                  }`}
+                  title={`${DAY_NAMES[day]} ${toTime(slot)} – ${toTime(slot + 1)}`}
+                  onMouseDown={() => {
+                    setPainting(!offline);
+                    paint(day, slot, !offline);
+                  }}
+                  onMouseEnter={() => {
+                    if (painting !== null) paint(day, slot, painting);
+                  }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-start justify-between gap-4 text-sm">
+        <div className="space-y-1">
+          {rules.length === 0 ? (
+            <p className="text-muted-foreground">No offline times; internet access is not restricted by schedule.</p>
+          ) : (
+            rules.map(rule => <p key={`${rule.start}-${rule.end}`}>Offline {describeRule(rule)}</p>)
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...rules.filter(rule => rule.start !== "21:00" || rule.end !== "07:00"), { days: [0, 1, 2, 3, 4], start: "21:00", end: "07:00" }])}
+          >
+            School nights
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onChange([])} disabled={rules.length === 0}>
+            Clear
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useQuery } from "@tanstack/react-query";
 import type { RouterStatus } from "@shared/schema";
 import { formatUptime } from "@/lib/utils";
 import { useState, useEffect } from "react";
+import RouterSwitcher from "@/components/router-switcher";
+import { useLiveConnected } from "@/hooks/use-live-updates";
 import {
   Wifi,
   BarChart3,
@@ -11,6 +13,9 @@ import {
   Tablet,
   Settings,
   ArrowRightLeft,
+  BookmarkCheck,
+  FileDiff,
+  Bell,
   TrendingUp,
   CheckCircle2,
   Menu,
@@ -40,6 +45,26 @@ const navigationItems = [
     label: "WiFi Settings",
     icon: Wifi,
   },
+  {
+    href: "/port-forwarding",
+    label: "Port Forwarding",
+    icon: ArrowRightLeft,
+  },
+  {
+    href: "/dhcp-reservations",
+    label: "DHCP Reservations",
+    icon: BookmarkCheck,
+  },
+  {
+    href: "/config-drift",
+    label: "Config Drift",
+    icon: FileDiff,
+  },
+  {
+    href: "/alerts",
+    label: "Alerts",
+    icon: Bell,
+  },
 
 
 
@@ -57,10 +82,11 @@ interface SidebarProps {
 
 export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
   const [location] = useLocation();
+  const live = useLiveConnected();
 
   const { data: routerStatus } = useQuery<RouterStatus>({
     queryKey: ["/api/router/status"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: live ? false : 30000, // Pushed while live, otherwise refresh every 30 seconds
   });
 
   // Close sidebar when clicking on a navigation item on mobile
@@ -107,6 +133,7 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
             </p>
           </div>
         </div>
+        <RouterSwitcher className="w-full mt-4 md:hidden" />
       </div>
 
       {/* Navigation */}
@@ -6,7 +6,6 @@ interface SyncPhase {
   id: string;
   name: string;
   description: string;
-  progress: number;
   status: 'pending' | 'loading' | 'complete' | 'error';
 }
 
@@ -79,22 +78,12 @@ export default function SyncProgress({
             >
               {getPhaseIcon(phase)}
               <div className="flex-1 min-w-0">
-                <div className="flex items-center justify-between">
-                  <p className="text-sm font-medium text-gray-900 dark:text-white">
-                    {phase.name}
-                  </p>
-                  {phase.status === 'loading' && (
-                    <span className="text-xs text-blue-600 dark:text-blue-400">
-                      {Math.round(phase.progress)}%
-                    </span>
-                  )}
-                </div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {phase.name}
+                </p>
                 <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                   {phase.description}
                 </p>
-                {phase.status === 'loading' && (
-                  <Progress value={phase.progress} className="h-1 mt-2" />
-                )}
               </div>
             </div>
           ))}
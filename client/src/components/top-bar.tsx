@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Search, Settings, Power, TestTube, Download, Save } from "lucide-react";
+import { Search, Settings, Power, TestTube, Download, Save, LogOut, User } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,7 +12,10 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { useSearch } from "@/hooks/use-search";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
 import { NotificationPanel } from "@/components/notification-panel";
+import RouterSwitcher from "@/components/router-switcher";
 
 interface TopBarProps {
   title?: string;
@@ -30,6 +33,7 @@ export default function TopBar({
   const { searchQuery: globalSearchQuery, setSearchQuery } = useSearch();
   const searchQuery = externalSearchQuery !== undefined ? externalSearchQuery : globalSearchQuery;
   const { toast } = useToast();
+  const { user, hasRole, logoutMutation } = useAuth();
   
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
@@ -65,6 +69,22 @@ export default function TopBar({
           title: "Backup Settings",
           description: "Creating router configuration backup...",
         });
+        apiRequest("POST", "/api/system/backup")
+          .then(async (response) => {
+            const data = await response.json();
+            queryClient.invalidateQueries({ queryKey: ["/api/config-backups"] });
+            toast({
+              title: "Backup Created",
+              description: `Saved ${data.backup.keyCount} NVRAM settings to the backup history`,
+            });
+          })
+          .catch((error: Error) => {
+            toast({
+              title: "Error",
+              description: getErrorMessage(error) || "Failed to create configuration backup",
+              variant: "destructive",
+            });
+          });
         break;
     }
   };
@@ -78,6 +98,9 @@ export default function TopBar({
         </div>
         
         <div className="flex items-center space-x-4">
+          {/* Managed Router Switcher */}
+          <RouterSwitcher className="hidden md:flex w-48" />
+
           {/* Quick Actions Gear Menu */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -100,10 +123,23 @@ export default function TopBar({
                 <Save className="mr-2 h-4 w-4 text-yellow-500" />
                 Backup Settings
               </DropdownMenuItem>
+              {hasRole('admin') && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleQuickAction('reboot')} className="text-red-600">
+                    <Power className="mr-2 h-4 w-4" />
+                    Reboot Router
+                  </DropdownMenuItem>
+                </>
+              )}
               <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={() => handleQuickAction('reboot')} className="text-red-600">
-                <Power className="mr-2 h-4 w-4" />
-                Reboot Router
+              <DropdownMenuLabel className="flex items-center font-normal text-muted-foreground">
+                <User className="mr-2 h-4 w-4" />
+                {user?.username} ({user?.role})
+              </DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => logoutMutation.mutate()}>
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign Out
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
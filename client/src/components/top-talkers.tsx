@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatBytes } from "@/lib/utils";
+import { ArrowDown, ArrowUp, TrendingUp } from "lucide-react";
+
+interface TopTalker {
+  macAddress: string;
+  deviceId: number | null;
+  name: string;
+  downloadBytes: number;
+  uploadBytes: number;
+  totalBytes: number;
+}
+
+interface TopTalkersProps {
+  limit?: number;
+  // Highlights one device in the ranking, e.g. on its details page
+  highlightMac?: string;
+}
+
+export default function TopTalkers({ limit = 10, highlightMac }: TopTalkersProps) {
+  const [hours, setHours] = useState(24);
+
+  const { data: talkers, isLoading } = useQuery<TopTalker[]>({
+    queryKey: [`/api/bandwidth/top-talkers?hours=${hours}&limit=${limit}`],
+    refetchInterval: 60000,
+  });
+
+  const busiest = talkers?.[0]?.totalBytes || 1;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <TrendingUp className="h-5 w-5" />
+          <span>Top Talkers</span>
+        </CardTitle>
+        <Tabs value={String(hours)} onValueChange={(value) => setHours(parseInt(value))}>
+          <TabsList>
+            <TabsTrigger value="1">1h</TabsTrigger>
+            <TabsTrigger value="24">24h</TabsTrigger>
+            <TabsTrigger value="168">7d</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : talkers && talkers.length > 0 ? (
+          <div className="space-y-3">
+            {talkers.map((talker, index) => {
+              const row = (
+                <div className={`space-y-1 rounded p-1 ${talker.macAddress === highlightMac ? "bg-accent" : "hover:bg-accent"}`}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="truncate">
+                      <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                      {talker.name}
+                    </span>
+                    <span className="flex items-center gap-3 text-xs text-muted-foreground shrink-0">
+                      <span className="flex items-center"><ArrowDown className="h-3 w-3 mr-1" />{formatBytes(talker.downloadBytes, 1)}</span>
+                      <span className="flex items-center"><ArrowUp className="h-3 w-3 mr-1" />{formatBytes(talker.uploadBytes, 1)}</span>
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded bg-muted overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${(talker.totalBytes / busiest) * 100}%` }} />
+                  </div>
+                </div>
+              );
+              return talker.deviceId !== null ? (
+                <Link key={talker.macAddress} href={`/devices/${talker.deviceId}`}>{row}</Link>
+              ) : (
+                <div key={talker.macAddress}>{row}</div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">
+            No per-device traffic recorded yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
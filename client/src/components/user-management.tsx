@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { UserRole } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, type SafeUser } from "@/hooks/use-auth";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Users, UserPlus, Trash2 } from "lucide-react";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "Read-only access",
+  operator: "Can change settings and run actions",
+  admin: "Full access including SSH credentials and destructive actions",
+};
+
+export default function UserManagement() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("viewer");
+
+  const { data: users, isLoading } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error) || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createUserMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/users", { username, password, role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUsername("");
+      setPassword("");
+      setRole("viewer");
+      toast({
+        title: "User Created",
+        description: `${username} can now sign in`,
+      });
+    },
+    onError: showError("Failed to create user"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      return await apiRequest("PUT", `/api/users/${id}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: showError("Failed to update role"),
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: showError("Failed to delete user"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>User Accounts</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-2">
+            {users?.map((user) => (
+              <div key={user.id} className="flex items-center justify-between p-3 border border-border rounded-lg">
+                <div className="flex items-center space-x-2">
+                  <p className="font-medium">{user.username}</p>
+                  {user.id === currentUser?.id && <Badge variant="secondary">You</Badge>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Select
+                    value={user.role}
+                    onValueChange={(value) => updateRoleMutation.mutate({ id: user.id, role: value as UserRole })}
+                    disabled={user.id === currentUser?.id}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="viewer">Viewer</SelectItem>
+                      <SelectItem value="operator">Operator</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500"
+                    onClick={() => {
+                      if (confirm(`Delete the account ${user.username}?`)) {
+                        deleteUserMutation.mutate(user.id);
+                      }
+                    }}
+                    disabled={user.id === currentUser?.id || deleteUserMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 pt-4 border-t border-border">
+          <Input
+            placeholder="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Password (min. 8 characters)"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="viewer">Viewer</SelectItem>
+              <SelectItem value="operator">Operator</SelectItem>
+              <SelectItem value="admin">Admin</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createUserMutation.mutate()}
+            disabled={!username || !password || createUserMutation.isPending}
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useMutation } from "@tanstack/react-query";
+import type { ConnectedDevice, DeviceGroup } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { Power, Radar } from "lucide-react";
+
+type WakeTarget = { type: "device"; device: ConnectedDevice } | { type: "group"; group: DeviceGroup };
+
+interface WakeResponse {
+  sent: string[];
+  failed: string[];
+  confirming: boolean;
+  skippedRouters?: number[];
+}
+
+// Sends Wake-on-LAN from the router; the ping follow-up reports back later as a toast of its own
+export default function WakeMenu({ target, size = "sm" }: { target: WakeTarget; size?: "sm" | "icon" }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const name = target.type === "device" ? target.device.name : target.group.name;
+
+  const wakeMutation = useMutation({
+    mutationFn: async (confirm: boolean) => {
+      const url = target.type === "device"
+        ? `/api/devices/${target.device.id}/wake`
+        : `/api/device-groups/${target.group.id}/wake`;
+      const res = await apiRequest("POST", url, { confirm });
+      return await res.json() as WakeResponse;
+    },
+    onSuccess: (result) => {
+      const skipped = result.skippedRouters?.length ?? 0;
+      if (result.sent.length === 0) {
+        toast({
+          title: "Nothing was woken",
+          description: result.failed.length > 0
+            ? `ether-wake failed for ${result.failed.join(", ")}`
+            : `${name} has no devices on a connected router`,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Wake-on-LAN sent",
+        description: `Magic packet sent to ${result.sent.join(", ")}` +
+          (result.failed.length > 0 ? `; failed for ${result.failed.join(", ")}` : "") +
+          (skipped > 0 ? `; ${skipped} router(s) skipped because they are not connected` : "") +
+          (result.confirming ? ". Waiting for it to answer ping..." : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to send Wake-on-LAN", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!hasRole("operator")) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size={size}
+          disabled={wakeMutation.isPending}
+          onClick={(event) => event.stopPropagation()}
+          title={target.type === "group" ? "Wake all devices" : "Wake-on-LAN"}
+        >
+          <Power className={`h-4 w-4 ${size === "sm" ? "mr-2" : ""}`} />
+          {size === "sm" && (wakeMutation.isPending ? "Waking..." : target.type === "group" ? "Wake All" : "Wake")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+        <DropdownMenuItem onClick={() => wakeMutation.mutate(false)}>
+          <Power className="h-4 w-4 mr-2" />
+          Send magic packet
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => wakeMutation.mutate(true)}>
+          <Radar className="h-4 w-4 mr-2" />
+          Wake and confirm with ping
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
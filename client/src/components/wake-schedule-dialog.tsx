@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { ConnectedDevice, DeviceGroup, WakeSchedule } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { formatMacAddress } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { AlarmClock, Trash2 } from "lucide-react";
+
+type WakeScheduleTarget = { type: "device"; device: ConnectedDevice } | { type: "group"; group: DeviceGroup };
+type Repeat = "weekly" | "once";
+
+// Monday first, as in the parental schedule editor; values are day numbers (0 = Sunday)
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const STATUS_STYLES: Record<string, string> = {
+  sent: "bg-blue-500/20 text-blue-400",
+  confirmed: "bg-green-500/20 text-green-400",
+  unconfirmed: "bg-yellow-500/20 text-yellow-400",
+  failed: "bg-red-500/20 text-red-400",
+};
+
+function parseDays(value: string | null) {
+  try {
+    return JSON.parse(value ?? "[]") as number[];
+  } catch {
+    return [];
+  }
+}
+
+function describeSchedule(schedule: WakeSchedule) {
+  if (schedule.runAt) return `Once at ${new Date(schedule.runAt).toLocaleString()}`;
+  const days = parseDays(schedule.days);
+  const dayText = days.length === 7 ? "Every day" : DAY_ORDER.filter(day => days.includes(day)).map(day => DAY_NAMES[day]).join(", ");
+  return `${dayText} at ${schedule.time}`;
+}
+
+export default function WakeScheduleDialog({ target }: { target: WakeScheduleTarget }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const name = target.type === "device" ? target.device.name : target.group.name;
+  const [form, setForm] = useState({ name: "", repeat: "weekly" as Repeat, days: [1, 2, 3, 4, 5], time: "07:00", runAt: "", confirmWithPing: true });
+
+  const { data: schedules } = useQuery<WakeSchedule[]>({
+    queryKey: ["/api/wake-schedules"],
+    enabled: open,
+  });
+  const mine = schedules?.filter(schedule => target.type === "device"
+    ? schedule.macAddress === formatMacAddress(target.device.macAddress)
+    : schedule.groupId === target.group.id) ?? [];
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/wake-schedules", {
+        name: form.name || `Wake ${name}`,
+        ...(target.type === "device" ? { macAddress: target.device.macAddress } : { groupId: target.group.id }),
+        ...(form.repeat === "weekly"
+          ? { days: form.days, time: form.time }
+          : { runAt: new Date(form.runAt).toISOString() }),
+        confirmWithPing: form.confirmWithPing,
+      });
+      return await res.json() as WakeSchedule;
+    },
+    onSuccess: (schedule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wake-schedules"] });
+      toast({ title: "Wake scheduled", description: `${name} will be woken ${describeSchedule(schedule).toLowerCase()}` });
+      setForm({ ...form, name: "" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to schedule wake", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: number; isEnabled: boolean }) => {
+      const res = await apiRequest("PUT", `/api/wake-schedules/${id}`, { isEnabled });
+      return await res.json() as WakeSchedule;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wake-schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update wake schedule", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/wake-schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wake-schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete wake schedule", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!hasRole("operator")) return null;
+
+  const canCreate = form.repeat === "weekly" ? form.days.length > 0 && !!form.time : !!form.runAt;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <AlarmClock className="h-4 w-4 mr-2" />
+          Wake Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Wake schedule for {name}</DialogTitle>
+          <DialogDescription>
+            The router sends Wake-on-LAN at these times
+            {target.type === "group" ? " to every device in the group on this router" : ""}. With ping confirmation
+            it checks for a few minutes that the {target.type === "group" ? "devices" : "device"} came up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {mine.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scheduled wakes yet.</p>
+          ) : (
+            mine.map(schedule => (
+              <div key={schedule.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="min-w-0">
+                  <div className="font-medium">{schedule.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {describeSchedule(schedule)}{schedule.confirmWithPing ? " · confirms with ping" : ""}
+                  </div>
+                  {schedule.lastRunAt && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                      {schedule.lastStatus && <Badge className={STATUS_STYLES[schedule.lastStatus]}>{schedule.lastStatus}</Badge>}
+                      <span className="truncate">
+                        {formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })}
+                        {schedule.lastResult ? ` · ${schedule.lastResult}` : ""}
+                      </span>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.isEnabled}
+                    onCheckedChange={(isEnabled) => updateMutation.mutate({ id: schedule.id, isEnabled })}
+                    disabled={updateMutation.isPending || (!!schedule.runAt && !schedule.isEnabled && new Date(schedule.runAt) <= new Date())}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(schedule.id)}
+                    disabled={deleteMutation.isPending}
+                    title="Delete wake schedule"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="wake-name">Name</Label>
+              <Input
+                id="wake-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder={`Wake ${name}`}
+              />
+            </div>
+            <div>
+              <Label>Repeat</Label>
+              <Select value={form.repeat} onValueChange={(repeat) => setForm({ ...form, repeat: repeat as Repeat })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="once">Once</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {form.repeat === "weekly" ? (
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex gap-1">
+                {DAY_ORDER.map(day => (
+                  <Button
+                    key={day}
+                    variant={form.days.includes(day) ? "default" : "outline"}
+                    size="sm"
+                    className="w-11"
+                    onClick={() => setForm({
+                      ...form,
+                      days: form.days.includes(day) ? form.days.filter(existing => existing !== day) : [...form.days, day],
+                    })}
+                  >
+                    {DAY_NAMES[day]}
+                  </Button>
+                ))}
+              </div>
+              <div>
+                <Label htmlFor="wake-time">Time</Label>
+                <Input
+                  id="wake-time"
+                  type="time"
+                  className="w-32"
+                  value={form.time}
+                  onChange={(e) => setForm({ ...form, time: e.target.value })}
+                />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="wake-run-at">Date and time</Label>
+              <Input
+                id="wake-run-at"
+                type="datetime-local"
+                className="w-64"
+                value={form.runAt}
+                onChange={(e) => setForm({ ...form, runAt: e.target.value })}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="wake-confirm"
+                checked={form.confirmWithPing}
+                onCheckedChange={(checked) => setForm({ ...form, confirmWithPing: checked === true })}
+              />
+              <Label htmlFor="wake-confirm">Confirm with ping</Label>
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !canCreate}>
+              {createMutation.isPending ? "Saving..." : "Add Wake"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { ArrowRight, CheckCircle2, Lock, RefreshCw, Signal, Unlock } from "lucide-react";
+
+interface ChannelScore {
+  channel: number;
+  accessPoints: number;
+  strong: number;
+  score: number;
+  dfs: boolean;
+}
+
+interface ChannelChoice {
+  channel: number;
+  chanspec: string;
+  width: number;
+  score: number;
+  dfs: boolean;
+}
+
+interface ChannelRecommendation {
+  unit: number;
+  label: string;
+  band: string;
+  current: ChannelChoice | null;
+  best: ChannelChoice;
+  shouldChange: boolean;
+}
+
+interface NeighborHistory {
+  bssid: string;
+  ssid: string | null;
+  band: string;
+  channel: number;
+  width: number;
+  security: string;
+  rssi: number;
+  bestRssi: number;
+  noise: number | null;
+  firstSeen: string;
+  lastSeen: string;
+  seenIn: number;
+  isOwn: boolean;
+}
+
+interface WifiAnalysis {
+  scannedAt: string | null;
+  scans: number;
+  channels: Record<string, ChannelScore[]>;
+  recommendations: ChannelRecommendation[];
+  neighbors: NeighborHistory[];
+}
+
+const RANGES = [
+  { hours: 24, label: "24h" },
+  { hours: 168, label: "7d" },
+];
+
+const chartConfig = {
+  accessPoints: { label: "Access points", color: "hsl(217 91% 60%)" },
+  strong: { label: "Strong (-70 dBm or better)", color: "hsl(0 84% 60%)" },
+  score: { label: "Score", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+function signalColor(rssi: number) {
+  if (rssi >= -50) return "text-green-500";
+  if (rssi >= -60) return "text-green-400";
+  if (rssi >= -70) return "text-yellow-500";
+  return "text-red-500";
+}
+
+function describe(choice: ChannelChoice) {
+  return `Channel ${choice.channel}${choice.width > 20 ? ` at ${choice.width} MHz` : ""}`;
+}
+
+// Channel occupancy, a recommended channel per radio and the neighbouring access points heard
+// by the scans in the chosen range. Scans run every 30 minutes; "Scan now" runs one straight away.
+export default function WifiAnalyzer() {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [hours, setHours] = useState(24);
+
+  const { data: analysis, isLoading } = useQuery<WifiAnalysis>({
+    queryKey: [`/api/wifi/analysis?hours=${hours}`],
+    refetchInterval: 60000,
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/wifi/scan");
+      return await res.json() as { networks: unknown[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/wifi/analysis?hours=${hours}`] });
+      toast({ title: "WiFi scan complete", description: `Heard ${result.networks.length} access points` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Scan failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const bands = Object.keys(analysis?.channels ?? {}).sort();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Signal className="h-5 w-5" />
+              WiFi Analyzer
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {analysis?.scannedAt
+                ? `Last scan ${formatDistanceToNow(new Date(analysis.scannedAt), { addSuffix: true })}`
+                : "No scans yet"}
+            </p>
+          </div>
+          {hasRole("operator") && (
+            <Button onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+              {scanMutation.isPending ? "Scanning..." : "Scan now"}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {(analysis?.recommendations ?? []).map(recommendation => (
+            <div key={recommendation.unit} className="flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-md border p-3">
+              <div>
+                <p className="font-medium">{recommendation.label}</p>
+                <p className="text-sm text-muted-foreground">
+                  {recommendation.current
+                    ? `${describe(recommendation.current)} now, score ${recommendation.current.score}`
+                    : "Current channel unknown"}
+                </p>
+              </div>
+              {recommendation.shouldChange ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <ArrowRight className="h-4 w-4 text-yellow-500" />
+                  <span>Move to {describe(recommendation.best)}, score {recommendation.best.score}</span>
+                  {recommendation.best.dfs && (
+                    <Badge variant="outline">DFS</Badge>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-green-500">
+                  <CheckCircle2 className="h-4 w-4" />
+                  {recommendation.current ? "Already on a quiet channel" : `Quietest: ${describe(recommendation.best)}`}
+                </div>
+              )}
+            </div>
+          ))}
+          {analysis && analysis.recommendations.length === 0 && (
+            <p className="text-sm text-muted-foreground">Connect over SSH to get channel recommendations.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {bands.map(band => (
+        <Card key={band}>
+          <CardHeader>
+            <CardTitle className="text-base">{band} channel occupancy</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-56 w-full">
+              <ComposedChart data={analysis!.channels[band]}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="channel" interval={band === "2.4GHz" ? 0 : "preserveStartEnd"} />
+                <YAxis yAxisId="count" width={30} allowDecimals={false} />
+                <YAxis yAxisId="score" orientation="right" width={30} domain={[0, 100]} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => {
+                  const point = payload[0]?.payload as ChannelScore | undefined;
+                  return point ? `Channel ${point.channel}${point.dfs ? " (DFS)" : ""}` : "";
+                }} />} />
+                <Bar yAxisId="count" dataKey="accessPoints" fill="var(--color-accessPoints)" />
+                <Bar yAxisId="count" dataKey="strong" fill="var(--color-strong)" />
+                <Line yAxisId="score" dataKey="score" type="monotone" stroke="var(--color-score)" dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">Neighbouring access points ({analysis?.neighbors.length ?? 0})</CardTitle>
+          <Tabs value={String(hours)} onValueChange={(value) => setHours(parseInt(value))}>
+            <TabsList>
+              {RANGES.map(range => (
+                <TabsTrigger key={range.hours} value={String(range.hours)}>{range.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {analysis && analysis.neighbors.length > 0 ? (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Network</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Signal</TableHead>
+                    <TableHead>Security</TableHead>
+                    <TableHead>Seen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.neighbors.map(neighbor => (
+                    <TableRow key={neighbor.bssid}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{neighbor.ssid ?? "Hidden network"}</span>
+                          {neighbor.isOwn && <Badge variant="outline">Yours</Badge>}
+                        </div>
+                        <div className="font-mono text-xs text-muted-foreground">{neighbor.bssid}</div>
+                      </TableCell>
+                      <TableCell>
+                        {neighbor.channel} · {neighbor.width} MHz
+                        <div className="text-xs text-muted-foreground">{neighbor.band}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className={signalColor(neighbor.rssi)}>{neighbor.rssi} dBm</span>
+                        <div className="text-xs text-muted-foreground">
+                          best {neighbor.bestRssi} dBm{neighbor.noise !== null ? `, noise ${neighbor.noise} dBm` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={neighbor.security === "Open" || neighbor.security === "WEP" ? "destructive" : "secondary"}>
+                          {neighbor.security === "Open" ? <Unlock className="h-3 w-3 mr-1" /> : <Lock className="h-3 w-3 mr-1" />}
+                          {neighbor.security}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDistanceToNow(new Date(neighbor.lastSeen), { addSuffix: true })}
+                        <div className="text-xs text-muted-foreground">
+                          in {neighbor.seenIn} of {analysis.scans} scans since {new Date(neighbor.firstSeen).toLocaleString()}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-muted-foreground text-center py-8 text-sm">
+              No access points heard in this range
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
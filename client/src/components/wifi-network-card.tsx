@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { WifiNetwork } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { PASSPHRASE_SECURITY_MODES, WIFI_SECURITY_MODES, WIFI_SECURITY_MODES_6GHZ } from "@/lib/utils";
+import { Eye, EyeOff, RotateCcw, Save, Wifi } from "lucide-react";
+
+export interface ChannelOption {
+  channel: number;
+  width: number;
+  chanspec: string;
+}
+
+export interface RadioState {
+  unit: number;
+  ifname: string;
+  band: string;
+  label: string;
+  channel: number;
+  bandwidth: number;
+  options: ChannelOption[];
+}
+
+type NetworkEdit = Partial<Pick<WifiNetwork, "ssid" | "isEnabled" | "securityMode" | "password" | "channel" | "bandwidth">>;
+
+// Select value for a channel or width the radio picks itself
+const AUTO = "0";
+
+function unique(values: number[]) {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+// One network, main or guest, on any radio. Saving writes to the router, restarts wireless and
+// waits for the radio to report the new name and channel, so it can take a minute.
+export default function WifiNetworkCard({ network, radio }: { network: WifiNetwork; radio: RadioState | undefined }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const [edit, setEdit] = useState<NetworkEdit>({});
+  const [showPassword, setShowPassword] = useState(false);
+  const canEdit = hasRole("operator");
+
+  const isGuest = network.interface?.includes(".") ?? false;
+  const label = radio?.label ?? network.band;
+  const current = { ...network, ...edit };
+  const securityModes = network.band === "6GHz" ? WIFI_SECURITY_MODES_6GHZ : WIFI_SECURITY_MODES;
+  const needsPassword = PASSPHRASE_SECURITY_MODES.includes(current.securityMode) && !PASSPHRASE_SECURITY_MODES.includes(network.securityMode);
+  const bandwidth = current.bandwidth ?? 0;
+  const channels = unique((radio?.options ?? []).filter(option => !bandwidth || option.width === bandwidth).map(option => option.channel));
+  const widths = unique((radio?.options ?? []).filter(option => !current.channel || option.channel === current.channel).map(option => option.width));
+  const isDirty = Object.keys(edit).length > 0;
+
+  const change = (fields: NetworkEdit) => setEdit(prev => ({ ...prev, ...fields }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/wifi/${network.id}`, edit);
+      return await res.json() as WifiNetwork & { confirmation: string[] };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wifi"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wifi/radios"] });
+      setEdit({});
+      if (result.confirmation.length > 0) {
+        toast({
+          title: "Saved, but the radio has not caught up",
+          description: result.confirmation.join("; "),
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "WiFi network updated", description: `${result.ssid} is running with the new settings` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Wifi className="h-5 w-5 text-primary" />
+            <div>
+              <CardTitle className="text-base flex items-center gap-2">
+                {label} {isGuest ? "Guest Network" : "Network"}
+                {network.interface && <Badge variant="outline" className="font-mono text-xs">{network.interface}</Badge>}
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {current.channel ? `Channel ${current.channel}` : "Automatic channel"}
+                {current.bandwidth ? `, ${current.bandwidth} MHz` : ""}
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={current.isEnabled}
+            onCheckedChange={(isEnabled) => change({ isEnabled })}
+            disabled={!canEdit}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor={`ssid-${network.id}`} className="text-sm font-medium">
+            Network Name (SSID)
+          </Label>
+          <Input
+            id={`ssid-${network.id}`}
+            value={current.ssid}
+            onChange={(e) => change({ ssid: e.target.value })}
+            className="mt-1"
+            maxLength={32}
+            disabled={!canEdit}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-sm font-medium">Security</Label>
+            <Select value={current.securityMode} onValueChange={(securityMode) => change({ securityMode })} disabled={!canEdit}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([...securityModes, network.securityMode])).map(mode => (
+                  <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor={`password-${network.id}`} className="text-sm font-medium">
+              Password
+            </Label>
+            <div className="relative mt-1">
+              <Input
+                id={`password-${network.id}`}
+                type={showPassword ? "text" : "password"}
+                value={edit.password ?? ""}
+                onChange={(e) => change({ password: e.target.value })}
+                placeholder={needsPassword ? "Required" : "Unchanged"}
+                disabled={!canEdit || !PASSPHRASE_SECURITY_MODES.includes(current.securityMode)}
+                maxLength={64}
+                className="pr-10"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-0 top-0 h-full"
+                onClick={() => setShowPassword(!showPassword)}
+              >
+                {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {isGuest ? (
+          <p className="text-sm text-muted-foreground">Uses the {label} radio's channel; change it on the main network.</p>
+        ) : radio ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-sm font-medium">Channel</Label>
+              <Select
+                value={String(current.channel ?? 0)}
+                onValueChange={(value) => change({ channel: Number(value) })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO}>Auto</SelectItem>
+                  {channels.map(channel => (
+                    <SelectItem key={channel} value={String(channel)}>{channel}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-sm font-medium">Channel width</Label>
+              <Select
+                value={String(bandwidth)}
+                onValueChange={(value) => change({ bandwidth: Number(value) })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO}>Auto</SelectItem>
+                  {widths.map(width => (
+                    <SelectItem key={width} value={String(width)}>{width} MHz</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Connect over SSH to change the channel.</p>
+        )}
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Connected Devices:</span>
+          <span className="font-medium">{network.connectedDevices}</span>
+        </div>
+
+        {isDirty && canEdit && (
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setEdit({})} disabled={saveMutation.isPending}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset
+            </Button>
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || (needsPassword && !edit.password)}>
+              <Save className="h-4 w-4 mr-1" />
+              {saveMutation.isPending ? "Applying..." : "Save"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { createContext, useContext, ReactNode } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import type { User, UserRole } from '@shared/schema';
+import { getQueryFn, apiRequest, queryClient, getErrorMessage } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+export type SafeUser = Omit<User, 'password'>;
+
+type Credentials = {
+  username: string;
+  password: string;
+};
+
+type SetupCredentials = Credentials & {
+  setupToken: string;
+};
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+interface AuthContextType {
+  user: SafeUser | null;
+  isLoading: boolean;
+  needsSetup: boolean;
+  hasRole: (role: UserRole) => boolean;
+  loginMutation: UseMutationResult<SafeUser, Error, Credentials>;
+  setupMutation: UseMutationResult<SafeUser, Error, SetupCredentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading: userLoading } = useQuery<SafeUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: setupStatus, isLoading: setupLoading } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/auth/setup"],
+    enabled: user === null,
+  });
+
+  const onAuthenticated = (signedIn: SafeUser) => {
+    // Drop anything cached under a previous session before showing the app
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], signedIn);
+  };
+
+  const onAuthError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return await response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: onAuthError("Login failed"),
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (credentials: SetupCredentials) => {
+      const response = await apiRequest("POST", "/api/auth/setup", credentials);
+      return await response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: onAuthError("Setup failed"),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: onAuthError("Logout failed"),
+  });
+
+  const hasRole = (role: UserRole) =>
+    !!user && (ROLE_RANK[user.role as UserRole] ?? -1) >= ROLE_RANK[role];
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading: userLoading || (user === null && setupLoading),
+        needsSetup: !!setupStatus?.needsSetup,
+        hasRole,
+        loginMutation,
+        setupMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
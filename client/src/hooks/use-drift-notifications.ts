@@ -0,0 +1,50 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { NvramSnapshot } from '@shared/schema';
+import { addNotificationToHistory } from './use-notification-history';
+
+export interface DriftSummary {
+  latest: Omit<NvramSnapshot, 'values'> | null;
+  baseline: Omit<NvramSnapshot, 'values'> | null;
+  baselineDrift: number;
+  unacknowledged: Omit<NvramSnapshot, 'values'>[];
+}
+
+const NOTIFIED_STORAGE_KEY = 'router-app-drift-notified';
+
+function loadNotified(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(NOTIFIED_STORAGE_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+}
+
+// Adds one notification per drift snapshot the first time this browser sees it
+export function useDriftNotifications() {
+  const { data: drift } = useQuery<DriftSummary>({
+    queryKey: ['/api/nvram/drift'],
+    refetchInterval: 60000,
+  });
+
+  useEffect(() => {
+    if (!drift?.unacknowledged.length) return;
+
+    const notified = loadNotified();
+    for (const snapshot of drift.unacknowledged) {
+      const id = `nvram-drift-${snapshot.routerId}-${snapshot.id}`;
+      if (notified.has(id)) continue;
+
+      notified.add(id);
+      addNotificationToHistory({
+        id,
+        title: 'Configuration drift detected',
+        description: `${snapshot.driftCount} router settings changed outside this app`,
+        type: 'warning',
+      });
+    }
+    localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(Array.from(notified).slice(-200)));
+  }, [drift]);
+
+  return drift;
+}
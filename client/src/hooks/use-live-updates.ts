@@ -0,0 +1,119 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import type { BandwidthData, DeviceWithOverride, RouterStatus } from '@shared/schema';
+import { queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { useRouterSelection } from './use-router-selection';
+
+export interface SyncProgressEvent {
+  phases: { id: string; name: string; status: 'pending' | 'loading' | 'complete' | 'error' }[];
+  currentPhase: string | null;
+  progress: number;
+  done: boolean;
+}
+
+// Outcome of the ping follow-up after a Wake-on-LAN, named by device
+export interface WakeEvent {
+  label: string;
+  confirmed: string[];
+  unconfirmed: string[];
+}
+
+// Matches the default number of samples /api/bandwidth returns
+const BANDWIDTH_HISTORY = 24;
+
+let connected = false;
+const connectionListeners = new Set<() => void>();
+const syncProgressListeners = new Set<(progress: SyncProgressEvent) => void>();
+
+function setConnected(value: boolean) {
+  connected = value;
+  connectionListeners.forEach(listener => listener());
+}
+
+function subscribeConnection(listener: () => void) {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+export function onSyncProgress(listener: (progress: SyncProgressEvent) => void) {
+  syncProgressListeners.add(listener);
+  return () => {
+    syncProgressListeners.delete(listener);
+  };
+}
+
+// Whether pushed updates are arriving, so pages can poll less while they are
+export function useLiveConnected(): boolean {
+  return useSyncExternalStore(subscribeConnection, () => connected);
+}
+
+// Only touches lists that were already fetched; an empty cache entry would stop the first fetch
+function upsertDevice(device: DeviceWithOverride) {
+  queryClient.setQueryData<DeviceWithOverride[]>(['/api/devices'], (devices) => {
+    if (!devices) return devices;
+    return devices.some(existing => existing.id === device.id)
+      ? devices.map(existing => existing.id === device.id ? device : existing)
+      : [...devices, device];
+  });
+  // Presence feeds and timelines have a session opened or closed by the same sync, and a rename
+  // or new type usually comes from freshly recorded identification attributes
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = String(query.queryKey[0]);
+      return key.startsWith('/api/device-presence') || key.startsWith(`/api/devices/${device.id}/sessions`) || key === `/api/devices/${device.id}/attributes`;
+    },
+  });
+}
+
+// Opens the event stream for the selected router and writes what it pushes into the query cache
+export function useLiveUpdates() {
+  const { selectedRouter } = useRouterSelection();
+  const routerId = selectedRouter?.id;
+
+  useEffect(() => {
+    if (routerId === undefined) return;
+
+    const source = new EventSource(`/api/events?routerId=${routerId}`, { withCredentials: true });
+    const on = <T,>(type: string, handler: (data: T) => void) => {
+      source.addEventListener(type, (event) => handler(JSON.parse((event as MessageEvent).data)));
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    on<RouterStatus>('status', (status) => {
+      queryClient.setQueryData(['/api/router/status'], status);
+    });
+    on<BandwidthData>('bandwidth', (sample) => {
+      queryClient.setQueryData<BandwidthData[]>(['/api/bandwidth'], (history) =>
+        history && [sample, ...history].slice(0, BANDWIDTH_HISTORY));
+    });
+    on<DeviceWithOverride>('device-joined', upsertDevice);
+    on<DeviceWithOverride>('device-left', upsertDevice);
+    on<DeviceWithOverride>('device-updated', upsertDevice);
+    on<{ id: string }>('job', (job) => {
+      queryClient.setQueryData<{ id: string }[]>(['/api/background-services'], (jobs) =>
+        jobs?.map(existing => existing.id === job.id ? job : existing));
+    });
+    on<WakeEvent>('wake', (wake) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wake-schedules'] });
+      toast(wake.unconfirmed.length === 0
+        ? { title: `${wake.label} is awake`, description: `${wake.confirmed.join(', ')} answered ping` }
+        : {
+          title: `${wake.label} did not wake`,
+          description: `No ping answer from ${wake.unconfirmed.join(', ')}${wake.confirmed.length > 0 ? `; ${wake.confirmed.join(', ')} came up` : ''}`,
+          variant: 'destructive',
+        });
+    });
+    on<SyncProgressEvent>('sync-progress', (progress) => {
+      syncProgressListeners.forEach(listener => listener(progress));
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [routerId]);
+}
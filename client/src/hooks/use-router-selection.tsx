@@ -0,0 +1,55 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Router } from '@shared/schema';
+import { queryClient, getSelectedRouterId, setSelectedRouterId } from '@/lib/queryClient';
+
+export type ManagedRouter = Router & { isConnected: boolean };
+
+interface RouterSelectionContextType {
+  routers: ManagedRouter[];
+  selectedRouter: ManagedRouter | undefined;
+  selectRouter: (id: number) => void;
+}
+
+const RouterSelectionContext = createContext<RouterSelectionContextType | undefined>(undefined);
+
+export function RouterSelectionProvider({ children }: { children: ReactNode }) {
+  const [selectedId, setSelectedId] = useState<number | null>(getSelectedRouterId());
+
+  const { data: routers = [] } = useQuery<ManagedRouter[]>({
+    queryKey: ["/api/routers"],
+    refetchInterval: 30000,
+  });
+
+  const selectRouter = (id: number) => {
+    if (id === selectedId) return;
+    setSelectedRouterId(id);
+    setSelectedId(id);
+    // Everything except the router list belongs to the previous router
+    queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== "/api/routers" });
+  };
+
+  // Fall back to the first router when nothing is selected yet or the
+  // selected router was removed
+  useEffect(() => {
+    if (routers.length > 0 && !routers.some(router => router.id === selectedId)) {
+      selectRouter(routers[0].id);
+    }
+  }, [routers, selectedId]);
+
+  const selectedRouter = routers.find(router => router.id === selectedId);
+
+  return (
+    <RouterSelectionContext.Provider value={{ routers, selectedRouter, selectRouter }}>
+      {children}
+    </RouterSelectionContext.Provider>
+  );
+}
+
+export function useRouterSelection() {
+  const context = useContext(RouterSelectionContext);
+  if (context === undefined) {
+    throw new Error('useRouterSelection must be used within a RouterSelectionProvider');
+  }
+  return context;
+}
@@ -1,114 +1,56 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import { onSyncProgress } from './use-live-updates';
 
 interface SyncPhase {
   id: string;
   name: string;
   description: string;
-  progress: number;
   status: 'pending' | 'loading' | 'complete' | 'error';
 }
 
+const PHASE_DESCRIPTIONS: Record<string, string> = {
+  systemInfo: 'Router status and system resources',
+  devices: 'Network devices and connection details',
+  wifi: 'Wireless networks on every band',
+  bandwidth: 'Current upload and download rates',
+  features: 'Merlin features and AiMesh nodes',
+  portForwarding: 'Port forwarding rules from NVRAM',
+  dhcpReservations: 'DHCP static reservations from NVRAM',
+};
+
+// Follows the phases the server reports while it syncs; nothing is shown until startSync is called
 export function useSyncProgress() {
   const [isVisible, setIsVisible] = useState(false);
   const [currentPhase, setCurrentPhase] = useState<string>('');
-  const [phases, setPhases] = useState<SyncPhase[]>([
-    {
-      id: 'essential',
-      name: 'Essential Data',
-      description: 'Router status, system info, and bandwidth',
-      progress: 0,
-      status: 'pending'
-    },
-    {
-      id: 'devices',
-      name: 'Connected Devices',
-      description: 'Network devices and connection details',
-      progress: 0,
-      status: 'pending'
-    },
-    {
-      id: 'advanced',
-      name: 'Advanced Features',
-      description: 'WiFi networks and Merlin features',
-      progress: 0,
-      status: 'pending'
-    }
-  ]);
+  const [phases, setPhases] = useState<SyncPhase[]>([]);
+  const [overallProgress, setOverallProgress] = useState(0);
+
+  useEffect(() => onSyncProgress((progress) => {
+    setPhases(progress.phases.map(phase => ({
+      ...phase,
+      description: PHASE_DESCRIPTIONS[phase.id] || '',
+    })));
+    setCurrentPhase(progress.currentPhase || '');
+    setOverallProgress(progress.done ? 100 : progress.progress);
+  }), []);
 
   const startSync = useCallback(() => {
     setIsVisible(true);
-    setCurrentPhase('essential');
-    setPhases(prevPhases => 
-      prevPhases.map(phase => ({
-        ...phase,
-        progress: 0,
-        status: phase.id === 'essential' ? 'loading' : 'pending'
-      }))
-    );
-  }, []);
-
-  const updatePhaseProgress = useCallback((phaseId: string, progress: number) => {
-    setPhases(prevPhases =>
-      prevPhases.map(phase =>
-        phase.id === phaseId
-          ? { ...phase, progress, status: 'loading' }
-          : phase
-      )
-    );
-  }, []);
-
-  const completePhase = useCallback((phaseId: string) => {
-    setPhases(prevPhases =>
-      prevPhases.map(phase =>
-        phase.id === phaseId
-          ? { ...phase, progress: 100, status: 'complete' }
-          : phase
-      )
-    );
-    
-    // Move to next phase
-    const phaseOrder = ['essential', 'devices', 'advanced'];
-    const currentIndex = phaseOrder.indexOf(phaseId);
-    const nextPhase = phaseOrder[currentIndex + 1];
-    
-    if (nextPhase) {
-      setCurrentPhase(nextPhase);
-      setPhases(prevPhases =>
-        prevPhases.map(phase =>
-          phase.id === nextPhase
-            ? { ...phase, status: 'loading' }
-            : phase
-        )
-      );
-    }
-  }, []);
-
-  const finishSync = useCallback(() => {
-    setPhases(prevPhases =>
-      prevPhases.map(phase => ({
-        ...phase,
-        progress: 100,
-        status: 'complete'
-      }))
-    );
     setCurrentPhase('');
+    setPhases([]);
+    setOverallProgress(0);
   }, []);
 
   const hideProgress = useCallback(() => {
     setIsVisible(false);
   }, []);
 
-  const overallProgress = phases.reduce((total, phase) => total + phase.progress, 0) / phases.length;
-
   return {
     isVisible,
     phases,
     currentPhase,
     overallProgress,
     startSync,
-    updatePhaseProgress,
-    completePhase,
-    finishSync,
     hideProgress
   };
-}
\ No newline at end of file
+}
@@ -1,12 +1,45 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const SELECTED_ROUTER_KEY = "selected-router-id";
+
+// The managed router every API request is scoped to. The server falls back to
+// the first configured router when no id is sent.
+export function getSelectedRouterId(): number | null {
+  const stored = localStorage.getItem(SELECTED_ROUTER_KEY);
+  const id = stored ? parseInt(stored) : NaN;
+  return isNaN(id) ? null : id;
+}
+
+export function setSelectedRouterId(id: number) {
+  localStorage.setItem(SELECTED_ROUTER_KEY, String(id));
+}
+
+export function routerHeaders(): Record<string, string> {
+  const id = getSelectedRouterId();
+  return id !== null ? { "X-Router-Id": String(id) } : {};
+}
+
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 401) {
+    // Session expired or was revoked; clearing the user drops the app back to the login page
+    queryClient.setQueryData(["/api/user"], null);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
   }
 }
 
+// Pulls the server's message out of the "<status>: <body>" errors thrown below
+export function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +47,9 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data
+      ? { "Content-Type": "application/json", ...routerHeaders() }
+      : routerHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +65,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: routerHeaders(),
       credentials: "include",
     });
 
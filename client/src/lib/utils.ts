@@ -25,6 +25,16 @@ export function formatBytes(bytes: number, decimals = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
 
+export function formatTimeLeft(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
 export function formatSpeed(mbps: number): string {
   if (mbps >= 1000) {
     return `${(mbps / 1000).toFixed(1)} Gbps`;
@@ -32,6 +42,14 @@ export function formatSpeed(mbps: number): string {
   return `${mbps.toFixed(1)} Mbps`;
 }
 
+// The types device identification assigns, so hand-set ones match the rest
+export const DEVICE_TYPES = ["desktop", "laptop", "mobile", "tablet", "tv", "streaming", "gaming", "speaker", "camera", "printer", "nas", "smart-home", "router", "unknown"];
+
+// Security modes as the server labels them; 6GHz only allows WPA3 and Enhanced Open
+export const WIFI_SECURITY_MODES = ["Open", "Enhanced Open", "WPA2", "WPA/WPA2", "WPA2/WPA3", "WPA3"];
+export const WIFI_SECURITY_MODES_6GHZ = ["Enhanced Open", "WPA3"];
+export const PASSPHRASE_SECURITY_MODES = ["WPA2", "WPA/WPA2", "WPA2/WPA3", "WPA3"];
+
 export function getDeviceIcon(deviceType: string): string {
   switch (deviceType.toLowerCase()) {
     case 'laptop':
@@ -0,0 +1,547 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { AlertChannel, AlertEvent, AlertRule } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import TopBar from "@/components/top-bar";
+import { Bell, CheckCheck, Plus, Send, Trash2, Radio } from "lucide-react";
+
+type AlertChannelSummary = Omit<AlertChannel, "encryptedSecret"> & { hasSecret: boolean };
+
+interface AlertDelivery {
+  channelId: number;
+  ok: boolean;
+  error?: string;
+}
+
+const RULE_TYPES: { id: string; label: string; unit?: string; defaultThreshold?: number }[] = [
+  { id: "cpu_usage", label: "CPU usage above", unit: "%", defaultThreshold: 90 },
+  { id: "memory_usage", label: "Memory usage above", unit: "%", defaultThreshold: 90 },
+  { id: "temperature", label: "Temperature above", unit: "°C", defaultThreshold: 80 },
+  { id: "channel_utilization", label: "WiFi airtime busy above", unit: "%", defaultThreshold: 80 },
+  { id: "unknown_device", label: "New device joins" },
+  { id: "node_offline", label: "AiMesh node goes offline" },
+  { id: "wan_ip_change", label: "WAN IP changes" },
+  { id: "job_failure", label: "Background job fails" },
+];
+
+// Settings each channel type asks for; the secret is stored encrypted and never sent back
+const CHANNEL_FIELDS: Record<string, { fields: { key: string; label: string; placeholder?: string }[]; secretLabel: string }> = {
+  smtp: {
+    fields: [
+      { key: "host", label: "SMTP host", placeholder: "smtp.example.com" },
+      { key: "port", label: "Port", placeholder: "587" },
+      { key: "username", label: "Username" },
+      { key: "from", label: "From", placeholder: "router@example.com" },
+      { key: "to", label: "To", placeholder: "me@example.com" },
+    ],
+    secretLabel: "Password",
+  },
+  webhook: {
+    fields: [{ key: "url", label: "URL", placeholder: "https://example.com/hooks/router" }],
+    secretLabel: "Bearer token (optional)",
+  },
+  ntfy: {
+    fields: [
+      { key: "server", label: "Server", placeholder: "https://ntfy.sh" },
+      { key: "topic", label: "Topic" },
+    ],
+    secretLabel: "Access token (optional)",
+  },
+  gotify: {
+    fields: [{ key: "server", label: "Server", placeholder: "https://gotify.example.com" }],
+    secretLabel: "Application token",
+  },
+};
+
+const SEVERITY_COLORS: Record<string, string> = {
+  info: "bg-blue-500/20 text-blue-400",
+  warning: "bg-yellow-500/20 text-yellow-400",
+  critical: "bg-red-500/20 text-red-400",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  open: "bg-red-500/20 text-red-400",
+  acknowledged: "bg-yellow-500/20 text-yellow-400",
+  resolved: "bg-green-500/20 text-green-400",
+};
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function invalidateAlerts() {
+  queryClient.invalidateQueries({ queryKey: ["/api/alerts/events"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/alerts/channels"] });
+}
+
+function useErrorToast() {
+  const { toast } = useToast();
+  return (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error) || fallback,
+      variant: "destructive",
+    });
+  };
+}
+
+function EventsTab({ rules, channels }: { rules: AlertRule[]; channels: AlertChannelSummary[] }) {
+  const { hasRole } = useAuth();
+  const showError = useErrorToast();
+  const [status, setStatus] = useState("unresolved");
+
+  const { data: events, isLoading } = useQuery<AlertEvent[]>({
+    queryKey: [`/api/alerts/events?status=${status}`],
+    refetchInterval: 30000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number | null) => {
+      return await apiRequest("POST", id === null ? "/api/alerts/events/acknowledge-all" : `/api/alerts/events/${id}/acknowledge`);
+    },
+    onSuccess: invalidateAlerts,
+    onError: showError("Failed to acknowledge alert"),
+  });
+
+  const ruleName = (id: number) => rules.find(rule => rule.id === id)?.name ?? `Rule ${id}`;
+  const channelName = (id: number) => channels.find(channel => channel.id === id)?.name ?? `Channel ${id}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="h-5 w-5" />
+          <span>Alerts</span>
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unresolved">Unresolved</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="acknowledged">Acknowledged</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+            </SelectContent>
+          </Select>
+          {hasRole("operator") && events?.some(event => event.status === "open") && (
+            <Button size="sm" variant="outline" onClick={() => acknowledgeMutation.mutate(null)} disabled={acknowledgeMutation.isPending}>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Acknowledge All
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : events && events.length > 0 ? (
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {events.map((event) => {
+              const deliveries: AlertDelivery[] = JSON.parse(event.deliveries);
+              return (
+                <div key={event.id} className="p-3 text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge className={SEVERITY_COLORS[event.severity] || ""}>{event.severity}</Badge>
+                    <span className="font-medium flex-1">{event.title}</span>
+                    <Badge className={STATUS_COLORS[event.status] || ""}>{event.status}</Badge>
+                    {event.status === "open" && hasRole("operator") && (
+                      <Button size="sm" variant="outline" className="h-6 px-2" onClick={() => acknowledgeMutation.mutate(event.id)} disabled={acknowledgeMutation.isPending}>
+                        Acknowledge
+                      </Button>
+                    )}
+                  </div>
+                  <div className="text-muted-foreground">{event.message}</div>
+                  <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4">
+                    <span>{ruleName(event.ruleId)}</span>
+                    <span>Raised {formatDate(event.createdAt)}</span>
+                    {event.acknowledgedAt && <span>Acknowledged by {event.acknowledgedBy} {formatDate(event.acknowledgedAt)}</span>}
+                    {event.resolvedAt && <span>Resolved {formatDate(event.resolvedAt)}</span>}
+                    {deliveries.map(delivery => (
+                      <span key={delivery.channelId} className={delivery.ok ? "text-green-400" : "text-red-400"} title={delivery.error}>
+                        {channelName(delivery.channelId)}: {delivery.ok ? "sent" : "failed"}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">No alerts</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RulesTab({ rules, channels }: { rules: AlertRule[]; channels: AlertChannelSummary[] }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const showError = useErrorToast();
+  const canEdit = hasRole("operator");
+  const [name, setName] = useState("");
+  const [type, setType] = useState(RULE_TYPES[0].id);
+  const [threshold, setThreshold] = useState("");
+  const [severity, setSeverity] = useState("warning");
+  const [cooldown, setCooldown] = useState("30");
+  const [channelIds, setChannelIds] = useState<number[]>([]);
+
+  const ruleType = RULE_TYPES.find(candidate => candidate.id === type);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/alerts/rules", {
+        name,
+        type,
+        threshold: ruleType?.unit ? parseFloat(threshold) || ruleType.defaultThreshold : null,
+        severity,
+        cooldownMinutes: parseInt(cooldown) || 0,
+        channelIds,
+      });
+    },
+    onSuccess: () => {
+      invalidateAlerts();
+      setName("");
+      setThreshold("");
+      setChannelIds([]);
+      toast({
+        title: "Rule Created",
+        description: "It is checked after the next matching background job",
+      });
+    },
+    onError: showError("Failed to create alert rule"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Record<string, unknown> }) => {
+      return await apiRequest("PUT", `/api/alerts/rules/${id}`, data);
+    },
+    onSuccess: invalidateAlerts,
+    onError: showError("Failed to update alert rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/alerts/rules/${id}`);
+    },
+    onSuccess: invalidateAlerts,
+    onError: showError("Failed to delete alert rule"),
+  });
+
+  const describeRule = (rule: AlertRule) => {
+    const ruleInfo = RULE_TYPES.find(candidate => candidate.id === rule.type);
+    const limit = ruleInfo?.unit ? ` ${rule.threshold ?? ruleInfo.defaultThreshold}${ruleInfo.unit}` : "";
+    return `${ruleInfo?.label ?? rule.type}${limit}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length > 0 ? (
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {rules.map((rule) => {
+              const ruleChannels: number[] = JSON.parse(rule.channelIds);
+              return (
+                <div key={rule.id} className="flex items-center gap-3 p-3 text-sm">
+                  <Switch
+                    checked={rule.isEnabled}
+                    disabled={!canEdit}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: rule.id, data: { isEnabled: checked } })}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">{rule.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {describeRule(rule)} · every {rule.cooldownMinutes} min until acknowledged ·{" "}
+                      {ruleChannels.length > 0
+                        ? ruleChannels.map(id => channels.find(channel => channel.id === id)?.name ?? `#${id}`).join(", ")
+                        : "no channels"}
+                    </div>
+                  </div>
+                  <Badge className={SEVERITY_COLORS[rule.severity] || ""}>{rule.severity}</Badge>
+                  {canEdit && (
+                    <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(rule.id)} disabled={deleteMutation.isPending}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">No alert rules yet</div>
+        )}
+
+        {canEdit && (
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Router running hot" />
+              </div>
+              <div className="space-y-1">
+                <Label>Condition</Label>
+                <Select value={type} onValueChange={setType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_TYPES.map(ruleInfo => (
+                      <SelectItem key={ruleInfo.id} value={ruleInfo.id}>{ruleInfo.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {ruleType?.unit && (
+                <div className="space-y-1">
+                  <Label>Threshold ({ruleType.unit})</Label>
+                  <Input type="number" value={threshold} onChange={(e) => setThreshold(e.target.value)} placeholder={String(ruleType.defaultThreshold)} />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label>Severity</Label>
+                <Select value={severity} onValueChange={setSeverity}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="info">Info</SelectItem>
+                    <SelectItem value="warning">Warning</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Cooldown (minutes)</Label>
+                <Input type="number" value={cooldown} onChange={(e) => setCooldown(e.target.value)} />
+              </div>
+            </div>
+            {channels.length > 0 && (
+              <div className="flex flex-wrap gap-4">
+                {channels.map(channel => (
+                  <label key={channel.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={channelIds.includes(channel.id)}
+                      onCheckedChange={(checked) => setChannelIds(checked
+                        ? [...channelIds, channel.id]
+                        : channelIds.filter(id => id !== channel.id))}
+                    />
+                    {channel.name}
+                  </label>
+                ))}
+              </div>
+            )}
+            <Button onClick={() => createMutation.mutate()} disabled={!name || createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChannelsTab({ channels }: { channels: AlertChannelSummary[] }) {
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const showError = useErrorToast();
+  const isAdmin = hasRole("admin");
+  const [name, setName] = useState("");
+  const [type, setType] = useState("ntfy");
+  const [config, setConfig] = useState<Record<string, string>>({});
+  const [secret, setSecret] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/alerts/channels", { name, type, config, secret: secret || undefined });
+    },
+    onSuccess: () => {
+      invalidateAlerts();
+      setName("");
+      setConfig({});
+      setSecret("");
+    },
+    onError: showError("Failed to add channel"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: number; isEnabled: boolean }) => {
+      return await apiRequest("PUT", `/api/alerts/channels/${id}`, { isEnabled });
+    },
+    onSuccess: invalidateAlerts,
+    onError: showError("Failed to update channel"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/alerts/channels/${id}/test`);
+      return await response.json();
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Test Sent",
+        description: result.message,
+      });
+    },
+    onError: showError("Failed to send test alert"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/alerts/channels/${id}`);
+    },
+    onSuccess: invalidateAlerts,
+    onError: showError("Failed to delete channel"),
+  });
+
+  const channelFields = CHANNEL_FIELDS[type];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Radio className="h-5 w-5" />
+          <span>Delivery Channels</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {channels.length > 0 ? (
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {channels.map((channel) => (
+              <div key={channel.id} className="flex items-center gap-3 p-3 text-sm">
+                <Switch
+                  checked={channel.isEnabled}
+                  disabled={!isAdmin}
+                  onCheckedChange={(checked) => updateMutation.mutate({ id: channel.id, isEnabled: checked })}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{channel.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {channel.type} · {Object.values(JSON.parse(channel.config)).filter(Boolean).join(" · ")}
+                    {channel.hasSecret && " · secret set"}
+                  </div>
+                </div>
+                {isAdmin && (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => testMutation.mutate(channel.id)} disabled={testMutation.isPending}>
+                      <Send className="h-4 w-4 mr-2" />
+                      Test
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => deleteMutation.mutate(channel.id)} disabled={deleteMutation.isPending}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-muted-foreground text-center py-8 text-sm">
+            No channels yet; alerts are only shown here until one is added
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Phone" />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => { setType(value); setConfig({}); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="smtp">Email (SMTP)</SelectItem>
+                    <SelectItem value="webhook">Webhook</SelectItem>
+                    <SelectItem value="ntfy">ntfy</SelectItem>
+                    <SelectItem value="gotify">Gotify</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {channelFields.fields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label>{field.label}</Label>
+                  <Input
+                    value={config[field.key] ?? ""}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setConfig({ ...config, [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label>{channelFields.secretLabel}</Label>
+                <Input type="password" value={secret} onChange={(e) => setSecret(e.target.value)} />
+              </div>
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={!name || createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Channel
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AlertsPage() {
+  const { data: rules, isLoading: rulesLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alerts/rules"],
+  });
+  const { data: channels, isLoading: channelsLoading } = useQuery<AlertChannelSummary[]>({
+    queryKey: ["/api/alerts/channels"],
+  });
+
+  return (
+    <div>
+      <TopBar
+        title="Alerts"
+        subtitle="Rules checked after every background job, delivered even with no browser open"
+      />
+      <div className="p-6 space-y-6">
+        {rulesLoading || channelsLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <Tabs defaultValue="events">
+            <TabsList>
+              <TabsTrigger value="events">Events</TabsTrigger>
+              <TabsTrigger value="rules">Rules</TabsTrigger>
+              <TabsTrigger value="channels">Channels</TabsTrigger>
+            </TabsList>
+            <TabsContent value="events">
+              <EventsTab rules={rules ?? []} channels={channels ?? []} />
+            </TabsContent>
+            <TabsContent value="rules">
+              <RulesTab rules={rules ?? []} channels={channels ?? []} />
+            </TabsContent>
+            <TabsContent value="channels">
+              <ChannelsTab channels={channels ?? []} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
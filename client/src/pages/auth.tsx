@@ -0,0 +1,179 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { Wifi, RefreshCw, Shield } from "lucide-react";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const setupSchema = z.object({
+  setupToken: z.string().min(1, "Setup token is required"),
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type LoginData = z.infer<typeof loginSchema>;
+type SetupData = z.infer<typeof setupSchema>;
+
+export default function AuthPage() {
+  const { needsSetup, loginMutation, setupMutation } = useAuth();
+
+  const loginForm = useForm<LoginData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const setupForm = useForm<SetupData>({
+    resolver: zodResolver(setupSchema),
+    defaultValues: { setupToken: "", username: "", password: "", confirmPassword: "" },
+  });
+
+  const handleLogin = (data: LoginData) => {
+    loginMutation.mutate(data);
+  };
+
+  const handleSetup = ({ setupToken, username, password }: SetupData) => {
+    setupMutation.mutate({ setupToken, username, password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+              <Wifi className="h-5 w-5 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>ASUS Manager</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {needsSetup ? "Create the administrator account" : "Sign in to continue"}
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {needsSetup ? (
+            <>
+              <Alert className="mb-4">
+                <Shield className="h-4 w-4" />
+                <AlertDescription>
+                  No accounts exist yet. The first account is an administrator and can invite
+                  viewers and operators from System Settings. Enter the setup token from the
+                  SETUP_TOKEN variable or the server log.
+                </AlertDescription>
+              </Alert>
+              <Form {...setupForm}>
+                <form onSubmit={setupForm.handleSubmit(handleSetup)} className="space-y-4">
+                  <FormField
+                    control={setupForm.control}
+                    name="setupToken"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Setup Token</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="off" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={setupForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={setupForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={setupForm.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={setupMutation.isPending}>
+                    {setupMutation.isPending && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Administrator
+                  </Button>
+                </form>
+              </Form>
+            </>
+          ) : (
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                <FormField
+                  control={loginForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={loginForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="current-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                  {loginMutation.isPending && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                  Sign In
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { NvramSnapshot } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useDriftNotifications } from "@/hooks/use-drift-notifications";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import TopBar from "@/components/top-bar";
+import { Camera, Pin, CheckCheck, Lock, FileDiff, AlertTriangle } from "lucide-react";
+
+type NvramSnapshotSummary = Omit<NvramSnapshot, "values">;
+
+interface SnapshotDiffEntry {
+  key: string;
+  subsystem: string;
+  kind: "added" | "removed" | "changed";
+  before: string | null;
+  after: string | null;
+  secret: boolean;
+  fromApp: boolean;
+}
+
+interface SnapshotDiff {
+  against: "previous" | "baseline";
+  from: NvramSnapshotSummary | null;
+  to: NvramSnapshotSummary;
+  entries: SnapshotDiffEntry[];
+}
+
+const SUBSYSTEMS: { id: string; label: string }[] = [
+  { id: "wireless", label: "Wireless" },
+  { id: "firewall", label: "Firewall" },
+  { id: "dhcp", label: "DHCP" },
+  { id: "vpn", label: "VPN" },
+  { id: "wan", label: "WAN" },
+  { id: "lan", label: "LAN" },
+  { id: "system", label: "System" },
+  { id: "other", label: "Other" },
+];
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function invalidateDrift() {
+  queryClient.invalidateQueries({ queryKey: ["/api/nvram/snapshots"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/nvram/drift"] });
+}
+
+function DiffEntryRow({ entry }: { entry: SnapshotDiffEntry }) {
+  return (
+    <div className="p-2 space-y-1 text-xs font-mono">
+      <div className="flex items-center gap-2">
+        <span className="text-foreground">{entry.key}</span>
+        {entry.secret && <Lock className="h-3 w-3 text-muted-foreground" />}
+        {entry.fromApp && <Badge variant="secondary" className="font-sans">changed here</Badge>}
+        {entry.kind !== "changed" && <span className="text-muted-foreground font-sans">{entry.kind}</span>}
+      </div>
+      {entry.before !== null && <div className="text-red-400 break-all">- {entry.before}</div>}
+      {entry.after !== null && <div className="text-green-400 break-all">+ {entry.after}</div>}
+    </div>
+  );
+}
+
+function SnapshotDiffView({ snapshot, against }: { snapshot: NvramSnapshotSummary; against: "previous" | "baseline" }) {
+  const { data: diff, isLoading, error } = useQuery<SnapshotDiff>({
+    queryKey: [`/api/nvram/snapshots/${snapshot.id}/diff?against=${against}`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+  if (error) {
+    return <p className="text-sm text-red-400">{getErrorMessage(error as Error) || "Failed to load diff"}</p>;
+  }
+  if (!diff?.from) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {against === "baseline" ? "No baseline has been pinned yet." : "This is the first snapshot; there is nothing to compare it with."}
+      </p>
+    );
+  }
+  if (diff.entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No differences from the snapshot of {formatDate(diff.from.createdAt)}.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {diff.entries.length} settings differ from the snapshot of {formatDate(diff.from.createdAt)}
+      </p>
+      {SUBSYSTEMS.map(({ id, label }) => {
+        const entries = diff.entries.filter(entry => entry.subsystem === id);
+        if (entries.length === 0) return null;
+        return (
+          <div key={id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">{label}</h3>
+              <span className="text-xs text-muted-foreground">{entries.length}</span>
+            </div>
+            <div className="border border-border rounded divide-y divide-border">
+              {entries.map(entry => <DiffEntryRow key={entry.key} entry={entry} />)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ConfigDriftPage() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const drift = useDriftNotifications();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [against, setAgainst] = useState<"previous" | "baseline">("previous");
+
+  const { data: snapshots, isLoading } = useQuery<NvramSnapshotSummary[]>({
+    queryKey: ["/api/nvram/snapshots"],
+    refetchInterval: 60000,
+  });
+
+  const selected = snapshots?.find(snapshot => snapshot.id === selectedId) ?? snapshots?.[0];
+
+  const showError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error) || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const snapshotMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/nvram/snapshots");
+      return await response.json();
+    },
+    onSuccess: (result: { message: string; snapshot: NvramSnapshotSummary }) => {
+      invalidateDrift();
+      setSelectedId(result.snapshot.id);
+      toast({
+        title: "Snapshot Taken",
+        description: result.message,
+      });
+    },
+    onError: showError("Failed to take NVRAM snapshot"),
+  });
+
+  const baselineMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/nvram/snapshots/${id}/baseline`);
+    },
+    onSuccess: () => {
+      invalidateDrift();
+      toast({
+        title: "Baseline Pinned",
+        description: "Future snapshots can now be compared against this one",
+      });
+    },
+    onError: showError("Failed to pin baseline"),
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number | null) => {
+      return await apiRequest("POST", id === null ? "/api/nvram/drift/acknowledge" : `/api/nvram/snapshots/${id}/acknowledge`);
+    },
+    onSuccess: invalidateDrift,
+    onError: showError("Failed to acknowledge drift"),
+  });
+
+  return (
+    <div>
+      <TopBar
+        title="Config Drift"
+        subtitle="Router settings changed outside this app"
+      />
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">Last checked</div>
+              <div className="text-lg font-semibold">{formatDate(drift?.latest?.checkedAt ?? null)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">Baseline</div>
+              <div className="text-lg font-semibold">{drift?.baseline ? formatDate(drift.baseline.createdAt) : "Not pinned"}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">Differences from baseline</div>
+              <div className="text-lg font-semibold">{drift?.baseline ? drift.baselineDrift : "—"}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 flex items-center justify-between">
+              <div>
+                <div className="text-sm text-muted-foreground">Unacknowledged drift</div>
+                <div className={`text-lg font-semibold ${drift?.unacknowledged.length ? "text-yellow-400" : ""}`}>
+                  {drift?.unacknowledged.length ?? 0}
+                </div>
+              </div>
+              {!!drift?.unacknowledged.length && hasRole("operator") && (
+                <Button size="sm" variant="outline" onClick={() => acknowledgeMutation.mutate(null)} disabled={acknowledgeMutation.isPending}>
+                  <CheckCheck className="h-4 w-4 mr-2" />
+                  All
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center space-x-2">
+                <Camera className="h-5 w-5" />
+                <span>Snapshots</span>
+              </CardTitle>
+              {hasRole("operator") && (
+                <Button size="sm" onClick={() => snapshotMutation.mutate()} disabled={snapshotMutation.isPending}>
+                  {snapshotMutation.isPending ? "Capturing..." : "Take Snapshot"}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <Skeleton className="h-40 w-full" />
+              ) : snapshots && snapshots.length > 0 ? (
+                <div className="border border-border rounded-lg max-h-[32rem] overflow-y-auto divide-y divide-border">
+                  {snapshots.map((snapshot) => (
+                    <button
+                      key={snapshot.id}
+                      type="button"
+                      className={`w-full text-left p-2 text-xs hover:bg-accent ${selected?.id === snapshot.id ? "bg-accent" : ""}`}
+                      onClick={() => setSelectedId(snapshot.id)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{formatDate(snapshot.createdAt)}</span>
+                        <div className="flex items-center gap-1">
+                          {snapshot.isBaseline && <Badge variant="secondary">baseline</Badge>}
+                          {snapshot.driftCount > 0 && !snapshot.acknowledgedAt && (
+                            <Badge className="bg-yellow-500/20 text-yellow-400">drift</Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {snapshot.changeCount} changed · {snapshot.driftCount} outside this app · {snapshot.keyCount} keys
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-muted-foreground text-center py-8 text-sm">
+                  No snapshots yet; the drift check runs every 15 minutes
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center space-x-2">
+                <FileDiff className="h-5 w-5" />
+                <span>Changes</span>
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {selected && selected.driftCount > 0 && !selected.acknowledgedAt && hasRole("operator") && (
+                  <Button size="sm" variant="outline" onClick={() => acknowledgeMutation.mutate(selected.id)} disabled={acknowledgeMutation.isPending}>
+                    <CheckCheck className="h-4 w-4 mr-2" />
+                    Acknowledge
+                  </Button>
+                )}
+                {selected && !selected.isBaseline && hasRole("admin") && (
+                  <Button size="sm" variant="outline" onClick={() => baselineMutation.mutate(selected.id)} disabled={baselineMutation.isPending}>
+                    <Pin className="h-4 w-4 mr-2" />
+                    Pin as Baseline
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={against} onValueChange={(value) => setAgainst(value as "previous" | "baseline")}>
+                <TabsList>
+                  <TabsTrigger value="previous">Since previous snapshot</TabsTrigger>
+                  <TabsTrigger value="baseline">Since baseline</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {selected ? (
+                <>
+                  {selected.driftCount > 0 && !selected.acknowledgedAt && (
+                    <div className="flex items-center gap-2 text-sm text-yellow-400">
+                      <AlertTriangle className="h-4 w-4" />
+                      {selected.driftCount} settings were changed on the router without going through this app
+                    </div>
+                  )}
+                  <SnapshotDiffView snapshot={selected} against={against} />
+                  <p className="text-xs text-muted-foreground">
+                    Passwords and keys are never stored; a change to one only shows that it changed.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Select a snapshot to see what changed.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
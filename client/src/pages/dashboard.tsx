@@ -8,8 +8,12 @@ import { Skeleton } from "@/components/ui/skeleton";
 
 import OptimizedNetworkTopology from "@/components/optimized-network-topology";
 import DeviceTable from "@/components/device-table";
+import TopTalkers from "@/components/top-talkers";
+import RecentPresence from "@/components/recent-presence";
 import TopBar from "@/components/top-bar";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveConnected } from "@/hooks/use-live-updates";
+import { routerHeaders } from "@/lib/queryClient";
 import { formatUptime } from "@/lib/utils";
 import { Link } from "wouter";
 import {
@@ -30,15 +34,17 @@ import {
 
 export default function Dashboard() {
   const { toast } = useToast();
+  // Status, bandwidth and device joins are pushed while the live stream is up; polling is the fallback
+  const live = useLiveConnected();
 
   const { data: routerStatus, isLoading: statusLoading } = useQuery<RouterStatus>({
     queryKey: ["/api/router/status"],
-    refetchInterval: 30000,
+    refetchInterval: live ? false : 30000,
   });
 
   const { data: devices, isLoading: devicesLoading } = useQuery<ConnectedDevice[]>({
     queryKey: ["/api/devices"],
-    refetchInterval: 30000,
+    refetchInterval: live ? 60000 : 30000,
   });
 
   const { data: wifiNetworks } = useQuery({
@@ -53,7 +59,7 @@ export default function Dashboard() {
 
   const { data: bandwidthData } = useQuery({
     queryKey: ["/api/bandwidth"],
-    refetchInterval: 5000, // Update every 5 seconds for real-time network usage
+    refetchInterval: live ? false : 5000, // Update every 5 seconds for real-time network usage
     staleTime: 0, // Always consider data stale
   });
 
@@ -97,6 +103,7 @@ export default function Dashboard() {
     try {
       const response = await fetch(`/api/system/${action}`, {
         method: 'POST',
+        headers: routerHeaders(),
         credentials: 'include',
       });
       
@@ -580,6 +587,9 @@ export default function Dashboard() {
                 )}
               </CardContent>
             </Card>
+
+            <TopTalkers limit={5} />
+            <RecentPresence />
           </div>
 
 
@@ -1,6 +1,6 @@
 import { useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import type { ConnectedDevice } from "@shared/schema";
+import type { DeviceWithOverride } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,6 +8,15 @@ import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Wifi, Cable, Signal, MapPin, Clock, Network, Activity, RefreshCw } from "lucide-react";
 import { Link } from "wouter";
 import { Skeleton } from "@/components/ui/skeleton";
+import DeviceBandwidthChart from "@/components/device-bandwidth-chart";
+import TopTalkers from "@/components/top-talkers";
+import DevicePresence from "@/components/device-presence";
+import DeviceIdentification from "@/components/device-identification";
+import DeviceOverrideCard from "@/components/device-override-card";
+import DeviceBlockMenu, { RestrictionBadge } from "@/components/device-block-menu";
+import ParentalScheduleDialog from "@/components/parental-schedule-dialog";
+import WakeMenu from "@/components/wake-menu";
+import WakeScheduleDialog from "@/components/wake-schedule-dialog";
 import { getDeviceIcon, getDeviceColorClass, formatMacAddress } from "@/lib/utils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -17,7 +26,7 @@ export default function DeviceDetailsPage() {
   const deviceId = params.id;
   const { toast } = useToast();
 
-  const { data: devices, isLoading, refetch } = useQuery<ConnectedDevice[]>({
+  const { data: devices, isLoading, refetch } = useQuery<DeviceWithOverride[]>({
     queryKey: ["/api/devices"],
     refetchInterval: 5000, // Refresh every 5 seconds for live data
   });
@@ -124,6 +133,8 @@ export default function DeviceDetailsPage() {
           <div>
             <h1 className="text-3xl font-bold">{device.name}</h1>
             <p className="text-muted-foreground">{formatMacAddress(device.macAddress)}</p>
+            {device.owner && <p className="text-sm text-muted-foreground">Owner: {device.owner}</p>}
+            {device.notes && <p className="text-sm text-muted-foreground mt-1 whitespace-pre-line">{device.notes}</p>}
           </div>
         </div>
         <div className="flex items-center space-x-2">
@@ -136,12 +147,17 @@ export default function DeviceDetailsPage() {
             <RefreshCw className={`h-4 w-4 mr-2 ${refreshDeviceData.isPending ? 'animate-spin' : ''}`} />
             {refreshDeviceData.isPending ? 'Refreshing...' : 'Refresh'}
           </Button>
-          <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${getDeviceColorClass(device.deviceType)}`}>
+          <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${getDeviceColorClass(device.icon ?? device.deviceType)}`}>
             {/* Device icon would go here */}
           </div>
           <Badge variant={device.isOnline ? "default" : "secondary"}>
             {device.isOnline ? "Online" : "Offline"}
           </Badge>
+          <RestrictionBadge device={device} />
+          <WakeScheduleDialog target={{ type: "device", device }} />
+          <WakeMenu target={{ type: "device", device }} />
+          <ParentalScheduleDialog target={{ type: "device", device }} />
+          <DeviceBlockMenu device={device} />
         </div>
       </div>
 
@@ -240,10 +256,24 @@ export default function DeviceDetailsPage() {
                 <p className="text-sm font-medium text-muted-foreground">Hostname</p>
                 <p className="text-lg">{device.hostname || device.name}</p>
               </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Vendor</p>
+                <p className="text-lg">{device.vendor || "Unknown"}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">MAC Type</p>
+                <p className="text-lg">{device.isRandomizedMac ? "Randomized (private address)" : "Hardware"}</p>
+              </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* What the router reports next to what has been set by hand */}
+        <DeviceOverrideCard device={device} />
+
+        {/* What the device revealed about itself and why it got its type */}
+        <DeviceIdentification device={device} />
+
         {/* Wireless Details */}
         {device.connectionType?.includes('WiFi') && (
           <Card>
@@ -298,6 +328,13 @@ export default function DeviceDetailsPage() {
           </CardContent>
         </Card>
 
+        {/* Per-device traffic history and where this device ranks */}
+        <DeviceBandwidthChart device={device} />
+        <TopTalkers highlightMac={device.macAddress} />
+
+        {/* When the device was on the network and at which hours it usually is */}
+        <DevicePresence device={device} />
+
         {/* AiMesh Information */}
         {device.aimeshNode && (
           <Card>
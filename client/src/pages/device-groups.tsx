@@ -11,9 +11,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import ParentalScheduleDialog from "@/components/parental-schedule-dialog";
+import WakeMenu from "@/components/wake-menu";
+import WakeScheduleDialog from "@/components/wake-schedule-dialog";
+import { describeRule, parseSchedule } from "@/components/schedule-editor";
 import TopBar from "@/components/top-bar";
-import { Plus, Edit, Trash2, Users, Tag, Palette, FolderOpen, Settings, Smartphone, Laptop, Tablet, Monitor, Router, Speaker } from "lucide-react";
+import { Plus, Edit, Trash2, Users, Tag, Palette, FolderOpen, Settings, Smartphone, Laptop, Tablet, Monitor, Router, Speaker, Ban, CheckCircle } from "lucide-react";
 
 const iconOptions = [
   { value: "smartphone", label: "Smartphone", icon: Smartphone },
@@ -33,6 +38,7 @@ const colorOptions = [
 
 export default function DeviceGroupsPage() {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const [activeTab, setActiveTab] = useState<"groups" | "tags">("groups");
   const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false);
   const [isTagDialogOpen, setIsTagDialogOpen] = useState(false);
@@ -126,6 +132,29 @@ export default function DeviceGroupsPage() {
     },
   });
 
+  // Blocks or unblocks internet access for every device in the group at once
+  const groupBlockMutation = useMutation({
+    mutationFn: async ({ id, blocked }: { id: number; blocked: boolean }) => {
+      const res = await apiRequest("POST", `/api/device-groups/${id}/${blocked ? "block" : "unblock"}`);
+      return await res.json() as { updated: number; skippedRouters: number[] };
+    },
+    onSuccess: (result, { blocked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: blocked ? "Group blocked" : "Group unblocked",
+        description: `${result.updated} devices ${blocked ? "blocked" : "unblocked"}` +
+          (result.skippedRouters.length > 0 ? `; ${result.skippedRouters.length} router(s) skipped because they are not connected` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   const createTagMutation = useMutation({
     mutationFn: async (tag: InsertDeviceTag) => {
       return await apiRequest("POST", "/api/device-tags", tag);
@@ -423,6 +452,36 @@ export default function DeviceGroupsPage() {
                           <Users className="w-4 h-4 mr-1" />
                           0 devices
                         </div>
+                        {hasRole("operator") && (
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => groupBlockMutation.mutate({ id: group.id, blocked: true })}
+                              disabled={groupBlockMutation.isPending}
+                            >
+                              <Ban className="w-4 h-4 mr-1" />
+                              Block All
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => groupBlockMutation.mutate({ id: group.id, blocked: false })}
+                              disabled={groupBlockMutation.isPending}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Unblock All
+                            </Button>
+                            <ParentalScheduleDialog target={{ type: "group", group }} />
+                            <WakeMenu target={{ type: "group", group }} />
+                            <WakeScheduleDialog target={{ type: "group", group }} />
+                          </div>
+                        )}
+                        {parseSchedule(group.parentalSchedule).map((rule) => (
+                          <p key={`${rule.start}-${rule.end}`} className="text-xs text-muted-foreground mt-2">
+                            Offline {describeRule(rule)}
+                          </p>
+                        ))}
                       </CardContent>
                     </Card>
                   );
@@ -0,0 +1,283 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import type { ConnectedDevice, DhcpReservation } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, routerHeaders, getErrorMessage } from "@/lib/queryClient";
+import TopBar from "@/components/top-bar";
+import DhcpReservationDialog from "@/components/dhcp-reservation-dialog";
+import { formatMacAddress } from "@/lib/utils";
+import { BookmarkCheck, Download, Network, Trash2, Upload } from "lucide-react";
+
+interface DhcpNetwork {
+  lanIp: string;
+  netmask: string;
+  rangeStart: string;
+  rangeEnd: string;
+  manualAssignment: boolean;
+}
+
+type ImportMode = "merge" | "replace";
+
+export default function DhcpReservationsPage() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+
+  const { data: reservations, isLoading } = useQuery<DhcpReservation[]>({
+    queryKey: ["/api/dhcp-reservations"],
+    refetchInterval: 60000,
+  });
+
+  const { data: network } = useQuery<DhcpNetwork>({
+    queryKey: ["/api/dhcp-reservations/network"],
+    retry: false,
+  });
+
+  const { data: devices } = useQuery<ConnectedDevice[]>({
+    queryKey: ["/api/devices"],
+  });
+  const devicesByMac = new Map(devices?.map(device => [formatMacAddress(device.macAddress), device]));
+
+  const deleteMutation = useMutation({
+    mutationFn: async (reservation: DhcpReservation) => {
+      const res = await apiRequest("DELETE", `/api/dhcp-reservations/${reservation.id}`);
+      return await res.json() as DhcpReservation[];
+    },
+    onSuccess: (result, reservation) => {
+      queryClient.setQueryData(["/api/dhcp-reservations"], result);
+      toast({
+        title: "Reservation removed",
+        description: `${reservation.ipAddress} is back in the DHCP pool`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove reservation", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", "/api/dhcp-reservations/export");
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "dhcp-reservations.csv";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  // CSV goes up as the raw body, like the vendor registry import
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetch(`/api/dhcp-reservations/import?mode=${importMode}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain", ...routerHeaders() },
+        body: file,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json() as DhcpReservation[];
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/dhcp-reservations"], result);
+      toast({
+        title: "Reservations imported",
+        description: `The router now holds ${result.length} reservation${result.length === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleDelete = (reservation: DhcpReservation) => {
+    if (confirm(`Remove the reservation of ${reservation.ipAddress} for ${reservation.hostname || reservation.macAddress}? dnsmasq will be restarted.`)) {
+      deleteMutation.mutate(reservation);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div>
+        <TopBar title="DHCP Reservations" subtitle="Fixed LAN addresses handed out by the router" />
+        <div className="p-6">
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = hasRole("operator");
+
+  return (
+    <div>
+      <TopBar title="DHCP Reservations" subtitle="Fixed LAN addresses handed out by the router" />
+      <div className="p-6 space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center space-x-3">
+                <Network className="h-5 w-5 text-muted-foreground" />
+                {network ? (
+                  <div className="text-sm">
+                    <div>
+                      LAN <span className="font-mono">{network.lanIp}</span> / <span className="font-mono">{network.netmask}</span>
+                      {" · "}DHCP pool <span className="font-mono">{network.rangeStart}</span> – <span className="font-mono">{network.rangeEnd}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      Reserved addresses must be inside the LAN and not leased to another device.
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Connect to the router over SSH to manage reservations.</p>
+                )}
+              </div>
+              {network && !network.manualAssignment && (reservations?.length ?? 0) > 0 && (
+                <Badge className="bg-yellow-500/20 text-yellow-400">Manual assignment is off on the router</Badge>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <CardTitle className="flex items-center space-x-2">
+                <BookmarkCheck className="h-5 w-5" />
+                <span>Reservations</span>
+                {reservations && reservations.length > 0 && <Badge variant="secondary">{reservations.length}</Badge>}
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+                {canEdit && (
+                  <>
+                    <input
+                      ref={fileInput}
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        if (file) importMutation.mutate(file);
+                        event.target.value = "";
+                      }}
+                    />
+                    <Select value={importMode} onValueChange={(value) => setImportMode(value as ImportMode)}>
+                      <SelectTrigger className="w-[150px] h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="merge">Merge by MAC</SelectItem>
+                        <SelectItem value="replace">Replace all</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fileInput.current?.click()}
+                      disabled={importMutation.isPending || !network}
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      {importMutation.isPending ? "Importing..." : "Import CSV"}
+                    </Button>
+                    <DhcpReservationDialog />
+                  </>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!reservations || reservations.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No DHCP reservations on the router. Reserve an address from here or from a device in the device list.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Device</TableHead>
+                      <TableHead>MAC Address</TableHead>
+                      <TableHead>IP Address</TableHead>
+                      <TableHead>DNS Server</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reservations.map((reservation) => {
+                      const device = devicesByMac.get(reservation.macAddress);
+                      const holdsAddress = !device || !device.isOnline || device.ipAddress === reservation.ipAddress;
+                      return (
+                        <TableRow key={reservation.id}>
+                          <TableCell>
+                            {device ? (
+                              <Link href={`/devices/${device.id}`}>
+                                <a className="font-medium hover:underline">{device.name}</a>
+                              </Link>
+                            ) : (
+                              <span className="font-medium">{reservation.hostname || "Unknown device"}</span>
+                            )}
+                            {reservation.hostname && device && (
+                              <div className="text-sm text-muted-foreground">{reservation.hostname}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{reservation.macAddress}</TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {reservation.ipAddress}
+                            {!holdsAddress && (
+                              <div className="text-xs text-yellow-400 font-sans">
+                                Currently on {device?.ipAddress}; takes effect on its next lease renewal
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {reservation.dnsServer || <span className="text-muted-foreground font-sans">Default</span>}
+                          </TableCell>
+                          <TableCell>
+                            {canEdit && (
+                              <div className="flex items-center justify-end space-x-2">
+                                <DhcpReservationDialog reservation={reservation} />
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDelete(reservation)}
+                                  disabled={deleteMutation.isPending}
+                                  title="Remove reservation"
+                                >
+                                  <Trash2 className="h-4 w-4 text-red-500" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
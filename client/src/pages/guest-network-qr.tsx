@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getErrorMessage } from "@/lib/queryClient";
+import { formatTimeLeft } from "@/lib/utils";
+import { Printer, Wifi } from "lucide-react";
+
+interface GuestShare {
+  interface: string;
+  enabled: boolean;
+  ssid: string;
+  securityMode: string;
+  password: string;
+  remainingSeconds: number | null;
+  qrPayload: string;
+}
+
+// A sheet to print or show to visitors: scanning the code joins the guest network
+export default function GuestNetworkQrPage() {
+  const params = useParams();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  const { data: share, isLoading, error } = useQuery<GuestShare>({
+    queryKey: [`/api/wifi/guests/${params.interface}/share`],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!share) return;
+    QRCode.toDataURL(share.qrPayload, { width: 320, margin: 1 }).then(setQrCode, () => setQrCode(null));
+  }, [share?.qrPayload]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-10">
+        <Skeleton className="h-96 w-80" />
+      </div>
+    );
+  }
+
+  if (error || !share) {
+    return <p className="p-10 text-center text-muted-foreground">{error ? getErrorMessage(error) : "Guest network not found"}</p>;
+  }
+
+  return (
+    <div className="min-h-screen bg-white text-black flex flex-col items-center justify-center gap-6 p-10">
+      <div className="flex items-center gap-2 text-2xl font-semibold">
+        <Wifi className="h-7 w-7" />
+        Guest WiFi
+      </div>
+      {!share.enabled && <p className="text-red-600">This guest network is switched off.</p>}
+      {qrCode && <img src={qrCode} alt={`QR code to join ${share.ssid}`} className="h-80 w-80" />}
+      <p className="text-sm text-gray-600">Point your phone's camera at the code to join</p>
+      <div className="text-center space-y-1">
+        <p><span className="text-gray-600">Network:</span> <span className="font-semibold text-lg">{share.ssid}</span></p>
+        {share.password && (
+          <p><span className="text-gray-600">Password:</span> <span className="font-mono text-lg">{share.password}</span></p>
+        )}
+        {share.remainingSeconds !== null && (
+          <p className="text-sm text-gray-600">Available for another {formatTimeLeft(share.remainingSeconds)}</p>
+        )}
+      </div>
+      <Button onClick={() => window.print()} className="print:hidden">
+        <Printer className="h-4 w-4 mr-2" />
+        Print
+      </Button>
+    </div>
+  );
+}
@@ -14,14 +14,31 @@ import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
 import TopBar from "@/components/top-bar";
-import { Plus, Edit, Trash2, ArrowRightLeft, Shield, Globe, Wifi, AlertTriangle, CheckCircle2, Copy, ExternalLink } from "lucide-react";
+import PortForwardingApplyDialog from "@/components/port-forwarding-apply-dialog";
+import { Plus, Edit, Trash2, ArrowRightLeft, Shield, Globe, Wifi, AlertTriangle, CheckCircle2, Copy, ExternalLink, Upload, Undo2 } from "lucide-react";
+
+interface PortForwardingStatus {
+  enabled: boolean;
+  synced: boolean;
+  pendingChanges: number;
+}
+
+function formatExternalPorts(rule: PortForwardingRule) {
+  return rule.externalPortEnd ? `${rule.externalPort}:${rule.externalPortEnd}` : `${rule.externalPort}`;
+}
+
+function invalidatePortForwarding() {
+  queryClient.invalidateQueries({ queryKey: ["/api/port-forwarding"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/port-forwarding/status"] });
+}
 
 export default function PortForwardingPage() {
   const { toast } = useToast();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<PortForwardingRule | null>(null);
+  const [isApplyDialogOpen, setIsApplyDialogOpen] = useState(false);
   const [newRule, setNewRule] = useState<InsertPortForwardingRule>({
     name: "",
     protocol: "TCP",
@@ -37,12 +54,57 @@ export default function PortForwardingPage() {
     refetchInterval: 30000,
   });
 
+  const { data: status } = useQuery<PortForwardingStatus>({
+    queryKey: ["/api/port-forwarding/status"],
+    refetchInterval: 30000,
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      return await apiRequest("PUT", "/api/port-forwarding/settings", { enabled });
+    },
+    onSuccess: (_, enabled) => {
+      invalidatePortForwarding();
+      toast({
+        title: "Success",
+        description: `Port forwarding ${enabled ? "enabled" : "disabled"} on the router`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to update port forwarding",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/port-forwarding/discard");
+    },
+    onSuccess: () => {
+      invalidatePortForwarding();
+      toast({
+        title: "Changes Discarded",
+        description: "Reloaded port forwarding rules from the router",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error) || "Failed to discard changes",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createRuleMutation = useMutation({
     mutationFn: async (rule: InsertPortForwardingRule) => {
       return await apiRequest("POST", "/api/port-forwarding", rule);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/port-forwarding"] });
+      invalidatePortForwarding();
       toast({
         title: "Success",
         description: "Port forwarding rule created successfully",
@@ -72,7 +134,7 @@ export default function PortForwardingPage() {
       return await apiRequest("PUT", `/api/port-forwarding/${id}`, rule);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/port-forwarding"] });
+      invalidatePortForwarding();
       toast({
         title: "Success",
         description: "Port forwarding rule updated successfully",
@@ -93,7 +155,7 @@ export default function PortForwardingPage() {
       return await apiRequest("DELETE", `/api/port-forwarding/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/port-forwarding"] });
+      invalidatePortForwarding();
       toast({
         title: "Success",
         description: "Port forwarding rule deleted successfully",
@@ -117,7 +179,7 @@ export default function PortForwardingPage() {
   };
 
   const handleDeleteRule = (id: number) => {
-    if (confirm("Are you sure you want to delete this rule?")) {
+    if (confirm("Are you sure you want to delete this rule? It stays on the router until you apply your changes.")) {
       deleteRuleMutation.mutate(id);
     }
   };
@@ -149,7 +211,60 @@ export default function PortForwardingPage() {
         title="Port Forwarding" 
         subtitle="Manage network port forwarding rules"
       />
-      <div className="p-6">
+      <div className="p-6 space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center space-x-3">
+                <Switch
+                  id="port-forwarding-enabled"
+                  checked={status?.enabled ?? false}
+                  onCheckedChange={(checked) => settingsMutation.mutate(checked)}
+                  disabled={settingsMutation.isPending || !status?.synced}
+                />
+                <div>
+                  <Label htmlFor="port-forwarding-enabled">Port forwarding on the router</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {status?.synced
+                      ? "Rules below mirror the router's virtual server list"
+                      : "Connect to the router over SSH to load its rules"}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                {status && status.pendingChanges > 0 ? (
+                  <Badge className="bg-yellow-500/20 text-yellow-400">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {status.pendingChanges} unapplied {status.pendingChanges === 1 ? "change" : "changes"}
+                  </Badge>
+                ) : status?.synced ? (
+                  <Badge className="bg-green-500/20 text-green-400">
+                    <CheckCircle2 className="h-3 w-3 mr-1" />
+                    In sync with router
+                  </Badge>
+                ) : null}
+                <Button
+                  variant="outline"
+                  onClick={() => discardMutation.mutate()}
+                  disabled={!status?.pendingChanges || discardMutation.isPending}
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Discard
+                </Button>
+                <Button onClick={() => setIsApplyDialogOpen(true)} disabled={!status?.synced}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Review & Apply
+                </Button>
+              </div>
+            </div>
+            {status?.synced && !status.enabled && (
+              <p className="text-sm text-yellow-400 mt-4">
+                Port forwarding is switched off on the router, so none of these rules are active.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -299,9 +414,14 @@ export default function PortForwardingPage() {
                         <TableCell>
                           <Badge variant="outline">{rule.protocol}</Badge>
                         </TableCell>
-                        <TableCell className="font-mono">{rule.externalPort}</TableCell>
                         <TableCell className="font-mono">
-                          {rule.internalIp}:{rule.internalPort}
+                          {formatExternalPorts(rule)}
+                          {rule.sourceIp && (
+                            <div className="text-xs text-muted-foreground">from {rule.sourceIp}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono">
+                          {rule.internalIp}:{rule.externalPortEnd ? formatExternalPorts(rule) : rule.internalPort}
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center space-x-2">
@@ -346,6 +466,12 @@ export default function PortForwardingPage() {
           </CardContent>
         </Card>
 
+        <PortForwardingApplyDialog
+          open={isApplyDialogOpen}
+          onOpenChange={setIsApplyDialogOpen}
+          onApplied={invalidatePortForwarding}
+        />
+
         {/* Edit Rule Dialog */}
         <Dialog open={!!editingRule} onOpenChange={() => setEditingRule(null)}>
           <DialogContent className="sm:max-w-md">
@@ -0,0 +1,145 @@
+import nodemailer from "nodemailer";
+import type { AlertChannel, AlertChannelType } from "@shared/schema";
+import { encryptSensitiveData, decryptSensitiveData } from "./crypto";
+
+// Delivery channels for alerts. Each provider takes the channel's plain settings plus its
+// decrypted secret (SMTP password or access token) and throws when delivery fails.
+export interface AlertMessage {
+  title: string;
+  message: string;
+  severity: string;
+}
+
+export interface AlertDelivery {
+  channelId: number;
+  ok: boolean;
+  error?: string;
+}
+
+type ChannelConfig = Record<string, any>;
+
+interface AlertChannelProvider {
+  // Settings that must be present in the channel config
+  required: string[];
+  send(config: ChannelConfig, secret: string | null, alert: AlertMessage): Promise<void>;
+}
+
+const DELIVERY_TIMEOUT_MS = 15000;
+
+const NTFY_PRIORITIES: Record<string, string> = { info: "default", warning: "high", critical: "urgent" };
+const GOTIFY_PRIORITIES: Record<string, number> = { info: 2, warning: 5, critical: 8 };
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()).slice(0, 200) || response.statusText}`);
+  }
+}
+
+function trimServer(server: string): string {
+  return server.replace(/\/+$/, "");
+}
+
+export const ALERT_CHANNEL_PROVIDERS: Record<AlertChannelType, AlertChannelProvider> = {
+  smtp: {
+    required: ["host", "from", "to"],
+    async send(config, secret, alert) {
+      const transport = nodemailer.createTransport({
+        host: config.host,
+        port: Number(config.port) || 587,
+        secure: Boolean(config.secure),
+        auth: config.username ? { user: config.username, pass: secret ?? "" } : undefined,
+        connectionTimeout: DELIVERY_TIMEOUT_MS,
+      });
+      await transport.sendMail({
+        from: config.from,
+        to: config.to,
+        subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+        text: alert.message,
+      });
+    },
+  },
+  webhook: {
+    required: ["url"],
+    async send(config, secret, alert) {
+      await postJson(config.url, { ...alert, timestamp: new Date().toISOString() },
+        secret ? { Authorization: `Bearer ${secret}` } : {});
+    },
+  },
+  ntfy: {
+    required: ["server", "topic"],
+    async send(config, secret, alert) {
+      const headers: Record<string, string> = {
+        Title: alert.title,
+        Priority: NTFY_PRIORITIES[alert.severity] || "default",
+        Tags: alert.severity === "critical" ? "rotating_light" : "warning",
+      };
+      if (secret) headers.Authorization = `Bearer ${secret}`;
+
+      const response = await fetch(`${trimServer(config.server)}/${encodeURIComponent(config.topic)}`, {
+        method: "POST",
+        headers,
+        body: alert.message,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()).slice(0, 200) || response.statusText}`);
+      }
+    },
+  },
+  gotify: {
+    required: ["server"],
+    async send(config, secret, alert) {
+      if (!secret) throw new Error("Gotify needs an application token");
+      await postJson(`${trimServer(config.server)}/message?token=${encodeURIComponent(secret)}`, {
+        title: alert.title,
+        message: alert.message,
+        priority: GOTIFY_PRIORITIES[alert.severity] ?? 5,
+      });
+    },
+  },
+};
+
+export function parseChannelConfig(channel: AlertChannel): ChannelConfig {
+  try {
+    return JSON.parse(channel.config);
+  } catch {
+    return {};
+  }
+}
+
+export function validateChannelConfig(type: AlertChannelType, config: ChannelConfig): string | null {
+  const missing = ALERT_CHANNEL_PROVIDERS[type].required.filter(field => !config[field]);
+  return missing.length > 0 ? `Missing ${missing.join(", ")}` : null;
+}
+
+export function encryptChannelSecret(secret: string | null | undefined): string | null {
+  return secret ? JSON.stringify(encryptSensitiveData(secret)) : null;
+}
+
+function decryptChannelSecret(channel: AlertChannel): string | null {
+  return channel.encryptedSecret ? decryptSensitiveData(JSON.parse(channel.encryptedSecret)) : null;
+}
+
+// What the API returns: the secret never leaves the server
+export function summarizeAlertChannel(channel: AlertChannel) {
+  const { encryptedSecret, ...summary } = channel;
+  return { ...summary, hasSecret: Boolean(encryptedSecret) };
+}
+
+export async function sendToChannel(channel: AlertChannel, alert: AlertMessage): Promise<AlertDelivery> {
+  try {
+    const provider = ALERT_CHANNEL_PROVIDERS[channel.type as AlertChannelType];
+    if (!provider) throw new Error(`Unknown channel type: ${channel.type}`);
+
+    await provider.send(parseChannelConfig(channel), decryptChannelSecret(channel), alert);
+    return { channelId: channel.id, ok: true };
+  } catch (error) {
+    return { channelId: channel.id, ok: false, error: error instanceof Error ? error.message : "Delivery failed" };
+  }
+}
@@ -0,0 +1,291 @@
+import type { AlertEvent, AlertRule, AlertRuleType } from "@shared/schema";
+import { sshClients } from "./ssh-client";
+import { storage } from "./storage";
+import { sendToChannel, type AlertDelivery } from "./alert-channels";
+import { withTimeout } from "./nvram-changes";
+import { withOverrides } from "./device-overrides";
+import { getSustainedUtilization } from "./channel-utilization";
+
+// Alert rules are evaluated after each background job, against the data that job just refreshed.
+// Threshold-style rules (cpu, memory, temperature, airtime, offline nodes, failing jobs) keep one event open
+// while the condition holds, remind every cooldown until acknowledged and resolve themselves once
+// it clears. One-off rules (new devices, WAN IP changes) raise an event per occurrence instead.
+interface AlertCondition {
+  routerId: number | null;
+  subject: string;
+  active: boolean;
+  title: string;
+  message: string;
+}
+
+const STATEFUL_RULES: AlertRuleType[] = ["cpu_usage", "memory_usage", "temperature", "node_offline", "job_failure", "channel_utilization"];
+
+// Which jobs refresh the data each rule looks at; job_failure is checked after every job
+const RULE_TRIGGERS: Record<AlertRuleType, string[] | null> = {
+  cpu_usage: ["router-health-check"],
+  memory_usage: ["router-health-check"],
+  temperature: ["router-health-check"],
+  wan_ip_change: ["router-health-check"],
+  unknown_device: ["device-discovery"],
+  node_offline: ["device-discovery", "device-detail-sync"],
+  job_failure: null,
+  channel_utilization: ["wifi-channel-utilization"],
+};
+
+const DEFAULT_THRESHOLDS: Partial<Record<AlertRuleType, number>> = {
+  cpu_usage: 90,
+  memory_usage: 90,
+  temperature: 80,
+  channel_utilization: 80,
+};
+
+const UNRESOLVED_STATUSES = ["open", "acknowledged"];
+const WAN_READ_TIMEOUT_MS = 10000;
+// Airtime is sampled every minute; a radio has to stay busy this long, not just spike
+const UTILIZATION_WINDOW_MINUTES = 10;
+const UTILIZATION_MIN_SAMPLES = 5;
+
+function parseChannelIds(rule: AlertRule): number[] {
+  try {
+    return JSON.parse(rule.channelIds);
+  } catch {
+    return [];
+  }
+}
+
+class AlertEngine {
+  // MACs each router has had since we started watching, so only genuinely new devices alert
+  private knownDevices = new Map<number, Set<string>>();
+  private wanAddresses = new Map<number, string>();
+
+  async evaluateAfterJob(jobId: string, routerIds: number[], jobError?: string) {
+    try {
+      const rules = (await storage.getAlertRules()).filter(rule => {
+        const triggers = RULE_TRIGGERS[rule.type as AlertRuleType];
+        return rule.isEnabled && (triggers === null || triggers?.includes(jobId));
+      });
+
+      for (const rule of rules) {
+        try {
+          const conditions = rule.type === "job_failure"
+            ? [this.jobCondition(jobId, jobError)]
+            : await this.routerConditions(rule, routerIds.filter(id => rule.routerId === null || rule.routerId === id));
+
+          for (const condition of conditions) {
+            if (STATEFUL_RULES.includes(rule.type as AlertRuleType)) {
+              await this.updateStatefulAlert(rule, condition);
+            } else if (condition.active) {
+              await this.raiseOneOffAlert(rule, condition);
+            }
+          }
+        } catch (error) {
+          console.error(`Failed to evaluate alert rule "${rule.name}":`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to evaluate alerts after ${jobId}:`, error);
+    }
+  }
+
+  private jobCondition(jobId: string, jobError?: string): AlertCondition {
+    return {
+      routerId: null,
+      subject: jobId,
+      active: jobError !== undefined,
+      title: `Background job ${jobId} failed`,
+      message: jobError ?? "",
+    };
+  }
+
+  private async routerConditions(rule: AlertRule, routerIds: number[]): Promise<AlertCondition[]> {
+    const conditions: AlertCondition[] = [];
+    for (const routerId of routerIds) {
+      conditions.push(...await this.evaluateRule(rule, routerId));
+    }
+    return conditions;
+  }
+
+  private async evaluateRule(rule: AlertRule, routerId: number): Promise<AlertCondition[]> {
+    const router = await storage.getRouter(routerId);
+    const routerName = router?.name ?? `Router ${routerId}`;
+    const threshold = rule.threshold ?? DEFAULT_THRESHOLDS[rule.type as AlertRuleType] ?? 0;
+
+    switch (rule.type as AlertRuleType) {
+      case "cpu_usage":
+      case "memory_usage":
+      case "temperature": {
+        const status = await storage.getRouterStatus(routerId);
+        if (!status) return [];
+
+        const value = rule.type === "cpu_usage"
+          ? status.cpuUsage
+          : rule.type === "memory_usage"
+            ? (status.memoryTotal > 0 ? (status.memoryUsage / status.memoryTotal) * 100 : 0)
+            : status.temperature;
+        if (value === null) return [];
+
+        const label = rule.type === "cpu_usage" ? "CPU usage" : rule.type === "memory_usage" ? "Memory usage" : "Temperature";
+        const unit = rule.type === "temperature" ? "°C" : "%";
+        return [{
+          routerId,
+          subject: rule.type,
+          active: value >= threshold,
+          title: `${label} high on ${routerName}`,
+          message: `${label} is ${value.toFixed(1)}${unit}, above the ${threshold}${unit} threshold`,
+        }];
+      }
+
+      case "node_offline": {
+        const devices = await storage.getConnectedDevices(routerId);
+        const nodeMacs = Array.from(new Set(devices.map(device => device.aimeshNodeMac).filter((mac): mac is string => !!mac)));
+
+        return nodeMacs.flatMap(mac => {
+          const node = devices.find(device => device.macAddress.toUpperCase() === mac.toUpperCase());
+          if (!node) return [];
+          return [{
+            routerId,
+            subject: mac,
+            active: !node.isOnline,
+            title: `AiMesh node ${node.name} is offline on ${routerName}`,
+            message: `The AiMesh node ${node.name} (${mac}) stopped responding`,
+          }];
+        });
+      }
+
+      case "unknown_device": {
+        const devices = await withOverrides(await storage.getConnectedDevices(routerId));
+        const known = this.knownDevices.get(routerId);
+        this.knownDevices.set(routerId, new Set(devices.map(device => device.macAddress)));
+        // The first look after startup only learns what is already there
+        if (!known) return [];
+
+        return devices
+          .filter(device => !known.has(device.macAddress))
+          .map(device => ({
+            routerId,
+            subject: device.macAddress,
+            active: true,
+            title: `New device on ${routerName}`,
+            message: `${device.name} (${device.macAddress}, ${device.ipAddress}) joined the network`,
+          }));
+      }
+
+      case "wan_ip_change": {
+        const client = sshClients.getClient(routerId);
+        if (!client.isConnectionActive()) return [];
+
+        const address = (await withTimeout(client.executeCommand("nvram get wan0_ipaddr"), WAN_READ_TIMEOUT_MS, "Timed out reading WAN IP")).trim();
+        const previous = this.wanAddresses.get(routerId);
+        if (!address || address === "0.0.0.0") return [];
+        this.wanAddresses.set(routerId, address);
+        if (!previous || previous === address) return [];
+
+        return [{
+          routerId,
+          subject: address,
+          active: true,
+          title: `WAN IP changed on ${routerName}`,
+          message: `The WAN address changed from ${previous} to ${address}`,
+        }];
+      }
+
+      case "channel_utilization": {
+        const radios = await getSustainedUtilization(routerId, UTILIZATION_WINDOW_MINUTES, UTILIZATION_MIN_SAMPLES);
+        return radios.map(radio => ({
+          routerId,
+          subject: `wl${radio.unit}`,
+          active: radio.averageBusy >= threshold,
+          title: `${radio.label} airtime busy on ${routerName}`,
+          message: `The ${radio.label} radio (channel ${radio.chanspec}) averaged ${radio.averageBusy}% busy over the last ${UTILIZATION_WINDOW_MINUTES} minutes, above the ${threshold}% threshold`,
+        }));
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private async findEvents(rule: AlertRule, condition: AlertCondition, statuses?: string[]): Promise<AlertEvent[]> {
+    const events = await storage.getAlertEvents({ ruleId: rule.id, statuses, limit: 500 });
+    return events.filter(event => event.routerId === condition.routerId && event.subject === condition.subject);
+  }
+
+  private async updateStatefulAlert(rule: AlertRule, condition: AlertCondition) {
+    const [open] = await this.findEvents(rule, condition, UNRESOLVED_STATUSES);
+
+    if (!condition.active) {
+      if (open) {
+        await storage.updateAlertEvent(open.id, { status: "resolved", resolvedAt: new Date() });
+      }
+      return;
+    }
+
+    if (!open) {
+      const event = await storage.createAlertEvent({
+        ruleId: rule.id,
+        routerId: condition.routerId,
+        subject: condition.subject,
+        severity: rule.severity,
+        title: condition.title,
+        message: condition.message,
+      });
+      await this.notify(rule, event);
+      return;
+    }
+
+    // Still firing: keep the message current and remind until someone acknowledges it
+    await storage.updateAlertEvent(open.id, { message: condition.message });
+    if (open.status === "open" && this.cooldownElapsed(rule, open.notifiedAt)) {
+      await this.notify(rule, { ...open, title: `Still active: ${condition.title}`, message: condition.message });
+    }
+  }
+
+  private async raiseOneOffAlert(rule: AlertRule, condition: AlertCondition) {
+    const [latest] = await this.findEvents(rule, condition);
+    if (latest && !this.cooldownElapsed(rule, latest.createdAt)) return;
+
+    const event = await storage.createAlertEvent({
+      ruleId: rule.id,
+      routerId: condition.routerId,
+      subject: condition.subject,
+      severity: rule.severity,
+      title: condition.title,
+      message: condition.message,
+    });
+    await this.notify(rule, event);
+  }
+
+  private cooldownElapsed(rule: AlertRule, since: Date | null): boolean {
+    return !since || Date.now() - new Date(since).getTime() >= rule.cooldownMinutes * 60 * 1000;
+  }
+
+  private async notify(rule: AlertRule, event: AlertEvent) {
+    const deliveries: AlertDelivery[] = [];
+    for (const channelId of parseChannelIds(rule)) {
+      const channel = await storage.getAlertChannel(channelId);
+      if (!channel || !channel.isEnabled) continue;
+
+      const delivery = await sendToChannel(channel, { title: event.title, message: event.message, severity: event.severity });
+      if (!delivery.ok) {
+        console.error(`Alert delivery to ${channel.name} failed: ${delivery.error}`);
+      }
+      deliveries.push(delivery);
+    }
+
+    await storage.updateAlertEvent(event.id, {
+      deliveries: JSON.stringify(deliveries),
+      notifiedAt: new Date(),
+    });
+  }
+
+  async acknowledge(event: AlertEvent, actor: string): Promise<AlertEvent | undefined> {
+    if (event.status !== "open") return event;
+    return await storage.updateAlertEvent(event.id, {
+      status: "acknowledged",
+      acknowledgedBy: actor,
+      acknowledgedAt: new Date(),
+    });
+  }
+}
+
+export const alertEngine = new AlertEngine();
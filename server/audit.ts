@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+
+interface AuditScope {
+  sshCommands: string[];
+  // A system action started inside an audited request also reports its commands to the request
+  parent?: AuditScope;
+}
+
+const auditScope = new AsyncLocalStorage<AuditScope>();
+
+// Periodic pulls from the router; auditing them would bury the real changes
+const UNAUDITED_PATHS = new Set(["/api/ssh/sync-data"]);
+
+const SECRET_KEY_PATTERN = /pass|secret|token|psk|private.?key|credential/i;
+const MAX_PAYLOAD_LENGTH = 8000;
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && entry ? "[REDACTED]" : redactSecrets(entry),
+      ]),
+    );
+  }
+  return value;
+}
+
+function serializePayload(body: unknown): string | null {
+  if (!body || (typeof body === "object" && Object.keys(body).length === 0)) {
+    return null;
+  }
+  const json = JSON.stringify(redactSecrets(body));
+  return json.length > MAX_PAYLOAD_LENGTH ? `${json.slice(0, MAX_PAYLOAD_LENGTH)}…` : json;
+}
+
+// SSHClient reports every command here so an audited request lists what actually ran on the router
+export function recordSSHCommand(command: string) {
+  for (let scope = auditScope.getStore(); scope; scope = scope.parent) {
+    scope.sshCommands.push(command);
+  }
+}
+
+// Router changes made without a user (timed unblocks, scheduled wakes, name write-back, nightly
+// backups, automatic rollbacks) are recorded under the "system" actor with the commands they ran.
+// failureOf turns a result that did not throw, like a rolled-back change set, into a failure.
+export async function auditSystemAction<T>(
+  routerId: number,
+  action: string,
+  target: string | null,
+  run: () => Promise<T>,
+  failureOf: (result: T) => string | null = () => null,
+): Promise<T> {
+  const start = Date.now();
+  const scope: AuditScope = { sshCommands: [], parent: auditScope.getStore() };
+
+  const record = (errorMessage: string | null) => storage.createAuditEvent({
+    routerId,
+    userId: null,
+    actor: "system",
+    action,
+    target,
+    payload: null,
+    sshCommands: scope.sshCommands.length > 0 ? JSON.stringify(scope.sshCommands) : null,
+    outcome: errorMessage === null ? "success" : "failure",
+    statusCode: null,
+    errorMessage,
+    durationMs: Date.now() - start,
+  }).catch((error) => {
+    console.error("Failed to record audit event:", error);
+  });
+
+  try {
+    const result = await auditScope.run(scope, run);
+    await record(failureOf(result));
+    return result;
+  } catch (error) {
+    await record(error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Records every state-changing API request once its response has been sent
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+  if (!req.path.startsWith("/api") || req.method === "GET" || req.method === "HEAD" || UNAUDITED_PATHS.has(req.path)) {
+    return next();
+  }
+
+  const start = Date.now();
+  const scope: AuditScope = { sshCommands: [] };
+  // Logout clears req.user before the response finishes
+  const userAtStart = req.user;
+
+  let responseMessage: string | undefined;
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    if (bodyJson && typeof bodyJson === "object") {
+      responseMessage = bodyJson.message || bodyJson.error;
+    }
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const user = req.user ?? userAtStart;
+    // req.path is relative to the mount point when a middleware ends the request
+    const path = req.originalUrl.split("?")[0];
+    const outcome = res.statusCode < 400
+      ? "success"
+      : res.statusCode === 401 || res.statusCode === 403 ? "denied" : "failure";
+
+    storage.createAuditEvent({
+      routerId: req.routerId ?? null,
+      userId: user?.id ?? null,
+      actor: user?.username ?? (typeof req.body?.username === "string" ? req.body.username : "anonymous"),
+      action: `${req.method} ${req.route?.path ?? path}`,
+      target: path,
+      payload: serializePayload(req.body),
+      sshCommands: scope.sshCommands.length > 0 ? JSON.stringify(scope.sshCommands) : null,
+      outcome,
+      statusCode: res.statusCode,
+      errorMessage: outcome === "success" ? null : responseMessage ?? null,
+      durationMs: Date.now() - start,
+    }).catch((error) => {
+      console.error("Failed to record audit event:", error);
+    });
+  });
+
+  auditScope.run(scope, () => next());
+}
@@ -0,0 +1,219 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { auditTrail } from "./audit";
+import { insertUserSchema, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never hand the password hash to the client
+export function toSafeUser(user: SelectUser) {
+  const { password, ...safeUser } = user;
+  return safeUser;
+}
+
+export function hasRole(user: Express.User | undefined, role: UserRole): boolean {
+  if (!user) return false;
+  return (ROLE_RANK[user.role as UserRole] ?? -1) >= ROLE_RANK[role];
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ message: `This action requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+// Viewers can read everything; any request that changes state needs at least an operator.
+// Routes that need more (destructive actions, SSH credentials) add requireRole("admin").
+export function requireWriteAccess(req: Request, res: Response, next: NextFunction) {
+  if (req.method === "GET" || req.method === "HEAD") {
+    return next();
+  }
+  return requireRole("operator")(req, res, next);
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  // Sessions won't survive a restart without a fixed secret (fine for development)
+  console.warn('Generated new session secret. Set SESSION_SECRET environment variable for production.');
+  return randomBytes(32).toString("hex");
+}
+
+// Creating the first admin needs this token, so whoever reaches the app before its owner cannot
+// claim it. Without SETUP_TOKEN one is generated and printed while setup is still open.
+function getSetupToken(): string {
+  const token = process.env.SETUP_TOKEN;
+  if (token) {
+    return token;
+  }
+
+  const generated = randomBytes(16).toString("hex");
+  storage.getUsers().then(users => {
+    if (users.length === 0) {
+      console.warn(`No accounts exist yet. Use setup token ${generated} to create the administrator, or set SETUP_TOKEN.`);
+    }
+  }).catch(() => undefined);
+  return generated;
+}
+
+function matchesToken(supplied: unknown, expected: string): boolean {
+  if (typeof supplied !== "string") return false;
+  const suppliedBuf = Buffer.from(supplied);
+  const expectedBuf = Buffer.from(expected);
+  return suppliedBuf.length === expectedBuf.length && timingSafeEqual(suppliedBuf, expectedBuf);
+}
+
+export function setupAuth(app: Express) {
+  const setupToken = getSetupToken();
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  // Mounted here so audited requests, logins included, know who made them
+  app.use(auditTrail);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // First-run setup: the very first account can be created without logging in, given the setup
+  // token, and is always an admin
+  app.get("/api/auth/setup", async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json({ needsSetup: users.length === 0 });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get setup status" });
+    }
+  });
+
+  app.post("/api/auth/setup", async (req, res, next) => {
+    try {
+      const users = await storage.getUsers();
+      if (users.length > 0) {
+        return res.status(403).json({ message: "Setup has already been completed" });
+      }
+      if (!matchesToken(req.body?.setupToken, setupToken)) {
+        return res.status(403).json({ message: "Invalid setup token" });
+      }
+
+      const validatedData = insertUserSchema.parse(req.body);
+      const user = await storage.createUser({
+        username: validatedData.username,
+        password: await hashPassword(validatedData.password),
+        role: "admin",
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toSafeUser(user));
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error?.issues?.[0]?.message || "Invalid user data" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toSafeUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    res.json(toSafeUser(req.user));
+  });
+}
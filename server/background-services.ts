@@ -1,6 +1,20 @@
 import { CronJob } from 'cron';
-import { sshClient } from './ssh-client';
+import { sshClients, type SSHClient } from './ssh-client';
 import { storage } from './storage';
+import { captureConfigBackup, pruneScheduledBackups } from './config-backups';
+import { captureNvramSnapshot } from './nvram-snapshots';
+import { alertEngine } from './alerts';
+import { auditSystemAction } from './audit';
+import { liveEvents } from './live-events';
+import { collectDeviceBandwidth } from './device-bandwidth';
+import { recordDevicePresence } from './device-presence';
+import { identifyDevices, isGenericDeviceName } from './device-identification';
+import { syncParentalControls } from './parental-controls';
+import { runWakeSchedules } from './wake-on-lan';
+import { syncRouterNicknames } from './custom-clientlist';
+import { syncGuestNetworks } from './guest-networks';
+import { runWifiScan } from './wifi-analyzer';
+import { collectChannelUtilization } from './channel-utilization';
 import type { InsertConnectedDevice, InsertBandwidthData, InsertRouterStatus } from '@shared/schema';
 
 interface BackgroundJob {
@@ -64,6 +78,62 @@ class BackgroundServiceManager {
         cronExpression: '*/10 * * * *', // Every 10 minutes
         isEnabled: true,
         status: 'stopped'
+      },
+      {
+        id: 'config-backup',
+        name: 'Nightly Config Backup',
+        description: 'Saves the NVRAM settings and JFFS scripts to the backup history',
+        cronExpression: '0 3 * * *', // Every night at 3am
+        isEnabled: true,
+        status: 'stopped'
+      },
+      {
+        id: 'nvram-snapshot',
+        name: 'Config Drift Check',
+        description: 'Snapshots NVRAM and flags settings changed outside this app',
+        cronExpression: '*/15 * * * *', // Every 15 minutes
+        isEnabled: true,
+        status: 'stopped'
+      },
+      {
+        id: 'device-identification',
+        name: 'Device Identification',
+        description: 'Reads DHCP fingerprints and listens for mDNS, SSDP and NetBIOS to name and classify devices',
+        cronExpression: '*/15 * * * *', // Every 15 minutes
+        isEnabled: true,
+        status: 'stopped'
+      },
+      {
+        id: 'device-block-sync',
+        name: 'Device Block Sync',
+        description: 'Ends timed internet pauses and reads device blocks and schedules from the router',
+        cronExpression: '* * * * *', // Every minute
+        isEnabled: true,
+        status: 'stopped'
+      },
+      {
+        id: 'wake-schedules',
+        name: 'Wake-on-LAN Schedules',
+        description: 'Sends the Wake-on-LAN packets of scheduled wakes that are due',
+        cronExpression: '* * * * *', // Every minute
+        isEnabled: true,
+        status: 'stopped'
+      },
+      {
+        id: 'wifi-analyzer-scan',
+        name: 'WiFi Analyzer Scan',
+        description: 'Scans every radio for neighbouring access points and keeps a week of results for channel scoring',
+        cronExpression: '*/30 * * * *', // Every 30 minutes
+        isEnabled: true,
+        status: 'stopped'
+      },
+      {
+        id: 'wifi-channel-utilization',
+        name: 'WiFi Airtime Monitoring',
+        description: 'Samples chanim_stats and noise on every radio for the airtime charts and utilization alerts',
+        cronExpression: '* * * * *', // Every minute
+        isEnabled: true,
+        status: 'stopped'
       }
     ];
 
@@ -99,61 +169,111 @@ class BackgroundServiceManager {
     if (!jobData) return;
 
     const { config } = jobData;
+    const routerIds = sshClients.getActiveRouterIds();
     
     try {
       console.log(`Executing background job: ${config.name}`);
       config.status = 'running';
       config.lastRun = new Date();
       config.errorMessage = undefined;
+      this.publishJobState(jobId);
 
-      switch (jobId) {
-        case 'device-discovery':
-          await this.executeDeviceDiscovery();
-          break;
-        case 'device-detail-sync':
-          await this.executeDeviceDetailSync();
-          break;
-        case 'bandwidth-monitoring':
-          await this.executeBandwidthMonitoring();
-          break;
-        case 'router-health-check':
-          await this.executeRouterHealthCheck();
-          break;
-        case 'wifi-network-scan':
-          await this.executeWifiNetworkScan();
-          break;
-        default:
-          throw new Error(`Unknown job: ${jobId}`);
+      // Run the job against every router with an active SSH session; one router failing does not
+      // keep the job from the others, and their errors are reported together
+      const errors: string[] = [];
+      for (const routerId of routerIds) {
+        const client = sshClients.getClient(routerId);
+
+        try {
+          switch (jobId) {
+            case 'device-discovery':
+              await this.executeDeviceDiscovery(routerId, client);
+              break;
+            case 'device-detail-sync':
+              await this.executeDeviceDetailSync(routerId, client);
+              break;
+            case 'bandwidth-monitoring':
+              await this.executeBandwidthMonitoring(routerId, client);
+              break;
+            case 'router-health-check':
+              await this.executeRouterHealthCheck(routerId, client);
+              break;
+            case 'wifi-network-scan':
+              await this.executeWifiNetworkScan(routerId, client);
+              break;
+            case 'config-backup':
+              await this.executeConfigBackup(routerId, client);
+              break;
+            case 'nvram-snapshot':
+              await this.executeNvramSnapshot(routerId, client);
+              break;
+            case 'device-identification':
+              await this.executeDeviceIdentification(routerId, client);
+              break;
+            case 'device-block-sync':
+              await this.executeDeviceBlockSync(routerId, client);
+              break;
+            case 'wake-schedules':
+              await this.executeWakeSchedules(routerId, client);
+              break;
+            case 'wifi-analyzer-scan':
+              await this.executeWifiAnalyzerScan(routerId, client);
+              break;
+            case 'wifi-channel-utilization':
+              await this.executeWifiChannelUtilization(routerId, client);
+              break;
+            default:
+              throw new Error(`Unknown job: ${jobId}`);
+          }
+        } catch (error) {
+          errors.push(`router ${routerId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          console.error(`Error in background job ${config.name} for router ${routerId}:`, error);
+        }
       }
 
-      config.status = 'stopped';
-      console.log(`Completed background job: ${config.name}`);
+      if (errors.length > 0) {
+        config.status = 'error';
+        config.errorMessage = errors.join('; ');
+      } else {
+        config.status = 'stopped';
+        console.log(`Completed background job: ${config.name}`);
+      }
     } catch (error) {
       config.status = 'error';
       config.errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`Error in background job ${config.name}:`, error);
     }
+
+    this.publishJobState(jobId);
+    await alertEngine.evaluateAfterJob(jobId, routerIds, config.status === 'error' ? config.errorMessage : undefined);
   }
 
-  private async executeDeviceDiscovery() {
-    if (!sshClient.isConnectionActive()) return;
+  private async executeDeviceDiscovery(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
 
-    const devices = await sshClient.getConnectedDevices();
+    const devices = await client.getConnectedDevices();
     
     // Update existing devices and add new ones
     for (const deviceData of devices) {
       try {
-        const existingDevices = await storage.getConnectedDevices();
+        const existingDevices = await storage.getConnectedDevices(routerId);
         const existingDevice = existingDevices.find(d => d.macAddress === deviceData.macAddress);
 
         if (existingDevice) {
-          // Update existing device
-          await storage.updateConnectedDevice(existingDevice.id, {
-            name: deviceData.name,
+          // Update existing device; its type is only replaced while it is still unclassified, and a
+          // placeholder name from the lease table never replaces one found by identification
+          await storage.updateConnectedDevice(routerId, existingDevice.id, {
+            name: isGenericDeviceName(deviceData.name, deviceData.macAddress) ? existingDevice.name : deviceData.name,
+            deviceType: existingDevice.deviceType === 'unknown' ? deviceData.deviceType : existingDevice.deviceType,
             ipAddress: deviceData.ipAddress,
             isOnline: deviceData.isOnline,
             connectionType: deviceData.connectionType,
-            hostname: deviceData.hostname
+            hostname: deviceData.hostname,
+            wirelessBand: deviceData.wirelessBand || null,
+            aimeshNode: deviceData.aimeshNode || null,
+            aimeshNodeMac: deviceData.aimeshNodeMac || null,
+            vendor: deviceData.vendor,
+            isRandomizedMac: deviceData.isRandomizedMac
           });
         } else {
           // Add new device (MAC address already normalized in SSH client)
@@ -171,27 +291,45 @@ class BackgroundServiceManager {
             signalStrength: deviceData.signalStrength || null,
             wirelessInterface: deviceData.wirelessInterface || null,
             aimeshNode: deviceData.aimeshNode || null,
-            aimeshNodeMac: deviceData.aimeshNodeMac || null
+            aimeshNodeMac: deviceData.aimeshNodeMac || null,
+            vendor: deviceData.vendor,
+            isRandomizedMac: deviceData.isRandomizedMac
           };
-          await storage.createConnectedDevice(newDevice);
+          await storage.createConnectedDevice(routerId, newDevice);
         }
       } catch (error) {
         console.error(`Error updating device ${deviceData.macAddress}:`, error);
       }
     }
+
+    // Devices the router no longer lists at all (not even as a DHCP lease) have left
+    if (devices.length > 0) {
+      const seenMacs = new Set(devices.map(device => device.macAddress));
+      for (const device of await storage.getConnectedDevices(routerId)) {
+        if (device.isOnline && !seenMacs.has(device.macAddress)) {
+          await storage.updateConnectedDevice(routerId, device.id, { isOnline: false });
+        }
+      }
+    }
+
+    await syncRouterNicknames(routerId, client).catch((error) => {
+      console.error(`Error syncing router nicknames for router ${routerId}:`, error);
+    });
+    await recordDevicePresence(routerId);
+    await liveEvents.publishDeviceChanges(routerId);
   }
 
-  private async executeDeviceDetailSync() {
-    if (!sshClient.isConnectionActive()) return;
+  private async executeDeviceDetailSync(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
 
-    const devices = await storage.getConnectedDevices();
+    const devices = await storage.getConnectedDevices(routerId);
     
     // Update detailed information for each device with enhanced detection
     for (const device of devices.slice(0, 5)) { // Process 5 devices at a time
       try {
-        const detailedInfo = await sshClient.getEnhancedDeviceInfo(device.macAddress);
+        const detailedInfo = await client.getEnhancedDeviceInfo(device.macAddress);
         
-        await storage.updateConnectedDevice(device.id, {
+        await storage.updateConnectedDevice(routerId, device.id, {
           connectionType: detailedInfo.connectionType,
           isOnline: detailedInfo.isOnline,
           signalStrength: detailedInfo.signalStrength,
@@ -204,14 +342,16 @@ class BackgroundServiceManager {
       }
     }
     
+    await recordDevicePresence(routerId);
+    await liveEvents.publishDeviceChanges(routerId);
     console.log(`Updated enhanced device details for ${Math.min(5, devices.length)} devices`);
   }
 
-  private async executeBandwidthMonitoring() {
-    if (!sshClient.isConnectionActive()) return;
+  private async executeBandwidthMonitoring(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
 
     try {
-      const bandwidthData = await sshClient.getBandwidthData();
+      const bandwidthData = await client.getBandwidthData();
       
       const newBandwidthData: InsertBandwidthData = {
         downloadSpeed: parseFloat(bandwidthData.download) || 0,
@@ -220,17 +360,24 @@ class BackgroundServiceManager {
         totalUpload: parseFloat(bandwidthData.totalUpload) || 0
       };
 
-      await storage.addBandwidthData(newBandwidthData);
+      const sample = await storage.addBandwidthData(routerId, newBandwidthData);
+      liveEvents.publishBandwidth(routerId, sample);
     } catch (error) {
       console.error('Error collecting bandwidth data:', error);
     }
+
+    try {
+      await collectDeviceBandwidth(routerId, client);
+    } catch (error) {
+      console.error('Error collecting per-device bandwidth:', error);
+    }
   }
 
-  private async executeRouterHealthCheck() {
-    if (!sshClient.isConnectionActive()) return;
+  private async executeRouterHealthCheck(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
 
     try {
-      const systemInfo = await sshClient.getSystemInfo();
+      const systemInfo = await client.getSystemInfo();
       
       const routerStatus: InsertRouterStatus = {
         model: systemInfo.model || 'Unknown',
@@ -248,29 +395,81 @@ class BackgroundServiceManager {
         cpuModel: systemInfo.cpuModel || null
       };
 
-      await storage.updateRouterStatus(routerStatus);
+      await storage.updateRouterStatus(routerId, routerStatus);
+      await liveEvents.publishStatus(routerId);
     } catch (error) {
       console.error('Error updating router status:', error);
     }
   }
 
-  private async executeWifiNetworkScan() {
-    if (!sshClient.isConnectionActive()) return;
+  // Errors are left to propagate so a missed backup shows up as a failed job
+  private async executeConfigBackup(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    const { backup, pruned } = await auditSystemAction(routerId, 'Nightly config backup', null, async () => ({
+      backup: await captureConfigBackup(routerId, client, { source: 'scheduled', createdBy: 'system' }),
+      pruned: await pruneScheduledBackups(routerId),
+    }));
+    console.log(`Config backup ${backup.id} saved for router ${routerId} (${backup.keyCount} keys, ${pruned} old backups pruned)`);
+  }
+
+  private async executeNvramSnapshot(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    await captureNvramSnapshot(routerId, client);
+  }
+
+  private async executeDeviceIdentification(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    await identifyDevices(routerId, client);
+  }
+
+  private async executeDeviceBlockSync(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    await syncParentalControls(routerId, client);
+  }
+
+  private async executeWakeSchedules(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    await runWakeSchedules(routerId, client);
+  }
+
+  // Scanning takes each radio off its channel for a few seconds, hence the longer interval
+  private async executeWifiAnalyzerScan(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    await runWifiScan(routerId, client);
+  }
+
+  private async executeWifiChannelUtilization(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
+
+    await collectChannelUtilization(routerId, client);
+  }
+
+  private async executeWifiNetworkScan(routerId: number, client: SSHClient) {
+    if (!client.isConnectionActive()) return;
 
     try {
-      const wifiNetworks = await sshClient.getWiFiNetworks();
+      const wifiNetworks = await client.getWiFiNetworks();
       
       // Store WiFi network information
       for (const network of wifiNetworks) {
         try {
-          const existingNetworks = await storage.getWifiNetworks();
-          const existingNetwork = existingNetworks.find(n => 
-            n.ssid === network.ssid && n.band === network.band
+          const existingNetworks = await storage.getWifiNetworks(routerId);
+          // The interface stays put when a network is renamed or its band is corrected
+          const existingNetwork = existingNetworks.find(n => n.interface && network.interface
+            ? n.interface === network.interface
+            : n.ssid === network.ssid && n.band === network.band
           );
 
           if (existingNetwork) {
             // Update existing network
-            await storage.updateWifiNetwork(existingNetwork.id, {
+            await storage.updateWifiNetwork(routerId, existingNetwork.id, {
+              ssid: network.ssid || existingNetwork.ssid,
               isEnabled: network.isEnabled,
               isVisible: network.isVisible,
               channel: network.channel,
@@ -283,6 +482,7 @@ class BackgroundServiceManager {
             const newNetwork = {
               ssid: network.ssid || "Unknown Network",
               band: network.band || "2.4GHz",
+              interface: network.interface || null,
               isEnabled: network.enabled ?? true,
               channel: network.channel || 0,
               securityMode: network.security || "WPA2",
@@ -290,17 +490,19 @@ class BackgroundServiceManager {
               signalStrength: network.signalStrength || null
             };
             console.log(`Creating WiFi network: ${newNetwork.ssid} (${newNetwork.band})`);
-            await storage.createWifiNetwork(newNetwork);
+            await storage.createWifiNetwork(routerId, newNetwork);
           }
         } catch (error) {
           console.error(`Error storing WiFi network ${network.ssid}:`, error);
         }
       }
 
+      await syncGuestNetworks(routerId, client).catch(error => console.error('Error reading guest networks:', error));
+
       // Update router features with accurate counts
-      const wifiNetworkCount = await sshClient.getWiFiNetworkCount();
-      const activeGuestNetworks = await sshClient.getActiveGuestNetworkCount();
-      const merlinFeatures = await sshClient.getMerlinFeatures();
+      const wifiNetworkCount = await client.getWiFiNetworkCount();
+      const activeGuestNetworks = await client.getActiveGuestNetworkCount();
+      const merlinFeatures = await client.getMerlinFeatures();
 
       const routerFeatures: InsertRouterFeatures = {
         wifiNetworkCount: wifiNetworkCount,
@@ -315,7 +517,7 @@ class BackgroundServiceManager {
         wirelessClientsTotal: merlinFeatures.wirelessClientsTotal || 0
       };
 
-      await storage.updateRouterFeatures(routerFeatures);
+      await storage.updateRouterFeatures(routerId, routerFeatures);
     } catch (error) {
       console.error('Error scanning WiFi networks:', error);
     }
@@ -330,6 +532,7 @@ class BackgroundServiceManager {
       jobData.config.isEnabled = true;
       jobData.config.status = 'stopped';
       jobData.config.nextRun = jobData.job.nextDate()?.toJSDate();
+      this.publishJobState(jobId);
       return true;
     } catch (error) {
       console.error(`Failed to start job ${jobId}:`, error);
@@ -346,6 +549,7 @@ class BackgroundServiceManager {
       jobData.config.isEnabled = false;
       jobData.config.status = 'stopped';
       jobData.config.nextRun = undefined;
+      this.publishJobState(jobId);
       return true;
     } catch (error) {
       console.error(`Failed to stop job ${jobId}:`, error);
@@ -391,6 +595,10 @@ class BackgroundServiceManager {
     }
   }
 
+  private publishJobState(jobId: string) {
+    liveEvents.publish('job', null, this.getJob(jobId));
+  }
+
   public getJobs(): BackgroundJob[] {
     return Array.from(this.jobs.values()).map(({ config }) => ({
       ...config,
@@ -0,0 +1,211 @@
+import type { InsertWifiChannelStat, WifiChannelStat } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { withTimeout } from "./nvram-changes";
+import { listRadios } from "./wifi-radios";
+
+// The driver measures how each radio's airtime was spent and `wl chanim_stats` prints the latest
+// measurement as a header row and a value row:
+//
+//   version: 3
+//   chanspec tx   inbss   obss   nocat   nopkt   doze     txop     goodtx  badtx   glitch   badplcp  knoise  chan_idle  timestamp
+//   0xe02a   2    11      9      0       3       0        74       0       0       118      0        -91     81         5738390
+//
+// tx, inbss (receiving from our clients), obss (other networks), nocat (non-WiFi energy), nopkt
+// (energy that never decoded into a frame) and txop (still free to transmit) are percentages;
+// glitch and badplcp are counts per second. Older firmware leaves out some columns, so they are
+// looked up by name. Each collection stores one sample per radio.
+export interface UtilizationPoint {
+  timestamp: string;
+  busy: number;
+  tx: number;
+  rx: number;
+  obss: number;
+  interference: number;
+  glitches: number;
+  noise: number | null;
+}
+
+export interface RadioUtilization {
+  unit: number;
+  band: string;
+  label: string;
+  chanspec: string;
+  latest: UtilizationPoint;
+  averageBusy: number;
+  points: UtilizationPoint[];
+}
+
+export interface SustainedUtilization {
+  unit: number;
+  label: string;
+  chanspec: string;
+  averageBusy: number;
+  samples: number;
+}
+
+type ChanimStats = Omit<InsertWifiChannelStat, "sampledAt" | "unit" | "band" | "label" | "chanspec" | "noise"> & { knoise: number | null };
+
+const COMMAND_TIMEOUT_MS = 15000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Charts are bucketed down to roughly this many points whatever the range
+const CHART_POINTS = 288;
+const OUTPUT_MARKER = "__chanim_end__";
+
+const lastPrune = new Map<number, number>();
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function parseChanimStats(output: string): ChanimStats | null {
+  const lines = output.split("\n").map(line => line.trim().split(/\s+/));
+  const headerIndex = lines.findIndex(columns => columns[0] === "chanspec");
+  const header = lines[headerIndex];
+  const values = lines[headerIndex + 1];
+  if (headerIndex < 0 || !values || values.length < header.length - 1) return null;
+
+  const column = (name: string): number | null => {
+    const index = header.indexOf(name);
+    const value = index >= 0 ? parseFloat(values[index]) : NaN;
+    return Number.isNaN(value) ? null : value;
+  };
+  const tx = column("tx") ?? 0;
+  const rx = column("inbss") ?? 0;
+  const obss = column("obss") ?? 0;
+  const interference = (column("nocat") ?? 0) + (column("nopkt") ?? 0);
+  const txop = column("txop");
+
+  return {
+    // txop is the share left over; without it, add up what was used
+    busy: round(Math.min(100, Math.max(0, txop !== null ? 100 - txop : tx + rx + obss + interference))),
+    tx,
+    rx,
+    obss,
+    interference,
+    glitches: Math.round(column("glitch") ?? 0),
+    badPlcp: Math.round(column("badplcp") ?? 0),
+    knoise: column("knoise"),
+  };
+}
+
+export async function collectChannelUtilization(routerId: number, client: SSHClient): Promise<number> {
+  const radios = await listRadios(client);
+  const sampledAt = new Date();
+  const samples: InsertWifiChannelStat[] = [];
+
+  for (const radio of radios) {
+    try {
+      const output = await withTimeout(
+        client.executeCommand(`wl -i ${radio.ifname} chanim_stats; echo ${OUTPUT_MARKER}; wl -i ${radio.ifname} noise; echo ${OUTPUT_MARKER}; wl -i ${radio.ifname} chanspec`),
+        COMMAND_TIMEOUT_MS,
+        `Timed out reading airtime of ${radio.label}`,
+      );
+      const [chanim = "", noiseOutput = "", chanspecOutput = ""] = output.split(`${OUTPUT_MARKER}\n`);
+      const stats = parseChanimStats(chanim);
+      // A radio that is switched off has nothing to report
+      if (!stats) continue;
+
+      const { knoise, ...airtime } = stats;
+      const noise = parseInt(noiseOutput.trim());
+      samples.push({
+        ...airtime,
+        sampledAt,
+        unit: radio.unit,
+        band: radio.band,
+        label: radio.label,
+        chanspec: chanspecOutput.trim().split(/\s+/)[0] ?? "",
+        noise: !Number.isNaN(noise) && noise < 0 ? noise : knoise,
+      });
+    } catch (error) {
+      console.error(`Reading airtime on ${radio.label} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await storage.addWifiChannelStats(routerId, samples);
+
+  const now = sampledAt.getTime();
+  if (now - (lastPrune.get(routerId) ?? 0) > PRUNE_INTERVAL_MS) {
+    lastPrune.set(routerId, now);
+    await storage.pruneWifiChannelStats(routerId, new Date(now - RETENTION_MS));
+  }
+
+  return samples.length;
+}
+
+function sinceMinutes(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60 * 1000);
+}
+
+function average(stats: WifiChannelStat[], field: "busy" | "tx" | "rx" | "obss" | "interference" | "glitches"): number {
+  return stats.reduce((total, stat) => total + stat[field], 0) / stats.length;
+}
+
+function groupByRadio(stats: WifiChannelStat[]): Map<number, WifiChannelStat[]> {
+  const radios = new Map<number, WifiChannelStat[]>();
+  for (const stat of stats) {
+    if (!radios.has(stat.unit)) radios.set(stat.unit, []);
+    radios.get(stat.unit)!.push(stat);
+  }
+  return radios;
+}
+
+function toPoint(timestamp: number, stats: WifiChannelStat[]): UtilizationPoint {
+  const noise = stats.map(stat => stat.noise).filter((value): value is number => value !== null);
+  return {
+    timestamp: new Date(timestamp).toISOString(),
+    busy: round(average(stats, "busy")),
+    tx: round(average(stats, "tx")),
+    rx: round(average(stats, "rx")),
+    obss: round(average(stats, "obss")),
+    interference: round(average(stats, "interference")),
+    glitches: Math.round(average(stats, "glitches")),
+    noise: noise.length > 0 ? Math.round(noise.reduce((total, value) => total + value, 0) / noise.length) : null,
+  };
+}
+
+export async function getChannelUtilization(routerId: number, hours: number): Promise<RadioUtilization[]> {
+  const stats = await storage.getWifiChannelStats(routerId, sinceMinutes(hours * 60));
+  const bucketMs = Math.max(60 * 1000, Math.ceil((hours * 60 * 60 * 1000) / CHART_POINTS));
+
+  return Array.from(groupByRadio(stats).entries())
+    .sort(([a], [b]) => a - b)
+    .map(([unit, radioStats]) => {
+      const buckets = new Map<number, WifiChannelStat[]>();
+      for (const stat of radioStats) {
+        const bucket = Math.floor(stat.sampledAt.getTime() / bucketMs) * bucketMs;
+        if (!buckets.has(bucket)) buckets.set(bucket, []);
+        buckets.get(bucket)!.push(stat);
+      }
+      const last = radioStats[radioStats.length - 1];
+
+      return {
+        unit,
+        band: last.band,
+        label: last.label,
+        chanspec: last.chanspec,
+        latest: toPoint(last.sampledAt.getTime(), [last]),
+        averageBusy: round(average(radioStats, "busy")),
+        points: Array.from(buckets.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([bucket, entries]) => toPoint(bucket, entries)),
+      };
+    });
+}
+
+// Average busy airtime of each radio over the last few minutes; radios with too few samples to
+// tell a busy spell from a burst are left out
+export async function getSustainedUtilization(routerId: number, minutes: number, minSamples: number): Promise<SustainedUtilization[]> {
+  const stats = await storage.getWifiChannelStats(routerId, sinceMinutes(minutes));
+
+  return Array.from(groupByRadio(stats).entries())
+    .filter(([, radioStats]) => radioStats.length >= minSamples)
+    .map(([unit, radioStats]) => ({
+      unit,
+      label: radioStats[radioStats.length - 1].label,
+      chanspec: radioStats[radioStats.length - 1].chanspec,
+      averageBusy: round(average(radioStats, "busy")),
+      samples: radioStats.length,
+    }));
+}
@@ -0,0 +1,342 @@
+import type { ConfigBackup, NvramChangeSet } from "@shared/schema";
+import { sshClients, type SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { openSensitiveText, sealSensitiveText } from "./crypto";
+import {
+  applyNvramChanges,
+  batchCommands,
+  isSecretNvramKey,
+  shellQuote,
+  validateNvramChanges,
+  withTimeout,
+  type NvramDiffEntry,
+  type NvramValues,
+} from "./nvram-changes";
+
+// A backup is the full `nvram show` dump plus the contents of /jffs/scripts, captured over SSH
+// and kept as a versioned row per router. Restores go through the change-set engine, so a
+// restore that leaves the router unreachable is rolled back like any other NVRAM write.
+// The dump holds every passphrase on the router, so both columns are stored sealed with the
+// SSH credential key and only opened here.
+export interface ConfigBackupSummary extends Omit<ConfigBackup, "nvram" | "jffsScripts"> {
+  scripts: string[];
+}
+
+export interface NvramDumpDiff {
+  added: { key: string; value: string }[];
+  removed: { key: string; value: string }[];
+  changed: { key: string; before: string; after: string }[];
+  scriptsAdded: string[];
+  scriptsRemoved: string[];
+  scriptsChanged: string[];
+}
+
+export interface RestorePlan {
+  changes: NvramValues;
+  skipped: string[];
+  kept: number;
+  scripts: Record<string, string>;
+}
+
+const FILE_MARKER = "__jffs_file__";
+const SCRIPTS_DIR = "/jffs/scripts/";
+const SCRIPT_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const NVRAM_LINE_PATTERN = /^([A-Za-z0-9_.:-]+)=(.*)$/;
+const CAPTURE_TIMEOUT_MS = 30000;
+
+// Scheduled backups beyond this many are pruned; manual and labelled ones are kept
+export const SCHEDULED_BACKUP_RETENTION = 14;
+
+// Hardware identity and firmware build info that a restore must never overwrite
+const HARDWARE_KEY_PATTERNS = [
+  /macaddr$/,
+  /_hwaddr$/,
+  /_(ccode|regrev|country_code)$/,
+  /^(firmver|buildno|buildinfo|extendno|innerver|productid|odmpid|serial_no|territory_code|rc_support|model)$/,
+];
+
+// Values the firmware rewrites on its own while running; they are neither restored nor tracked as drift
+const RUNTIME_KEY_PATTERNS = [
+  /_state_t$/,
+  /_sbstate_t$/,
+  /_auxstate_t$/,
+  /_timestamp$/,
+  /^wan\d+_(ipaddr|netmask|gateway|dns|lease|expires|xipaddr|xnetmask|xgateway|xdns|realip_ip|realip_state)$/,
+  /^(login_ip|login_ip_str|ntp_ready|success_start_service|rc_service|rc_service_pid|link_internet|link_wan)$/,
+  /^(asus_device_list|cfg_device_list|cfg_alive)$/,
+  /^(webs_state_|ddns_(ipaddr|return_code|updated|status|cache)|wps_proc_status|networkmap_)/,
+];
+
+export function maskNvramValue(key: string, value: string): string {
+  return isSecretNvramKey(key) && value ? "••••••••" : value;
+}
+
+function maskNvramValues(values: NvramValues): NvramValues {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, maskNvramValue(key, value)]));
+}
+
+// Change sets carry WiFi and guest passphrases among their values, so they leave the server masked
+export function maskChangeSet(changeSet: NvramChangeSet): NvramChangeSet {
+  return {
+    ...changeSet,
+    changes: JSON.stringify(maskNvramValues(JSON.parse(changeSet.changes))),
+    snapshot: changeSet.snapshot ? JSON.stringify(maskNvramValues(JSON.parse(changeSet.snapshot))) : null,
+  };
+}
+
+export function maskNvramDiffEntries(entries: NvramDiffEntry[]): NvramDiffEntry[] {
+  return entries.map(entry => ({
+    ...entry,
+    before: entry.before === null ? null : maskNvramValue(entry.key, entry.before),
+    after: maskNvramValue(entry.key, entry.after),
+  }));
+}
+
+export function isRuntimeNvramKey(key: string): boolean {
+  return RUNTIME_KEY_PATTERNS.some(pattern => pattern.test(key));
+}
+
+function isRestorableKey(key: string): boolean {
+  return !isRuntimeNvramKey(key) && !HARDWARE_KEY_PATTERNS.some(pattern => pattern.test(key));
+}
+
+// `nvram show` prints key=value per line, but values may contain newlines; a line that doesn't
+// start a new key continues the previous value
+export function parseNvramDump(dump: string): NvramValues {
+  const values: NvramValues = {};
+  let lastKey: string | null = null;
+
+  for (const line of dump.split("\n")) {
+    const match = line.match(NVRAM_LINE_PATTERN);
+    if (match) {
+      lastKey = match[1];
+      values[lastKey] = match[2];
+    } else if (lastKey && !/^size: \d+ bytes/.test(line)) {
+      values[lastKey] += `\n${line}`;
+    }
+  }
+
+  if (lastKey) {
+    values[lastKey] = values[lastKey].replace(/\n+$/, "");
+  }
+  return values;
+}
+
+function parseJffsScripts(output: string): Record<string, string> {
+  const scripts: Record<string, string> = {};
+
+  for (const section of output.split(`${FILE_MARKER} `).slice(1)) {
+    const newline = section.indexOf("\n");
+    const path = section.slice(0, newline);
+    // The capture loop echoes a newline after each file so the next marker starts a line
+    scripts[path] = section.slice(newline + 1).replace(/\n$/, "");
+  }
+
+  return scripts;
+}
+
+function parseJffsScriptsColumn(backup: ConfigBackup): Record<string, string> {
+  return JSON.parse(openSensitiveText(backup.jffsScripts || "{}"));
+}
+
+function nvramColumn(backup: ConfigBackup): string {
+  return openSensitiveText(backup.nvram);
+}
+
+function describeFirmware(values: NvramValues): string | null {
+  if (!values.buildno) return null;
+  const version = [values.firmver, values.buildno].filter(Boolean).join(".");
+  return values.extendno ? `${version}_${values.extendno}` : version;
+}
+
+function modelOf(values: NvramValues): string | null {
+  return values.odmpid || values.productid || null;
+}
+
+export async function readRouterConfig(client: SSHClient) {
+  const nvram = await withTimeout(client.executeCommand("nvram show 2>/dev/null"), CAPTURE_TIMEOUT_MS, "Timed out reading NVRAM");
+  const scriptsOutput = await withTimeout(
+    client.executeCommand(`for f in ${SCRIPTS_DIR}*; do [ -f "$f" ] || continue; echo "${FILE_MARKER} $f"; cat "$f"; echo; done`),
+    CAPTURE_TIMEOUT_MS,
+    "Timed out reading JFFS scripts",
+  );
+
+  return { nvram, jffsScripts: parseJffsScripts(scriptsOutput) };
+}
+
+export async function captureConfigBackup(
+  routerId: number,
+  client: SSHClient,
+  options: { source: string; createdBy: string; label?: string | null },
+): Promise<ConfigBackup> {
+  const { nvram, jffsScripts } = await readRouterConfig(client);
+  const values = parseNvramDump(nvram);
+  const scriptsJson = JSON.stringify(jffsScripts);
+
+  return await storage.createConfigBackup(routerId, {
+    label: options.label || null,
+    source: options.source,
+    model: modelOf(values),
+    firmware: describeFirmware(values),
+    nvram: sealSensitiveText(nvram),
+    jffsScripts: sealSensitiveText(scriptsJson),
+    keyCount: Object.keys(values).length,
+    sizeBytes: Buffer.byteLength(nvram) + Buffer.byteLength(scriptsJson),
+    createdBy: options.createdBy,
+  });
+}
+
+export async function pruneScheduledBackups(routerId: number): Promise<number> {
+  const scheduled = (await storage.getConfigBackups(routerId))
+    .filter(backup => backup.source === "scheduled" && !backup.label);
+
+  const expired = scheduled.slice(SCHEDULED_BACKUP_RETENTION);
+  for (const backup of expired) {
+    await storage.deleteConfigBackup(routerId, backup.id);
+  }
+  return expired.length;
+}
+
+export function summarizeConfigBackup(backup: ConfigBackup): ConfigBackupSummary {
+  const { nvram, jffsScripts, ...summary } = backup;
+  return { ...summary, scripts: Object.keys(parseJffsScriptsColumn(backup)) };
+}
+
+export function configBackupFilename(backup: ConfigBackup): string {
+  const timestamp = (backup.createdAt ?? new Date()).toISOString().replace(/[:.]/g, "-").slice(0, 16);
+  return `${backup.model || "router"}-backup-${timestamp}.json`;
+}
+
+export function exportConfigBackup(backup: ConfigBackup) {
+  return {
+    format: "asus-router-manager-backup",
+    version: 1,
+    label: backup.label,
+    model: backup.model,
+    firmware: backup.firmware,
+    createdAt: backup.createdAt,
+    nvram: nvramColumn(backup),
+    jffsScripts: parseJffsScriptsColumn(backup),
+  };
+}
+
+export function diffConfigs(
+  from: { nvram: string; jffsScripts: Record<string, string> },
+  to: { nvram: string; jffsScripts: Record<string, string> },
+): NvramDumpDiff {
+  const before = parseNvramDump(from.nvram);
+  const after = parseNvramDump(to.nvram);
+  const diff: NvramDumpDiff = { added: [], removed: [], changed: [], scriptsAdded: [], scriptsRemoved: [], scriptsChanged: [] };
+
+  for (const key of Object.keys(after).sort()) {
+    if (!(key in before)) {
+      diff.added.push({ key, value: maskNvramValue(key, after[key]) });
+    } else if (before[key] !== after[key]) {
+      diff.changed.push({ key, before: maskNvramValue(key, before[key]), after: maskNvramValue(key, after[key]) });
+    }
+  }
+  for (const key of Object.keys(before).sort()) {
+    if (!(key in after)) {
+      diff.removed.push({ key, value: maskNvramValue(key, before[key]) });
+    }
+  }
+
+  for (const path of Object.keys(to.jffsScripts).sort()) {
+    if (!(path in from.jffsScripts)) {
+      diff.scriptsAdded.push(path);
+    } else if (from.jffsScripts[path] !== to.jffsScripts[path]) {
+      diff.scriptsChanged.push(path);
+    }
+  }
+  diff.scriptsRemoved = Object.keys(from.jffsScripts).filter(path => !(path in to.jffsScripts)).sort();
+
+  return diff;
+}
+
+export function backupContents(backup: ConfigBackup) {
+  return { nvram: nvramColumn(backup), jffsScripts: parseJffsScriptsColumn(backup) };
+}
+
+// Only keys whose backed-up value differs from the router are written. Keys the router has
+// that the backup doesn't are left alone rather than unset.
+export function planRestore(backup: ConfigBackup, current: { nvram: string; jffsScripts: Record<string, string> }): RestorePlan {
+  const target = parseNvramDump(nvramColumn(backup));
+  const live = parseNvramDump(current.nvram);
+  const changes: NvramValues = {};
+  const skipped: string[] = [];
+
+  for (const [key, value] of Object.entries(target)) {
+    if (live[key] === value) continue;
+    if (!isRestorableKey(key) || validateNvramChanges({ [key]: value })) {
+      skipped.push(key);
+    } else {
+      changes[key] = value;
+    }
+  }
+
+  const backedUpScripts = parseJffsScriptsColumn(backup);
+  const scripts = Object.fromEntries(
+    Object.entries(backedUpScripts).filter(([path, contents]) => current.jffsScripts[path] !== contents),
+  );
+
+  return {
+    changes,
+    skipped: skipped.sort(),
+    kept: Object.keys(live).filter(key => !(key in target)).length,
+    scripts,
+  };
+}
+
+async function writeJffsScripts(client: SSHClient, scripts: Record<string, string>) {
+  for (const [path, contents] of Object.entries(scripts)) {
+    const name = path.slice(SCRIPTS_DIR.length);
+    if (!path.startsWith(SCRIPTS_DIR) || !SCRIPT_NAME_PATTERN.test(name)) {
+      throw new Error(`Refusing to write script outside ${SCRIPTS_DIR}: ${path}`);
+    }
+
+    // Written in pieces to a temporary file so a long script never leaves a half-written original
+    const tmpPath = shellQuote(`${path}.restore`);
+    const chunks = contents.match(/[\s\S]{1,4000}/g) ?? [""];
+    const writes = chunks.map((chunk, index) => `printf '%s' ${shellQuote(chunk)} ${index === 0 ? ">" : ">>"} ${tmpPath}`);
+    for (const batch of batchCommands(writes, " && ")) {
+      await client.executeCommand(batch.join(" && "));
+    }
+    await client.executeCommand(`mv ${tmpPath} ${shellQuote(path)} && chmod a+rx ${shellQuote(path)}`);
+  }
+}
+
+export async function restoreConfigBackup(
+  routerId: number,
+  client: SSHClient,
+  backup: ConfigBackup,
+  options: { includeScripts: boolean; createdBy: string },
+) {
+  // The current config is saved first so the restore itself can be undone
+  const preRestore = await captureConfigBackup(routerId, client, {
+    source: "pre_restore",
+    createdBy: options.createdBy,
+    label: `Before restoring #${backup.id}`,
+  });
+  if (backup.model && preRestore.model && backup.model !== preRestore.model) {
+    throw new Error(`Backup was taken on a ${backup.model}, this router is a ${preRestore.model}`);
+  }
+
+  const plan = planRestore(backup, backupContents(preRestore));
+  const changeSet = Object.keys(plan.changes).length > 0
+    ? await applyNvramChanges(routerId, {
+        description: `Restore backup ${backup.label ? `"${backup.label}"` : `#${backup.id}`}`,
+        changes: plan.changes,
+        createdBy: options.createdBy,
+      })
+    : null;
+
+  const scriptsWritten = options.includeScripts && (!changeSet || changeSet.status === "applied")
+    ? Object.keys(plan.scripts)
+    : [];
+  if (scriptsWritten.length > 0) {
+    // The change set may have reconnected to the router, so don't reuse the original session
+    await writeJffsScripts(sshClients.getClient(routerId), plan.scripts);
+  }
+
+  return { changeSet, preRestoreBackupId: preRestore.id, plan, scriptsWritten };
+}
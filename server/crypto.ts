@@ -60,11 +60,36 @@ export function decryptSensitiveData(encryptedData: EncryptedData): string {
   }
 }
 
+// Encrypted text kept in a single string column, as the JSON of its EncryptedData
+export function sealSensitiveText(text: string): string {
+  return JSON.stringify(encryptSensitiveData(text));
+}
+
+export function isSealedText(column: string): boolean {
+  try {
+    const data = JSON.parse(column);
+    return typeof data?.encrypted === 'string' && typeof data?.tag === 'string';
+  } catch {
+    return false;
+  }
+}
+
+// Columns written before they were sealed are plaintext and come back as they are
+export function openSensitiveText(column: string): string {
+  return isSealedText(column) ? decryptSensitiveData(JSON.parse(column)) : column;
+}
+
+// Keyed hash of a secret, so a stored value can show that it changed without revealing it
+export function fingerprintSensitiveData(data: string): string {
+  return crypto.createHmac('sha256', encryptionKey).update(data).digest('hex').slice(0, 12);
+}
+
 // Helper function to safely encrypt SSH configuration
 export function encryptSSHConfig(config: any): any {
   const sensitive = JSON.stringify({
     password: config.password,
-    privateKey: config.privateKey
+    privateKey: config.privateKey,
+    passphrase: config.passphrase
   });
   
   const encrypted = encryptSensitiveData(sensitive);
@@ -73,6 +98,7 @@ export function encryptSSHConfig(config: any): any {
     ...config,
     password: undefined,
     privateKey: undefined,
+    passphrase: undefined,
     encryptedCredentials: encrypted
   };
 }
@@ -91,6 +117,7 @@ export function decryptSSHConfig(config: any): any {
       ...config,
       password: credentials.password,
       privateKey: credentials.privateKey,
+      passphrase: credentials.passphrase,
       encryptedCredentials: undefined
     };
   } catch (error) {
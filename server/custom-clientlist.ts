@@ -0,0 +1,218 @@
+import type { DeviceOverride, InsertDeviceOverride, NameSource, NicknameStatus } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { applyNvramChanges, readNvramValues } from "./nvram-changes";
+import { normalizeMac } from "./dhcp-reservations";
+import { auditSystemAction } from "./audit";
+
+// The router's own client list and the ASUS mobile app keep nicknames and icons in
+// custom_clientlist, a run of "<NAME>MAC>GROUP>TYPE>CALLBACK>KEEPARP" entries. Names and icons
+// set here are written back to it and the ones set there are imported on every device sync.
+// Each override remembers the entry as last seen, so a change on either side can be told apart
+// from one on the other; when both changed, neither is overwritten until someone picks.
+export interface ClientListEntry {
+  name: string;
+  macAddress: string;
+  // Everything after the MAC, kept as it was so fields this app does not use survive a rewrite
+  fields: string[];
+}
+
+const CLIENTLIST_KEY = "custom_clientlist";
+const MAC_PATTERN = /^([0-9A-F]{2}:){5}[0-9A-F]{2}$/;
+// The router's client list page stops at 32 characters
+const MAX_NICKNAME_LENGTH = 32;
+const TYPE_FIELD = 1;
+
+// ASUS icon types with a counterpart among this app's device types. The router has several
+// dozen more; those are left as they are on the router.
+const ASUS_ICON_TYPES: Record<string, string> = {
+  "1": "desktop", // Windows PC
+  "2": "router",
+  "4": "nas",
+  "5": "camera",
+  "6": "laptop", // MacBook
+  "7": "gaming",
+  "9": "mobile", // Android phone
+  "10": "mobile", // iPhone
+  "11": "streaming", // Apple TV
+  "12": "streaming", // set-top box
+  "14": "desktop", // iMac
+  "18": "printer",
+  "20": "tablet", // Android tablet
+  "21": "tablet", // iPad
+  "23": "tv",
+  "27": "streaming", // Chromecast
+};
+const DEFAULT_ICON_TYPE = "0";
+
+export function parseCustomClientList(value: string): ClientListEntry[] {
+  return value.trim().split("<").filter(Boolean)
+    .map(entry => entry.split(">"))
+    .map(([name = "", mac = "", ...fields]) => ({ name, macAddress: normalizeMac(mac), fields }))
+    .filter(entry => MAC_PATTERN.test(entry.macAddress));
+}
+
+export function serializeCustomClientList(entries: ClientListEntry[]): string {
+  return entries.map(entry => `<${[entry.name, entry.macAddress, ...entry.fields].join(">")}`).join("");
+}
+
+export function iconForAsusType(type: string | null | undefined): string | null {
+  return ASUS_ICON_TYPES[type ?? ""] ?? null;
+}
+
+// An icon already shown by the current type keeps it, so an iPhone is not rewritten as Android
+export function asusTypeForIcon(icon: string | null | undefined, current: string | null | undefined): string {
+  if (!icon || iconForAsusType(current) === icon) return current || DEFAULT_ICON_TYPE;
+  return Object.keys(ASUS_ICON_TYPES).find(type => ASUS_ICON_TYPES[type] === icon) ?? (current || DEFAULT_ICON_TYPE);
+}
+
+// The delimiters cannot appear in a name, and the router cuts long ones
+export function routerNickname(name: string | null | undefined): string {
+  return (name ?? "").replace(/[<>]/g, "").trim().slice(0, MAX_NICKNAME_LENGTH);
+}
+
+// A name or icon set here that the router does not have yet. Icons are only written along
+// with a name, since the router lists a client by its nickname.
+function isPending(override: DeviceOverride): boolean {
+  const name = routerNickname(override.name);
+  if (name !== (override.routerName ?? "")) return true;
+  return !!name && !!override.icon && asusTypeForIcon(override.icon, override.routerIcon) !== override.routerIcon;
+}
+
+export function nicknameStatus(override: DeviceOverride | null | undefined): NicknameStatus | null {
+  if (!override) return null;
+  if (override.hasConflict) return "conflict";
+  if (!override.name && !override.routerName) return null;
+  return isPending(override) ? "pending" : "synced";
+}
+
+function isEmpty(override: InsertDeviceOverride): boolean {
+  return !override.name && !override.deviceType && !override.icon && !override.notes && !override.owner && !override.routerName;
+}
+
+async function save(routerId: number, override: InsertDeviceOverride) {
+  if (isEmpty(override)) {
+    await storage.deleteDeviceOverride(routerId, override.macAddress);
+    return;
+  }
+  await storage.saveDeviceOverride(routerId, override);
+}
+
+// Imports what changed on the router, then writes back what changed here. Returns how many
+// names came in, went out and are waiting on a conflict.
+export async function syncRouterNicknames(routerId: number, client: SSHClient, createdBy: string = "system") {
+  const value = (await readNvramValues(client, [CLIENTLIST_KEY]))[CLIENTLIST_KEY] ?? "";
+  const entries = parseCustomClientList(value);
+  const byMac = new Map(entries.map(entry => [entry.macAddress, entry]));
+  const overrides = new Map((await storage.getDeviceOverrides(routerId)).map(override => [override.macAddress, override]));
+  const result = { imported: 0, written: 0, conflicts: 0 };
+
+  for (const macAddress of Array.from(new Set([...Array.from(byMac.keys()), ...Array.from(overrides.keys())]))) {
+    const entry = byMac.get(macAddress);
+    const override = overrides.get(macAddress);
+    const name = entry?.name ?? "";
+    const type = entry?.fields[TYPE_FIELD] ?? "";
+
+    if (!override) {
+      if (!name) continue;
+      await save(routerId, {
+        macAddress,
+        name,
+        icon: iconForAsusType(type),
+        nameSource: "router",
+        routerName: name,
+        routerIcon: type || null,
+        updatedBy: "router",
+      });
+      result.imported++;
+      continue;
+    }
+
+    if (name === (override.routerName ?? "") && type === (override.routerIcon ?? "")) continue;
+
+    const seen = { routerName: name || null, routerIcon: type || null };
+    if (override.hasConflict || isPending(override)) {
+      await save(routerId, { ...override, ...seen, hasConflict: true });
+      result.conflicts++;
+    } else {
+      await save(routerId, {
+        ...override,
+        ...seen,
+        name: name || null,
+        // An icon the router has no type for stays, unless the router changed its type too
+        icon: iconForAsusType(type) ?? (type === (override.routerIcon ?? "") ? override.icon : null),
+        nameSource: "router",
+        updatedBy: "router",
+      });
+      result.imported++;
+    }
+  }
+
+  const pending = (await storage.getDeviceOverrides(routerId)).filter(override => !override.hasConflict && isPending(override));
+  if (pending.length > 0) {
+    const write = () => writeNicknames(routerId, value, entries, pending, createdBy);
+    result.written = createdBy === "system"
+      ? await auditSystemAction(routerId, "Write device names to the router", pending.map(override => override.macAddress).join(", "), write)
+      : await write();
+  }
+  return result;
+}
+
+async function writeNicknames(routerId: number, current: string, entries: ClientListEntry[], pending: DeviceOverride[], createdBy: string) {
+  const next = [...entries];
+  const written = pending.map(override => {
+    const name = routerNickname(override.name);
+    const index = next.findIndex(entry => entry.macAddress === override.macAddress);
+    const existing = index >= 0 ? next[index] : null;
+    if (!name) {
+      // Only the name goes; the entry's group, type, callback and keeparp stay in effect on the router
+      if (existing) next[index] = { ...existing, name: "" };
+      return { override, name, type: existing?.fields[TYPE_FIELD] ?? null };
+    }
+
+    const type = asusTypeForIcon(override.icon ?? override.deviceType, existing?.fields[TYPE_FIELD]);
+    const fields = existing ? [...existing.fields] : ["0", type, "", ""];
+    fields[TYPE_FIELD] = type;
+    const entry = { name, macAddress: override.macAddress, fields };
+    if (index >= 0) next[index] = entry;
+    else next.push(entry);
+    return { override, name, type };
+  });
+
+  const value = serializeCustomClientList(next);
+  if (value !== current.trim()) {
+    const changeSet = await applyNvramChanges(routerId, {
+      description: `Write ${written.length} device name${written.length === 1 ? "" : "s"} to the router's client list`,
+      changes: { [CLIENTLIST_KEY]: value },
+      createdBy,
+    });
+    if (changeSet.status !== "applied") {
+      throw new Error(changeSet.errorMessage || "The router did not accept the client list change");
+    }
+  }
+
+  for (const { override, name, type } of written) {
+    await save(routerId, { ...override, routerName: name || null, routerIcon: type });
+  }
+  return written.length;
+}
+
+// Settles a conflict: "router" takes the router's name and icon, "app" keeps the ones set here
+// so the next sync writes them to the router
+export async function resolveNicknameConflict(routerId: number, macAddress: string, keep: NameSource, updatedBy: string) {
+  const override = await storage.getDeviceOverride(routerId, normalizeMac(macAddress));
+  if (!override?.hasConflict) return;
+
+  if (keep === "router") {
+    await save(routerId, {
+      ...override,
+      name: override.routerName,
+      icon: iconForAsusType(override.routerIcon) ?? override.icon,
+      nameSource: "router",
+      hasConflict: false,
+      updatedBy,
+    });
+  } else {
+    await save(routerId, { ...override, nameSource: "app", hasConflict: false, updatedBy });
+  }
+}
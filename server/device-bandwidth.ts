@@ -0,0 +1,194 @@
+import type { DeviceBandwidthSample, InsertDeviceBandwidthSample } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { batchCommands, withTimeout } from "./nvram-changes";
+
+// Per-device traffic comes from an iptables accounting chain jumped to from FORWARD, with one
+// "-s ip" (upload) and one "-d ip" (download) RETURN rule per online client. The counters are
+// cumulative, so each collection stores the bytes moved since the previous one. A firewall restart
+// flushes the chain; it is recreated on the next pass and the reset counters are taken as-is.
+// Traffic handled by hardware NAT acceleration never reaches iptables and is not counted.
+export const ACCOUNTING_CHAIN = "RMGR_ACCT";
+
+export interface DeviceUsagePoint {
+  timestamp: string;
+  downloadBytes: number;
+  uploadBytes: number;
+  downloadMbps: number;
+  uploadMbps: number;
+}
+
+export interface TopTalker {
+  macAddress: string;
+  deviceId: number | null;
+  name: string;
+  downloadBytes: number;
+  uploadBytes: number;
+  totalBytes: number;
+}
+
+interface Counters {
+  download: number;
+  upload: number;
+}
+
+const COMMAND_TIMEOUT_MS = 15000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Charts are bucketed down to roughly this many points whatever the range
+const CHART_POINTS = 288;
+const IPV4_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$/;
+
+// Last counters read per router and IP, with when they were read
+const lastCounters = new Map<number, { at: number; counters: Map<string, Counters> }>();
+const lastPrune = new Map<number, number>();
+
+// Rows of `iptables -L <chain> -vnx`: pkts bytes target prot opt in out source destination
+export function parseAccountingCounters(output: string): Map<string, Counters> {
+  const counters = new Map<string, Counters>();
+  const entry = (ip: string) => {
+    if (!counters.has(ip)) counters.set(ip, { download: 0, upload: 0 });
+    return counters.get(ip)!;
+  };
+
+  for (const line of output.split("\n")) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 9 || !/^\d+$/.test(parts[1]) || parts[2] !== "RETURN") continue;
+
+    const bytes = parseInt(parts[1]);
+    const [source, destination] = [parts[7], parts[8]];
+    if (IPV4_PATTERN.test(source)) entry(source).upload += bytes;
+    if (IPV4_PATTERN.test(destination)) entry(destination).download += bytes;
+  }
+
+  return counters;
+}
+
+async function run(client: SSHClient, command: string): Promise<string> {
+  return await withTimeout(client.executeCommand(command), COMMAND_TIMEOUT_MS, "Timed out reading traffic counters");
+}
+
+// Makes the chain hold exactly one rule pair per IP and returns the counters, with new rules at zero
+async function syncAccountingRules(client: SSHClient, ips: string[]): Promise<Map<string, Counters>> {
+  await run(client, `iptables -N ${ACCOUNTING_CHAIN} 2>/dev/null; iptables -C FORWARD -j ${ACCOUNTING_CHAIN} 2>/dev/null || iptables -I FORWARD 1 -j ${ACCOUNTING_CHAIN}`);
+  const counters = parseAccountingCounters(await run(client, `iptables -L ${ACCOUNTING_CHAIN} -vnx 2>/dev/null`));
+
+  const wanted = new Set(ips);
+  const added = ips.filter(ip => !counters.has(ip));
+  const changes = [
+    ...added
+      .map(ip => `iptables -A ${ACCOUNTING_CHAIN} -s ${ip} -j RETURN; iptables -A ${ACCOUNTING_CHAIN} -d ${ip} -j RETURN`),
+    ...Array.from(counters.keys())
+      .filter(ip => !wanted.has(ip))
+      .map(ip => `iptables -D ${ACCOUNTING_CHAIN} -s ${ip} -j RETURN; iptables -D ${ACCOUNTING_CHAIN} -d ${ip} -j RETURN`),
+  ];
+  for (const batch of batchCommands(changes, "; ")) {
+    await run(client, batch.join("; "));
+  }
+
+  added.forEach(ip => counters.set(ip, { download: 0, upload: 0 }));
+  return counters;
+}
+
+function toMbps(bytes: number, seconds: number): number {
+  return seconds > 0 ? Math.round(((bytes * 8) / seconds / 1_000_000) * 100) / 100 : 0;
+}
+
+export async function collectDeviceBandwidth(routerId: number, client: SSHClient): Promise<number> {
+  const devices = (await storage.getConnectedDevices(routerId))
+    .filter(device => device.isOnline && IPV4_PATTERN.test(device.ipAddress));
+
+  const counters = await syncAccountingRules(client, Array.from(new Set(devices.map(device => device.ipAddress))));
+  const now = Date.now();
+  const previous = lastCounters.get(routerId);
+  lastCounters.set(routerId, { at: now, counters });
+  if (!previous) return 0;
+
+  const intervalSeconds = (now - previous.at) / 1000;
+  const samples: InsertDeviceBandwidthSample[] = [];
+
+  for (const device of devices) {
+    const current = counters.get(device.ipAddress);
+    const before = previous.counters.get(device.ipAddress);
+    if (!current || !before) continue;
+
+    // Counters going backwards means the chain was flushed and started again from zero
+    const downloadBytes = current.download >= before.download ? current.download - before.download : current.download;
+    const uploadBytes = current.upload >= before.upload ? current.upload - before.upload : current.upload;
+    samples.push({ macAddress: device.macAddress, downloadBytes, uploadBytes, intervalSeconds });
+
+    await storage.updateConnectedDevice(routerId, device.id, {
+      downloadSpeed: toMbps(downloadBytes, intervalSeconds),
+      uploadSpeed: toMbps(uploadBytes, intervalSeconds),
+    });
+  }
+
+  await storage.addDeviceBandwidthSamples(routerId, samples);
+
+  if (now - (lastPrune.get(routerId) ?? 0) > PRUNE_INTERVAL_MS) {
+    lastPrune.set(routerId, now);
+    await storage.pruneDeviceBandwidthSamples(routerId, new Date(now - RETENTION_MS));
+  }
+
+  return samples.length;
+}
+
+function sinceHours(hours: number): Date {
+  return new Date(Date.now() - hours * 60 * 60 * 1000);
+}
+
+export async function getDeviceUsage(routerId: number, macAddress: string, hours: number): Promise<DeviceUsagePoint[]> {
+  const samples = await storage.getDeviceBandwidthSamples(routerId, sinceHours(hours), macAddress);
+  const bucketMs = Math.max(60 * 1000, Math.ceil((hours * 60 * 60 * 1000) / CHART_POINTS));
+  const buckets = new Map<number, DeviceBandwidthSample[]>();
+
+  for (const sample of samples) {
+    const bucket = Math.floor(new Date(sample.timestamp!).getTime() / bucketMs) * bucketMs;
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket)!.push(sample);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, entries]) => {
+      const downloadBytes = entries.reduce((total, entry) => total + entry.downloadBytes, 0);
+      const uploadBytes = entries.reduce((total, entry) => total + entry.uploadBytes, 0);
+      const seconds = entries.reduce((total, entry) => total + entry.intervalSeconds, 0);
+      return {
+        timestamp: new Date(bucket).toISOString(),
+        downloadBytes,
+        uploadBytes,
+        downloadMbps: toMbps(downloadBytes, seconds),
+        uploadMbps: toMbps(uploadBytes, seconds),
+      };
+    });
+}
+
+export async function getTopTalkers(routerId: number, hours: number, limit: number): Promise<TopTalker[]> {
+  const [samples, devices] = await Promise.all([
+    storage.getDeviceBandwidthSamples(routerId, sinceHours(hours)),
+    storage.getConnectedDevices(routerId),
+  ]);
+
+  const totals = new Map<string, { downloadBytes: number; uploadBytes: number }>();
+  for (const sample of samples) {
+    const total = totals.get(sample.macAddress) ?? { downloadBytes: 0, uploadBytes: 0 };
+    total.downloadBytes += sample.downloadBytes;
+    total.uploadBytes += sample.uploadBytes;
+    totals.set(sample.macAddress, total);
+  }
+
+  return Array.from(totals.entries())
+    .map(([macAddress, total]) => {
+      const device = devices.find(candidate => candidate.macAddress === macAddress);
+      return {
+        macAddress,
+        deviceId: device?.id ?? null,
+        name: device?.name ?? macAddress,
+        ...total,
+        totalBytes: total.downloadBytes + total.uploadBytes,
+      };
+    })
+    .sort((a, b) => b.totalBytes - a.totalBytes)
+    .slice(0, limit);
+}
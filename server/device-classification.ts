@@ -0,0 +1,162 @@
+import { isRandomizedMac, lookupVendor } from "./oui";
+import { storage } from "./storage";
+
+// Device type rules checked in order; the first rule whose pattern matches wins. Hostnames are
+// the most specific signal, then services the device advertises, then its DHCP fingerprint, then
+// the vendor on its own. Each match names its source so the UI can say why a type was chosen.
+export interface DeviceSignals {
+  // Option 55, the parameter request list, e.g. "1,121,3,6,15,119,252"
+  parameterList?: string | null;
+  // Option 60, the vendor class identifier, e.g. "android-dhcp-13" or "MSFT 5.0"
+  vendorClass?: string | null;
+  mdnsServices?: string[];
+  upnpDeviceTypes?: string[];
+}
+
+export type ClassificationSource = "hostname" | "mdns" | "ssdp" | "dhcp" | "oui" | "mac";
+
+export interface Classification {
+  value: string;
+  source: ClassificationSource;
+  // The hostname, service, fingerprint or vendor that matched
+  detail: string;
+}
+
+export interface DeviceIdentity {
+  deviceType: string;
+  vendor: string | null;
+  isRandomizedMac: boolean;
+  classifiedBy: Classification | null;
+  os: Classification | null;
+}
+
+type Signal = "hostname" | "mdnsService" | "upnpDeviceType" | "vendorClass" | "parameterList" | "vendor";
+
+interface ClassificationRule {
+  value: string;
+  signal: Signal;
+  pattern: RegExp;
+}
+
+const SIGNAL_SOURCES: Record<Signal, ClassificationSource> = {
+  hostname: "hostname",
+  mdnsService: "mdns",
+  upnpDeviceType: "ssdp",
+  vendorClass: "dhcp",
+  parameterList: "dhcp",
+  vendor: "oui",
+};
+
+const TYPE_RULES: ClassificationRule[] = [
+  { value: "streaming", signal: "hostname", pattern: /roku|chromecast|appletv|apple-tv|firetv|fire-tv|shield/ },
+  { value: "gaming", signal: "hostname", pattern: /playstation|ps[45]|xbox|nintendo|steamdeck/ },
+  { value: "tablet", signal: "hostname", pattern: /ipad|kindle|galaxy-?tab/ },
+  { value: "mobile", signal: "hostname", pattern: /iphone|android|galaxy|pixel|oneplus|redmi/ },
+  { value: "laptop", signal: "hostname", pattern: /macbook|laptop|thinkpad|xps|surface/ },
+  { value: "desktop", signal: "hostname", pattern: /imac|mac-?mini|mac-?pro|desktop|windows|-pc\b|^pc-/ },
+  { value: "tv", signal: "hostname", pattern: /\btv\b|-tv|tv-|bravia|webos|tizen/ },
+  { value: "speaker", signal: "hostname", pattern: /sonos|homepod|echo|nest-?mini|google-?home/ },
+  { value: "printer", signal: "hostname", pattern: /printer|^hp[0-9a-f]{6}|^epson|^brw|^canon/ },
+  { value: "camera", signal: "hostname", pattern: /camera|\bcam\b|doorbell|wyze|hikvision/ },
+  { value: "nas", signal: "hostname", pattern: /\bnas\b|synology|diskstation|qnap/ },
+  { value: "smart-home", signal: "hostname", pattern: /alexa|nest|hue|ecobee|roomba|esp[-_]|tasmota|shelly|plug|bulb/ },
+
+  { value: "printer", signal: "mdnsService", pattern: /^_(ipp|ipps|printer|pdl-datastream)\._tcp$/ },
+  { value: "speaker", signal: "mdnsService", pattern: /^_(sonos|raop|spotify-connect)\._tcp$/ },
+  { value: "streaming", signal: "mdnsService", pattern: /^_(googlecast|airplay)\._tcp$/ },
+  { value: "smart-home", signal: "mdnsService", pattern: /^_(hap|homekit)\._tcp$/ },
+  { value: "nas", signal: "mdnsService", pattern: /^_(afpovertcp|adisk)\._tcp$/ },
+
+  { value: "printer", signal: "upnpDeviceType", pattern: /:device:Printer:/i },
+  { value: "tv", signal: "upnpDeviceType", pattern: /:device:(MediaRenderer|tvdevice):/i },
+  { value: "nas", signal: "upnpDeviceType", pattern: /:device:MediaServer:/i },
+  { value: "speaker", signal: "upnpDeviceType", pattern: /ZonePlayer/i },
+  { value: "router", signal: "upnpDeviceType", pattern: /:device:InternetGatewayDevice:/i },
+
+  { value: "mobile", signal: "vendorClass", pattern: /^android-dhcp/i },
+  { value: "desktop", signal: "vendorClass", pattern: /^MSFT/ },
+  { value: "mobile", signal: "parameterList", pattern: /^1,121,3,6,15,119,252$/ },
+  { value: "laptop", signal: "parameterList", pattern: /^1,121,3,6,15,119,252,95,44,46$/ },
+  { value: "desktop", signal: "parameterList", pattern: /^1,3,6,15,31,33,43,44,46,47,119,121,249,252$/ },
+
+  { value: "raspberry-pi", signal: "vendor", pattern: /raspberry pi/i },
+  { value: "virtual-machine", signal: "vendor", pattern: /vmware|microsoft.*hyper-v/i },
+  { value: "gaming", signal: "vendor", pattern: /nintendo|sony interactive/i },
+  { value: "streaming", signal: "vendor", pattern: /roku/i },
+  { value: "speaker", signal: "vendor", pattern: /sonos|bose/i },
+  { value: "printer", signal: "vendor", pattern: /canon|epson|brother/i },
+  { value: "nas", signal: "vendor", pattern: /synology|qnap/i },
+  { value: "camera", signal: "vendor", pattern: /hikvision|wyze/i },
+  { value: "smart-home", signal: "vendor", pattern: /espressif|amazon|nest labs|ecobee|philips lighting|signify|irobot|tesla|belkin/i },
+  { value: "tv", signal: "vendor", pattern: /lg electronics/i },
+  { value: "mobile", signal: "vendor", pattern: /samsung|xiaomi|huawei|oneplus/i },
+];
+
+const OS_RULES: ClassificationRule[] = [
+  { value: "Android", signal: "vendorClass", pattern: /^android-dhcp/i },
+  { value: "Windows", signal: "vendorClass", pattern: /^MSFT/ },
+  { value: "Linux", signal: "vendorClass", pattern: /^(dhcpcd|udhcp)/i },
+  { value: "iOS", signal: "parameterList", pattern: /^1,121,3,6,15,119,252$/ },
+  { value: "macOS", signal: "parameterList", pattern: /^1,121,3,6,15,119,252,95,44,46$/ },
+  { value: "Windows", signal: "parameterList", pattern: /^1,3,6,15,31,33,43,44,46,47,119,121,249,252$/ },
+];
+
+function signalValues(signal: Signal, hostname: string, vendor: string | null, signals: DeviceSignals): string[] {
+  switch (signal) {
+    case "hostname":
+      return hostname ? [hostname] : [];
+    case "vendor":
+      return vendor ? [vendor] : [];
+    case "vendorClass":
+      return signals.vendorClass ? [signals.vendorClass] : [];
+    case "parameterList":
+      return signals.parameterList ? [signals.parameterList.replace(/\s/g, "")] : [];
+    case "mdnsService":
+      return signals.mdnsServices ?? [];
+    case "upnpDeviceType":
+      return signals.upnpDeviceTypes ?? [];
+  }
+}
+
+function firstMatch(rules: ClassificationRule[], hostname: string, vendor: string | null, signals: DeviceSignals): Classification | null {
+  for (const rule of rules) {
+    const detail = signalValues(rule.signal, hostname, vendor, signals).find(value => rule.pattern.test(value));
+    if (detail) return { value: rule.value, source: SIGNAL_SOURCES[rule.signal], detail };
+  }
+  return null;
+}
+
+export function classifyDevice(macAddress: string, hostname?: string | null, signals: DeviceSignals = {}): DeviceIdentity {
+  const vendor = lookupVendor(macAddress);
+  const randomized = isRandomizedMac(macAddress);
+  const name = (hostname || "").toLowerCase();
+
+  // Private Wi-Fi addresses are used by phones and tablets by default, rarely by anything else
+  const classifiedBy = firstMatch(TYPE_RULES, name, vendor, signals)
+    ?? (randomized ? { value: "mobile", source: "mac" as const, detail: "randomized MAC address" } : null);
+
+  return {
+    deviceType: classifiedBy?.value ?? "unknown",
+    vendor,
+    isRandomizedMac: randomized,
+    classifiedBy,
+    os: firstMatch(OS_RULES, name, vendor, signals),
+  };
+}
+
+// Re-reads vendors for every stored device after the registry changes; types are only filled in
+// for devices that are still unclassified
+export async function refreshDeviceVendors(): Promise<number> {
+  let updated = 0;
+  for (const router of await storage.getRouters()) {
+    for (const device of await storage.getConnectedDevices(router.id)) {
+      const identity = classifyDevice(device.macAddress, device.hostname || device.name);
+      const deviceType = device.deviceType === "unknown" ? identity.deviceType : device.deviceType;
+      if (identity.vendor !== device.vendor || deviceType !== device.deviceType || identity.isRandomizedMac !== device.isRandomizedMac) {
+        await storage.updateConnectedDevice(router.id, device.id, { vendor: identity.vendor, deviceType, isRandomizedMac: identity.isRandomizedMac });
+        updated++;
+      }
+    }
+  }
+  return updated;
+}
@@ -0,0 +1,145 @@
+import type { ConnectedDevice, DeviceAttribute, InsertConnectedDevice, InsertDeviceAttribute } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { classifyDevice, type Classification, type DeviceSignals } from "./device-classification";
+import { readDhcpFingerprints } from "./dhcp-fingerprints";
+import { discoverFromHost } from "./network-discovery";
+import { liveEvents } from "./live-events";
+
+// Device attributes are raw observations, one row per attribute and source: what the DHCP request
+// said, what a device announced over mDNS or SSDP, what it answered to a NetBIOS query. The type
+// and OS are derived from them on demand, so a better signal later simply wins the next time.
+export interface DeviceIdentification {
+  attributes: DeviceAttribute[];
+  classifiedBy: Classification | null;
+  os: Classification | null;
+}
+
+export interface IdentificationSummary {
+  fingerprints: number;
+  discovered: number;
+  renamed: number;
+  reclassified: number;
+}
+
+// Friendly names from the sources most likely to carry a human-chosen name come first
+const NAME_SOURCES = ["ssdp", "mdns", "netbios", "dhcp"] as const;
+
+// Names that only stand in for a real one: empty, the placeholders sync uses, or a MAC address
+export function isGenericDeviceName(name: string | null | undefined, macAddress: string): boolean {
+  const value = (name || "").trim();
+  if (!value || value === "*" || value === "Unknown Device") return true;
+  if (value === `Device-${macAddress.slice(-5)}`) return true;
+  return /^([0-9a-f]{2}[:-]){5}[0-9a-f]{2}$/i.test(value);
+}
+
+function attributeValues(attributes: DeviceAttribute[], attribute: string, source?: string): string[] {
+  return attributes
+    .filter(entry => entry.attribute === attribute && (!source || entry.source === source))
+    .map(entry => entry.value);
+}
+
+export function signalsFromAttributes(attributes: DeviceAttribute[]): DeviceSignals {
+  return {
+    parameterList: attributeValues(attributes, "dhcpParameterList", "dhcp")[0] ?? null,
+    vendorClass: attributeValues(attributes, "dhcpVendorClass", "dhcp")[0] ?? null,
+    mdnsServices: attributeValues(attributes, "services", "mdns").flatMap(value => value.split(", ")),
+    upnpDeviceTypes: attributeValues(attributes, "upnpDeviceType", "ssdp"),
+  };
+}
+
+export async function getDeviceIdentification(routerId: number, device: ConnectedDevice): Promise<DeviceIdentification> {
+  const attributes = await storage.getDeviceAttributes(routerId, device.macAddress);
+  const identity = classifyDevice(device.macAddress, device.hostname || device.name, signalsFromAttributes(attributes));
+
+  // An OS reported by the device itself (SSDP server header, mDNS TXT) beats one guessed from DHCP
+  const reported = attributes.find(entry => entry.attribute === "os");
+  const os = reported
+    ? { value: reported.value, source: reported.source as Classification["source"], detail: reported.detail || reported.value }
+    : identity.os;
+
+  return { attributes, classifiedBy: identity.classifiedBy, os };
+}
+
+// Reads DHCP fingerprints from the router and, when this server sits on the same LAN, asks the
+// network directly over mDNS, SSDP and NetBIOS; then fills in types and names that are still unset
+export async function identifyDevices(routerId: number, client: SSHClient): Promise<IdentificationSummary> {
+  const summary: IdentificationSummary = { fingerprints: 0, discovered: 0, renamed: 0, reclassified: 0 };
+  const devices = await storage.getConnectedDevices(routerId);
+  const byMac = new Map(devices.map(device => [device.macAddress, device]));
+  const byIp = new Map(devices.filter(device => device.isOnline && device.ipAddress).map(device => [device.ipAddress!, device]));
+
+  // Types derived before this run count as automatic, so a user's own choice is never overwritten
+  const previousTypes = new Map<string, string>();
+  for (const device of devices) {
+    const attributes = await storage.getDeviceAttributes(routerId, device.macAddress);
+    previousTypes.set(device.macAddress, classifyDevice(device.macAddress, device.hostname || device.name, signalsFromAttributes(attributes)).deviceType);
+  }
+
+  const record = async (attribute: InsertDeviceAttribute) => {
+    if (attribute.value) await storage.upsertDeviceAttribute(routerId, attribute);
+  };
+
+  try {
+    const fingerprints = await readDhcpFingerprints(client);
+    for (const fingerprint of Array.from(fingerprints.values())) {
+      if (!byMac.has(fingerprint.macAddress)) continue;
+      summary.fingerprints++;
+      const { macAddress } = fingerprint;
+      if (fingerprint.parameterList) {
+        await record({ macAddress, attribute: "dhcpParameterList", value: fingerprint.parameterList, source: "dhcp", detail: "option 55" });
+      }
+      if (fingerprint.vendorClass) {
+        await record({ macAddress, attribute: "dhcpVendorClass", value: fingerprint.vendorClass, source: "dhcp", detail: "option 60" });
+      }
+      if (fingerprint.clientName) {
+        await record({ macAddress, attribute: "name", value: fingerprint.clientName, source: "dhcp", detail: "option 12" });
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to read DHCP fingerprints for router ${routerId}:`, error);
+  }
+
+  const results = await discoverFromHost(Array.from(byIp.keys()));
+  for (const result of results) {
+    const device = byIp.get(result.ip);
+    if (!device) continue;
+    summary.discovered++;
+    const { macAddress } = device;
+    const { source } = result;
+    await record({ macAddress, attribute: "name", value: result.name ?? "", source, detail: result.ip });
+    await record({ macAddress, attribute: "model", value: result.model ?? "", source, detail: null });
+    await record({ macAddress, attribute: "manufacturer", value: result.manufacturer ?? "", source, detail: null });
+    await record({ macAddress, attribute: "os", value: result.os ?? "", source, detail: null });
+    await record({ macAddress, attribute: "services", value: (result.services ?? []).join(", "), source, detail: null });
+    await record({ macAddress, attribute: "upnpDeviceType", value: result.upnpDeviceType ?? "", source, detail: null });
+  }
+
+  for (const device of devices) {
+    const attributes = await storage.getDeviceAttributes(routerId, device.macAddress);
+    if (attributes.length === 0) continue;
+
+    const updates: Partial<InsertConnectedDevice> = {};
+    const identity = classifyDevice(device.macAddress, device.hostname || device.name, signalsFromAttributes(attributes));
+    const automatic = device.deviceType === "unknown" || device.deviceType === previousTypes.get(device.macAddress);
+    if (automatic && identity.deviceType !== "unknown" && identity.deviceType !== device.deviceType) {
+      updates.deviceType = identity.deviceType;
+      summary.reclassified++;
+    }
+
+    if (isGenericDeviceName(device.name, device.macAddress)) {
+      const name = NAME_SOURCES.map(source => attributeValues(attributes, "name", source)[0]).find(Boolean);
+      if (name) {
+        updates.name = name;
+        summary.renamed++;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      const updated = await storage.updateConnectedDevice(routerId, device.id, updates);
+      if (updated) liveEvents.publishDeviceUpdate(routerId, updated);
+    }
+  }
+
+  return summary;
+}
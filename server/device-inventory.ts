@@ -0,0 +1,356 @@
+import type { DeviceGroup, DeviceTag, DeviceWithOverride } from "@shared/schema";
+import { storage } from "./storage";
+import { liveEvents } from "./live-events";
+import { normalizeMac } from "./dhcp-reservations";
+import { parseCsvLine } from "./oui";
+import { updateDeviceOverride, withOverrides } from "./device-overrides";
+
+// The inventory is what a person maintains about their devices: names, types, groups, tags and
+// notes. Devices are matched by MAC on import; IP and vendor are exported for reference only.
+// Names, types and notes are read from and written to the device overrides, never the synced row.
+export interface InventoryRow {
+  macAddress: string;
+  name: string;
+  deviceType: string;
+  ipAddress: string;
+  vendor: string | null;
+  groups: string[];
+  tags: string[];
+  notes: string | null;
+}
+
+// An imported row; a field that is left out keeps the device's current value
+export type InventoryUpdate = { macAddress: string } & Partial<Pick<InventoryRow, "name" | "deviceType" | "groups" | "tags" | "notes">>;
+
+export type InventoryField = "name" | "deviceType" | "notes";
+
+export interface InventoryChange {
+  deviceId: number;
+  macAddress: string;
+  deviceName: string;
+  fields: { field: InventoryField; from: string | null; to: string | null }[];
+  addGroups: string[];
+  removeGroups: string[];
+  addTags: string[];
+  removeTags: string[];
+}
+
+export interface InventoryPlan {
+  changes: InventoryChange[];
+  unchanged: number;
+  // MACs in the file that no device on this router has
+  unmatched: string[];
+  newGroups: string[];
+  newTags: string[];
+  errors: string[];
+}
+
+const CSV_COLUMNS = ["mac_address", "name", "device_type", "ip_address", "vendor", "groups", "tags", "notes"] as const;
+const MAC_PATTERN = /^([0-9A-F]{2}:){5}[0-9A-F]{2}$/;
+// Enough for a whole household's notes without letting one file fill memory
+const MAX_IMPORT_ROWS = 2000;
+
+function byName<T extends { name: string }>(items: T[]) {
+  return new Map(items.map(item => [item.name.toLowerCase(), item]));
+}
+
+export async function exportInventory(routerId: number): Promise<InventoryRow[]> {
+  const devices = await withOverrides(await storage.getConnectedDevices(routerId));
+  return await Promise.all(devices
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(async device => ({
+      macAddress: normalizeMac(device.macAddress),
+      name: device.name,
+      deviceType: device.deviceType,
+      ipAddress: device.ipAddress,
+      vendor: device.vendor,
+      groups: (await storage.getDeviceGroups(device.id)).map(group => group.name),
+      tags: (await storage.getDeviceTags(device.id)).map(tag => tag.name),
+      notes: device.notes,
+    })));
+}
+
+function csvField(value: string | null | undefined): string {
+  const text = value ?? "";
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Groups and tags share one cell each, separated by semicolons
+export function inventoryToCsv(rows: InventoryRow[]): string {
+  const lines = rows.map(row => [
+    row.macAddress,
+    row.name,
+    row.deviceType,
+    row.ipAddress,
+    row.vendor,
+    row.groups.join("; "),
+    row.tags.join("; "),
+    row.notes,
+  ].map(csvField).join(","));
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+function splitList(value: string): string[] {
+  return value.split(";").map(item => item.trim()).filter(Boolean);
+}
+
+// Columns are found by header, so a sheet trimmed down to "mac_address,name" only renames.
+// Without a header row the export's column order is assumed.
+function parseInventoryCsv(content: string): { rows: InventoryUpdate[]; errors: string[] } {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const rows: InventoryUpdate[] = [];
+  const errors: string[] = [];
+  let columns: Record<string, number> = Object.fromEntries(CSV_COLUMNS.map((column, index) => [column, index]));
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = parseCsvLine(line).map(field => field.trim());
+    const headers = fields.map(field => field.toLowerCase().replace(/[^a-z]/g, ""));
+    if (index === 0 && headers.some(header => header.includes("mac"))) {
+      const find = (...names: string[]) => headers.findIndex(header => names.includes(header));
+      columns = {
+        mac_address: find("macaddress", "mac"),
+        name: find("name", "devicename"),
+        device_type: find("devicetype", "type"),
+        groups: find("groups", "group"),
+        tags: find("tags", "tag"),
+        notes: find("notes", "note"),
+      };
+      if (columns.mac_address < 0) errors.push("The header has no mac_address column");
+      return;
+    }
+
+    const cell = (column: string) => columns[column] >= 0 ? fields[columns[column]] ?? "" : undefined;
+    const name = cell("name");
+    const deviceType = cell("device_type");
+    const groups = cell("groups");
+    const tags = cell("tags");
+    const notes = cell("notes");
+    rows.push({
+      macAddress: cell("mac_address") ?? "",
+      ...(name !== undefined && { name }),
+      ...(deviceType !== undefined && { deviceType }),
+      ...(groups !== undefined && { groups: splitList(groups) }),
+      ...(tags !== undefined && { tags: splitList(tags) }),
+      ...(notes !== undefined && { notes: notes || null }),
+    });
+  });
+  return { rows, errors };
+}
+
+function parseInventoryJson(content: string): { rows: InventoryUpdate[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { rows: [], errors: ["The file is not valid JSON"] };
+  }
+  const list = Array.isArray(data) ? data : (data as { devices?: unknown })?.devices;
+  if (!Array.isArray(list)) {
+    return { rows: [], errors: ["Expected a list of devices"] };
+  }
+
+  const rows: InventoryUpdate[] = [];
+  const errors: string[] = [];
+  list.forEach((item, index) => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const text = (key: string) => typeof entry[key] === "string" ? (entry[key] as string).trim() : undefined;
+    const names = (key: string) => Array.isArray(entry[key])
+      ? (entry[key] as unknown[]).filter((value): value is string => typeof value === "string").map(value => value.trim()).filter(Boolean)
+      : undefined;
+    if (typeof entry.macAddress !== "string") {
+      errors.push(`Entry ${index + 1}: macAddress is missing`);
+      return;
+    }
+    const name = text("name");
+    const deviceType = text("deviceType");
+    const groups = names("groups");
+    const tags = names("tags");
+    rows.push({
+      macAddress: entry.macAddress,
+      ...(name !== undefined && { name }),
+      ...(deviceType !== undefined && { deviceType }),
+      ...(groups !== undefined && { groups }),
+      ...(tags !== undefined && { tags }),
+      ...("notes" in entry && { notes: text("notes") || null }),
+    });
+  });
+  return { rows, errors };
+}
+
+export function parseInventory(content: string): { rows: InventoryUpdate[]; errors: string[] } {
+  const trimmed = content.replace(/^\uFEFF/, "").trim();
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? parseInventoryJson(trimmed) : parseInventoryCsv(content);
+}
+
+function listDiff(current: string[], next: string[]) {
+  const currentKeys = new Set(current.map(name => name.toLowerCase()));
+  const nextKeys = new Set(next.map(name => name.toLowerCase()));
+  return {
+    add: next.filter(name => !currentKeys.has(name.toLowerCase())),
+    remove: current.filter(name => !nextKeys.has(name.toLowerCase())),
+  };
+}
+
+// Works out what an import would change without writing anything, so it can be previewed
+export async function planInventoryImport(routerId: number, content: string): Promise<InventoryPlan> {
+  const { rows, errors } = parseInventory(content);
+  if (rows.length > MAX_IMPORT_ROWS) {
+    errors.push(`An import holds at most ${MAX_IMPORT_ROWS} devices`);
+  }
+
+  const devices = new Map((await withOverrides(await storage.getConnectedDevices(routerId))).map(device => [normalizeMac(device.macAddress), device]));
+  const groups = byName(await storage.getDeviceGroups());
+  const tags = byName(await storage.getDeviceTags());
+  const newGroups = new Map<string, string>();
+  const newTags = new Map<string, string>();
+  const seen = new Set<string>();
+  const plan: InventoryPlan = { changes: [], unchanged: 0, unmatched: [], newGroups: [], newTags: [], errors };
+
+  for (const row of rows.slice(0, MAX_IMPORT_ROWS)) {
+    const macAddress = normalizeMac(row.macAddress);
+    if (!MAC_PATTERN.test(macAddress)) {
+      errors.push(`"${row.macAddress}" is not a valid MAC address`);
+      continue;
+    }
+    if (seen.has(macAddress)) {
+      errors.push(`${macAddress} appears more than once`);
+      continue;
+    }
+    seen.add(macAddress);
+    if (row.name !== undefined && !row.name) {
+      errors.push(`${macAddress} has an empty name`);
+      continue;
+    }
+    if (row.deviceType !== undefined && !row.deviceType) {
+      errors.push(`${macAddress} has an empty device type`);
+      continue;
+    }
+
+    const device = devices.get(macAddress);
+    if (!device) {
+      plan.unmatched.push(macAddress);
+      continue;
+    }
+
+    const change = await describeChange(device, row);
+    change.addGroups.filter(name => !groups.has(name.toLowerCase())).forEach(name => newGroups.set(name.toLowerCase(), name));
+    change.addTags.filter(name => !tags.has(name.toLowerCase())).forEach(name => newTags.set(name.toLowerCase(), name));
+    if (isEmptyChange(change)) plan.unchanged++;
+    else plan.changes.push(change);
+  }
+
+  plan.newGroups = Array.from(newGroups.values());
+  plan.newTags = Array.from(newTags.values());
+  return plan;
+}
+
+async function describeChange(device: DeviceWithOverride, row: InventoryUpdate): Promise<InventoryChange> {
+  const fields: InventoryChange["fields"] = [];
+  const compare = (field: InventoryField, next: string | null | undefined) => {
+    if (next !== undefined && (next ?? null) !== (device[field] ?? null)) {
+      fields.push({ field, from: device[field] ?? null, to: next ?? null });
+    }
+  };
+  compare("name", row.name);
+  compare("deviceType", row.deviceType);
+  compare("notes", row.notes);
+
+  const groupDiff = row.groups ? listDiff((await storage.getDeviceGroups(device.id)).map(group => group.name), row.groups) : { add: [], remove: [] };
+  const tagDiff = row.tags ? listDiff((await storage.getDeviceTags(device.id)).map(tag => tag.name), row.tags) : { add: [], remove: [] };
+  return {
+    deviceId: device.id,
+    macAddress: normalizeMac(device.macAddress),
+    deviceName: device.name,
+    fields,
+    addGroups: groupDiff.add,
+    removeGroups: groupDiff.remove,
+    addTags: tagDiff.add,
+    removeTags: tagDiff.remove,
+  };
+}
+
+function isEmptyChange(change: InventoryChange) {
+  return change.fields.length === 0 && change.addGroups.length + change.removeGroups.length + change.addTags.length + change.removeTags.length === 0;
+}
+
+// Groups and tags named in the changes that do not exist yet are created first
+export async function applyInventoryChanges(routerId: number, changes: InventoryChange[], updatedBy: string): Promise<number> {
+  const groups = byName<DeviceGroup>(await storage.getDeviceGroups());
+  const tags = byName<DeviceTag>(await storage.getDeviceTags());
+  const groupFor = async (name: string) => {
+    const existing = groups.get(name.toLowerCase());
+    if (existing) return existing;
+    const created = await storage.createDeviceGroup({ name });
+    groups.set(name.toLowerCase(), created);
+    return created;
+  };
+  const tagFor = async (name: string) => {
+    const existing = tags.get(name.toLowerCase());
+    if (existing) return existing;
+    const created = await storage.createDeviceTag({ name });
+    tags.set(name.toLowerCase(), created);
+    return created;
+  };
+
+  let updated = 0;
+  for (const change of changes) {
+    const device = await storage.getConnectedDevice(routerId, change.deviceId);
+    if (!device) continue;
+
+    if (change.fields.length > 0) {
+      await updateDeviceOverride(routerId, device.macAddress, Object.fromEntries(change.fields.map(({ field, to }) => [field, to])), updatedBy);
+    }
+    for (const name of change.addGroups) await storage.addDeviceToGroup(device.id, (await groupFor(name)).id);
+    for (const name of change.removeGroups) {
+      const group = groups.get(name.toLowerCase());
+      if (group) await storage.removeDeviceFromGroup(device.id, group.id);
+    }
+    for (const name of change.addTags) await storage.assignTagToDevice(device.id, (await tagFor(name)).id);
+    for (const name of change.removeTags) {
+      const tag = tags.get(name.toLowerCase());
+      if (tag) await storage.removeTagFromDevice(device.id, tag.id);
+    }
+    updated++;
+  }
+
+  if (updated > 0) await liveEvents.publishDeviceChanges(routerId);
+  return updated;
+}
+
+export interface BulkEdit {
+  deviceType?: string;
+  notes?: string | null;
+  addGroupIds?: number[];
+  removeGroupIds?: number[];
+  addTagIds?: number[];
+  removeTagIds?: number[];
+}
+
+// The same edit for every selected device; memberships are added or removed, never replaced
+export async function bulkEditDevices(routerId: number, deviceIds: number[], edit: BulkEdit, updatedBy: string): Promise<number> {
+  const groupNames = new Map((await storage.getDeviceGroups()).map(group => [group.id, group.name]));
+  const tagNames = new Map((await storage.getDeviceTags()).map(tag => [tag.id, tag.name]));
+  const names = (ids: number[] | undefined, known: Map<number, string>) =>
+    (ids ?? []).map(id => known.get(id)).filter((name): name is string => !!name);
+
+  const changes: InventoryChange[] = [];
+  for (const id of deviceIds) {
+    const found = await storage.getConnectedDevice(routerId, id);
+    if (!found) continue;
+    const [device] = await withOverrides([found]);
+    const change = await describeChange(device, {
+      macAddress: device.macAddress,
+      ...(edit.deviceType !== undefined && { deviceType: edit.deviceType }),
+      ...(edit.notes !== undefined && { notes: edit.notes || null }),
+    });
+    const currentGroups = new Set((await storage.getDeviceGroups(device.id)).map(group => group.id));
+    const currentTags = new Set((await storage.getDeviceTags(device.id)).map(tag => tag.id));
+    change.addGroups = names(edit.addGroupIds?.filter(groupId => !currentGroups.has(groupId)), groupNames);
+    change.removeGroups = names(edit.removeGroupIds?.filter(groupId => currentGroups.has(groupId)), groupNames);
+    change.addTags = names(edit.addTagIds?.filter(tagId => !currentTags.has(tagId)), tagNames);
+    change.removeTags = names(edit.removeTagIds?.filter(tagId => currentTags.has(tagId)), tagNames);
+    if (!isEmptyChange(change)) changes.push(change);
+  }
+  return await applyInventoryChanges(routerId, changes, updatedBy);
+}
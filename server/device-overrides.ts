@@ -0,0 +1,73 @@
+import type { ConnectedDevice, DeviceOverride, DeviceWithOverride, InsertDeviceOverride } from "@shared/schema";
+import { storage } from "./storage";
+import { normalizeMac } from "./dhcp-reservations";
+import { nicknameStatus } from "./custom-clientlist";
+
+// Sync owns the connected_devices row and rewrites its name and type on every pass. What a person
+// sets is kept here instead, keyed by MAC, and laid over the row whenever devices are read.
+export type OverrideFields = Pick<InsertDeviceOverride, "name" | "deviceType" | "icon" | "notes" | "owner">;
+
+const OVERRIDE_FIELDS = ["name", "deviceType", "icon", "notes", "owner"] as const;
+
+export function applyOverride(device: ConnectedDevice, override: DeviceOverride | null | undefined): DeviceWithOverride {
+  return {
+    ...device,
+    name: override?.name || device.name,
+    deviceType: override?.deviceType || device.deviceType,
+    reportedName: device.name,
+    reportedDeviceType: device.deviceType,
+    icon: override?.icon ?? null,
+    notes: override?.notes ?? null,
+    owner: override?.owner ?? null,
+    override: override ?? null,
+    nicknameStatus: nicknameStatus(override),
+  };
+}
+
+export async function withOverride(device: ConnectedDevice): Promise<DeviceWithOverride> {
+  return applyOverride(device, await storage.getDeviceOverride(device.routerId, normalizeMac(device.macAddress)));
+}
+
+// Devices may come from several routers, as a group's members do
+export async function withOverrides(devices: ConnectedDevice[]): Promise<DeviceWithOverride[]> {
+  const overrides = new Map<number, Map<string, DeviceOverride>>();
+  for (const routerId of Array.from(new Set(devices.map(device => device.routerId)))) {
+    const saved = await storage.getDeviceOverrides(routerId);
+    overrides.set(routerId, new Map(saved.map(override => [override.macAddress, override])));
+  }
+  return devices.map(device => applyOverride(device, overrides.get(device.routerId)?.get(normalizeMac(device.macAddress))));
+}
+
+// Fields left undefined keep their saved value; null or an empty string clears one. An override
+// with nothing left in it is deleted, so the device shows what the router reports again, unless
+// the router's client list still has a name for it that has to be removed on the next sync.
+// Changing the name or icon here settles a conflict with the router in favour of this side.
+export async function updateDeviceOverride(
+  routerId: number,
+  macAddress: string,
+  fields: Partial<OverrideFields>,
+  updatedBy: string,
+): Promise<DeviceOverride | null> {
+  const mac = normalizeMac(macAddress);
+  const existing = await storage.getDeviceOverride(routerId, mac);
+  const merged = Object.fromEntries(OVERRIDE_FIELDS.map(field => {
+    const value = fields[field] === undefined ? existing?.[field] : fields[field];
+    return [field, value?.trim() || null];
+  })) as OverrideFields;
+
+  if (OVERRIDE_FIELDS.every(field => !merged[field]) && !existing?.routerName) {
+    await storage.deleteDeviceOverride(routerId, mac);
+    return null;
+  }
+
+  const renamed = merged.name !== (existing?.name ?? null) || merged.icon !== (existing?.icon ?? null);
+  return await storage.saveDeviceOverride(routerId, {
+    ...merged,
+    macAddress: mac,
+    nameSource: renamed ? "app" : existing?.nameSource ?? null,
+    routerName: existing?.routerName ?? null,
+    routerIcon: existing?.routerIcon ?? null,
+    hasConflict: renamed ? false : existing?.hasConflict ?? false,
+    updatedBy,
+  });
+}
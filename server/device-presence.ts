@@ -0,0 +1,102 @@
+import type { ConnectedDevice, DeviceSession } from "@shared/schema";
+import { storage } from "./storage";
+
+// Presence history is kept as sessions: one is opened when a device is first seen online and
+// closed when a sync reports it offline or it disappears from the device list. The band and
+// AiMesh node follow the device while it stays connected, so a session shows where it last was.
+export interface PresenceChange {
+  type: "joined" | "left";
+  at: string;
+  macAddress: string;
+  deviceId: number | null;
+  name: string;
+  wirelessBand: string | null;
+  aimeshNode: string | null;
+}
+
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const lastPrune = new Map<number, number>();
+
+function locationOf(device: ConnectedDevice) {
+  return {
+    connectionType: device.connectionType ?? null,
+    wirelessBand: device.wirelessBand ?? null,
+    aimeshNode: device.aimeshNode ?? null,
+  };
+}
+
+// Opens and closes sessions to match the devices as stored after a sync or discovery run
+export async function recordDevicePresence(routerId: number) {
+  try {
+    const [devices, openSessions] = await Promise.all([
+      storage.getConnectedDevices(routerId),
+      storage.getDeviceSessions(routerId, { openOnly: true }),
+    ]);
+    const now = new Date();
+    const sessionsByMac = new Map(openSessions.map(session => [session.macAddress, session]));
+
+    for (const device of devices) {
+      const session = sessionsByMac.get(device.macAddress);
+      sessionsByMac.delete(device.macAddress);
+
+      if (device.isOnline && !session) {
+        await storage.createDeviceSession(routerId, { macAddress: device.macAddress, startedAt: now, ...locationOf(device) });
+      } else if (!device.isOnline && session) {
+        await storage.updateDeviceSession(session.id, { endedAt: now });
+      } else if (session) {
+        const location = locationOf(device);
+        if (session.connectionType !== location.connectionType || session.wirelessBand !== location.wirelessBand || session.aimeshNode !== location.aimeshNode) {
+          await storage.updateDeviceSession(session.id, location);
+        }
+      }
+    }
+
+    // Devices removed from the list are no longer on the network either
+    for (const session of Array.from(sessionsByMac.values())) {
+      await storage.updateDeviceSession(session.id, { endedAt: now });
+    }
+
+    if (now.getTime() - (lastPrune.get(routerId) ?? 0) > PRUNE_INTERVAL_MS) {
+      lastPrune.set(routerId, now.getTime());
+      await storage.pruneDeviceSessions(routerId, new Date(now.getTime() - RETENTION_MS));
+    }
+  } catch (error) {
+    console.error("Failed to record device presence:", error);
+  }
+}
+
+export async function getDeviceSessionHistory(routerId: number, macAddress: string, days: number): Promise<DeviceSession[]> {
+  return await storage.getDeviceSessions(routerId, {
+    macAddress,
+    since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+  });
+}
+
+// Joins and leaves across all devices, newest first
+export async function getRecentPresenceChanges(routerId: number, hours: number, limit: number): Promise<PresenceChange[]> {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+  const [sessions, devices] = await Promise.all([
+    storage.getDeviceSessions(routerId, { since }),
+    storage.getConnectedDevices(routerId),
+  ]);
+
+  const changes: PresenceChange[] = [];
+  for (const session of sessions) {
+    const device = devices.find(candidate => candidate.macAddress === session.macAddress);
+    const change = {
+      macAddress: session.macAddress,
+      deviceId: device?.id ?? null,
+      name: device?.name ?? session.macAddress,
+      wirelessBand: session.wirelessBand,
+      aimeshNode: session.aimeshNode,
+    };
+    if (session.startedAt >= since) changes.push({ ...change, type: "joined", at: session.startedAt.toISOString() });
+    if (session.endedAt) changes.push({ ...change, type: "left", at: session.endedAt.toISOString() });
+  }
+
+  return changes
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, limit);
+}
@@ -0,0 +1,100 @@
+import type { SSHClient } from "./ssh-client";
+import { withTimeout } from "./nvram-changes";
+
+// DHCP fingerprints come from dnsmasq's own logging: with log-dhcp set it writes the requested
+// options (55) and vendor class (60) of every request to syslog, tagged with a transaction id.
+// The option is added through the Merlin dnsmasq.conf.add hook, which needs JFFS custom configs.
+export interface DhcpFingerprintEntry {
+  macAddress: string;
+  parameterList: string | null;
+  vendorClass: string | null;
+  clientName: string | null;
+}
+
+export interface DhcpLoggingStatus {
+  enabled: boolean;
+  active: boolean;
+  jffsConfigsEnabled: boolean;
+}
+
+const CONFIG_ADD = "/jffs/configs/dnsmasq.conf.add";
+const SYSLOG_FILES = "/tmp/syslog.log-1 /tmp/syslog.log /jffs/syslog.log-1 /jffs/syslog.log";
+const MAX_LOG_LINES = 20000;
+const COMMAND_TIMEOUT_MS = 20000;
+
+async function run(client: SSHClient, command: string): Promise<string> {
+  return await withTimeout(client.executeCommand(command), COMMAND_TIMEOUT_MS, "Timed out talking to dnsmasq");
+}
+
+export async function getDhcpLoggingStatus(client: SSHClient): Promise<DhcpLoggingStatus> {
+  const output = await run(client, [
+    `grep -qx 'log-dhcp' ${CONFIG_ADD} 2>/dev/null && echo enabled=1 || echo enabled=0`,
+    `grep -qx 'log-dhcp' /etc/dnsmasq.conf 2>/dev/null && echo active=1 || echo active=0`,
+    `echo jffs=$(nvram get jffs2_scripts)`,
+  ].join("; "));
+
+  return {
+    enabled: output.includes("enabled=1"),
+    active: output.includes("active=1"),
+    jffsConfigsEnabled: output.includes("jffs=1"),
+  };
+}
+
+export async function setDhcpLogging(client: SSHClient, enabled: boolean): Promise<DhcpLoggingStatus> {
+  const change = enabled
+    ? `mkdir -p /jffs/configs && (grep -qx 'log-dhcp' ${CONFIG_ADD} 2>/dev/null || echo 'log-dhcp' >> ${CONFIG_ADD})`
+    : `[ -f ${CONFIG_ADD} ] && sed -i '/^log-dhcp$/d' ${CONFIG_ADD}`;
+  await run(client, `${change}; service restart_dnsmasq >/dev/null 2>&1`);
+  return await getDhcpLoggingStatus(client);
+}
+
+// Lines look like "dnsmasq-dhcp[812]: 3172645236 requested options: 1:netmask, 3:router, ..."
+export function parseDhcpLog(output: string): Map<string, DhcpFingerprintEntry> {
+  const transactions = new Map<string, { mac?: string; options: number[]; vendorClass?: string; clientName?: string }>();
+
+  for (const line of output.split("\n")) {
+    const match = line.match(/dnsmasq-dhcp\[\d+\]: (\d+) (.*)$/);
+    if (!match) continue;
+
+    const [, id, message] = match;
+    const transaction = transactions.get(id) ?? { options: [] };
+    transactions.set(id, transaction);
+
+    const requested = message.match(/^requested options: (.*)$/);
+    const vendorClass = message.match(/^vendor class: (.*)$/);
+    const clientName = message.match(/^client provides name: (.*)$/);
+    const packet = message.match(/^DHCP[A-Z]+\([^)]*\)(?: [\d.]+)? ((?:[0-9a-f]{2}:){5}[0-9a-f]{2})/i);
+
+    if (requested) {
+      requested[1].split(",").forEach(option => {
+        const code = parseInt(option.trim());
+        if (!isNaN(code)) transaction.options.push(code);
+      });
+    } else if (vendorClass) {
+      transaction.vendorClass = vendorClass[1].trim();
+    } else if (clientName) {
+      transaction.clientName = clientName[1].trim();
+    } else if (packet) {
+      transaction.mac = packet[1].toUpperCase();
+    }
+  }
+
+  // Later transactions win, so a device's newest request describes it
+  const fingerprints = new Map<string, DhcpFingerprintEntry>();
+  transactions.forEach(transaction => {
+    if (!transaction.mac || (transaction.options.length === 0 && !transaction.vendorClass)) return;
+    const previous = fingerprints.get(transaction.mac);
+    fingerprints.set(transaction.mac, {
+      macAddress: transaction.mac,
+      parameterList: transaction.options.length > 0 ? transaction.options.join(",") : previous?.parameterList ?? null,
+      vendorClass: transaction.vendorClass ?? previous?.vendorClass ?? null,
+      clientName: transaction.clientName ?? previous?.clientName ?? null,
+    });
+  });
+  return fingerprints;
+}
+
+export async function readDhcpFingerprints(client: SSHClient): Promise<Map<string, DhcpFingerprintEntry>> {
+  const output = await run(client, `cat ${SYSLOG_FILES} 2>/dev/null | grep 'dnsmasq-dhcp' | tail -n ${MAX_LOG_LINES}`);
+  return parseDhcpLog(output);
+}
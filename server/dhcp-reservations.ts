@@ -0,0 +1,296 @@
+import type { DhcpReservation, InsertDhcpReservation } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { applyNvramChanges, readNvramValues, withTimeout, type NvramValues } from "./nvram-changes";
+import { parseCsvLine } from "./oui";
+
+// dnsmasq hands out the addresses in dhcp_staticlist, a run of "<MAC>IP" entries. 384 firmware
+// appends ">DNS>HOSTNAME"; 386 and later keep the DNS field but moved names to dhcp_hostnames as
+// "<MAC>NAME". Manual assignment only takes effect while dhcp_static_x is 1.
+export interface StaticListLayout {
+  fields: number;
+  hostnameField: boolean;
+}
+
+export interface DhcpConfig {
+  lanIp: string;
+  netmask: string;
+  rangeStart: string;
+  rangeEnd: string;
+  manualAssignment: boolean;
+  layout: StaticListLayout;
+  reservations: InsertDhcpReservation[];
+  values: NvramValues;
+}
+
+export interface DhcpLease {
+  macAddress: string;
+  ipAddress: string;
+  hostname: string | null;
+}
+
+export interface ReservationPlan {
+  config: DhcpConfig;
+  reservations: InsertDhcpReservation[];
+  errors: string[];
+}
+
+const STATICLIST_KEY = "dhcp_staticlist";
+const HOSTNAMES_KEY = "dhcp_hostnames";
+const ENABLE_KEY = "dhcp_static_x";
+const DHCP_KEYS = ["lan_ipaddr", "lan_netmask", "dhcp_start", "dhcp_end", ENABLE_KEY, STATICLIST_KEY, HOSTNAMES_KEY];
+const LEASE_FILE = "/var/lib/misc/dnsmasq.leases";
+const CSV_HEADER = "mac_address,ip_address,hostname,dns_server";
+// The router's own page stops at 128 entries and the list has to fit one NVRAM value
+const MAX_RESERVATIONS = 128;
+
+export function normalizeMac(mac: string): string {
+  return mac.trim().toUpperCase().replace(/-/g, ":");
+}
+
+function splitEntries(value: string | undefined): string[][] {
+  return (value ?? "").trim().split("<").filter(Boolean).map(entry => entry.split(">"));
+}
+
+export function parseStaticList(staticlist: string, hostnames: string): InsertDhcpReservation[] {
+  const names = new Map(splitEntries(hostnames).map(([mac = "", name = ""]) => [normalizeMac(mac), name]));
+  return splitEntries(staticlist)
+    .filter(([mac, ip]) => mac && ip)
+    .map(([mac, ipAddress, dnsServer = "", hostname = ""]) => {
+      const macAddress = normalizeMac(mac);
+      return {
+        macAddress,
+        ipAddress: ipAddress.trim(),
+        hostname: names.get(macAddress) || hostname || null,
+        dnsServer: dnsServer || null,
+      };
+    });
+}
+
+// Writes keep whichever layout the router already uses. Names stay inline only where the router
+// already has one there; otherwise, and for an empty list, the 386 layout is used.
+export function detectLayout(values: NvramValues): StaticListLayout {
+  const entries = splitEntries(values[STATICLIST_KEY]);
+  if (entries.length === 0) return { fields: 4, hostnameField: false };
+  return {
+    fields: Math.max(...entries.map(fields => fields.length)),
+    hostnameField: !values[HOSTNAMES_KEY]?.trim() && entries.some(fields => !!fields[3]),
+  };
+}
+
+// The separators cannot appear inside a value
+function clean(value: string | null | undefined): string {
+  return (value ?? "").replace(/[<>]/g, "").trim();
+}
+
+export function serializeReservations(reservations: InsertDhcpReservation[], layout: StaticListLayout): NvramValues {
+  const staticlist = reservations
+    .map(reservation => {
+      const fields = [
+        reservation.macAddress,
+        reservation.ipAddress,
+        clean(reservation.dnsServer),
+        layout.hostnameField ? clean(reservation.hostname) : "",
+      ];
+      return `<${fields.slice(0, Math.max(layout.fields, layout.hostnameField ? 4 : 2)).join(">")}`;
+    })
+    .join("");
+
+  const values: NvramValues = { [STATICLIST_KEY]: staticlist };
+  if (!layout.hostnameField) {
+    values[HOSTNAMES_KEY] = reservations
+      .filter(reservation => clean(reservation.hostname))
+      .map(reservation => `<${reservation.macAddress}>${clean(reservation.hostname)}`)
+      .join("");
+  }
+  return values;
+}
+
+export async function readDhcpConfig(client: SSHClient): Promise<DhcpConfig> {
+  const values = await readNvramValues(client, DHCP_KEYS);
+  return {
+    lanIp: values.lan_ipaddr.trim(),
+    netmask: values.lan_netmask.trim(),
+    rangeStart: values.dhcp_start.trim(),
+    rangeEnd: values.dhcp_end.trim(),
+    manualAssignment: values[ENABLE_KEY].trim() === "1",
+    layout: detectLayout(values),
+    reservations: parseStaticList(values[STATICLIST_KEY], values[HOSTNAMES_KEY]),
+    values,
+  };
+}
+
+// dnsmasq.leases lines are "expiry mac ip hostname client-id"; "*" stands for no hostname
+export function parseLeases(output: string): DhcpLease[] {
+  return output
+    .split("\n")
+    .map(line => line.trim().split(/\s+/))
+    .filter(fields => fields.length >= 3 && /^([0-9A-Fa-f]{2}:){5}[0-9A-Fa-f]{2}$/.test(fields[1]))
+    .map(([, mac, ipAddress, hostname]) => ({
+      macAddress: normalizeMac(mac),
+      ipAddress,
+      hostname: hostname && hostname !== "*" ? hostname : null,
+    }));
+}
+
+export async function readLeases(client: SSHClient): Promise<DhcpLease[]> {
+  const output = await withTimeout(client.executeCommand(`cat ${LEASE_FILE} 2>/dev/null`), 15000, "Timed out reading DHCP leases");
+  return parseLeases(output);
+}
+
+function ipToNumber(ip: string): number | null {
+  const parts = ip.trim().split(".");
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// Only reservations that are new or changed are checked, so one already conflicting on the router
+// does not block edits to the others
+export function validateReservations(
+  reservations: InsertDhcpReservation[],
+  config: DhcpConfig,
+  leases: DhcpLease[],
+): string[] {
+  const errors: string[] = [];
+  const lan = ipToNumber(config.lanIp);
+  const mask = ipToNumber(config.netmask);
+  const unchanged = new Set(config.reservations.map(reservation => `${reservation.macAddress}>${reservation.ipAddress}`));
+  const seenIps = new Map<string, string>();
+  const seenMacs = new Set<string>();
+  if (reservations.length > MAX_RESERVATIONS) {
+    errors.push(`The router holds at most ${MAX_RESERVATIONS} reservations`);
+  }
+
+  for (const reservation of reservations) {
+    const { macAddress, ipAddress } = reservation;
+    if (seenMacs.has(macAddress)) {
+      errors.push(`${macAddress} already has a reservation`);
+    }
+    seenMacs.add(macAddress);
+    const owner = seenIps.get(ipAddress);
+    if (owner) {
+      errors.push(`${ipAddress} is reserved for both ${owner} and ${macAddress}`);
+    }
+    seenIps.set(ipAddress, macAddress);
+    if (unchanged.has(`${macAddress}>${ipAddress}`)) continue;
+
+    const ip = ipToNumber(ipAddress);
+    if (ip === null) {
+      errors.push(`${ipAddress} is not a valid IPv4 address`);
+      continue;
+    }
+    if (lan !== null && mask !== null) {
+      const hostBits = 2 ** 32 - 1 - mask;
+      const offset = ip - (lan - (lan % (hostBits + 1)));
+      if (offset < 0 || offset > hostBits) {
+        errors.push(`${ipAddress} is outside the LAN subnet ${config.lanIp}/${config.netmask}`);
+        continue;
+      }
+      if (offset === 0 || offset === hostBits) {
+        errors.push(`${ipAddress} is the network or broadcast address of the LAN`);
+        continue;
+      }
+    }
+    if (ipAddress === config.lanIp) {
+      errors.push(`${ipAddress} is the router's own address`);
+      continue;
+    }
+    const lease = leases.find(candidate => candidate.ipAddress === ipAddress && candidate.macAddress !== macAddress);
+    if (lease) {
+      errors.push(`${ipAddress} is currently leased to ${lease.hostname ? `${lease.hostname} (${lease.macAddress})` : lease.macAddress}`);
+    }
+  }
+  return errors;
+}
+
+// Reads what the router holds now, applies the edit and checks the result before anything is written
+export async function planDhcpReservations(
+  client: SSHClient,
+  update: (reservations: InsertDhcpReservation[]) => InsertDhcpReservation[],
+): Promise<ReservationPlan> {
+  const config = await readDhcpConfig(client);
+  const leases = await readLeases(client);
+  const reservations = update(config.reservations).map(reservation => ({
+    macAddress: normalizeMac(reservation.macAddress),
+    ipAddress: reservation.ipAddress.trim(),
+    hostname: clean(reservation.hostname) || null,
+    dnsServer: clean(reservation.dnsServer) || null,
+  }));
+  return { config, reservations, errors: validateReservations(reservations, config, leases) };
+}
+
+// Writes a validated plan through a change set and restarts dnsmasq so the leases follow it
+export async function applyDhcpReservations(
+  routerId: number,
+  client: SSHClient,
+  plan: ReservationPlan,
+  description: string,
+  createdBy: string,
+): Promise<DhcpReservation[]> {
+  const next: NvramValues = serializeReservations(plan.reservations, plan.config.layout);
+  if (plan.reservations.length > 0) next[ENABLE_KEY] = "1";
+  const changes = Object.fromEntries(Object.entries(next).filter(([key, value]) => (plan.config.values[key] ?? "").trim() !== value));
+
+  if (Object.keys(changes).length > 0) {
+    const changeSet = await applyNvramChanges(routerId, {
+      description,
+      changes,
+      services: ["restart_dnsmasq"],
+      createdBy,
+    });
+    if (changeSet.status !== "applied") {
+      throw new Error(changeSet.errorMessage || "The router did not accept the DHCP reservation change");
+    }
+  }
+  return await storage.replaceDhcpReservations(routerId, plan.reservations);
+}
+
+export async function syncDhcpReservations(routerId: number, client: SSHClient): Promise<DhcpConfig> {
+  const config = await readDhcpConfig(client);
+  await storage.replaceDhcpReservations(routerId, config.reservations);
+  return config;
+}
+
+function csvField(value: string | null | undefined): string {
+  const text = value ?? "";
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function reservationsToCsv(reservations: Pick<DhcpReservation, "macAddress" | "ipAddress" | "hostname" | "dnsServer">[]): string {
+  const rows = reservations.map(reservation =>
+    [reservation.macAddress, reservation.ipAddress, reservation.hostname, reservation.dnsServer].map(csvField).join(","));
+  return [CSV_HEADER, ...rows].join("\n") + "\n";
+}
+
+// Columns are matched by header name when there is one, so spreadsheets with reordered or extra
+// columns still import; without a header the export's column order is assumed
+export function parseReservationsCsv(content: string): { rows: Partial<InsertDhcpReservation>[]; lineNumbers: number[] } {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const rows: Partial<InsertDhcpReservation>[] = [];
+  const lineNumbers: number[] = [];
+  let columns = { macAddress: 0, ipAddress: 1, hostname: 2, dnsServer: 3 };
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = parseCsvLine(line).map(field => field.trim());
+    const headers = fields.map(field => field.toLowerCase().replace(/[^a-z]/g, ""));
+    if (index === 0 && headers.some(header => header.includes("mac"))) {
+      const find = (...names: string[]) => headers.findIndex(header => names.includes(header));
+      columns = {
+        macAddress: find("macaddress", "mac"),
+        ipAddress: find("ipaddress", "ip"),
+        hostname: find("hostname", "name"),
+        dnsServer: find("dnsserver", "dns"),
+      };
+      return;
+    }
+    rows.push({
+      macAddress: fields[columns.macAddress] ?? "",
+      ipAddress: fields[columns.ipAddress] ?? "",
+      hostname: fields[columns.hostname] || null,
+      dnsServer: fields[columns.dnsServer] || null,
+    });
+    lineNumbers.push(index + 1);
+  });
+  return { rows, lineNumbers };
+}
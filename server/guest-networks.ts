@@ -0,0 +1,210 @@
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { readNvramValues, withTimeout, type NvramValues } from "./nvram-changes";
+import { planWifiChanges, readRadios, refreshWifiNetworks, securityModeLabel, type WifiBand } from "./wifi-radios";
+
+// Each radio has up to three guest networks, wlN.1 to wlN.3, whether or not they are switched on.
+// A timed one keeps its length in wlN.M_expire and the seconds it has left in wlN.M_expire_tmp,
+// which the router counts down before switching the network off. The bandwidth cap is the
+// router's guest limiter (wlN.M_bw_enabled, _bw_dl and _bw_ul in kbit/s), applied by QoS.
+export interface GuestNetwork {
+  interface: string;
+  unit: number;
+  band: WifiBand;
+  label: string;
+  enabled: boolean;
+  ssid: string;
+  securityMode: string;
+  // Seconds the network stays up once switched on, 0 for no limit
+  accessDuration: number;
+  // Seconds until the router switches it off, null without a limit
+  remainingSeconds: number | null;
+  lanAccess: boolean;
+  // kbit/s, null without a cap
+  downloadLimit: number | null;
+  uploadLimit: number | null;
+  clients: number;
+}
+
+export interface GuestNetworkEdit {
+  enabled?: boolean;
+  ssid?: string;
+  securityMode?: string;
+  password?: string;
+  accessDuration?: number;
+  lanAccess?: boolean;
+  downloadLimit?: number | null;
+  uploadLimit?: number | null;
+}
+
+export const GUEST_INTERFACE_PATTERN = /^wl[0-3]\.[1-3]$/;
+const GUEST_SLOTS = [1, 2, 3];
+const GUEST_FIELDS = ["bss_enabled", "ssid", "auth_mode_x", "expire", "expire_tmp", "lanaccess", "bw_enabled", "bw_dl", "bw_ul", "ifname"];
+const COMMAND_TIMEOUT_MS = 15000;
+
+function limit(enabled: string, value: string): number | null {
+  const kbps = parseInt(value);
+  return enabled === "1" && kbps > 0 ? kbps : null;
+}
+
+// One round trip for every guest network that is up; each line is "wl0.1 3"
+async function countGuestClients(client: SSHClient, ifnames: string[]): Promise<Record<string, number>> {
+  if (ifnames.length === 0) return {};
+  const output = await withTimeout(
+    client.executeCommand(`for i in ${ifnames.join(" ")}; do echo "$i $(wl -i $i assoclist 2>/dev/null | grep -c assoclist)"; done`),
+    COMMAND_TIMEOUT_MS,
+    "Timed out counting guest clients",
+  );
+  return Object.fromEntries(output.split("\n")
+    .map(line => line.trim().split(/\s+/))
+    .filter(([ifname, count]) => ifname && count !== undefined)
+    .map(([ifname, count]) => [ifname, parseInt(count) || 0]));
+}
+
+export async function readGuestNetworks(client: SSHClient): Promise<GuestNetwork[]> {
+  const radios = await readRadios(client);
+  const prefixes = radios.flatMap(radio => GUEST_SLOTS.map(slot => `wl${radio.unit}.${slot}`));
+  const values = await readNvramValues(client, prefixes.flatMap(prefix => GUEST_FIELDS.map(field => `${prefix}_${field}`)));
+  const get = (prefix: string, field: string) => values[`${prefix}_${field}`] ?? "";
+
+  const enabled = prefixes.filter(prefix => get(prefix, "bss_enabled") === "1");
+  const clients = await countGuestClients(client, enabled.map(prefix => get(prefix, "ifname") || prefix));
+
+  return prefixes.map(prefix => {
+    const radio = radios.find(radio => prefix.startsWith(`wl${radio.unit}.`))!;
+    const isEnabled = enabled.includes(prefix);
+    const accessDuration = parseInt(get(prefix, "expire")) || 0;
+    const remaining = parseInt(get(prefix, "expire_tmp"));
+    return {
+      interface: prefix,
+      unit: radio.unit,
+      band: radio.band,
+      label: radio.label,
+      enabled: isEnabled,
+      ssid: get(prefix, "ssid"),
+      securityMode: securityModeLabel(get(prefix, "auth_mode_x") || "open"),
+      accessDuration,
+      remainingSeconds: isEnabled && accessDuration > 0 ? (Number.isNaN(remaining) ? accessDuration : remaining) : null,
+      // The router leaves intranet access off unless told otherwise
+      lanAccess: get(prefix, "lanaccess") === "on",
+      downloadLimit: limit(get(prefix, "bw_enabled"), get(prefix, "bw_dl")),
+      uploadLimit: limit(get(prefix, "bw_enabled"), get(prefix, "bw_ul")),
+      clients: isEnabled ? clients[get(prefix, "ifname") || prefix] ?? 0 : 0,
+    };
+  });
+}
+
+// Switching a guest network off only needs bss_enabled; switching one on, or editing one that is
+// on, can also set its name, security, timer, intranet access and cap. Turning it on, or changing
+// its length, starts the timer again.
+export async function planGuestNetwork(client: SSHClient, prefix: string, edit: GuestNetworkEdit) {
+  const guest = (await readGuestNetworks(client)).find(guest => guest.interface === prefix) ?? null;
+  const fail = (error: string) => ({ changes: {} as NvramValues, services: [] as string[], guest, error });
+  if (!guest) return fail(`${prefix} is not a guest network on this router`);
+
+  const unit = `wl${guest.unit}`;
+  const vifs = (await readNvramValues(client, [`${unit}_vifs`]))[`${unit}_vifs`].split(/\s+/).filter(Boolean);
+  const withoutThis = vifs.filter(vif => vif !== prefix);
+
+  if (edit.enabled === false) {
+    if (!guest.enabled) return fail(`${prefix} is already off`);
+    return {
+      changes: { [`${prefix}_bss_enabled`]: "0", [`${unit}_vifs`]: withoutThis.join(" ") },
+      services: ["restart_wireless"],
+      guest,
+      error: null,
+    };
+  }
+
+  const ssid = edit.ssid ?? guest.ssid;
+  if (!ssid) return fail("A guest network needs a name");
+  const plan = await planWifiChanges(client, prefix, {
+    ...(ssid !== guest.ssid && { ssid }),
+    ...(edit.securityMode !== undefined && edit.securityMode !== guest.securityMode && { securityMode: edit.securityMode }),
+    ...(edit.password && { password: edit.password }),
+  });
+  if (plan.error) return fail(plan.error);
+
+  const changes: NvramValues = { ...plan.changes };
+  if (!guest.enabled) {
+    changes[`${prefix}_bss_enabled`] = "1";
+    changes[`${unit}_vifs`] = [...withoutThis, prefix].join(" ");
+  }
+  const accessDuration = edit.accessDuration ?? guest.accessDuration;
+  if (!guest.enabled || accessDuration !== guest.accessDuration) {
+    changes[`${prefix}_expire`] = String(accessDuration);
+    changes[`${prefix}_expire_tmp`] = String(accessDuration);
+  }
+  if (edit.lanAccess !== undefined && edit.lanAccess !== guest.lanAccess) {
+    changes[`${prefix}_lanaccess`] = edit.lanAccess ? "on" : "off";
+  }
+
+  const downloadLimit = edit.downloadLimit === undefined ? guest.downloadLimit : edit.downloadLimit;
+  const uploadLimit = edit.uploadLimit === undefined ? guest.uploadLimit : edit.uploadLimit;
+  const capChanged = downloadLimit !== guest.downloadLimit || uploadLimit !== guest.uploadLimit;
+  if (capChanged) {
+    const capped = downloadLimit !== null || uploadLimit !== null;
+    changes[`${prefix}_bw_enabled`] = capped ? "1" : "0";
+    changes[`${prefix}_bw_dl`] = String(downloadLimit ?? 0);
+    changes[`${prefix}_bw_ul`] = String(uploadLimit ?? 0);
+  }
+
+  if (Object.keys(changes).length === 0) return fail("Nothing to change");
+  return {
+    changes,
+    services: capChanged ? ["restart_wireless", "restart_qos"] : ["restart_wireless"],
+    guest,
+    error: null,
+  };
+}
+
+// Stored networks list the guest networks that are on, with their live client counts
+export async function syncGuestNetworks(routerId: number, client: SSHClient): Promise<GuestNetwork[]> {
+  const guests = await readGuestNetworks(client);
+  const networks = await storage.getWifiNetworks(routerId);
+
+  for (const guest of guests) {
+    const existing = networks.find(network => network.interface === guest.interface);
+    if (!guest.enabled) {
+      if (existing) await storage.deleteWifiNetwork(routerId, existing.id);
+    } else if (existing) {
+      await storage.updateWifiNetwork(routerId, existing.id, { ssid: guest.ssid, isEnabled: true, connectedDevices: guest.clients });
+    } else {
+      await storage.createWifiNetwork(routerId, {
+        ssid: guest.ssid,
+        band: guest.band,
+        interface: guest.interface,
+        isEnabled: true,
+        securityMode: guest.securityMode,
+        connectedDevices: guest.clients,
+      });
+    }
+  }
+  await refreshWifiNetworks(routerId, client);
+  return guests;
+}
+
+// What a phone camera reads to join: WIFI:T:<type>;S:<ssid>;P:<password>;;
+export function guestQrPayload(ssid: string, securityMode: string, password: string): string {
+  const escape = (value: string) => value.replace(/([\\;,:"])/g, "\\$1");
+  const type = securityMode === "WPA3" ? "SAE" : password && securityMode !== "Open" && securityMode !== "Enhanced Open" ? "WPA" : "nopass";
+  return `WIFI:T:${type};S:${escape(ssid)};${type === "nopass" ? "" : `P:${escape(password)};`};`;
+}
+
+export async function readGuestShare(client: SSHClient, prefix: string) {
+  const values = await readNvramValues(client, [`${prefix}_ssid`, `${prefix}_auth_mode_x`, `${prefix}_wpa_psk`, `${prefix}_expire`, `${prefix}_expire_tmp`, `${prefix}_bss_enabled`]);
+  const ssid = values[`${prefix}_ssid`];
+  const securityMode = securityModeLabel(values[`${prefix}_auth_mode_x`] || "open");
+  const password = ["Open", "Enhanced Open"].includes(securityMode) ? "" : values[`${prefix}_wpa_psk`];
+  const duration = parseInt(values[`${prefix}_expire`]) || 0;
+  const remaining = parseInt(values[`${prefix}_expire_tmp`]);
+  return {
+    interface: prefix,
+    enabled: values[`${prefix}_bss_enabled`] === "1",
+    ssid,
+    securityMode,
+    password,
+    remainingSeconds: duration > 0 ? (Number.isNaN(remaining) ? duration : remaining) : null,
+    qrPayload: guestQrPayload(ssid, securityMode, password),
+  };
+}
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { backgroundServiceManager } from "./background-services";
+import { storage } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -29,7 +30,8 @@ app.use((req, res, next) => {
           sanitizedResponse = {
             ...capturedJsonResponse,
             password: capturedJsonResponse.password ? '[REDACTED]' : capturedJsonResponse.password,
-            privateKey: capturedJsonResponse.privateKey ? '[REDACTED]' : capturedJsonResponse.privateKey
+            privateKey: capturedJsonResponse.privateKey ? '[REDACTED]' : capturedJsonResponse.privateKey,
+            passphrase: capturedJsonResponse.passphrase ? '[REDACTED]' : capturedJsonResponse.passphrase
           };
         }
         logLine += ` :: ${JSON.stringify(sanitizedResponse)}`;
@@ -47,6 +49,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Until saved users are loaded the app would look unconfigured and offer first-run setup
+  await storage.ready;
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
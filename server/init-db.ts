@@ -1,5 +1,6 @@
 import { db } from "./db";
 import { 
+  routers,
   routerStatus, 
   connectedDevices, 
   wifiNetworks, 
@@ -11,8 +12,15 @@ async function initializeDatabase() {
   try {
     console.log("Initializing database with sample data...");
 
+    // Initialize the managed router that owns the sample data
+    const [router] = await db.insert(routers).values({
+      name: "Main Router",
+      location: "Home",
+    }).returning();
+
     // Initialize router status
     await db.insert(routerStatus).values({
+      routerId: router.id,
       model: "RT-AX88U",
       firmware: "3.0.0.4.388.22525",
       ipAddress: "192.168.1.1",
@@ -27,6 +35,7 @@ async function initializeDatabase() {
     // Initialize connected devices
     const devices = [
       {
+        routerId: router.id,
         name: "MacBook Pro",
         macAddress: "AA:BB:CC:DD:EE:FF",
         ipAddress: "192.168.1.101",
@@ -38,6 +47,7 @@ async function initializeDatabase() {
         lastSeen: new Date(),
       },
       {
+        routerId: router.id,
         name: "iPhone 14",
         macAddress: "11:22:33:44:55:66",
         ipAddress: "192.168.1.102",
@@ -49,6 +59,7 @@ async function initializeDatabase() {
         lastSeen: new Date(),
       },
       {
+        routerId: router.id,
         name: "Gaming PC",
         macAddress: "77:88:99:AA:BB:CC",
         ipAddress: "192.168.1.103",
@@ -60,6 +71,7 @@ async function initializeDatabase() {
         lastSeen: new Date(Date.now() - 3600000),
       },
       {
+        routerId: router.id,
         name: "Smart TV",
         macAddress: "DD:EE:FF:00:11:22",
         ipAddress: "192.168.1.104",
@@ -77,21 +89,21 @@ async function initializeDatabase() {
     // Initialize WiFi networks
     const networks = [
       {
+        routerId: router.id,
         ssid: "ASUS_AX88U",
         band: "2.4GHz",
         channel: 6,
         isEnabled: true,
         securityMode: "WPA2",
-        password: "mypassword123",
         connectedDevices: 12,
       },
       {
+        routerId: router.id,
         ssid: "ASUS_AX88U_5G",
         band: "5GHz",
         channel: 149,
         isEnabled: true,
         securityMode: "WPA2",
-        password: "mypassword123",
         connectedDevices: 8,
       },
     ];
@@ -101,6 +113,7 @@ async function initializeDatabase() {
     // Initialize port forwarding rules
     const rules = [
       {
+        routerId: router.id,
         name: "Web Server",
         protocol: "TCP",
         externalPort: 80,
@@ -110,6 +123,7 @@ async function initializeDatabase() {
         description: "HTTP traffic to internal web server",
       },
       {
+        routerId: router.id,
         name: "SSH Access",
         protocol: "TCP",
         externalPort: 22,
@@ -128,6 +142,7 @@ async function initializeDatabase() {
     for (let i = 23; i >= 0; i--) {
       const timestamp = new Date(now.getTime() - i * 60 * 60 * 1000);
       bandwidthEntries.push({
+        routerId: router.id,
         timestamp,
         downloadSpeed: 120 + Math.random() * 380,
         uploadSpeed: 80 + Math.random() * 170,
@@ -0,0 +1,142 @@
+import type { Response } from "express";
+import type { BandwidthData, ConnectedDevice } from "@shared/schema";
+import { storage } from "./storage";
+import { withOverride, withOverrides } from "./device-overrides";
+
+// Server-sent events for the browser: sync progress, status and bandwidth samples, devices
+// joining, leaving or changing state, and background job state. Each stream is scoped to the router the page
+// has selected; events without a router (job state) go to everyone.
+export type LiveEventType = "sync-progress" | "status" | "bandwidth" | "device-joined" | "device-left" | "device-updated" | "job" | "wake";
+
+export interface SyncPhaseProgress {
+  id: string;
+  name: string;
+  status: "pending" | "loading" | "complete" | "error";
+}
+
+export interface SyncProgress {
+  phases: SyncPhaseProgress[];
+  currentPhase: string | null;
+  progress: number;
+  done: boolean;
+}
+
+interface Subscriber {
+  res: Response;
+  routerId: number;
+}
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+class LiveEventHub {
+  private subscribers = new Set<Subscriber>();
+  // Online state per MAC as last published, so joins and leaves are only sent once
+  private deviceStates = new Map<number, Map<string, boolean>>();
+
+  subscribe(res: Response, routerId: number) {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const subscriber: Subscriber = { res, routerId };
+    this.subscribers.add(subscriber);
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      this.subscribers.delete(subscriber);
+    });
+  }
+
+  publish(type: LiveEventType, routerId: number | null, data: unknown) {
+    const message = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+    this.subscribers.forEach(subscriber => {
+      if (routerId === null || subscriber.routerId === routerId) {
+        subscriber.res.write(message);
+      }
+    });
+  }
+
+  async publishStatus(routerId: number) {
+    try {
+      const status = await storage.getRouterStatus(routerId);
+      if (status) this.publish("status", routerId, status);
+    } catch (error) {
+      console.error("Failed to publish router status:", error);
+    }
+  }
+
+  publishBandwidth(routerId: number, sample: BandwidthData) {
+    this.publish("bandwidth", routerId, sample);
+  }
+
+  // For changes made by the app itself, like blocking a device, rather than seen in a sync.
+  // Takes the stored row; the user's overrides are applied here, as the API does.
+  async publishDeviceUpdate(routerId: number, device: ConnectedDevice) {
+    try {
+      this.publish("device-updated", routerId, await withOverride(device));
+    } catch (error) {
+      console.error("Failed to publish device update:", error);
+    }
+  }
+
+  // Compares the stored devices with what was last published and sends the differences.
+  // The first call for a router only records the current state.
+  async publishDeviceChanges(routerId: number) {
+    try {
+      const devices = await withOverrides(await storage.getConnectedDevices(routerId));
+      const previous = this.deviceStates.get(routerId);
+      this.deviceStates.set(routerId, new Map(devices.map(device => [device.macAddress, device.isOnline])));
+      if (!previous) return;
+
+      devices.forEach((device: ConnectedDevice) => {
+        const wasOnline = previous.get(device.macAddress);
+        if (device.isOnline && !wasOnline) {
+          this.publish("device-joined", routerId, device);
+        } else if (!device.isOnline && wasOnline) {
+          this.publish("device-left", routerId, device);
+        }
+      });
+    } catch (error) {
+      console.error("Failed to publish device changes:", error);
+    }
+  }
+
+  // Progress for one pass through the given phases, published as a full snapshot each step
+  trackSync(routerId: number, phases: { id: string; name: string }[]) {
+    const state: SyncProgress = {
+      phases: phases.map(phase => ({ ...phase, status: "pending" })),
+      currentPhase: null,
+      progress: 0,
+      done: false,
+    };
+
+    const update = (phaseId: string | null, status: SyncPhaseProgress["status"] | null) => {
+      const phase = state.phases.find(candidate => candidate.id === phaseId);
+      if (phase && status) phase.status = status;
+      state.currentPhase = status === "loading" ? phaseId : null;
+      state.progress = Math.round(
+        (state.phases.filter(candidate => candidate.status === "complete" || candidate.status === "error").length / state.phases.length) * 100,
+      );
+      this.publish("sync-progress", routerId, state);
+    };
+
+    return {
+      start: (phaseId: string) => update(phaseId, "loading"),
+      complete: (phaseId: string) => update(phaseId, "complete"),
+      fail: (phaseId: string) => update(phaseId, "error"),
+      finish: () => {
+        state.done = true;
+        update(null, null);
+      },
+    };
+  }
+}
+
+export const liveEvents = new LiveEventHub();
@@ -0,0 +1,83 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+
+// Databases from before multi-router support hold one router's data with no router_id column.
+// drizzle-kit push cannot add that column as NOT NULL to tables that already have rows, so this
+// runs first: it creates the routers table, adds router 1 for the existing data and backfills
+// router_id. Push then adds the constraints. Running it again is a no-op.
+const LEGACY_TABLES = [
+  "router_status",
+  "connected_devices",
+  "wifi_networks",
+  "port_forwarding_rules",
+  "bandwidth_data",
+  "ssh_config",
+  "router_features",
+];
+
+// These keep one row per router now; of the old rows only the newest is kept
+const ONE_ROW_TABLES = ["router_status", "ssh_config", "router_features"];
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${column}
+  `);
+  return result.rows.length > 0;
+}
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = current_schema() AND table_name = ${table}
+  `);
+  return result.rows.length > 0;
+}
+
+async function migrateToRouters() {
+  const legacy: string[] = [];
+  for (const table of LEGACY_TABLES) {
+    if (await tableExists(table) && !(await hasColumn(table, "router_id"))) {
+      legacy.push(table);
+    }
+  }
+  if (legacy.length === 0) {
+    console.log("No tables without router_id, nothing to migrate");
+    return;
+  }
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS routers (
+      id serial PRIMARY KEY,
+      name text NOT NULL,
+      location text,
+      created_at timestamp DEFAULT now()
+    )
+  `);
+  const existing = await db.execute(sql`SELECT id FROM routers ORDER BY id LIMIT 1`);
+  const routerId = existing.rows.length > 0
+    ? Number(existing.rows[0].id)
+    : Number((await db.execute(sql`INSERT INTO routers (name) VALUES ('Main Router') RETURNING id`)).rows[0].id);
+
+  for (const table of legacy) {
+    const name = sql.identifier(table);
+    if (ONE_ROW_TABLES.includes(table)) {
+      await db.execute(sql`DELETE FROM ${name} WHERE id <> (SELECT max(id) FROM ${name})`);
+    }
+    await db.execute(sql`ALTER TABLE ${name} ADD COLUMN router_id integer`);
+    await db.execute(sql`UPDATE ${name} SET router_id = ${routerId}`);
+    console.log(`Assigned existing ${table} rows to router ${routerId}`);
+  }
+}
+
+// Only run if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  migrateToRouters()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("Error migrating to multiple routers:", error);
+      process.exit(1);
+    });
+}
+
+export { migrateToRouters };
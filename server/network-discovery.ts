@@ -0,0 +1,341 @@
+import dgram from "dgram";
+
+// Discovery run from the machine hosting this app rather than the router: mDNS and SSDP are
+// link-local multicast, so they only see devices when the app runs on the same LAN segment.
+// NetBIOS name queries are unicast and reach any device the host can route to.
+export interface HostDiscoveryResult {
+  ip: string;
+  source: "mdns" | "ssdp" | "netbios";
+  name?: string;
+  model?: string;
+  manufacturer?: string;
+  os?: string;
+  services?: string[];
+  upnpDeviceType?: string;
+}
+
+const MDNS_ADDRESS = "224.0.0.251";
+const MDNS_PORT = 5353;
+const SSDP_ADDRESS = "239.255.255.250";
+const SSDP_PORT = 1900;
+const NETBIOS_PORT = 137;
+const DESCRIPTION_TIMEOUT_MS = 3000;
+
+// Asked for by name as well as through the service enumeration, since some responders only
+// answer direct queries
+const MDNS_SERVICES = [
+  "_services._dns-sd._udp.local",
+  "_googlecast._tcp.local",
+  "_airplay._tcp.local",
+  "_raop._tcp.local",
+  "_ipp._tcp.local",
+  "_printer._tcp.local",
+  "_pdl-datastream._tcp.local",
+  "_hap._tcp.local",
+  "_smb._tcp.local",
+  "_device-info._tcp.local",
+  "_companion-link._tcp.local",
+  "_spotify-connect._tcp.local",
+  "_sonos._tcp.local",
+  "_workstation._tcp.local",
+];
+
+const DNS_TYPE = { A: 1, PTR: 12, TXT: 16 } as const;
+
+interface DnsRecord {
+  name: string;
+  type: number;
+  data: Buffer;
+  offset: number;
+}
+
+function encodeDnsName(name: string): Buffer {
+  const labels = name.split(".").map(label => {
+    const bytes = Buffer.from(label, "utf8");
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  return Buffer.concat([...labels, Buffer.from([0])]);
+}
+
+// A one-shot ("legacy unicast") query: sent from an ephemeral port, so responders answer
+// straight back to it and nothing has to bind port 5353 next to the host's own responder
+export function buildMdnsQuery(names: string[]): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(names.length, 4);
+  const questions = names.map(name => {
+    const tail = Buffer.alloc(4);
+    tail.writeUInt16BE(DNS_TYPE.PTR, 0);
+    tail.writeUInt16BE(1, 2);
+    return Buffer.concat([encodeDnsName(name), tail]);
+  });
+  return Buffer.concat([header, ...questions]);
+}
+
+// Reads a possibly compressed name; returns it with the offset just past it in the original position
+function readDnsName(message: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let next = -1;
+  let position = offset;
+
+  for (let jumps = 0; jumps < 32 && position < message.length; jumps++) {
+    const length = message[position];
+    if (length === 0) {
+      position++;
+      break;
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (next === -1) next = position + 2;
+      position = ((length & 0x3f) << 8) | message[position + 1];
+      continue;
+    }
+    labels.push(message.toString("utf8", position + 1, position + 1 + length));
+    position += 1 + length;
+  }
+
+  return { name: labels.join("."), next: next === -1 ? position : next };
+}
+
+function parseDnsRecords(message: Buffer): DnsRecord[] {
+  if (message.length < 12) return [];
+  const questions = message.readUInt16BE(4);
+  const total = message.readUInt16BE(6) + message.readUInt16BE(8) + message.readUInt16BE(10);
+  let offset = 12;
+
+  for (let i = 0; i < questions; i++) {
+    offset = readDnsName(message, offset).next + 4;
+  }
+
+  const records: DnsRecord[] = [];
+  for (let i = 0; i < total && offset + 10 <= message.length; i++) {
+    const { name, next } = readDnsName(message, offset);
+    const type = message.readUInt16BE(next);
+    const length = message.readUInt16BE(next + 8);
+    const dataOffset = next + 10;
+    records.push({ name, type, data: message.subarray(dataOffset, dataOffset + length), offset: dataOffset });
+    offset = dataOffset + length;
+  }
+  return records;
+}
+
+function parseTxt(data: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (let offset = 0; offset < data.length;) {
+    const length = data[offset];
+    const entry = data.toString("utf8", offset + 1, offset + 1 + length);
+    const separator = entry.indexOf("=");
+    if (separator > 0) entries[entry.slice(0, separator).toLowerCase()] = entry.slice(separator + 1);
+    offset += 1 + length;
+  }
+  return entries;
+}
+
+// Turns one mDNS response into what it says about the sender
+export function parseMdnsResponse(message: Buffer, ip: string): HostDiscoveryResult {
+  const result: HostDiscoveryResult = { ip, source: "mdns", services: [] };
+  const services = new Set<string>();
+  let instanceName: string | undefined;
+
+  for (const record of parseDnsRecords(message)) {
+    if (record.type === DNS_TYPE.PTR) {
+      const target = readDnsName(message, record.offset).name;
+      if (record.name === "_services._dns-sd._udp.local") {
+        services.add(target.replace(/\.local$/, ""));
+      } else {
+        services.add(record.name.replace(/\.local$/, ""));
+        const instance = target.split("._")[0];
+        if (instance && !instanceName && !/^[0-9a-f-]{16,}$/i.test(instance)) instanceName = instance;
+      }
+    } else if (record.type === DNS_TYPE.A && record.name.endsWith(".local")) {
+      result.name = result.name ?? record.name.replace(/\.local$/, "");
+    } else if (record.type === DNS_TYPE.TXT) {
+      const txt = parseTxt(record.data);
+      // Cast devices put their friendly name in fn; printers, AirPlay and device-info use the rest
+      if (txt.fn) instanceName = txt.fn;
+      result.model = result.model ?? txt.md ?? txt.model ?? txt.ty ?? txt.usb_mdl ?? txt.am;
+      result.manufacturer = result.manufacturer ?? txt.usb_mfg ?? txt.manufacturer;
+    }
+  }
+
+  if (instanceName) result.name = instanceName;
+  result.services = Array.from(services).filter(service => !service.startsWith("_services"));
+  return result;
+}
+
+function collect<T>(
+  send: (socket: dgram.Socket) => void,
+  onMessage: (message: Buffer, rinfo: dgram.RemoteInfo, results: T[]) => void,
+  timeoutMs: number,
+): Promise<T[]> {
+  return new Promise(resolve => {
+    const results: T[] = [];
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    const finish = () => {
+      try {
+        socket.close();
+      } catch {
+        // Already closed after an error
+      }
+      resolve(results);
+    };
+
+    socket.on("message", (message, rinfo) => {
+      try {
+        onMessage(message, rinfo, results);
+      } catch (error) {
+        console.error(`Ignoring malformed discovery response from ${rinfo.address}:`, error);
+      }
+    });
+    socket.on("error", (error) => {
+      console.error("Discovery socket error:", error);
+      finish();
+    });
+    socket.bind(0, () => {
+      try {
+        send(socket);
+      } catch (error) {
+        console.error("Failed to send discovery query:", error);
+      }
+      setTimeout(finish, timeoutMs);
+    });
+  });
+}
+
+export async function discoverMdns(timeoutMs = 3000): Promise<HostDiscoveryResult[]> {
+  return await collect<HostDiscoveryResult>(
+    socket => socket.send(buildMdnsQuery(MDNS_SERVICES), MDNS_PORT, MDNS_ADDRESS, () => undefined),
+    (message, rinfo, results) => results.push(parseMdnsResponse(message, rinfo.address)),
+    timeoutMs,
+  );
+}
+
+function parseHttpHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`, "i"));
+  return match?.[1].trim() || undefined;
+}
+
+// "Linux/4.9 UPnP/1.0 ..." or "Microsoft-Windows/10.0 UPnP/1.0" in the SERVER header
+function osFromServerHeader(server: string | undefined): string | undefined {
+  const product = server?.split(/[\s,]+/)[0];
+  if (!product || /^upnp/i.test(product)) return undefined;
+  if (/windows/i.test(product)) return "Windows";
+  return product.split("/")[0];
+}
+
+// LOCATION is whatever the responder put there, so only a plain http URL on the responder itself
+// is fetched; anything else could point the server at loopback or other internal services
+function descriptionUrl(location: string, ip: string): string | null {
+  try {
+    const url = new URL(location);
+    return url.protocol === "http:" && url.hostname === ip ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function discoverSsdp(timeoutMs = 3000): Promise<HostDiscoveryResult[]> {
+  const responses = await collect<{ ip: string; headers: Record<string, string> }>(
+    socket => {
+      const search = [
+        "M-SEARCH * HTTP/1.1",
+        `HOST: ${SSDP_ADDRESS}:${SSDP_PORT}`,
+        'MAN: "ssdp:discover"',
+        "MX: 2",
+        "ST: ssdp:all",
+        "",
+        "",
+      ].join("\r\n");
+      socket.send(search, SSDP_PORT, SSDP_ADDRESS, () => undefined);
+    },
+    (message, rinfo, results) => results.push({ ip: rinfo.address, headers: parseHttpHeaders(message.toString("utf8")) }),
+    timeoutMs,
+  );
+
+  // Devices answer once per service they offer; the description is fetched once per location
+  const locations = new Map<string, { ip: string; server?: string }>();
+  responses.forEach(({ ip, headers }) => {
+    if (headers.location && !locations.has(headers.location)) locations.set(headers.location, { ip, server: headers.server });
+  });
+
+  const results: HostDiscoveryResult[] = [];
+  for (const [location, { ip, server }] of Array.from(locations.entries())) {
+    const result: HostDiscoveryResult = { ip, source: "ssdp", os: osFromServerHeader(server) };
+    const url = descriptionUrl(location, ip);
+    if (url) {
+      try {
+        // A redirect could lead anywhere, so it is not followed
+        const response = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(DESCRIPTION_TIMEOUT_MS) });
+        const xml = await response.text();
+        result.name = xmlValue(xml, "friendlyName");
+        result.manufacturer = xmlValue(xml, "manufacturer");
+        result.model = [xmlValue(xml, "modelName"), xmlValue(xml, "modelNumber")].filter(Boolean).join(" ") || undefined;
+        result.upnpDeviceType = xmlValue(xml, "deviceType");
+      } catch {
+        // The announcement alone still says the device speaks UPnP
+      }
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+// Node status request for the wildcard name "*"
+export function buildNetbiosQuery(): Buffer {
+  const header = Buffer.from([0x13, 0x37, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]);
+  const name = Buffer.alloc(16);
+  name.write("*", "ascii");
+  const encoded = Buffer.alloc(34);
+  encoded[0] = 32;
+  for (let i = 0; i < 16; i++) {
+    encoded[1 + i * 2] = 0x41 + (name[i] >> 4);
+    encoded[2 + i * 2] = 0x41 + (name[i] & 0x0f);
+  }
+  return Buffer.concat([header, encoded, Buffer.from([0x00, 0x21, 0x00, 0x01])]);
+}
+
+// The workstation name is the unique (non-group) entry with suffix 0x00
+export function parseNetbiosResponse(message: Buffer): string | undefined {
+  const countOffset = 12 + 34 + 10;
+  if (message.length <= countOffset) return undefined;
+
+  const count = message[countOffset];
+  for (let i = 0; i < count; i++) {
+    const entry = countOffset + 1 + i * 18;
+    if (entry + 18 > message.length) break;
+    const suffix = message[entry + 15];
+    const isGroup = (message[entry + 16] & 0x80) !== 0;
+    if (suffix === 0x00 && !isGroup) {
+      return message.toString("ascii", entry, entry + 15).trim();
+    }
+  }
+  return undefined;
+}
+
+export async function queryNetbios(ips: string[], timeoutMs = 2000): Promise<HostDiscoveryResult[]> {
+  if (ips.length === 0) return [];
+  const query = buildNetbiosQuery();
+
+  return await collect<HostDiscoveryResult>(
+    // Unreachable hosts are reported to the send callback instead of failing the whole socket
+    socket => ips.forEach(ip => socket.send(query, NETBIOS_PORT, ip, () => undefined)),
+    (message, rinfo, results) => {
+      const name = parseNetbiosResponse(message);
+      if (name) results.push({ ip: rinfo.address, source: "netbios", name });
+    },
+    timeoutMs,
+  );
+}
+
+// Runs all three methods; a method that cannot run on this host just finds nothing
+export async function discoverFromHost(ips: string[]): Promise<HostDiscoveryResult[]> {
+  const [mdns, ssdp, netbios] = await Promise.all([discoverMdns(), discoverSsdp(), queryNetbios(ips)]);
+  return [...mdns, ...ssdp, ...netbios];
+}
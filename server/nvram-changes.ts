@@ -0,0 +1,309 @@
+import type { NvramChangeSet } from "@shared/schema";
+import { sshClients, type SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { auditSystemAction } from "./audit";
+import { openSensitiveText, sealSensitiveText } from "./crypto";
+
+// Every router config write goes through a change set: the edits are staged, the current
+// values are snapshotted right before applying, and if the router (or our SSH session to it)
+// isn't healthy again within the timeout the snapshot is written back. Secret values are sealed
+// in both the stored changes and the snapshot and only opened again by parseChangeSet.
+export type NvramValues = Record<string, string>;
+
+export interface NvramDiffEntry {
+  key: string;
+  before: string | null;
+  after: string;
+  changed: boolean;
+}
+
+export interface StageNvramChanges {
+  description: string;
+  changes: NvramValues;
+  services?: string[];
+  createdBy: string;
+}
+
+const NVRAM_KEY_PATTERN = /^[A-Za-z0-9_.:-]+$/;
+const SERVICE_PATTERN = /^(start|stop|restart|reload)_[a-z0-9_]+$/;
+const VALUE_MARKER = "__nvram_value_end__";
+
+const HEALTH_TIMEOUT_MS = 60000;
+const HEALTH_POLL_INTERVAL_MS = 3000;
+const COMMAND_TIMEOUT_MS = 15000;
+// Dropbear rejects exec requests over 9000 bytes, so long reads and writes are split up
+const MAX_COMMAND_LENGTH = 8000;
+
+// Keys the router rewrites by itself once set, such as a guest network's seconds left, so they
+// cannot be expected to read back as written
+const SELF_UPDATING_KEY_PATTERN = /_expire_tmp$/;
+
+const SECRET_KEY_PATTERN = /(passwd|password|_psk$|_key\d*$|secret|token|_pin$)/i;
+
+const applyingRouters = new Set<number>();
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function isSecretNvramKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+function serializeNvramValues(values: NvramValues): string {
+  return JSON.stringify(Object.fromEntries(Object.entries(values).map(([key, value]) => [
+    key,
+    isSecretNvramKey(key) && value ? sealSensitiveText(value) : value,
+  ])));
+}
+
+function parseNvramValues(column: string): NvramValues {
+  return Object.fromEntries(Object.entries(JSON.parse(column) as NvramValues).map(([key, value]) => [
+    key,
+    isSecretNvramKey(key) ? openSensitiveText(value) : value,
+  ]));
+}
+
+export function validateNvramChanges(changes: NvramValues, services: string[] = []): string | null {
+  const keys = Object.keys(changes);
+  if (keys.length === 0) {
+    return "A change set needs at least one NVRAM key";
+  }
+  const invalidKey = keys.find(key => !NVRAM_KEY_PATTERN.test(key));
+  if (invalidKey) {
+    return `Invalid NVRAM key: ${invalidKey}`;
+  }
+  const invalidValue = keys.find(key => typeof changes[key] !== "string");
+  if (invalidValue) {
+    return `Value for ${invalidValue} must be a string`;
+  }
+  const invalidService = services.find(service => !SERVICE_PATTERN.test(service));
+  if (invalidService) {
+    return `Invalid service: ${invalidService}`;
+  }
+  return null;
+}
+
+export function parseChangeSet(changeSet: NvramChangeSet) {
+  return {
+    changes: parseNvramValues(changeSet.changes),
+    services: JSON.parse(changeSet.services) as string[],
+    snapshot: changeSet.snapshot ? parseNvramValues(changeSet.snapshot) : null,
+  };
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); },
+    );
+  });
+}
+
+// Groups command parts into as few commands as fit under the length limit
+export function batchCommands(parts: string[], separator: string, maxLength: number = MAX_COMMAND_LENGTH): string[][] {
+  const batches: string[][] = [];
+  let length = 0;
+
+  for (const part of parts) {
+    const current = batches[batches.length - 1];
+    if (current && length + separator.length + part.length <= maxLength) {
+      current.push(part);
+      length += separator.length + part.length;
+    } else {
+      batches.push([part]);
+      length = part.length;
+    }
+  }
+
+  return batches;
+}
+
+// Reads several keys per round trip; values may span lines so each is followed by a marker
+export async function readNvramValues(client: SSHClient, keys: string[]): Promise<NvramValues> {
+  const values: NvramValues = {};
+  let offset = 0;
+
+  for (const batch of batchCommands(keys.map(key => `nvram get ${key}; echo ${VALUE_MARKER}`), "; ")) {
+    const output = await withTimeout(client.executeCommand(batch.join("; ")), COMMAND_TIMEOUT_MS, "Timed out reading NVRAM");
+    const outputs = output.split(`${VALUE_MARKER}\n`);
+    keys.slice(offset, offset + batch.length).forEach((key, index) => {
+      values[key] = (outputs[index] ?? "").replace(/\n$/, "");
+    });
+    offset += batch.length;
+  }
+
+  return values;
+}
+
+async function writeNvramValues(client: SSHClient, values: NvramValues, services: string[]) {
+  const sets = Object.entries(values).map(([key, value]) => `nvram set ${key}=${shellQuote(value)}`);
+  // Nothing is committed until every batch has been set
+  for (const batch of batchCommands([...sets, "nvram commit"], " && ")) {
+    await withTimeout(client.executeCommand(batch.join(" && ")), COMMAND_TIMEOUT_MS, "Timed out writing NVRAM");
+  }
+
+  for (const service of services) {
+    try {
+      await withTimeout(client.executeCommand(`service ${service}`), COMMAND_TIMEOUT_MS, `Timed out running ${service}`);
+    } catch (error) {
+      // Restarting the firewall or network can take the session down with it; the health check decides
+      console.warn(`NVRAM change: service ${service} did not return cleanly:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+async function getHealthyClient(routerId: number): Promise<SSHClient> {
+  const client = sshClients.getClient(routerId);
+  if (client.isConnectionActive()) {
+    return client;
+  }
+
+  const config = await storage.getSSHConfig(routerId);
+  if (!config) {
+    throw new Error("No SSH configuration for router");
+  }
+  if (!(await sshClients.connect(routerId, config))) {
+    throw new Error(sshClients.getLastError(routerId) || "SSH reconnect failed");
+  }
+  return sshClients.getClient(routerId);
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Healthy means we can run commands over SSH again and the router reports the values we wrote
+async function waitForHealthy(routerId: number, expected: NvramValues, timeoutMs: number): Promise<string | null> {
+  const deadline = Date.now() + timeoutMs;
+  let lastProblem = "Router did not respond";
+
+  while (Date.now() < deadline) {
+    try {
+      const client = await getHealthyClient(routerId);
+      const keys = Object.keys(expected).filter(key => !SELF_UPDATING_KEY_PATTERN.test(key));
+      const actual = await readNvramValues(client, keys);
+      const mismatch = keys.find(key => actual[key] !== expected[key]);
+      if (!mismatch) {
+        return null;
+      }
+      lastProblem = `${mismatch} reads back as "${actual[mismatch]}"`;
+    } catch (error) {
+      lastProblem = error instanceof Error ? error.message : String(error);
+    }
+    await sleep(HEALTH_POLL_INTERVAL_MS);
+  }
+
+  return lastProblem;
+}
+
+export async function stageNvramChanges(routerId: number, stage: StageNvramChanges): Promise<NvramChangeSet> {
+  const services = stage.services ?? [];
+  const validationError = validateNvramChanges(stage.changes, services);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  return await storage.createNvramChangeSet(routerId, {
+    description: stage.description,
+    changes: serializeNvramValues(stage.changes),
+    services: JSON.stringify(services),
+    status: "staged",
+    createdBy: stage.createdBy,
+  });
+}
+
+// Staged change sets compare against the router's live values; applied ones against their snapshot
+export async function previewNvramChangeSet(client: SSHClient, changeSet: NvramChangeSet): Promise<NvramDiffEntry[]> {
+  const { changes, snapshot } = parseChangeSet(changeSet);
+  const before = snapshot ?? (client.isConnectionActive() ? await readNvramValues(client, Object.keys(changes)) : {});
+
+  return Object.entries(changes).map(([key, after]) => ({
+    key,
+    before: before[key] ?? null,
+    after,
+    changed: before[key] !== after,
+  }));
+}
+
+export async function applyNvramChangeSet(
+  routerId: number,
+  changeSet: NvramChangeSet,
+  healthTimeoutMs: number = HEALTH_TIMEOUT_MS,
+): Promise<NvramChangeSet> {
+  if (changeSet.status !== "staged") {
+    throw new Error(`Change set is already ${changeSet.status.replace("_", " ")}`);
+  }
+  if (applyingRouters.has(routerId)) {
+    throw new Error("Another change set is being applied to this router");
+  }
+
+  applyingRouters.add(routerId);
+  try {
+    const { changes, services } = parseChangeSet(changeSet);
+
+    let client: SSHClient;
+    let snapshot: NvramValues;
+    try {
+      client = await getHealthyClient(routerId);
+      snapshot = await readNvramValues(client, Object.keys(changes));
+    } catch (error) {
+      // Nothing was written yet, so the change set can simply be retried
+      await storage.updateNvramChangeSet(routerId, changeSet.id, {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    await storage.updateNvramChangeSet(routerId, changeSet.id, {
+      status: "applying",
+      snapshot: serializeNvramValues(snapshot),
+      errorMessage: null,
+    });
+
+    try {
+      await writeNvramValues(client, changes, services);
+    } catch (error) {
+      console.error("NVRAM change: write failed, checking router health:", error);
+    }
+
+    const problem = await waitForHealthy(routerId, changes, healthTimeoutMs);
+    if (!problem) {
+      return (await storage.updateNvramChangeSet(routerId, changeSet.id, {
+        status: "applied",
+        appliedAt: new Date(),
+      }))!;
+    }
+
+    console.error(`NVRAM change set ${changeSet.id} unhealthy (${problem}), rolling back`);
+    try {
+      await auditSystemAction(routerId, "Roll back unhealthy change set", changeSet.description, async () => {
+        await writeNvramValues(await getHealthyClient(routerId), snapshot, services);
+        const rollbackProblem = await waitForHealthy(routerId, snapshot, healthTimeoutMs);
+        if (rollbackProblem) {
+          throw new Error(rollbackProblem);
+        }
+      });
+
+      return (await storage.updateNvramChangeSet(routerId, changeSet.id, {
+        status: "rolled_back",
+        errorMessage: `Router was not healthy within ${Math.round(healthTimeoutMs / 1000)}s (${problem}); previous values restored`,
+      }))!;
+    } catch (error) {
+      return (await storage.updateNvramChangeSet(routerId, changeSet.id, {
+        status: "failed",
+        errorMessage: `Router was not healthy (${problem}) and rollback failed: ${error instanceof Error ? error.message : error}`,
+      }))!;
+    }
+  } finally {
+    applyingRouters.delete(routerId);
+  }
+}
+
+// Stage and apply in one step, for routes where the UI already showed what will change
+export async function applyNvramChanges(routerId: number, stage: StageNvramChanges): Promise<NvramChangeSet> {
+  const changeSet = await stageNvramChanges(routerId, stage);
+  return await applyNvramChangeSet(routerId, changeSet);
+}
@@ -0,0 +1,203 @@
+import type { NvramSnapshot } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { fingerprintSensitiveData } from "./crypto";
+import { isRuntimeNvramKey, parseNvramDump } from "./config-backups";
+import { isSecretNvramKey, parseChangeSet, withTimeout, type NvramValues } from "./nvram-changes";
+
+// Drift detection: the snapshot job captures `nvram show`, drops runtime keys and masks secrets,
+// and only stores a new snapshot when a setting changed. Changes that match a change set applied
+// from here are attributed to the app; everything else counts as drift made elsewhere.
+export type NvramSubsystem = "wireless" | "firewall" | "dhcp" | "vpn" | "wan" | "lan" | "system" | "other";
+
+export interface SnapshotDiffEntry {
+  key: string;
+  subsystem: NvramSubsystem;
+  kind: "added" | "removed" | "changed";
+  before: string | null;
+  after: string | null;
+  secret: boolean;
+  fromApp: boolean;
+}
+
+export interface SnapshotDiff {
+  against: "previous" | "baseline";
+  from: NvramSnapshotSummary | null;
+  to: NvramSnapshotSummary;
+  entries: SnapshotDiffEntry[];
+}
+
+export type NvramSnapshotSummary = Omit<NvramSnapshot, "values">;
+
+const MASK = "••••••••";
+const CAPTURE_TIMEOUT_MS = 30000;
+// Snapshots beyond this many are pruned; the baseline is always kept
+const MAX_SNAPSHOTS = 200;
+
+const SUBSYSTEM_PATTERNS: [NvramSubsystem, RegExp][] = [
+  ["vpn", /^(vpn_|vpnc_|vpn_server|vpn_client|openvpn|pptpd_|ipsec_|wgs?_|wgc\d*_)/],
+  ["wireless", /^(wl\d*[._]|wl_|wps_|smart_connect|acs_|wlc\d*_)/],
+  ["firewall", /^(fw_|filter_|vts_|dmz_|autofw_|upnp_|url_|keyword_|macfilter|MULTIFILTER_|ipv6_fw|misc_ping|misc_http)/],
+  ["dhcp", /^(dhcp|dhcpd_|dnsmasq_|lan_dns)/],
+  ["wan", /^(wan|wans_|ddns_|dslx_|ipv6_)/],
+  ["lan", /^(lan_|lan\d_|br\d_|vlan)/],
+  ["system", /^(time_|ntp_|http_|https_|sshd_|telnetd|log_|jffs|script_|computer_name|reboot_|led_)/],
+];
+
+export function subsystemOf(key: string): NvramSubsystem {
+  return SUBSYSTEM_PATTERNS.find(([, pattern]) => pattern.test(key))?.[0] ?? "other";
+}
+
+function maskSecret(key: string, value: string): string {
+  return isSecretNvramKey(key) && value ? `${MASK}#${fingerprintSensitiveData(value)}` : value;
+}
+
+// Secrets are only ever stored as a fingerprint; shown values drop even that
+function displayValue(key: string, value: string | null): string | null {
+  return value !== null && isSecretNvramKey(key) && value.startsWith(MASK) ? MASK : value;
+}
+
+export function normalizeNvram(values: NvramValues): NvramValues {
+  return Object.fromEntries(
+    Object.keys(values)
+      .filter(key => !isRuntimeNvramKey(key))
+      .sort()
+      .map(key => [key, maskSecret(key, values[key])]),
+  );
+}
+
+export function summarizeNvramSnapshot(snapshot: NvramSnapshot): NvramSnapshotSummary {
+  const { values, ...summary } = snapshot;
+  return summary;
+}
+
+function parseSnapshotValues(snapshot: NvramSnapshot): NvramValues {
+  return JSON.parse(snapshot.values);
+}
+
+// Keys written by change sets applied since `since`, normalized the same way as snapshots
+async function valuesAppliedSince(routerId: number, since: Date | null): Promise<NvramValues> {
+  const applied: NvramValues = {};
+  const changeSets = (await storage.getNvramChangeSets(routerId, 200))
+    .filter(changeSet => changeSet.status === "applied" && changeSet.appliedAt && (!since || changeSet.appliedAt >= since))
+    .reverse();
+
+  for (const changeSet of changeSets) {
+    Object.assign(applied, normalizeNvram(parseChangeSet(changeSet).changes));
+  }
+  return applied;
+}
+
+export function diffNvramValues(before: NvramValues, after: NvramValues, applied: NvramValues = {}): SnapshotDiffEntry[] {
+  const entries: SnapshotDiffEntry[] = [];
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  for (const key of keys) {
+    const from = key in before ? before[key] : null;
+    const to = key in after ? after[key] : null;
+    if (from === to) continue;
+
+    entries.push({
+      key,
+      subsystem: subsystemOf(key),
+      kind: from === null ? "added" : to === null ? "removed" : "changed",
+      before: displayValue(key, from),
+      after: displayValue(key, to),
+      secret: isSecretNvramKey(key),
+      fromApp: to !== null && applied[key] === to,
+    });
+  }
+
+  return entries;
+}
+
+async function pruneSnapshots(routerId: number) {
+  const snapshots = await storage.getNvramSnapshots(routerId, MAX_SNAPSHOTS + 50);
+  for (const snapshot of snapshots.slice(MAX_SNAPSHOTS).filter(snapshot => !snapshot.isBaseline)) {
+    await storage.deleteNvramSnapshot(routerId, snapshot.id);
+  }
+}
+
+export async function captureNvramSnapshot(routerId: number, client: SSHClient): Promise<{ snapshot: NvramSnapshot; created: boolean }> {
+  const dump = await withTimeout(client.executeCommand("nvram show 2>/dev/null"), CAPTURE_TIMEOUT_MS, "Timed out reading NVRAM");
+  const values = normalizeNvram(parseNvramDump(dump));
+  const serialized = JSON.stringify(values);
+  const latest = await storage.getLatestNvramSnapshot(routerId);
+
+  if (latest && latest.values === serialized) {
+    const checked = await storage.updateNvramSnapshot(routerId, latest.id, { checkedAt: new Date() });
+    return { snapshot: checked ?? latest, created: false };
+  }
+
+  const entries = latest
+    ? diffNvramValues(parseSnapshotValues(latest), values, await valuesAppliedSince(routerId, latest.checkedAt))
+    : [];
+  const driftCount = entries.filter(entry => !entry.fromApp).length;
+
+  const snapshot = await storage.createNvramSnapshot(routerId, {
+    values: serialized,
+    keyCount: Object.keys(values).length,
+    changeCount: entries.length,
+    driftCount,
+    // Changes we made ourselves don't need anyone to look at them
+    acknowledgedBy: latest && driftCount === 0 ? "system" : null,
+    acknowledgedAt: latest && driftCount === 0 ? new Date() : null,
+  });
+
+  if (driftCount > 0) {
+    console.log(`NVRAM drift on router ${routerId}: ${driftCount} settings changed outside this app`);
+  }
+  await pruneSnapshots(routerId);
+  return { snapshot, created: true };
+}
+
+export async function diffNvramSnapshot(
+  routerId: number,
+  snapshot: NvramSnapshot,
+  against: "previous" | "baseline",
+): Promise<SnapshotDiff> {
+  let base: NvramSnapshot | undefined;
+  if (against === "baseline") {
+    base = await storage.getBaselineNvramSnapshot(routerId);
+  } else {
+    const snapshots = await storage.getNvramSnapshots(routerId, MAX_SNAPSHOTS + 50);
+    base = snapshots.find(candidate => candidate.id < snapshot.id);
+  }
+
+  const applied = base && against === "previous" ? await valuesAppliedSince(routerId, base.checkedAt) : {};
+  return {
+    against,
+    from: base ? summarizeNvramSnapshot(base) : null,
+    to: summarizeNvramSnapshot(snapshot),
+    entries: base ? diffNvramValues(parseSnapshotValues(base), parseSnapshotValues(snapshot), applied) : [],
+  };
+}
+
+export async function pinNvramBaseline(routerId: number, snapshot: NvramSnapshot): Promise<NvramSnapshot> {
+  const current = await storage.getBaselineNvramSnapshot(routerId);
+  if (current && current.id !== snapshot.id) {
+    await storage.updateNvramSnapshot(routerId, current.id, { isBaseline: false });
+  }
+  return (await storage.updateNvramSnapshot(routerId, snapshot.id, { isBaseline: true }))!;
+}
+
+export async function getDriftSummary(routerId: number) {
+  const [latest, baseline, snapshots] = await Promise.all([
+    storage.getLatestNvramSnapshot(routerId),
+    storage.getBaselineNvramSnapshot(routerId),
+    storage.getNvramSnapshots(routerId),
+  ]);
+
+  const baselineDrift = latest && baseline && latest.id !== baseline.id
+    ? diffNvramValues(parseSnapshotValues(baseline), parseSnapshotValues(latest)).length
+    : 0;
+
+  return {
+    latest: latest ? summarizeNvramSnapshot(latest) : null,
+    baseline: baseline ? summarizeNvramSnapshot(baseline) : null,
+    baselineDrift,
+    unacknowledged: snapshots
+      .filter(snapshot => snapshot.driftCount > 0 && !snapshot.acknowledgedAt)
+      .map(summarizeNvramSnapshot),
+  };
+}
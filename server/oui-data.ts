@@ -0,0 +1,40 @@
+// OUI assignments shipped with the app, taken from the IEEE MA-L registry for the vendors most
+// often seen on home networks. An imported copy of the full registry replaces this list.
+export const BUNDLED_OUI_REGISTRY: [vendor: string, prefixes: string][] = [
+  ["Apple, Inc.", "000393 000A27 000A95 000D93 0010FA 001124 001451 0016CB 0017F2 0019E3 001B63 001CB3 001D4F 001E52 001EC2 001F5B 001FF3 0021E9 002241 002312 002332 00236C 0023DF 002436 002500 00254B 0025BC 002608 00264A 0026B0 0026BB 28CFE9 3C0754 406C8F 5855CA 60FB42 70CD60 7C6D62 8866A5 8C8590 A4D1D2 ACBC32 B8E856 BC52B7 C82A14 D83062 F0B479 F40F24 F81EDF 3C22FB A483E7 F01898 147DDA 88E9FE BCD074 9801A7 F45C89 68FEF7"],
+  ["Samsung Electronics Co.,Ltd", "0000F0 0007AB 0012FB 001599 001632 0017C9 001A8A 001D25 002119 002339 002454 002637 08D42B 101DC0 3423BA 5C0A5B 78521A 8C7712 94350A A00BBA BC20A4 C4576E D022BE E47CF9 F025B7 FCA13E 8425DB 8C71F8 641CAE 5001BB"],
+  ["ASUSTek COMPUTER INC.", "000C6E 000EA6 00112F 0011D8 0013D4 0015F2 001731 0018F3 001A92 001BFC 001D60 001E8C 001FC6 002215 002354 00248C 002618 049226 08606E 107B44 14DAE9 1C872C 2C4D54 2C56DC 305A3A 38D547 40167E 4CEDFB 50465D 5404A6 6045CB 708BCD 74D02B 88D7F6 90E6BA AC220B AC9E17 B06EBF BCAEC5 BCEE7B C86000 D850E6 E03F49 F07959 F46D04 FC3497 04D9F5 244BFE 0C9D92"],
+  ["Intel Corporate", "0002B3 000347 000423 0007E9 000CF1 000E0C 000E35 001111 0012F0 001302 001320 0013CE 0013E8 001500 001517 00166F 001676 0016EA 0016EB 0018DE 0019D1 0019D2 001B21 001B77 001CBF 001CC0 001DE0 001DE1 001E64 001E65 001E67 001F3B 001F3C 00215C 00215D 00216A 00216B 0022FA 0022FB 0024D6 0024D7 0026C6 0026C7 002710 3413E8 3CA9F4 4025C2 5C514F 606720 648099 6805CA 7C7A91 8086F2 8C705A 94659C A088B4 A434D9 AC7BA1 B46BFC B808CF C8F733 DC5360 E09467 F81654 F894C2"],
+  ["Raspberry Pi Foundation", "B827EB"],
+  ["Raspberry Pi Trading Ltd", "DCA632 E45F01 D83ADD 28CDC1 2CCF67"],
+  ["Espressif Inc.", "240AC4 30AEA4 246F28 A4CF12 84F3EB 5CCF7F 600194 18FE34 3C71BF BCDDC2 C44F33 8CAAB5 ECFABC 7C9EBD 94B97E 083AF2 483FDA"],
+  ["Amazon Technologies Inc.", "44650D 6837E9 F0272D 74C246 FC65DE 0C47C9 84D6D0 A002DC 40B4CD 50DCE7 34D270 6854FD 8871E5 B47C9C F0F0A4 38F73D"],
+  ["Google, Inc.", "F4F5D8 F4F5E8 546009 3C5AB4 94EB2C 1CF29A 20DFB9 30FD38 48D6D5"],
+  ["Nest Labs Inc.", "18B430 641666"],
+  ["Sonos, Inc.", "000E58 5CAAFD 7828CA 949F3E B8E937 48A6B8 347E5C 542A1B"],
+  ["Roku, Inc", "B0A737 DC3A5E CC6DA0 080581 AC3A7A D83134 B83E59 C83A6B 20EFBD"],
+  ["Nintendo Co.,Ltd", "0009BF 001F32 98B6E9 7CBB8A 0403D6 E84ECE 582F40 40F407 DC68EB"],
+  ["Sony Interactive Entertainment Inc.", "00D9D1 709E29 F8461C 280DFC BC60A7 00041F 001315 0015C1 0019C5 001D0D 00248D A8E3EE FC0FE6 0CFE45"],
+  ["Microsoft Corporation", "0050F2 281878 7C1E52 985FD3 6045BD C83F26 00155D 001DD8 7CED8D"],
+  ["TP-LINK TECHNOLOGIES CO.,LTD.", "002719 14CC20 50C7BF 60E327 647002 98DAC4 A0F3C1 B04E26 C025E9 C46E1F D807B6 E8DE27 EC086B F4F26D 18D6C7 1C3BF3 54AF97 68FF7B 98254A AC84C6 30DE4B 5091E3"],
+  ["Ubiquiti Inc", "00156D 002722 0418D6 24A43C 44D9E7 687251 7483C2 788A20 802AA8 B4FBE4 DC9FDB F09FC2 FCECDA 18E829 E063DA 245A4C 74ACB9"],
+  ["NETGEAR", "00095B 000FB5 00146C 00184D 001B2F 001E2A 001F33 00223F 0024B2 0026F2 204E7F 28C68E 2CB05D 30469A 4494FC 6CB0CE 841B5E 9C3DCF A021B7 A040A0 C03F0E C40415 E0469A E091F5"],
+  ["Xiaomi Communications Co Ltd", "286C07 34CE00 640980 7811DC 7C1DD9 8CBEBE 9C99A0 F8A45F 04CF8C 50642B 584498 64B473 742344 7C49EB 50EC50"],
+  ["Philips Lighting BV", "001788 ECB5FA"],
+  ["LG Electronics", "001C62 001E75 001F6B 001FE3 0022A9 002483 0026E2 10683F 34FCEF 58A2B5 64995D 88C9D0 A816B2 C4366C CC2D8C E85B5B 00E091 785DC8 2C54CF 64BC0C"],
+  ["Huawei Technologies Co.,Ltd", "00E0FC 001882 00259E 00464B 04F938 286ED4 4846FB 80B686 ACE215 F4C714 20F3A3 009ACD"],
+  ["Dell Inc.", "001422 001E4F 00219B 0024E8 141877 180373 1866DA 24B6FD 3417EB 5C260A 74867A 782BCB 848F69 B083FE B8CA3A BC305B D4BED9 F01FAF F8BC12 F8B156 90B11C A4BADB"],
+  ["Synology Incorporated", "001132 9009D0"],
+  ["QNAP Systems, Inc.", "245EBE 00089B"],
+  ["Canon Inc.", "000085 001E8F F48139 180CAC 2C9EFC 888717"],
+  ["Seiko Epson Corporation", "000048 0026AB 64EB8C 9CAED3 AC1826 381A52 44D244 50579C A4EE57 DCCD2F E0BB9E F8D027 B0E892"],
+  ["Brother Industries, LTD.", "001BA9 008077 30055C"],
+  ["VMware, Inc.", "000C29 005056 000569"],
+  ["Realtek Semiconductor Corp.", "00E04C"],
+  ["Belkin International Inc.", "94103E EC1A59 08863B 149182 B4750E C05627"],
+  ["Bose Corporation", "0452C7 08DF1F 2C41A1 4C875D 60ABD2 782B64 C87B23"],
+  ["NVIDIA Corporation", "00044B 48B02D"],
+  ["Tesla Motors, Inc", "4CFCAA"],
+  ["iRobot Corporation", "501479"],
+  ["ecobee inc", "446132"],
+];
@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { BUNDLED_OUI_REGISTRY } from "./oui-data";
+
+// Vendor lookup by MAC prefix. The bundled list covers common home-network vendors; importing the
+// IEEE registry files (oui.csv / oui.txt, plus mam.csv and oui36.csv for the longer assignments)
+// saves the full table next to the other data files and is used from then on.
+export interface OuiRegistryInfo {
+  source: "bundled" | "imported";
+  entries: number;
+  importedAt: string | null;
+  files: string[];
+}
+
+interface SavedRegistry {
+  importedAt: string;
+  files: string[];
+  entries: Record<string, string>;
+}
+
+const REGISTRY_FILE = "oui-registry.json";
+// MA-S (36-bit), MA-M (28-bit) and MA-L (24-bit) prefixes, longest match first
+const PREFIX_LENGTHS = [9, 7, 6];
+
+let registry: Map<string, string> | null = null;
+let info: OuiRegistryInfo | null = null;
+
+function registryPath() {
+  return path.join(process.cwd(), REGISTRY_FILE);
+}
+
+function loadRegistry(): Map<string, string> {
+  if (registry) return registry;
+
+  try {
+    if (fs.existsSync(registryPath())) {
+      const saved: SavedRegistry = JSON.parse(fs.readFileSync(registryPath(), "utf8"));
+      registry = new Map(Object.entries(saved.entries));
+      info = { source: "imported", entries: registry.size, importedAt: saved.importedAt, files: saved.files };
+      return registry;
+    }
+  } catch (error) {
+    console.error("Failed to load the imported OUI registry, using the bundled one:", error);
+  }
+
+  registry = new Map();
+  for (const [vendor, prefixes] of BUNDLED_OUI_REGISTRY) {
+    prefixes.split(" ").forEach(prefix => registry!.set(prefix, vendor));
+  }
+  info = { source: "bundled", entries: registry.size, importedAt: null, files: [] };
+  return registry;
+}
+
+function hexDigits(macAddress: string): string {
+  return macAddress.replace(/[^0-9a-fA-F]/g, "").toUpperCase();
+}
+
+export function lookupVendor(macAddress: string): string | null {
+  const hex = hexDigits(macAddress);
+  if (hex.length !== 12 || isRandomizedMac(macAddress)) return null;
+
+  const table = loadRegistry();
+  for (const length of PREFIX_LENGTHS) {
+    const vendor = table.get(hex.slice(0, length));
+    if (vendor) return vendor;
+  }
+  return null;
+}
+
+// Locally administered addresses (second bit of the first octet set) are not assigned by the IEEE;
+// phones and laptops use them as private, per-network Wi-Fi addresses
+export function isRandomizedMac(macAddress: string): boolean {
+  const hex = hexDigits(macAddress);
+  return hex.length === 12 && (parseInt(hex.slice(0, 2), 16) & 0x02) !== 0;
+}
+
+export function getOuiRegistryInfo(): OuiRegistryInfo {
+  loadRegistry();
+  return info!;
+}
+
+// Splits one CSV line, honouring quoted fields with embedded commas and doubled quotes
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// Reads either IEEE format: the CSV export (Registry,Assignment,Organization Name,...) or the
+// text listing with "00-00-0C   (hex)\t\tCisco Systems, Inc" lines
+export function parseOuiRegistry(content: string): Map<string, string> {
+  const entries = new Map<string, string>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const hexLine = line.match(/^\s*([0-9A-Fa-f]{2}-[0-9A-Fa-f]{2}-[0-9A-Fa-f]{2})\s+\(hex\)\s+(.+?)\s*$/);
+    if (hexLine) {
+      entries.set(hexLine[1].replace(/-/g, "").toUpperCase(), hexLine[2]);
+      continue;
+    }
+
+    const [registryName, assignment, organization] = parseCsvLine(line);
+    if (/^MA-[LMS]$/.test(registryName ?? "") && /^[0-9A-Fa-f]{6,9}$/.test(assignment ?? "") && organization?.trim()) {
+      entries.set(assignment.toUpperCase(), organization.trim());
+    }
+  }
+
+  return entries;
+}
+
+// Merges the given registry files into the saved table; files from the same import replace the
+// bundled list entirely, and a later import of only mam.csv keeps the MA-L entries already saved
+export function importOuiRegistry(files: { name: string; content: string }[]): OuiRegistryInfo {
+  const entries = new Map<string, string>();
+  files.forEach(file => parseOuiRegistry(file.content).forEach((vendor, prefix) => entries.set(prefix, vendor)));
+  if (entries.size === 0) {
+    throw new Error("No OUI assignments found; expected the IEEE oui.csv or oui.txt format");
+  }
+
+  const current = loadRegistry();
+  const merged = info?.source === "imported" ? new Map([...Array.from(current), ...Array.from(entries)]) : entries;
+  const saved: SavedRegistry = {
+    importedAt: new Date().toISOString(),
+    files: Array.from(new Set([...(info?.files ?? []), ...files.map(file => file.name)])),
+    entries: Object.fromEntries(merged),
+  };
+  fs.writeFileSync(registryPath(), JSON.stringify(saved));
+
+  registry = merged;
+  info = { source: "imported", entries: merged.size, importedAt: saved.importedAt, files: saved.files };
+  return info;
+}
@@ -0,0 +1,253 @@
+import type { ConnectedDevice, NvramChangeSet, ScheduleRule } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { applyNvramChanges, readNvramValues, type NvramValues } from "./nvram-changes";
+import { liveEvents } from "./live-events";
+import { auditSystemAction } from "./audit";
+
+// Internet blocking uses the router's own parental controls, so it survives reboots and applies
+// no matter which AiMesh node a device is on. MULTIFILTER_* keys are parallel lists separated by
+// ">", one position per client; the mode decides what happens to that client's traffic.
+export const FILTER_MODES = {
+  off: "0",
+  scheduled: "1",
+  blocked: "2",
+} as const;
+
+export interface FilterEntry {
+  macAddress: string;
+  name: string;
+  mode: string;
+  // Per-client values of the remaining list keys, kept so rewriting the lists never shifts them
+  extra: Record<string, string>;
+}
+
+const MAC_KEY = "MULTIFILTER_MAC";
+const NAME_KEY = "MULTIFILTER_DEVICENAME";
+const MODE_KEY = "MULTIFILTER_ENABLE";
+const EXTRA_KEYS = ["MULTIFILTER_MACFILTER_DAYTIME", "MULTIFILTER_MACFILTER_DAYTIME_V2", "MULTIFILTER_URL_ENABLE", "MULTIFILTER_URL"];
+const LIST_KEYS = [MAC_KEY, NAME_KEY, MODE_KEY, ...EXTRA_KEYS];
+const ENABLE_KEY = "MULTIFILTER_ALL";
+// Schedules live in the _V2 key on current firmware (386 and later); the older per-client
+// MULTIFILTER_MACFILTER_DAYTIME value is carried along untouched
+const SCHEDULE_KEY = "MULTIFILTER_MACFILTER_DAYTIME_V2";
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(">") : [];
+}
+
+export function parseFilterEntries(values: NvramValues): FilterEntry[] {
+  const lists = Object.fromEntries(LIST_KEYS.map(key => [key, splitList(values[key])]));
+  return lists[MAC_KEY]
+    .map((macAddress, index) => ({
+      macAddress: macAddress.toUpperCase(),
+      name: lists[NAME_KEY][index] ?? "",
+      mode: lists[MODE_KEY][index] || FILTER_MODES.off,
+      extra: Object.fromEntries(EXTRA_KEYS.map(key => [key, lists[key][index] ?? ""])),
+    }))
+    .filter(entry => entry.macAddress);
+}
+
+export function serializeFilterEntries(entries: FilterEntry[]): NvramValues {
+  return {
+    [MAC_KEY]: entries.map(entry => entry.macAddress).join(">"),
+    [NAME_KEY]: entries.map(entry => entry.name).join(">"),
+    [MODE_KEY]: entries.map(entry => entry.mode).join(">"),
+    ...Object.fromEntries(EXTRA_KEYS.map(key => [key, entries.map(entry => entry.extra[key] ?? "").join(">")])),
+  };
+}
+
+export async function readFilterEntries(client: SSHClient): Promise<{ enabled: boolean; entries: FilterEntry[] }> {
+  const values = await readNvramValues(client, [ENABLE_KEY, ...LIST_KEYS]);
+  return { enabled: values[ENABLE_KEY] === "1", entries: parseFilterEntries(values) };
+}
+
+// Each offline period is "W" + a 3-digit hex day mask (bit 0 = Sunday) + start HHMM + end HHMM,
+// e.g. W03E21000700 for Monday to Friday 21:00 to 07:00; periods are joined with "<"
+export function encodeSchedule(rules: ScheduleRule[]): string {
+  return rules
+    .map(rule => {
+      const mask = rule.days.reduce((bits, day) => bits | (1 << day), 0);
+      return `W${mask.toString(16).toUpperCase().padStart(3, "0")}${rule.start.replace(":", "")}${rule.end.replace(":", "")}`;
+    })
+    .join("<");
+}
+
+export function decodeSchedule(value: string): ScheduleRule[] {
+  const rules: ScheduleRule[] = [];
+  for (const part of value.split("<")) {
+    const match = part.trim().match(/^W([0-9A-Fa-f]{3})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+    if (!match) continue;
+    const mask = parseInt(match[1], 16);
+    const days = [0, 1, 2, 3, 4, 5, 6].filter(day => mask & (1 << day));
+    if (days.length > 0) {
+      rules.push({ days, start: `${match[2]}:${match[3]}`, end: `${match[4]}:${match[5]}` });
+    }
+  }
+  return rules;
+}
+
+// The schedule only restricts a client while its entry is in schedule (or block) mode
+function scheduleOf(entry: FilterEntry | undefined): string | null {
+  if (!entry || entry.mode === FILTER_MODES.off) return null;
+  const rules = decodeSchedule(entry.extra[SCHEDULE_KEY] ?? "");
+  return rules.length > 0 ? JSON.stringify(rules) : null;
+}
+
+// The separators cannot appear inside a name
+function filterName(device: ConnectedDevice) {
+  return device.name.replace(/[<>]/g, "").slice(0, 32);
+}
+
+// Writes a new set of entries through a change set, touching only the keys that differ
+export async function writeFilterEntries(
+  routerId: number,
+  client: SSHClient,
+  update: (entries: FilterEntry[]) => FilterEntry[],
+  description: string,
+  createdBy: string,
+): Promise<NvramChangeSet | null> {
+  const current = await readNvramValues(client, [ENABLE_KEY, ...LIST_KEYS]);
+  const entries = update(parseFilterEntries(current));
+  // Parental controls are switched on with the first active entry, never off again from here
+  const enabled = entries.some(entry => entry.mode !== FILTER_MODES.off) ? "1" : current[ENABLE_KEY];
+  const next: NvramValues = { ...serializeFilterEntries(entries), [ENABLE_KEY]: enabled };
+  const changes = Object.fromEntries(Object.entries(next).filter(([key, value]) => current[key] !== value));
+  if (Object.keys(changes).length === 0) return null;
+
+  const changeSet = await applyNvramChanges(routerId, {
+    description,
+    changes,
+    services: ["restart_firewall"],
+    createdBy,
+  });
+  if (changeSet.status !== "applied") {
+    throw new Error(changeSet.errorMessage || "The router did not accept the parental control change");
+  }
+  return changeSet;
+}
+
+function describe(devices: ConnectedDevice[], blocked: boolean, minutes?: number) {
+  const names = devices.length <= 3 ? devices.map(device => device.name).join(", ") : `${devices.length} devices`;
+  if (!blocked) return `Unblock ${names}`;
+  return minutes ? `Pause ${names} for ${minutes} minutes` : `Block ${names}`;
+}
+
+// Blocking switches a device's entry to block mode, adding one if needed. Unblocking hands it back
+// to its schedule when it has one and otherwise drops the entry, so no empty rules pile up.
+export async function setDevicesBlocked(
+  routerId: number,
+  client: SSHClient,
+  devices: ConnectedDevice[],
+  blocked: boolean,
+  options: { minutes?: number; createdBy: string },
+): Promise<NvramChangeSet | null> {
+  if (devices.length === 0) return null;
+  const macs = new Set(devices.map(device => device.macAddress.toUpperCase()));
+
+  const changeSet = await writeFilterEntries(routerId, client, entries => {
+    if (!blocked) {
+      return entries
+        .filter(entry => !macs.has(entry.macAddress) || entry.mode !== FILTER_MODES.blocked || entry.extra[SCHEDULE_KEY])
+        .map(entry => macs.has(entry.macAddress) && entry.mode === FILTER_MODES.blocked ? { ...entry, mode: FILTER_MODES.scheduled } : entry);
+    }
+
+    const updated = entries.map(entry => macs.has(entry.macAddress) ? { ...entry, mode: FILTER_MODES.blocked } : entry);
+    const existing = new Set(entries.map(entry => entry.macAddress));
+    for (const device of devices) {
+      const macAddress = device.macAddress.toUpperCase();
+      if (existing.has(macAddress)) continue;
+      updated.push({
+        macAddress,
+        name: filterName(device),
+        mode: FILTER_MODES.blocked,
+        extra: Object.fromEntries(EXTRA_KEYS.map(key => [key, ""])),
+      });
+    }
+    return updated;
+  }, describe(devices, blocked, options.minutes), options.createdBy);
+
+  const blockedUntil = blocked && options.minutes ? new Date(Date.now() + options.minutes * 60 * 1000) : null;
+  for (const device of devices) {
+    const updated = await storage.updateConnectedDevice(routerId, device.id, { isBlocked: blocked, blockedUntil });
+    if (updated) liveEvents.publishDeviceUpdate(routerId, updated);
+  }
+  return changeSet;
+}
+
+// Replaces the offline schedule of each device; an empty list removes it, dropping entries that
+// only existed for the schedule and leaving blocked devices blocked
+export async function setDevicesSchedule(
+  routerId: number,
+  client: SSHClient,
+  devices: ConnectedDevice[],
+  rules: ScheduleRule[],
+  createdBy: string,
+): Promise<NvramChangeSet | null> {
+  if (devices.length === 0) return null;
+  const macs = new Set(devices.map(device => device.macAddress.toUpperCase()));
+  const schedule = encodeSchedule(rules);
+  const names = devices.length <= 3 ? devices.map(device => device.name).join(", ") : `${devices.length} devices`;
+
+  const changeSet = await writeFilterEntries(routerId, client, entries => {
+    const withSchedule = (entry: FilterEntry): FilterEntry => ({
+      ...entry,
+      mode: entry.mode === FILTER_MODES.blocked ? FILTER_MODES.blocked : FILTER_MODES.scheduled,
+      extra: { ...entry.extra, [SCHEDULE_KEY]: schedule },
+    });
+
+    if (!schedule) {
+      return entries
+        .filter(entry => !macs.has(entry.macAddress) || entry.mode === FILTER_MODES.blocked)
+        .map(entry => macs.has(entry.macAddress) ? { ...entry, extra: { ...entry.extra, [SCHEDULE_KEY]: "" } } : entry);
+    }
+
+    const updated = entries.map(entry => macs.has(entry.macAddress) ? withSchedule(entry) : entry);
+    const existing = new Set(entries.map(entry => entry.macAddress));
+    for (const device of devices) {
+      const macAddress = device.macAddress.toUpperCase();
+      if (existing.has(macAddress)) continue;
+      updated.push(withSchedule({
+        macAddress,
+        name: filterName(device),
+        mode: FILTER_MODES.scheduled,
+        extra: Object.fromEntries(EXTRA_KEYS.map(key => [key, ""])),
+      }));
+    }
+    return updated;
+  }, `${schedule ? "Set" : "Clear"} parental control schedule for ${names}`, createdBy);
+
+  const parentalSchedule = rules.length > 0 ? JSON.stringify(rules) : null;
+  for (const device of devices) {
+    const updated = await storage.updateConnectedDevice(routerId, device.id, { parentalSchedule });
+    if (updated) liveEvents.publishDeviceUpdate(routerId, updated);
+  }
+  return changeSet;
+}
+
+// Ends timed pauses that are up and picks up blocks and schedules changed in the router's own UI
+export async function syncParentalControls(routerId: number, client: SSHClient) {
+  const devices = await storage.getConnectedDevices(routerId);
+  const now = Date.now();
+  const expired = devices.filter(device => device.isBlocked && device.blockedUntil && new Date(device.blockedUntil).getTime() <= now);
+  if (expired.length > 0) {
+    await auditSystemAction(routerId, "Unblock expired pauses", expired.map(device => device.macAddress).join(", "),
+      () => setDevicesBlocked(routerId, client, expired, false, { createdBy: "system" }));
+  }
+
+  const { enabled, entries } = await readFilterEntries(client);
+  const entriesByMac = new Map(enabled ? entries.map(entry => [entry.macAddress, entry]) : []);
+  for (const device of await storage.getConnectedDevices(routerId)) {
+    const entry = entriesByMac.get(device.macAddress.toUpperCase());
+    const isBlocked = entry?.mode === FILTER_MODES.blocked;
+    const parentalSchedule = scheduleOf(entry);
+    if (isBlocked !== device.isBlocked || parentalSchedule !== (device.parentalSchedule ?? null)) {
+      const updated = await storage.updateConnectedDevice(routerId, device.id, {
+        isBlocked,
+        blockedUntil: isBlocked ? device.blockedUntil : null,
+        parentalSchedule,
+      });
+      if (updated) liveEvents.publishDeviceUpdate(routerId, updated);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import type { PortForwardingRule, InsertPortForwardingRule } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { readNvramValues, type NvramValues } from "./nvram-changes";
+
+// Asuswrt-Merlin keeps virtual servers in the vts_rulelist NVRAM variable as a run of
+// "<name>externalPorts>internalIp>internalPort>protocol" entries. 386 and later firmware
+// append a ">sourceIp" field. External ports can be a single port, a range ("8000:8010")
+// or a comma separated list, and an empty internal port means "same as external".
+export interface VtsRule {
+  name: string;
+  protocol: string;
+  externalPort: number;
+  externalPortEnd: number | null;
+  internalPort: number;
+  internalIp: string;
+  sourceIp: string | null;
+}
+
+export interface PortForwardingConfig {
+  enabled: boolean;
+  rulelist: string;
+}
+
+export interface PortForwardingDiff {
+  enabled: boolean;
+  currentValue: string;
+  proposedValue: string;
+  added: VtsRule[];
+  removed: VtsRule[];
+  unchanged: VtsRule[];
+  hasChanges: boolean;
+}
+
+const PROTOCOL_FROM_NVRAM: Record<string, string> = {
+  TCP: "TCP",
+  UDP: "UDP",
+  BOTH: "Both",
+  OTHER: "OTHER",
+};
+
+const PROTOCOL_TO_NVRAM: Record<string, string> = {
+  TCP: "TCP",
+  UDP: "UDP",
+  Both: "BOTH",
+  OTHER: "OTHER",
+};
+
+export function parseVtsRulelist(raw: string): VtsRule[] {
+  const rules: VtsRule[] = [];
+
+  for (const entry of raw.trim().split("<").filter(Boolean)) {
+    const [name = "", ports = "", internalIp = "", internalPortField = "", protocol = "", sourceIp = ""] = entry.split(">");
+    if (!internalIp) continue;
+
+    // A comma list is several forwards sharing one name; keep them as separate rows
+    for (const portSpec of ports.split(",").map(port => port.trim()).filter(Boolean)) {
+      const [start, end] = portSpec.split(":").map(port => parseInt(port, 10));
+      if (!Number.isInteger(start)) continue;
+
+      const internalPort = parseInt(internalPortField, 10);
+      rules.push({
+        name: name || `Port ${portSpec}`,
+        protocol: PROTOCOL_FROM_NVRAM[protocol.toUpperCase()] ?? "Both",
+        externalPort: start,
+        externalPortEnd: Number.isInteger(end) && end > start ? end : null,
+        internalPort: Number.isInteger(internalPort) ? internalPort : start,
+        internalIp,
+        sourceIp: sourceIp || null,
+      });
+    }
+  }
+
+  return rules;
+}
+
+export function toVtsRule(rule: PortForwardingRule | InsertPortForwardingRule): VtsRule {
+  return {
+    name: rule.name,
+    protocol: rule.protocol,
+    externalPort: rule.externalPort,
+    externalPortEnd: rule.externalPortEnd ?? null,
+    internalPort: rule.internalPort,
+    internalIp: rule.internalIp,
+    sourceIp: rule.sourceIp ?? null,
+  };
+}
+
+function serializeVtsRule(rule: VtsRule, withSourceField: boolean): string {
+  const ports = rule.externalPortEnd ? `${rule.externalPort}:${rule.externalPortEnd}` : `${rule.externalPort}`;
+  // Ranges can't be remapped, and the firmware treats an empty internal port as unchanged
+  const internalPort = rule.externalPortEnd || rule.internalPort === rule.externalPort ? "" : `${rule.internalPort}`;
+  const fields = [
+    rule.name.replace(/[<>]/g, ""),
+    ports,
+    rule.internalIp,
+    internalPort,
+    PROTOCOL_TO_NVRAM[rule.protocol] ?? rule.protocol.toUpperCase(),
+  ];
+  if (withSourceField) {
+    fields.push(rule.sourceIp ?? "");
+  }
+  return `<${fields.join(">")}`;
+}
+
+// Older firmware only understands five fields, so only write the source column when the router already uses it
+function usesSourceField(raw: string): boolean {
+  return raw.split("<").some(entry => entry.split(">").length >= 6);
+}
+
+export function serializeVtsRulelist(rules: VtsRule[], withSourceField: boolean): string {
+  return rules.map(rule => serializeVtsRule(rule, withSourceField)).join("");
+}
+
+// Identifies what a rule forwards, ignoring its display name
+function forwardingKey(rule: VtsRule): string {
+  return serializeVtsRule({ ...rule, name: "" }, true);
+}
+
+function ruleKey(rule: VtsRule): string {
+  return serializeVtsRule(rule, true);
+}
+
+// Multiset difference so duplicate entries on the router are accounted for
+function subtractRules(from: VtsRule[], remove: VtsRule[]): VtsRule[] {
+  const counts = new Map<string, number>();
+  for (const rule of remove) {
+    counts.set(ruleKey(rule), (counts.get(ruleKey(rule)) ?? 0) + 1);
+  }
+  return from.filter(rule => {
+    const count = counts.get(ruleKey(rule)) ?? 0;
+    if (count === 0) return true;
+    counts.set(ruleKey(rule), count - 1);
+    return false;
+  });
+}
+
+// Only enabled rules are written to the router; disabled ones stay in our database
+function rulesForRouter(rules: PortForwardingRule[]): VtsRule[] {
+  return rules.filter(rule => rule.isEnabled).map(toVtsRule);
+}
+
+export function diffPortForwarding(config: PortForwardingConfig, rules: PortForwardingRule[]): PortForwardingDiff {
+  const current = parseVtsRulelist(config.rulelist);
+  const proposed = rulesForRouter(rules);
+  const withSourceField = usesSourceField(config.rulelist) || proposed.some(rule => rule.sourceIp);
+
+  const added = subtractRules(proposed, current);
+  const removed = subtractRules(current, proposed);
+
+  return {
+    enabled: config.enabled,
+    currentValue: config.rulelist,
+    proposedValue: serializeVtsRulelist(proposed, withSourceField),
+    added,
+    removed,
+    unchanged: subtractRules(proposed, added),
+    hasChanges: added.length > 0 || removed.length > 0,
+  };
+}
+
+// Number of rule changes made here since the router's list was last read
+export function countPendingChanges(rules: PortForwardingRule[], lastSyncedRulelist: string | null | undefined): number {
+  if (lastSyncedRulelist == null) return 0;
+  const diff = diffPortForwarding({ enabled: true, rulelist: lastSyncedRulelist }, rules);
+  return diff.added.length + diff.removed.length;
+}
+
+export async function readPortForwardingConfig(client: SSHClient): Promise<PortForwardingConfig> {
+  const values = await readNvramValues(client, ["vts_enable_x", "vts_rulelist"]);
+  return {
+    enabled: values.vts_enable_x.trim() === "1",
+    rulelist: values.vts_rulelist.trim(),
+  };
+}
+
+// NVRAM edits for an apply; they go through the change-set engine so a bad write is rolled back
+export function portForwardingChanges(config: Partial<PortForwardingConfig>): NvramValues {
+  const changes: NvramValues = {};
+  if (config.rulelist !== undefined) {
+    changes.vts_rulelist = config.rulelist;
+  }
+  if (config.enabled !== undefined) {
+    changes.vts_enable_x = config.enabled ? "1" : "0";
+  }
+  return changes;
+}
+
+export const PORT_FORWARDING_SERVICES = ["restart_firewall"];
+
+// Mirrors the router's rules into our database. Rules edited here but not applied yet are left
+// alone unless `force` is set, so a background sync never throws away pending changes.
+export async function syncPortForwardingRules(routerId: number, client: SSHClient, force = false): Promise<PortForwardingConfig> {
+  const config = await readPortForwardingConfig(client);
+  const features = await storage.getRouterFeatures(routerId);
+  const rules = await storage.getPortForwardingRules(routerId);
+
+  if (!force && countPendingChanges(rules, features?.portForwardingRulelist) > 0) {
+    await storage.updateRouterFeatures(routerId, { portForwardingEnabled: config.enabled });
+    return config;
+  }
+
+  const remaining = parseVtsRulelist(config.rulelist);
+  const takeMatch = (rule: PortForwardingRule) => {
+    const index = remaining.findIndex(candidate => forwardingKey(candidate) === forwardingKey(toVtsRule(rule)));
+    return index === -1 ? undefined : remaining.splice(index, 1)[0];
+  };
+
+  for (const rule of rules.filter(rule => rule.isEnabled)) {
+    const match = takeMatch(rule);
+    if (!match) {
+      await storage.deletePortForwardingRule(routerId, rule.id);
+    } else if (match.name !== rule.name) {
+      await storage.updatePortForwardingRule(routerId, rule.id, { name: match.name });
+    }
+  }
+
+  // A rule disabled here that shows up on the router again was re-enabled there
+  for (const rule of rules.filter(rule => !rule.isEnabled)) {
+    const match = takeMatch(rule);
+    if (match) {
+      await storage.updatePortForwardingRule(routerId, rule.id, { name: match.name, isEnabled: true });
+    }
+  }
+
+  for (const rule of remaining) {
+    await storage.createPortForwardingRule(routerId, { ...rule, isEnabled: true });
+  }
+
+  await storage.updateRouterFeatures(routerId, {
+    portForwardingEnabled: config.enabled,
+    portForwardingRulelist: config.rulelist,
+  });
+  return config;
+}
@@ -0,0 +1,94 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { sshClients, validatePrivateKey, type SSHClient } from "./ssh-client";
+import type { InsertSSHConfig } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      routerId: number;
+      sshClient: SSHClient;
+    }
+  }
+}
+
+export const ROUTER_ID_HEADER = "X-Router-Id";
+
+// Resolves which managed router an API request targets. The client sends the
+// selected router in the X-Router-Id header; requests without one fall back to
+// the first configured router so single-router setups keep working unchanged.
+export async function resolveRouter(req: Request, res: Response, next: NextFunction) {
+  try {
+    const requestedId = parseInt((req.get(ROUTER_ID_HEADER) || req.query.routerId) as string);
+    const router = isNaN(requestedId)
+      ? await storage.getDefaultRouter()
+      : await storage.getRouter(requestedId);
+
+    if (!router) {
+      return res.status(404).json({ message: "Router not found" });
+    }
+
+    req.routerId = router.id;
+    req.sshClient = sshClients.getClient(router.id);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Opens the SSH session for a router. Secrets left blank in the form fall back to the
+// stored profile, and the router's host key is pinned on first use so later
+// connections to an impostor are refused. Throws with a user-facing message.
+export async function connectRouter(routerId: number, config: InsertSSHConfig) {
+  const existing = await storage.getSSHConfig(routerId);
+  const sameHost = !!existing && existing.host === config.host && existing.port === (config.port || 22);
+  const authMethod = config.authMethod || "password";
+
+  const credentials: InsertSSHConfig = {
+    ...config,
+    authMethod,
+    password: authMethod === "password" ? config.password || existing?.password || null : null,
+    privateKey: authMethod === "key" ? config.privateKey || existing?.privateKey || null : null,
+    passphrase: authMethod === "key" ? config.passphrase || existing?.passphrase || null : null,
+  };
+
+  if (authMethod === "password" && !credentials.password) {
+    throw new Error("Password is required for password authentication");
+  }
+  if (authMethod === "key") {
+    if (!credentials.privateKey) {
+      throw new Error("Private key is required for key authentication");
+    }
+    const keyError = validatePrivateKey(credentials.privateKey, credentials.passphrase);
+    if (keyError) {
+      throw new Error(keyError);
+    }
+  }
+  if (authMethod !== "password" && authMethod !== "key") {
+    throw new Error(`Unknown authentication method: ${authMethod}`);
+  }
+
+  const pinnedFingerprint = sameHost ? existing!.hostKeyFingerprint : null;
+  const connected = await sshClients.connect(routerId, {
+    host: credentials.host,
+    port: credentials.port || 22,
+    username: credentials.username,
+    password: credentials.password,
+    privateKey: credentials.privateKey,
+    passphrase: credentials.passphrase,
+    hostKeyFingerprint: pinnedFingerprint,
+  });
+
+  if (!connected) {
+    throw new Error(sshClients.getLastError(routerId) || "Connection failed");
+  }
+  const client = sshClients.getClient(routerId);
+
+  const hostKeyFingerprint = client.getHostKeyFingerprint();
+  if (sameHost && !pinnedFingerprint && hostKeyFingerprint) {
+    await storage.updateSSHHostKey(routerId, hostKeyFingerprint);
+    console.log(`Pinned SSH host key ${hostKeyFingerprint} for router ${routerId}`);
+  }
+
+  return { credentials, hostKeyFingerprint };
+}
@@ -1,87 +1,135 @@
-import { sshClient } from "./ssh-client";
+import { sshClients, type SSHClient } from "./ssh-client";
 import { storage } from "./storage";
+import { syncPortForwardingRules } from "./port-forwarding";
+import { syncDhcpReservations } from "./dhcp-reservations";
+import { liveEvents } from "./live-events";
+import { recordDevicePresence } from "./device-presence";
+import { syncParentalControls } from "./parental-controls";
+import { syncRouterNicknames } from "./custom-clientlist";
+import { syncGuestNetworks } from "./guest-networks";
+
+// The phases a full sync goes through, in order, as reported to the browser
+export const SYNC_PHASES = [
+  { id: "systemInfo", name: "Essential Data" },
+  { id: "devices", name: "Connected Devices" },
+  { id: "wifi", name: "WiFi Networks" },
+  { id: "bandwidth", name: "Bandwidth" },
+  { id: "features", name: "Router Features" },
+  { id: "portForwarding", name: "Port Forwarding" },
+  { id: "dhcpReservations", name: "DHCP Reservations" },
+];
 
 export class RouterSyncService {
-  private syncInterval: NodeJS.Timeout | null = null;
-  private isSyncing = false;
+  private syncIntervals: Map<number, NodeJS.Timeout> = new Map();
+  private syncingRouters: Set<number> = new Set();
   private lastSyncTime: { [key: string]: number } = {};
   private cacheTimeout = 30000; // 30 seconds cache
 
-  async startSync(intervalSeconds: number = 5) {
-    // Stop any existing sync
-    this.stopSync();
+  async startSync(routerId: number, intervalSeconds: number = 5) {
+    // Stop any existing sync for this router
+    this.stopSync(routerId);
 
-    console.log(`Starting router sync with ${intervalSeconds} second interval`);
+    console.log(`Starting sync for router ${routerId} with ${intervalSeconds} second interval`);
     
     // Start periodic sync
-    this.syncInterval = setInterval(async () => {
-      await this.syncRouterData();
-    }, intervalSeconds * 1000);
+    this.syncIntervals.set(routerId, setInterval(async () => {
+      await this.syncRouterData(routerId);
+    }, intervalSeconds * 1000));
 
     // Do initial sync
-    await this.syncRouterData();
+    await this.syncRouterData(routerId);
   }
 
-  stopSync() {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
-      console.log("Router sync stopped");
+  stopSync(routerId: number) {
+    const interval = this.syncIntervals.get(routerId);
+    if (interval) {
+      clearInterval(interval);
+      this.syncIntervals.delete(routerId);
+      console.log(`Router sync stopped for router ${routerId}`);
     }
   }
 
-  async syncRouterData() {
-    if (this.isSyncing || !sshClient.isConnectionActive()) {
+  async syncRouterData(routerId: number) {
+    const client = sshClients.getClient(routerId);
+    if (this.syncingRouters.has(routerId) || !client.isConnectionActive()) {
       return;
     }
 
-    this.isSyncing = true;
+    this.syncingRouters.add(routerId);
+    const progress = liveEvents.trackSync(routerId, SYNC_PHASES);
     
     try {
-      console.log("Starting progressive router data sync...");
+      console.log(`Starting progressive router data sync for router ${routerId}...`);
       const startTime = Date.now();
 
       // Phase 1: Essential data (immediate - under 2 seconds)
       console.log("Phase 1: Loading essential data...");
-      if (this.shouldSync('systemInfo')) {
-        await this.syncSystemInfo();
+      progress.start('systemInfo');
+      if (this.shouldSync(routerId, 'systemInfo')) {
+        await this.syncSystemInfo(routerId, client);
       }
+      progress.complete('systemInfo');
 
       // Phase 2: Connected devices (fast - 2-5 seconds)
       console.log("Phase 2: Loading connected devices...");
-      if (this.shouldSync('devices')) {
-        await this.syncConnectedDevices();
+      progress.start('devices');
+      if (this.shouldSync(routerId, 'devices')) {
+        await this.syncConnectedDevices(routerId, client);
       }
+      progress.complete('devices');
 
       // Phase 3: WiFi networks (medium - 5-8 seconds)
       console.log("Phase 3: Loading WiFi networks...");
-      if (this.shouldSync('wifi')) {
-        await this.syncWifiNetworks();
+      progress.start('wifi');
+      if (this.shouldSync(routerId, 'wifi')) {
+        await this.syncWifiNetworks(routerId, client);
       }
+      progress.complete('wifi');
 
       // Phase 4: Bandwidth data (slower - 8-12 seconds)
       console.log("Phase 4: Loading bandwidth data...");
-      if (this.shouldSync('bandwidth')) {
-        await this.syncBandwidthData();
+      progress.start('bandwidth');
+      if (this.shouldSync(routerId, 'bandwidth')) {
+        await this.syncBandwidthData(routerId, client);
       }
+      progress.complete('bandwidth');
 
       // Phase 5: Router features (slowest - 12+ seconds)
       console.log("Phase 5: Loading router features...");
-      if (this.shouldSync('features')) {
-        await this.syncRouterFeatures();
+      progress.start('features');
+      if (this.shouldSync(routerId, 'features')) {
+        await this.syncRouterFeatures(routerId, client);
+      }
+      progress.complete('features');
+
+      // Phase 6: Port forwarding rules from NVRAM
+      console.log("Phase 6: Loading port forwarding rules...");
+      progress.start('portForwarding');
+      if (this.shouldSync(routerId, 'portForwarding')) {
+        await this.syncPortForwarding(routerId, client);
+      }
+      progress.complete('portForwarding');
+
+      // Phase 7: DHCP reservations from NVRAM
+      console.log("Phase 7: Loading DHCP reservations...");
+      progress.start('dhcpReservations');
+      if (this.shouldSync(routerId, 'dhcpReservations')) {
+        await this.syncDhcpReservations(routerId, client);
       }
+      progress.complete('dhcpReservations');
 
       const totalTime = Date.now() - startTime;
       console.log(`Progressive data sync completed in ${totalTime}ms`);
     } catch (error) {
       console.error("Error in optimized sync:", error);
     } finally {
-      this.isSyncing = false;
+      progress.finish();
+      this.syncingRouters.delete(routerId);
     }
   }
 
-  private shouldSync(component: string): boolean {
-    const lastSync = this.lastSyncTime[component] || 0;
+  private shouldSync(routerId: number, component: string): boolean {
+    const lastSync = this.lastSyncTime[`${routerId}:${component}`] || 0;
     const now = Date.now();
     
     // Different cache timeouts for different components
@@ -90,21 +138,23 @@ export class RouterSyncService {
       bandwidth: 5000,    // 5 seconds (most frequent)
       devices: 30000,     // 30 seconds
       wifi: 120000,       // 2 minutes
-      features: 300000    // 5 minutes
+      features: 300000,   // 5 minutes
+      portForwarding: 60000, // 1 minute
+      dhcpReservations: 60000 // 1 minute
     };
     
     return (now - lastSync) > (cacheTimeouts[component] || this.cacheTimeout);
   }
 
-  private markSynced(component: string) {
-    this.lastSyncTime[component] = Date.now();
+  private markSynced(routerId: number, component: string) {
+    this.lastSyncTime[`${routerId}:${component}`] = Date.now();
   }
 
-  private async syncSystemInfo() {
+  private async syncSystemInfo(routerId: number, client: SSHClient) {
     try {
-      const systemInfo = await sshClient.getSystemInfo();
+      const systemInfo = await client.getSystemInfo();
       
-      await storage.updateRouterStatus({
+      await storage.updateRouterStatus(routerId, {
         model: systemInfo.model || "Unknown",
         firmware: systemInfo.firmware || "Unknown", 
         ipAddress: systemInfo.ipAddress || "192.168.1.1",
@@ -119,21 +169,22 @@ export class RouterSyncService {
         cpuCores: systemInfo.cpuCores || null,
         cpuModel: systemInfo.cpuModel || null
       });
+      await liveEvents.publishStatus(routerId);
       
-      this.markSynced('systemInfo');
+      this.markSynced(routerId, 'systemInfo');
     } catch (error) {
       console.error("Error syncing system info:", error);
     }
   }
 
-  private async syncConnectedDevices() {
+  private async syncConnectedDevices(routerId: number, client: SSHClient) {
     try {
       console.log("Fetching connected devices...");
-      const devices = await sshClient.getConnectedDevices();
+      const devices = await client.getConnectedDevices();
       console.log(`Found ${devices.length} devices, processing in batches...`);
       
       // Get existing devices to avoid duplicates
-      const existingDevices = await storage.getConnectedDevices();
+      const existingDevices = await storage.getConnectedDevices(routerId);
       const existingMacs = new Set(existingDevices.map(d => d.macAddress));
 
       // Process devices in batches of 5 for faster incremental updates
@@ -143,7 +194,7 @@ export class RouterSyncService {
         
         await Promise.all(batch.map(async (device) => {
           if (!existingMacs.has(device.macAddress)) {
-            await storage.createConnectedDevice({
+            await storage.createConnectedDevice(routerId, {
               name: device.name || device.hostname || "Unknown Device",
               macAddress: device.macAddress,
               ipAddress: device.ipAddress,
@@ -152,7 +203,9 @@ export class RouterSyncService {
               downloadSpeed: device.downloadSpeed || null,
               uploadSpeed: device.uploadSpeed || null,
               connectionType: device.connectionType || null,
-              hostname: device.hostname || null
+              hostname: device.hostname || null,
+              vendor: device.vendor,
+              isRandomizedMac: device.isRandomizedMac
             });
           }
         }));
@@ -160,27 +213,34 @@ export class RouterSyncService {
         console.log(`Processed batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(devices.length/batchSize)}`);
       }
       
-      this.markSynced('devices');
+      await syncRouterNicknames(routerId, client).catch((error) => {
+        console.error("Error syncing router nicknames:", error);
+      });
+      await recordDevicePresence(routerId);
+      await liveEvents.publishDeviceChanges(routerId);
+      await syncParentalControls(routerId, client);
+      this.markSynced(routerId, 'devices');
     } catch (error) {
       console.error("Error syncing connected devices:", error);
     }
   }
 
-  private async syncWifiNetworks() {
+  private async syncWifiNetworks(routerId: number, client: SSHClient) {
     try {
-      const networks = await sshClient.getWiFiNetworks();
+      const networks = await client.getWiFiNetworks();
       console.log(`Found ${networks.length} WiFi networks to sync`);
       
       // Clear existing WiFi networks before syncing new ones
-      const existingNetworks = await storage.getWifiNetworks();
+      const existingNetworks = await storage.getWifiNetworks(routerId);
       for (const existing of existingNetworks) {
-        await storage.deleteWifiNetwork(existing.id);
+        await storage.deleteWifiNetwork(routerId, existing.id);
       }
       
       for (const network of networks) {
-        await storage.createWifiNetwork({
+        await storage.createWifiNetwork(routerId, {
           ssid: network.ssid || "Unknown Network",
           band: network.band || "2.4GHz",
+          interface: network.interface || null,
           channel: network.channel || 0,
           isEnabled: network.enabled ?? true,
           securityMode: network.security || "WPA2",
@@ -188,38 +248,41 @@ export class RouterSyncService {
         });
         console.log(`Synced WiFi network: ${network.ssid} (${network.band})`);
       }
+      // Fills in guest client counts and each network's real band, security and channel
+      await syncGuestNetworks(routerId, client);
       
-      this.markSynced('wifi');
+      this.markSynced(routerId, 'wifi');
     } catch (error) {
       console.error("Error syncing WiFi networks:", error);
     }
   }
 
-  private async syncBandwidthData() {
+  private async syncBandwidthData(routerId: number, client: SSHClient) {
     try {
-      const bandwidthData = await sshClient.getBandwidthData();
+      const bandwidthData = await client.getBandwidthData();
       
-      await storage.addBandwidthData({
+      const sample = await storage.addBandwidthData(routerId, {
         downloadSpeed: bandwidthData.downloadSpeed || 0,
         uploadSpeed: bandwidthData.uploadSpeed || 0,
         totalDownload: bandwidthData.totalDownload || 0,
         totalUpload: bandwidthData.totalUpload || 0
       });
+      liveEvents.publishBandwidth(routerId, sample);
     } catch (error) {
       console.error("Error syncing bandwidth data:", error);
     }
   }
 
-  private async syncRouterFeatures() {
+  private async syncRouterFeatures(routerId: number, client: SSHClient) {
     try {
-      const features = await sshClient.getMerlinFeatures();
+      const features = await client.getMerlinFeatures();
       
       // Get the actual WiFi network count using your script
-      const wifiNetworkCount = await sshClient.getWiFiNetworkCount();
-      const activeGuestNetworks = await sshClient.getActiveGuestNetworkCount();
+      const wifiNetworkCount = await client.getWiFiNetworkCount();
+      const activeGuestNetworks = await client.getActiveGuestNetworkCount();
       console.log(`Syncing router features - WiFi networks: ${wifiNetworkCount}, Active guest networks: ${activeGuestNetworks}`);
       
-      await storage.updateRouterFeatures({
+      await storage.updateRouterFeatures(routerId, {
         adaptiveQosEnabled: features.adaptiveQosEnabled ?? false,
         aiProtectionEnabled: features.aiProtectionEnabled ?? false,
         vpnServerEnabled: features.vpnServerEnabled ?? false,
@@ -237,6 +300,24 @@ export class RouterSyncService {
       console.error("Error syncing router features:", error);
     }
   }
+
+  private async syncPortForwarding(routerId: number, client: SSHClient) {
+    try {
+      await syncPortForwardingRules(routerId, client);
+      this.markSynced(routerId, 'portForwarding');
+    } catch (error) {
+      console.error("Error syncing port forwarding rules:", error);
+    }
+  }
+
+  private async syncDhcpReservations(routerId: number, client: SSHClient) {
+    try {
+      await syncDhcpReservations(routerId, client);
+      this.markSynced(routerId, 'dhcpReservations');
+    } catch (error) {
+      console.error("Error syncing DHCP reservations:", error);
+    }
+  }
 }
 
 export const routerSync = new RouterSyncService();
\ No newline at end of file
@@ -1,23 +1,324 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
-import { sshClient } from "./ssh-client";
-import { routerSync } from "./router-sync";
+import { sshClients } from "./ssh-client";
+import { resolveRouter, connectRouter } from "./router-context";
+import { setupAuth, requireAuth, requireRole, requireWriteAccess, hashPassword, toSafeUser } from "./auth";
+import { routerSync, SYNC_PHASES } from "./router-sync";
 import { backgroundServiceManager } from "./background-services";
+import {
+  countPendingChanges,
+  diffPortForwarding,
+  readPortForwardingConfig,
+  syncPortForwardingRules,
+  portForwardingChanges,
+  PORT_FORWARDING_SERVICES,
+} from "./port-forwarding";
+import {
+  applyNvramChanges,
+  applyNvramChangeSet,
+  previewNvramChangeSet,
+  stageNvramChanges,
+  validateNvramChanges,
+  type NvramValues,
+} from "./nvram-changes";
+import {
+  backupContents,
+  captureConfigBackup,
+  configBackupFilename,
+  diffConfigs,
+  exportConfigBackup,
+  maskChangeSet,
+  maskNvramDiffEntries,
+  planRestore,
+  readRouterConfig,
+  restoreConfigBackup,
+  summarizeConfigBackup,
+} from "./config-backups";
+import {
+  captureNvramSnapshot,
+  diffNvramSnapshot,
+  getDriftSummary,
+  pinNvramBaseline,
+  summarizeNvramSnapshot,
+} from "./nvram-snapshots";
+import {
+  encryptChannelSecret,
+  sendToChannel,
+  summarizeAlertChannel,
+  validateChannelConfig,
+} from "./alert-channels";
+import { alertEngine } from "./alerts";
+import { liveEvents } from "./live-events";
+import { getDeviceUsage, getTopTalkers } from "./device-bandwidth";
+import { getDeviceSessionHistory, getRecentPresenceChanges, recordDevicePresence } from "./device-presence";
+import { getOuiRegistryInfo, importOuiRegistry } from "./oui";
+import { refreshDeviceVendors } from "./device-classification";
+import { getDeviceIdentification, identifyDevices, isGenericDeviceName } from "./device-identification";
+import { getDhcpLoggingStatus, setDhcpLogging } from "./dhcp-fingerprints";
+import { setDevicesBlocked, setDevicesSchedule } from "./parental-controls";
+import {
+  applyDhcpReservations,
+  normalizeMac,
+  parseReservationsCsv,
+  planDhcpReservations,
+  readDhcpConfig,
+  reservationsToCsv,
+} from "./dhcp-reservations";
+import { wakeDevices, wakeTargetsFor } from "./wake-on-lan";
+import { applyInventoryChanges, bulkEditDevices, exportInventory, inventoryToCsv, planInventoryImport } from "./device-inventory";
+import { updateDeviceOverride, withOverride, withOverrides } from "./device-overrides";
+import { resolveNicknameConflict, syncRouterNicknames } from "./custom-clientlist";
+import { GUEST_INTERFACE_PATTERN, planGuestNetwork, readGuestNetworks, readGuestShare, syncGuestNetworks } from "./guest-networks";
+import { confirmWifiSettings, planWifiChanges, readRadios, refreshWifiNetworks, type WifiEdit } from "./wifi-radios";
+import { getWifiAnalysis, runWifiScan } from "./wifi-analyzer";
+import { getChannelUtilization } from "./channel-utilization";
 import { 
   insertRouterStatusSchema,
   insertConnectedDeviceSchema,
   insertWifiNetworkSchema,
   insertPortForwardingRuleSchema,
+  insertDhcpReservationSchema,
+  insertDeviceOverrideSchema,
+  nameSources,
   insertBandwidthDataSchema,
-  insertSSHConfigSchema
+  insertSSHConfigSchema,
+  insertRouterSchema,
+  insertUserSchema,
+  insertAlertChannelSchema,
+  insertAlertRuleSchema,
+  insertWakeScheduleSchema,
+  type AlertChannelType,
+  scheduleRuleSchema,
+  type ConnectedDevice,
+  type InsertDhcpReservation,
+  type InsertWakeSchedule,
+  type WifiNetwork,
 } from "@shared/schema";
 
+// Router features that can be switched from the UI, with the NVRAM keys and services behind them
+const FEATURE_TOGGLES: Record<string, {
+  label: string;
+  field: "adaptiveQosEnabled" | "aiProtectionEnabled";
+  changes: (enabled: boolean) => NvramValues;
+  services: string[];
+}> = {
+  adaptiveQos: {
+    label: "Adaptive QoS",
+    field: "adaptiveQosEnabled",
+    changes: (enabled): NvramValues => enabled ? { qos_enable: "1", qos_type: "1" } : { qos_enable: "0" },
+    services: ["restart_qos", "restart_firewall"],
+  },
+  aiProtection: {
+    label: "AiProtection",
+    field: "aiProtectionEnabled",
+    changes: (enabled) => ({ wrs_protect_enable: enabled ? "1" : "0" }),
+    services: ["restart_wrs", "restart_firewall"],
+  },
+};
+
+// Longest timed pause; anything longer is a block
+const MAX_PAUSE_MINUTES = 24 * 60;
+// Keeps a schedule comfortably inside the router's NVRAM value size
+const MAX_SCHEDULE_RULES = 32;
+
+// Longest list of devices one bulk edit may touch
+const MAX_BULK_DEVICES = 500;
+
+const bulkEditSchema = z.object({
+  deviceIds: z.array(z.number().int()).min(1).max(MAX_BULK_DEVICES),
+  deviceType: z.string().trim().min(1).max(32).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  addGroupIds: z.array(z.number().int()).optional(),
+  removeGroupIds: z.array(z.number().int()).optional(),
+  addTagIds: z.array(z.number().int()).optional(),
+  removeTagIds: z.array(z.number().int()).optional(),
+});
+
+// Longest a guest network may be timed for; the router's own page stops at 30 days too
+const MAX_GUEST_ACCESS_SECONDS = 30 * 24 * 60 * 60;
+
+const guestNetworkSchema = z.object({
+  enabled: z.boolean().optional(),
+  ssid: z.string().optional(),
+  securityMode: z.string().optional(),
+  password: z.string().optional(),
+  accessDuration: z.number().int().min(0).max(MAX_GUEST_ACCESS_SECONDS).optional(),
+  lanAccess: z.boolean().optional(),
+  downloadLimit: z.number().int().positive().nullable().optional(),
+  uploadLimit: z.number().int().positive().nullable().optional(),
+});
+
+// WiFi passphrases live only on the router: rows never keep one and responses never carry one
+function withoutWifiPassword(network: WifiNetwork): WifiNetwork {
+  return { ...network, password: null };
+}
+
+// A wake schedule targets either one MAC or a group, and is either weekly or a one-off
+function wakeScheduleProblem(schedule: Pick<InsertWakeSchedule, "macAddress" | "groupId" | "days" | "time" | "runAt">): string | null {
+  if (!schedule.macAddress === !schedule.groupId) {
+    return "A wake schedule needs either a MAC address or a device group";
+  }
+  if (schedule.runAt) {
+    return schedule.days || schedule.time ? "A one-off wake cannot also have days and a time" : null;
+  }
+  const days = JSON.parse(schedule.days ?? "[]");
+  if (!Array.isArray(days) || days.length === 0 || !days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return "A weekly wake needs at least one day";
+  }
+  return schedule.time ? null : "A weekly wake needs a time";
+}
+
+// Names and icons changed here go to the router's client list straight away when it is reachable;
+// otherwise, or if the write fails, the next device sync tries again
+async function pushRouterNicknames(req: express.Request) {
+  if (!req.sshClient.isConnectionActive()) return;
+  try {
+    await syncRouterNicknames(req.routerId, req.sshClient, req.user?.username ?? "system");
+  } catch (error) {
+    console.error("Failed to write device names to the router:", error);
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Login, logout and first-run setup are the only API routes open without a session
+  setupAuth(app);
+  app.use("/api", requireAuth, requireWriteAccess);
+
+  // User Management Routes
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error: any) {
+      res.status(400).json({ message: error?.issues?.[0]?.message || "Invalid user data" });
+    }
+  });
+
+  app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertUserSchema.partial().parse(req.body);
+      if (id === req.user!.id && validatedData.role && validatedData.role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+      const user = await storage.updateUser(id, {
+        ...validatedData,
+        password: validatedData.password ? await hashPassword(validatedData.password) : undefined,
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toSafeUser(user));
+    } catch (error: any) {
+      res.status(400).json({ message: error?.issues?.[0]?.message || "Invalid user data" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+      const deleted = await storage.deleteUser(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Managed Routers Routes
+  app.get("/api/routers", async (req, res) => {
+    try {
+      // Make sure a fresh install lists the default router before anything else creates it
+      await storage.getDefaultRouter();
+      const routers = await storage.getRouters();
+      const activeRouterIds = sshClients.getActiveRouterIds();
+      res.json(routers.map(router => ({
+        ...router,
+        isConnected: activeRouterIds.includes(router.id),
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get routers" });
+    }
+  });
+
+  app.post("/api/routers", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertRouterSchema.parse(req.body);
+      const router = await storage.createRouter(validatedData);
+      res.status(201).json(router);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid router data" });
+    }
+  });
+
+  app.put("/api/routers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertRouterSchema.partial().parse(req.body);
+      const router = await storage.updateRouter(id, validatedData);
+      if (!router) {
+        return res.status(404).json({ message: "Router not found" });
+      }
+      res.json(router);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid router data" });
+    }
+  });
+
+  app.delete("/api/routers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const routers = await storage.getRouters();
+      if (routers.length <= 1) {
+        return res.status(400).json({ message: "At least one router must remain configured" });
+      }
+      routerSync.stopSync(id);
+      sshClients.disconnect(id);
+      const deleted = await storage.deleteRouter(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Router not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete router" });
+    }
+  });
+
+  // Every other API route operates on the router selected by the client
+  app.use("/api", resolveRouter);
+
+  // Live updates for the selected router, pushed as server-sent events
+  app.get("/api/events", (req, res) => {
+    liveEvents.subscribe(res, req.routerId);
+  });
+
   // Router Status Routes
   app.get("/api/router/status", async (req, res) => {
     try {
-      const status = await storage.getRouterStatus();
+      const status = await storage.getRouterStatus(req.routerId);
       res.json(status);
     } catch (error) {
       res.status(500).json({ message: "Failed to get router status" });
@@ -27,7 +328,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/router/status", async (req, res) => {
     try {
       const validatedData = insertRouterStatusSchema.parse(req.body);
-      const status = await storage.updateRouterStatus(validatedData);
+      const status = await storage.updateRouterStatus(req.routerId, validatedData);
       res.json(status);
     } catch (error) {
       res.status(400).json({ message: "Invalid router status data" });
@@ -37,7 +338,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Router features endpoint
   app.get("/api/router/features", async (req, res) => {
     try {
-      const features = await storage.getRouterFeatures();
+      const features = await storage.getRouterFeatures(req.routerId);
       if (!features) {
         // Create default features if none exist
         const defaultFeatures = {
@@ -52,192 +353,1083 @@ export async function registerRoutes(app: Express): Promise<Server> {
           wirelessClients6ghz: 0,
           wirelessClientsTotal: 0
         };
-        const created = await storage.updateRouterFeatures(defaultFeatures);
+        const created = await storage.updateRouterFeatures(req.routerId, defaultFeatures);
         return res.json(created);
       }
-      res.json(features);
+      res.json(features);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get router features" });
+    }
+  });
+
+  app.put("/api/router/features/:feature", async (req, res) => {
+    try {
+      const toggle = FEATURE_TOGGLES[req.params.feature];
+      if (!toggle) {
+        return res.status(404).json({ message: "Unknown router feature" });
+      }
+      const enabled = req.body?.enabled;
+      if (typeof enabled !== "boolean") {
+        return res.status(400).json({ message: "enabled must be true or false" });
+      }
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: `SSH connection required to change ${toggle.label}` });
+      }
+
+      const changeSet = await applyNvramChanges(req.routerId, {
+        description: `${enabled ? "Enable" : "Disable"} ${toggle.label}`,
+        changes: toggle.changes(enabled),
+        services: toggle.services,
+        createdBy: req.user?.username ?? "system",
+      });
+      if (changeSet.status !== "applied") {
+        return res.status(500).json({ message: changeSet.errorMessage || `Failed to change ${toggle.label}`, changeSet: maskChangeSet(changeSet) });
+      }
+
+      const features = await storage.updateRouterFeatures(req.routerId, { [toggle.field]: enabled });
+      res.json({ features, changeSet: maskChangeSet(changeSet) });
+    } catch (error) {
+      console.error("Router feature toggle failed:", error);
+      res.status(500).json({ message: `Failed to change router feature: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  // Connected Devices Routes
+  app.get("/api/devices", async (req, res) => {
+    try {
+      const devices = await storage.getConnectedDevices(req.routerId);
+      res.json(await withOverrides(devices));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get connected devices" });
+    }
+  });
+
+  // Inventory of names, types, groups, tags and notes for this router's devices
+  app.get("/api/devices/export", async (req, res) => {
+    try {
+      const router = await storage.getRouter(req.routerId);
+      const rows = await exportInventory(req.routerId);
+      const name = (router?.name ?? "router").replace(/[^A-Za-z0-9_-]+/g, "-");
+      if (req.query.format === "json") {
+        res.setHeader("Content-Disposition", `attachment; filename="${name}-devices.json"`);
+        return res.json(rows);
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${name}-devices.csv"`);
+      res.send(inventoryToCsv(rows));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export devices" });
+    }
+  });
+
+  // CSV or JSON goes up as the raw body. The preview only plans; the import plans again and
+  // applies, so the outcome matches the devices as they are at that moment.
+  app.post("/api/devices/import/preview", express.text({ type: "*/*", limit: "2mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "The file is empty" });
+      }
+      res.json(await planInventoryImport(req.routerId, req.body));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to read device import" });
+    }
+  });
+
+  app.post("/api/devices/import", express.text({ type: "*/*", limit: "2mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "The file is empty" });
+      }
+      const plan = await planInventoryImport(req.routerId, req.body);
+      if (plan.errors.length > 0) {
+        return res.status(400).json({ message: plan.errors[0], errors: plan.errors });
+      }
+      const updated = await applyInventoryChanges(req.routerId, plan.changes, req.user?.username ?? "system");
+      if (updated > 0) await pushRouterNicknames(req);
+      res.json({ updated, unchanged: plan.unchanged, unmatched: plan.unmatched });
+    } catch (error) {
+      console.error("Device import failed:", error);
+      res.status(500).json({ message: `Failed to import devices: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.post("/api/devices/bulk-update", async (req, res) => {
+    try {
+      const parsed = bulkEditSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid bulk edit" });
+      }
+      const { deviceIds, ...edit } = parsed.data;
+      res.json({ updated: await bulkEditDevices(req.routerId, deviceIds, edit, req.user?.username ?? "system") });
+    } catch (error) {
+      console.error("Bulk device update failed:", error);
+      res.status(500).json({ message: `Failed to update devices: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.get("/api/devices/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const device = await storage.getConnectedDevice(req.routerId, id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      res.json(await withOverride(device));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get device" });
+    }
+  });
+
+  // What a person sets for a device is kept apart from the synced row, so sync never overwrites
+  // it. Fields left out keep their value; null or "" clears one.
+  app.put("/api/devices/:id/override", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      const parsed = insertDeviceOverrideSchema
+        .pick({ name: true, deviceType: true, icon: true, notes: true, owner: true })
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid device override" });
+      }
+
+      await updateDeviceOverride(req.routerId, device.macAddress, parsed.data, req.user?.username ?? "system");
+      await pushRouterNicknames(req);
+      liveEvents.publishDeviceUpdate(req.routerId, device);
+      res.json(await withOverride(device));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save device override" });
+    }
+  });
+
+  // When the name or icon changed both here and in the router's client list, { keep: "app" }
+  // writes this side to the router and { keep: "router" } takes the router's
+  app.post("/api/devices/:id/override/resolve", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      const keep = z.enum(nameSources).safeParse(req.body?.keep);
+      if (!keep.success) {
+        return res.status(400).json({ message: "keep must be \"app\" or \"router\"" });
+      }
+
+      await resolveNicknameConflict(req.routerId, device.macAddress, keep.data, req.user?.username ?? "system");
+      await pushRouterNicknames(req);
+      liveEvents.publishDeviceUpdate(req.routerId, device);
+      res.json(await withOverride(device));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve device name conflict" });
+    }
+  });
+
+  // Back to what the router reports for every field. A name already written to the router's
+  // client list is removed there too, or the next sync would import it back.
+  app.delete("/api/devices/:id/override", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      await updateDeviceOverride(req.routerId, device.macAddress, {
+        name: null,
+        deviceType: null,
+        icon: null,
+        notes: null,
+        owner: null,
+      }, req.user?.username ?? "system");
+      await pushRouterNicknames(req);
+      liveEvents.publishDeviceUpdate(req.routerId, device);
+      res.json(await withOverride(device));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset device override" });
+    }
+  });
+
+  app.get("/api/devices/:id/bandwidth", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      const hours = Math.min(parseFloat(req.query.hours as string) || 24, 24 * 7);
+      res.json(await getDeviceUsage(req.routerId, device.macAddress, hours));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get device bandwidth" });
+    }
+  });
+
+  app.get("/api/devices/:id/sessions", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      const days = Math.min(parseFloat(req.query.days as string) || 7, 90);
+      res.json(await getDeviceSessionHistory(req.routerId, device.macAddress, days));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get device sessions" });
+    }
+  });
+
+  app.get("/api/device-presence/recent", async (req, res) => {
+    try {
+      const hours = Math.min(parseFloat(req.query.hours as string) || 24, 24 * 7);
+      const limit = parseInt(req.query.limit as string) || 20;
+      res.json(await getRecentPresenceChanges(req.routerId, hours, limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get recent presence changes" });
+    }
+  });
+
+  // OUI vendor registry
+  app.get("/api/oui", async (req, res) => {
+    try {
+      res.json(getOuiRegistryInfo());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get OUI registry" });
+    }
+  });
+
+  // The registry file is sent as the raw body, one file per request, e.g. ?name=oui.csv
+  app.post("/api/oui/import", requireRole("admin"), express.text({ type: "*/*", limit: "20mb" }), async (req, res) => {
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res.status(400).json({ message: "Registry file content is required" });
+    }
+
+    let info;
+    try {
+      info = importOuiRegistry([{ name: String(req.query.name || "registry"), content: req.body }]);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid registry file" });
+    }
+
+    try {
+      const updatedDevices = await refreshDeviceVendors();
+      res.json({ ...info, updatedDevices });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update device vendors" });
+    }
+  });
+
+  // Device identification from DHCP fingerprints and mDNS, SSDP and NetBIOS discovery
+  app.get("/api/devices/:id/attributes", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      res.json(await getDeviceIdentification(req.routerId, device));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get device attributes" });
+    }
+  });
+
+  app.get("/api/device-identification/dhcp-logging", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required for DHCP logging" });
+      }
+      res.json(await getDhcpLoggingStatus(req.sshClient));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get DHCP logging status" });
+    }
+  });
+
+  // Turning logging on or off restarts dnsmasq, which briefly interrupts DHCP and DNS
+  app.post("/api/device-identification/dhcp-logging", requireRole("admin"), async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to change DHCP logging" });
+      }
+      if (typeof req.body?.enabled !== "boolean") {
+        return res.status(400).json({ message: "enabled must be true or false" });
+      }
+      res.json(await setDhcpLogging(req.sshClient, req.body.enabled));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change DHCP logging" });
+    }
+  });
+
+  app.post("/api/device-identification/run", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required for device identification" });
+      }
+      res.json(await identifyDevices(req.routerId, req.sshClient));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run device identification" });
+    }
+  });
+
+  app.post("/api/devices", async (req, res) => {
+    try {
+      const validatedData = insertConnectedDeviceSchema.parse(req.body);
+      const device = await storage.createConnectedDevice(req.routerId, validatedData);
+      res.status(201).json(device);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid device data" });
+    }
+  });
+
+  // The row mirrors what the router reports and the next sync overwrites it, so a name or type
+  // sent here is saved as the device's override instead
+  app.put("/api/devices/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { name, deviceType, ...rowData } = insertConnectedDeviceSchema.partial().parse(req.body);
+      const device = Object.keys(rowData).length > 0
+        ? await storage.updateConnectedDevice(req.routerId, id, rowData)
+        : await storage.getConnectedDevice(req.routerId, id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (name !== undefined || deviceType !== undefined) {
+        await updateDeviceOverride(req.routerId, device.macAddress, { name, deviceType }, req.user?.username ?? "system");
+        await pushRouterNicknames(req);
+        liveEvents.publishDeviceUpdate(req.routerId, device);
+      }
+      res.json(await withOverride(device));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid device data" });
+    }
+  });
+
+  app.delete("/api/devices/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteConnectedDevice(req.routerId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete device" });
+    }
+  });
+
+  // Internet access per device through the router's parental controls; a body of { minutes }
+  // pauses the device and the block sync job lifts it again when the time is up
+  app.post("/api/devices/:id/block", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      const minutes = req.body?.minutes === undefined ? undefined : Number(req.body.minutes);
+      if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_PAUSE_MINUTES)) {
+        return res.status(400).json({ message: `minutes must be a whole number from 1 to ${MAX_PAUSE_MINUTES}` });
+      }
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to block a device" });
+      }
+
+      const changeSet = await setDevicesBlocked(req.routerId, req.sshClient, [device], true, {
+        minutes,
+        createdBy: req.user?.username ?? "system",
+      });
+      res.json({ device: await withOverride((await storage.getConnectedDevice(req.routerId, device.id)) ?? device), changeSet: changeSet && maskChangeSet(changeSet) });
+    } catch (error) {
+      console.error("Device block failed:", error);
+      res.status(500).json({ message: `Failed to block device: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.post("/api/devices/:id/unblock", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to unblock a device" });
+      }
+
+      const changeSet = await setDevicesBlocked(req.routerId, req.sshClient, [device], false, {
+        createdBy: req.user?.username ?? "system",
+      });
+      res.json({ device: await withOverride((await storage.getConnectedDevice(req.routerId, device.id)) ?? device), changeSet: changeSet && maskChangeSet(changeSet) });
+    } catch (error) {
+      console.error("Device unblock failed:", error);
+      res.status(500).json({ message: `Failed to unblock device: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // Weekly offline times for a device, written to the router's parental control schedule
+  app.put("/api/devices/:id/schedule", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      const parsed = z.array(scheduleRuleSchema).max(MAX_SCHEDULE_RULES).safeParse(req.body?.rules);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "rules must be a list of { days, start, end } offline periods" });
+      }
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to change a schedule" });
+      }
+
+      const changeSet = await setDevicesSchedule(req.routerId, req.sshClient, [device], parsed.data, req.user?.username ?? "system");
+      res.json({ device: await withOverride((await storage.getConnectedDevice(req.routerId, device.id)) ?? device), changeSet: changeSet && maskChangeSet(changeSet) });
+    } catch (error) {
+      console.error("Device schedule update failed:", error);
+      res.status(500).json({ message: `Failed to update schedule: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // Wake-on-LAN from the router; with { confirm: true } it keeps pinging the device and reports
+  // whether it came up as a live "wake" event
+  app.post("/api/devices/:id/wake", async (req, res) => {
+    try {
+      const device = await storage.getConnectedDevice(req.routerId, parseInt(req.params.id));
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to wake a device" });
+      }
+
+      const result = await wakeDevices(req.routerId, req.sshClient, await wakeTargetsFor(req.routerId, [device]), {
+        confirm: req.body?.confirm === true,
+        label: device.name,
+      });
+      res.json({ sent: result.sent, failed: result.failed, confirming: result.confirmation !== null });
+    } catch (error) {
+      console.error("Wake-on-LAN failed:", error);
+      res.status(500).json({ message: `Failed to wake device: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // WiFi Networks Routes
+  app.get("/api/wifi", async (req, res) => {
+    try {
+      const networks = await storage.getWifiNetworks(req.routerId);
+      res.json(networks.map(withoutWifiPassword));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get WiFi networks" });
+    }
+  });
+
+  // The radios behind the networks, with the channels and widths each one allows
+  app.get("/api/wifi/radios", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to read radio settings" });
+      }
+      res.json(await readRadios(req.sshClient));
+    } catch (error) {
+      res.status(500).json({ message: `Failed to read radio settings: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // Every guest network slot on every radio, including the ones that are off
+  app.get("/api/wifi/guests", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to read guest networks" });
+      }
+      res.json(await readGuestNetworks(req.sshClient));
+    } catch (error) {
+      res.status(500).json({ message: `Failed to read guest networks: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // Creates, edits or switches off one guest network; fields left out keep their value
+  app.put("/api/wifi/guests/:interface", async (req, res) => {
+    const prefix = req.params.interface;
+    if (!GUEST_INTERFACE_PATTERN.test(prefix)) {
+      return res.status(400).json({ message: "Not a guest network interface" });
+    }
+    const parsed = guestNetworkSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid guest network" });
+    }
+
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to change guest networks" });
+      }
+      const plan = await planGuestNetwork(req.sshClient, prefix, parsed.data);
+      if (plan.error) {
+        return res.status(400).json({ message: plan.error });
+      }
+
+      const action = parsed.data.enabled === false ? "Switch off" : plan.guest?.enabled ? "Update" : "Switch on";
+      const changeSet = await applyNvramChanges(req.routerId, {
+        description: `${action} guest network ${parsed.data.ssid || plan.guest?.ssid || prefix} (${prefix})`,
+        changes: plan.changes,
+        services: plan.services,
+        createdBy: req.user?.username ?? "system",
+      });
+      if (changeSet.status !== "applied") {
+        return res.status(500).json({ message: changeSet.errorMessage || "Failed to update guest network on router", changeSet: maskChangeSet(changeSet) });
+      }
+
+      const guests = await syncGuestNetworks(req.routerId, sshClients.getClient(req.routerId));
+      res.json(guests.find(guest => guest.interface === prefix));
+    } catch (error) {
+      console.error("Guest network update failed:", error);
+      res.status(500).json({ message: `Failed to update guest network: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // The name, password and QR code handed to visitors, so viewers do not get it
+  app.get("/api/wifi/guests/:interface/share", requireRole("operator"), async (req, res) => {
+    const prefix = req.params.interface;
+    if (!GUEST_INTERFACE_PATTERN.test(prefix)) {
+      return res.status(400).json({ message: "Not a guest network interface" });
+    }
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to read guest network details" });
+      }
+      res.json(await readGuestShare(req.sshClient, prefix));
+    } catch (error) {
+      res.status(500).json({ message: `Failed to read guest network details: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.get("/api/wifi/analysis", async (req, res) => {
+    try {
+      const hours = Math.min(parseFloat(req.query.hours as string) || 24, 24 * 7);
+      const client = req.sshClient.isConnectionActive() ? req.sshClient : null;
+      res.json(await getWifiAnalysis(req.routerId, client, hours));
+    } catch (error) {
+      res.status(500).json({ message: `Failed to analyze WiFi channels: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.get("/api/wifi/utilization", async (req, res) => {
+    try {
+      const hours = Math.min(parseFloat(req.query.hours as string) || 24, 24 * 7);
+      res.json(await getChannelUtilization(req.routerId, hours));
+    } catch (error) {
+      res.status(500).json({ message: `Failed to fetch WiFi airtime: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.get("/api/wifi/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const network = await storage.getWifiNetwork(req.routerId, id);
+      if (!network) {
+        return res.status(404).json({ message: "WiFi network not found" });
+      }
+      res.json(withoutWifiPassword(network));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get WiFi network" });
+    }
+  });
+
+  app.post("/api/wifi", async (req, res) => {
+    try {
+      const validatedData = insertWifiNetworkSchema.parse(req.body);
+      const network = await storage.createWifiNetwork(req.routerId, { ...validatedData, password: null });
+      res.status(201).json(withoutWifiPassword(network));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid WiFi network data" });
+    }
+  });
+
+  app.put("/api/wifi/:id", async (req, res) => {
+    let validatedData;
+    try {
+      validatedData = insertWifiNetworkSchema.partial().parse(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: "Invalid WiFi network data" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWifiNetwork(req.routerId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "WiFi network not found" });
+      }
+
+      // Networks read from a router are written back to its NVRAM before our copy changes
+      let confirmation: string[] = [];
+      if (existing.interface) {
+        const edit: WifiEdit = {};
+        if (validatedData.ssid !== undefined && validatedData.ssid !== existing.ssid) edit.ssid = validatedData.ssid;
+        if (validatedData.securityMode !== undefined && validatedData.securityMode !== existing.securityMode) edit.securityMode = validatedData.securityMode;
+        if (validatedData.password) edit.password = validatedData.password;
+        if (validatedData.channel != null && validatedData.channel !== existing.channel) edit.channel = validatedData.channel;
+        if (validatedData.bandwidth != null && validatedData.bandwidth !== existing.bandwidth) edit.bandwidth = validatedData.bandwidth;
+        const toggled = validatedData.isEnabled !== undefined && validatedData.isEnabled !== existing.isEnabled;
+
+        if (Object.keys(edit).length > 0 || toggled) {
+          if (!req.sshClient.isConnectionActive()) {
+            return res.status(400).json({ message: "SSH connection required to change WiFi settings" });
+          }
+
+          const plan = await planWifiChanges(req.sshClient, existing.interface, edit);
+          if (plan.error) {
+            return res.status(400).json({ message: plan.error });
+          }
+          const changes = plan.changes;
+          if (toggled) {
+            changes[`${existing.interface}_bss_enabled`] = validatedData.isEnabled ? "1" : "0";
+          }
+
+          if (Object.keys(changes).length > 0) {
+            const changeSet = await applyNvramChanges(req.routerId, {
+              description: `Update WiFi network ${existing.ssid} (${existing.interface})`,
+              changes,
+              services: ["restart_wireless"],
+              createdBy: req.user?.username ?? "system",
+            });
+            if (changeSet.status !== "applied") {
+              return res.status(500).json({ message: changeSet.errorMessage || "Failed to update WiFi settings on router", changeSet: maskChangeSet(changeSet) });
+            }
+            confirmation = await confirmWifiSettings(req.routerId, existing.interface, changes);
+          }
+        }
+      }
+
+      let network = await storage.updateWifiNetwork(req.routerId, id, { ...validatedData, password: null });
+      if (existing.interface) {
+        await refreshWifiNetworks(req.routerId, sshClients.getClient(req.routerId));
+        network = await storage.getWifiNetwork(req.routerId, id);
+      }
+      if (!network) {
+        return res.status(404).json({ message: "WiFi network not found" });
+      }
+      res.json({ ...withoutWifiPassword(network), confirmation });
+    } catch (error) {
+      console.error("WiFi update failed:", error);
+      res.status(500).json({ message: `Failed to update WiFi network: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  app.delete("/api/wifi/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteWifiNetwork(req.routerId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "WiFi network not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete WiFi network" });
+    }
+  });
+
+  // Port Forwarding Rules Routes
+  app.get("/api/port-forwarding", async (req, res) => {
+    try {
+      const rules = await storage.getPortForwardingRules(req.routerId);
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get port forwarding rules" });
+    }
+  });
+
+  // Pending count compares our rules with the router's list as of the last sync
+  app.get("/api/port-forwarding/status", async (req, res) => {
+    try {
+      const features = await storage.getRouterFeatures(req.routerId);
+      const rules = await storage.getPortForwardingRules(req.routerId);
+      res.json({
+        enabled: features?.portForwardingEnabled ?? false,
+        synced: features?.portForwardingRulelist != null,
+        pendingChanges: countPendingChanges(rules, features?.portForwardingRulelist),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get port forwarding status" });
+    }
+  });
+
+  app.get("/api/port-forwarding/preview", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to preview port forwarding changes" });
+      }
+
+      const config = await readPortForwardingConfig(req.sshClient);
+      const rules = await storage.getPortForwardingRules(req.routerId);
+      res.json(diffPortForwarding(config, rules));
+    } catch (error) {
+      console.error("Port forwarding preview failed:", error);
+      res.status(500).json({ message: "Failed to read port forwarding rules from router" });
+    }
+  });
+
+  app.put("/api/port-forwarding/settings", async (req, res) => {
+    try {
+      const enabled = req.body?.enabled;
+      if (typeof enabled !== "boolean") {
+        return res.status(400).json({ message: "Invalid port forwarding settings" });
+      }
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to change port forwarding" });
+      }
+
+      const changeSet = await applyNvramChanges(req.routerId, {
+        description: `${enabled ? "Enable" : "Disable"} port forwarding`,
+        changes: portForwardingChanges({ enabled }),
+        services: PORT_FORWARDING_SERVICES,
+        createdBy: req.user?.username ?? "system",
+      });
+      if (changeSet.status !== "applied") {
+        return res.status(500).json({ message: changeSet.errorMessage || "Failed to update port forwarding settings", changeSet: maskChangeSet(changeSet) });
+      }
+
+      await storage.updateRouterFeatures(req.routerId, { portForwardingEnabled: enabled });
+      res.json({ enabled, changeSet: maskChangeSet(changeSet) });
+    } catch (error) {
+      console.error("Port forwarding settings update failed:", error);
+      res.status(500).json({ message: "Failed to update port forwarding settings" });
+    }
+  });
+
+  // Writes our enabled rules to vts_rulelist. The client sends back the router value it
+  // previewed so changes made on the router in the meantime aren't silently overwritten.
+  app.post("/api/port-forwarding/apply", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to apply port forwarding rules" });
+      }
+
+      const config = await readPortForwardingConfig(req.sshClient);
+      const rules = await storage.getPortForwardingRules(req.routerId);
+      const diff = diffPortForwarding(config, rules);
+
+      if (typeof req.body?.expectedValue === "string" && req.body.expectedValue !== config.rulelist) {
+        return res.status(409).json({ message: "Router rules changed since the preview. Review the changes again before applying." });
+      }
+
+      if (diff.hasChanges) {
+        const changeSet = await applyNvramChanges(req.routerId, {
+          description: `Port forwarding: ${diff.added.length} added, ${diff.removed.length} removed`,
+          changes: portForwardingChanges({ rulelist: diff.proposedValue }),
+          services: PORT_FORWARDING_SERVICES,
+          createdBy: req.user?.username ?? "system",
+        });
+        if (changeSet.status !== "applied") {
+          return res.status(500).json({ message: changeSet.errorMessage || "Failed to apply port forwarding rules", changeSet: maskChangeSet(changeSet) });
+        }
+      }
+      // The session may have been re-established while the firewall restarted
+      await syncPortForwardingRules(req.routerId, sshClients.getClient(req.routerId), true);
+
+      res.json({ 
+        message: diff.hasChanges ? "Port forwarding rules applied successfully" : "Router already matches these rules",
+        added: diff.added.length,
+        removed: diff.removed.length,
+        timestamp: new Date().toISOString()
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to get router features" });
+      console.error("Port forwarding apply failed:", error);
+      res.status(500).json({ message: `Failed to apply port forwarding rules: ${error instanceof Error ? error.message : 'Unknown error'}` });
     }
   });
 
-  // Connected Devices Routes
-  app.get("/api/devices", async (req, res) => {
+  // Throws away unapplied edits by reloading the router's rules
+  app.post("/api/port-forwarding/discard", async (req, res) => {
     try {
-      const devices = await storage.getConnectedDevices();
-      res.json(devices);
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to reload port forwarding rules" });
+      }
+
+      await syncPortForwardingRules(req.routerId, req.sshClient, true);
+      res.json({ message: "Reloaded port forwarding rules from router" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get connected devices" });
+      console.error("Port forwarding discard failed:", error);
+      res.status(500).json({ message: "Failed to reload port forwarding rules from router" });
     }
   });
 
-  app.get("/api/devices/:id", async (req, res) => {
+  app.get("/api/port-forwarding/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const device = await storage.getConnectedDevice(id);
-      if (!device) {
-        return res.status(404).json({ message: "Device not found" });
+      const rule = await storage.getPortForwardingRule(req.routerId, id);
+      if (!rule) {
+        return res.status(404).json({ message: "Port forwarding rule not found" });
       }
-      res.json(device);
+      res.json(rule);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get device" });
+      res.status(500).json({ message: "Failed to get port forwarding rule" });
     }
   });
 
-  app.post("/api/devices", async (req, res) => {
+  app.post("/api/port-forwarding", async (req, res) => {
     try {
-      const validatedData = insertConnectedDeviceSchema.parse(req.body);
-      const device = await storage.createConnectedDevice(validatedData);
-      res.status(201).json(device);
+      const validatedData = insertPortForwardingRuleSchema.parse(req.body);
+      const rule = await storage.createPortForwardingRule(req.routerId, validatedData);
+      res.status(201).json(rule);
     } catch (error) {
-      res.status(400).json({ message: "Invalid device data" });
+      res.status(400).json({ message: "Invalid port forwarding rule data" });
     }
   });
 
-  app.put("/api/devices/:id", async (req, res) => {
+  app.put("/api/port-forwarding/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertConnectedDeviceSchema.partial().parse(req.body);
-      const device = await storage.updateConnectedDevice(id, validatedData);
-      if (!device) {
-        return res.status(404).json({ message: "Device not found" });
+      const validatedData = insertPortForwardingRuleSchema.partial().parse(req.body);
+      const rule = await storage.updatePortForwardingRule(req.routerId, id, validatedData);
+      if (!rule) {
+        return res.status(404).json({ message: "Port forwarding rule not found" });
       }
-      res.json(device);
+      res.json(rule);
     } catch (error) {
-      res.status(400).json({ message: "Invalid device data" });
+      res.status(400).json({ message: "Invalid port forwarding rule data" });
     }
   });
 
-  app.delete("/api/devices/:id", async (req, res) => {
+  app.delete("/api/port-forwarding/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteConnectedDevice(id);
+      const deleted = await storage.deletePortForwardingRule(req.routerId, id);
       if (!deleted) {
-        return res.status(404).json({ message: "Device not found" });
+        return res.status(404).json({ message: "Port forwarding rule not found" });
       }
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete device" });
+      res.status(500).json({ message: "Failed to delete port forwarding rule" });
     }
   });
 
-  // WiFi Networks Routes
-  app.get("/api/wifi", async (req, res) => {
+  // DHCP Reservations Routes
+  app.get("/api/dhcp-reservations", async (req, res) => {
     try {
-      const networks = await storage.getWifiNetworks();
-      res.json(networks);
+      const reservations = await storage.getDhcpReservations(req.routerId);
+      res.json(reservations);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get WiFi networks" });
+      res.status(500).json({ message: "Failed to get DHCP reservations" });
     }
   });
 
-  app.get("/api/wifi/:id", async (req, res) => {
+  // The LAN addressing the reservations are checked against, read live from the router
+  app.get("/api/dhcp-reservations/network", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const network = await storage.getWifiNetwork(id);
-      if (!network) {
-        return res.status(404).json({ message: "WiFi network not found" });
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to read the LAN settings" });
       }
-      res.json(network);
+
+      const { lanIp, netmask, rangeStart, rangeEnd, manualAssignment } = await readDhcpConfig(req.sshClient);
+      res.json({ lanIp, netmask, rangeStart, rangeEnd, manualAssignment });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get WiFi network" });
+      console.error("DHCP settings read failed:", error);
+      res.status(500).json({ message: "Failed to read LAN settings from router" });
     }
   });
 
-  app.post("/api/wifi", async (req, res) => {
+  app.get("/api/dhcp-reservations/export", async (req, res) => {
     try {
-      const validatedData = insertWifiNetworkSchema.parse(req.body);
-      const network = await storage.createWifiNetwork(validatedData);
-      res.status(201).json(network);
+      const router = await storage.getRouter(req.routerId);
+      const reservations = await storage.getDhcpReservations(req.routerId);
+      const name = (router?.name ?? "router").replace(/[^A-Za-z0-9_-]+/g, "-");
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${name}-dhcp-reservations.csv"`);
+      res.send(reservationsToCsv(reservations));
     } catch (error) {
-      res.status(400).json({ message: "Invalid WiFi network data" });
+      res.status(500).json({ message: "Failed to export DHCP reservations" });
     }
   });
 
-  app.put("/api/wifi/:id", async (req, res) => {
+  // Validates the edited list against the router's LAN and leases, then writes it and restarts
+  // dnsmasq; conflicts come back as a 400 listing every problem found. Edits are made to the list
+  // read from the router, not to our copy, so changes made on the router are never overwritten.
+  const saveDhcpReservations = async (
+    req: express.Request,
+    res: express.Response,
+    update: (reservations: InsertDhcpReservation[]) => InsertDhcpReservation[],
+    description: string,
+    status = 200,
+  ) => {
+    if (!req.sshClient.isConnectionActive()) {
+      return res.status(400).json({ message: "SSH connection required to change DHCP reservations" });
+    }
+
+    const plan = await planDhcpReservations(req.sshClient, update);
+    if (plan.errors.length > 0) {
+      return res.status(400).json({ message: plan.errors[0], errors: plan.errors });
+    }
+
+    const reservations = await applyDhcpReservations(req.routerId, req.sshClient, plan, description, req.user?.username ?? "system");
+    res.status(status).json(reservations);
+  };
+
+  app.post("/api/dhcp-reservations", async (req, res) => {
+    const parsed = insertDhcpReservationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid DHCP reservation" });
+    }
+
     try {
-      const id = parseInt(req.params.id);
-      const validatedData = insertWifiNetworkSchema.partial().parse(req.body);
-      const network = await storage.updateWifiNetwork(id, validatedData);
-      if (!network) {
-        return res.status(404).json({ message: "WiFi network not found" });
+      const reservation = { ...parsed.data, macAddress: normalizeMac(parsed.data.macAddress) };
+      await saveDhcpReservations(req, res, reservations => [...reservations, reservation], `Reserve ${reservation.ipAddress} for ${reservation.hostname || reservation.macAddress}`, 201);
+    } catch (error) {
+      console.error("DHCP reservation create failed:", error);
+      res.status(500).json({ message: `Failed to create DHCP reservation: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // Import merges by MAC address unless ?mode=replace, which makes the file the whole list
+  app.post("/api/dhcp-reservations/import", express.text({ type: "*/*", limit: "1mb" }), async (req, res) => {
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      return res.status(400).json({ message: "CSV file content is required" });
+    }
+
+    const { rows, lineNumbers } = parseReservationsCsv(req.body);
+    const imported: InsertDhcpReservation[] = [];
+    const errors: string[] = [];
+    rows.forEach((row, index) => {
+      const parsed = insertDhcpReservationSchema.safeParse(row);
+      if (parsed.success) {
+        imported.push({ ...parsed.data, macAddress: normalizeMac(parsed.data.macAddress) });
+      } else {
+        errors.push(`Line ${lineNumbers[index]}: ${parsed.error.errors[0]?.message ?? "Invalid reservation"}`);
       }
-      res.json(network);
+    });
+    if (errors.length > 0) {
+      return res.status(400).json({ message: errors[0], errors });
+    }
+    if (imported.length === 0) {
+      return res.status(400).json({ message: "No reservations found; expected mac_address,ip_address,hostname,dns_server columns" });
+    }
+
+    try {
+      const replace = req.query.mode === "replace";
+      await saveDhcpReservations(req, res, reservations => {
+        if (replace) return imported;
+        const byMac = new Map(imported.map(reservation => [reservation.macAddress, reservation]));
+        const merged = reservations.map(existing => byMac.get(existing.macAddress) ?? existing);
+        const existingMacs = new Set(reservations.map(existing => existing.macAddress));
+        return [...merged, ...imported.filter(reservation => !existingMacs.has(reservation.macAddress))];
+      }, `Import ${imported.length} DHCP reservation${imported.length === 1 ? "" : "s"}${replace ? " replacing the list" : ""}`);
     } catch (error) {
-      res.status(400).json({ message: "Invalid WiFi network data" });
+      console.error("DHCP reservation import failed:", error);
+      res.status(500).json({ message: `Failed to import DHCP reservations: ${error instanceof Error ? error.message : "Unknown error"}` });
     }
   });
 
-  app.delete("/api/wifi/:id", async (req, res) => {
+  app.put("/api/dhcp-reservations/:id", async (req, res) => {
+    const parsed = insertDhcpReservationSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid DHCP reservation" });
+    }
+
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteWifiNetwork(id);
-      if (!deleted) {
-        return res.status(404).json({ message: "WiFi network not found" });
+      const current = await storage.getDhcpReservation(req.routerId, parseInt(req.params.id));
+      if (!current) {
+        return res.status(404).json({ message: "DHCP reservation not found" });
       }
-      res.status(204).send();
+      const changes = { ...parsed.data, ...(parsed.data.macAddress ? { macAddress: normalizeMac(parsed.data.macAddress) } : {}) };
+      await saveDhcpReservations(
+        req,
+        res,
+        reservations => reservations.map(existing => existing.macAddress === current.macAddress ? { ...existing, ...changes } : existing),
+        `Update DHCP reservation for ${current.hostname || current.macAddress}`,
+      );
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete WiFi network" });
+      console.error("DHCP reservation update failed:", error);
+      res.status(500).json({ message: `Failed to update DHCP reservation: ${error instanceof Error ? error.message : "Unknown error"}` });
     }
   });
 
-  // Port Forwarding Rules Routes
-  app.get("/api/port-forwarding", async (req, res) => {
+  app.delete("/api/dhcp-reservations/:id", async (req, res) => {
     try {
-      const rules = await storage.getPortForwardingRules();
-      res.json(rules);
+      const current = await storage.getDhcpReservation(req.routerId, parseInt(req.params.id));
+      if (!current) {
+        return res.status(404).json({ message: "DHCP reservation not found" });
+      }
+      await saveDhcpReservations(
+        req,
+        res,
+        reservations => reservations.filter(existing => existing.macAddress !== current.macAddress),
+        `Remove DHCP reservation for ${current.hostname || current.macAddress}`,
+      );
     } catch (error) {
-      res.status(500).json({ message: "Failed to get port forwarding rules" });
+      console.error("DHCP reservation delete failed:", error);
+      res.status(500).json({ message: `Failed to delete DHCP reservation: ${error instanceof Error ? error.message : "Unknown error"}` });
     }
   });
 
-  app.get("/api/port-forwarding/:id", async (req, res) => {
+  // Wake-on-LAN schedules; the wake job checks them every minute
+  app.get("/api/wake-schedules", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const rule = await storage.getPortForwardingRule(id);
-      if (!rule) {
-        return res.status(404).json({ message: "Port forwarding rule not found" });
-      }
-      res.json(rule);
+      res.json(await storage.getWakeSchedules(req.routerId));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get port forwarding rule" });
+      res.status(500).json({ message: "Failed to fetch wake schedules" });
     }
   });
 
-  app.post("/api/port-forwarding", async (req, res) => {
+  app.post("/api/wake-schedules", async (req, res) => {
     try {
-      const validatedData = insertPortForwardingRuleSchema.parse(req.body);
-      const rule = await storage.createPortForwardingRule(validatedData);
-      res.status(201).json(rule);
+      const parsed = insertWakeScheduleSchema.safeParse({
+        ...req.body,
+        days: Array.isArray(req.body?.days) ? JSON.stringify(req.body.days) : null,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid wake schedule data" });
+      }
+      const problem = wakeScheduleProblem(parsed.data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      if (parsed.data.runAt && parsed.data.runAt <= new Date()) {
+        return res.status(400).json({ message: "A one-off wake must be in the future" });
+      }
+
+      const schedule = await storage.createWakeSchedule(req.routerId, {
+        ...parsed.data,
+        macAddress: parsed.data.macAddress ? normalizeMac(parsed.data.macAddress) : null,
+        lastRunAt: null,
+        lastStatus: null,
+        lastResult: null,
+        createdBy: req.user?.username ?? "system",
+      });
+      res.status(201).json(schedule);
     } catch (error) {
-      res.status(400).json({ message: "Invalid port forwarding rule data" });
+      res.status(500).json({ message: "Failed to create wake schedule" });
     }
   });
 
-  app.put("/api/port-forwarding/:id", async (req, res) => {
+  app.put("/api/wake-schedules/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertPortForwardingRuleSchema.partial().parse(req.body);
-      const rule = await storage.updatePortForwardingRule(id, validatedData);
-      if (!rule) {
-        return res.status(404).json({ message: "Port forwarding rule not found" });
+      const current = await storage.getWakeSchedule(req.routerId, id);
+      if (!current) {
+        return res.status(404).json({ message: "Wake schedule not found" });
       }
-      res.json(rule);
+      const parsed = insertWakeScheduleSchema
+        .pick({ name: true, days: true, time: true, runAt: true, confirmWithPing: true, isEnabled: true })
+        .partial()
+        .safeParse({
+          ...req.body,
+          ...(req.body?.days !== undefined && { days: Array.isArray(req.body.days) ? JSON.stringify(req.body.days) : null }),
+        });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid wake schedule data" });
+      }
+      const problem = wakeScheduleProblem({ ...current, ...parsed.data });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      if (parsed.data.runAt && parsed.data.runAt <= new Date()) {
+        return res.status(400).json({ message: "A one-off wake must be in the future" });
+      }
+
+      res.json(await storage.updateWakeSchedule(req.routerId, id, parsed.data));
     } catch (error) {
-      res.status(400).json({ message: "Invalid port forwarding rule data" });
+      res.status(500).json({ message: "Failed to update wake schedule" });
     }
   });
 
-  app.delete("/api/port-forwarding/:id", async (req, res) => {
+  app.delete("/api/wake-schedules/:id", async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deletePortForwardingRule(id);
+      const deleted = await storage.deleteWakeSchedule(req.routerId, parseInt(req.params.id));
       if (!deleted) {
-        return res.status(404).json({ message: "Port forwarding rule not found" });
+        return res.status(404).json({ message: "Wake schedule not found" });
       }
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete port forwarding rule" });
+      res.status(500).json({ message: "Failed to delete wake schedule" });
     }
   });
 
@@ -254,7 +1446,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 24;
-      const data = await storage.getBandwidthData(limit);
+      const data = await storage.getBandwidthData(req.routerId, limit);
       
       // Add a timestamp to ensure response uniqueness
       const response = {
@@ -269,10 +1461,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/bandwidth/top-talkers", async (req, res) => {
+    try {
+      const hours = Math.min(parseFloat(req.query.hours as string) || 24, 24 * 7);
+      const limit = parseInt(req.query.limit as string) || 10;
+      res.json(await getTopTalkers(req.routerId, hours, limit));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get top talkers" });
+    }
+  });
+
   app.post("/api/bandwidth", async (req, res) => {
     try {
       const validatedData = insertBandwidthDataSchema.parse(req.body);
-      const data = await storage.addBandwidthData(validatedData);
+      const data = await storage.addBandwidthData(req.routerId, validatedData);
+      liveEvents.publishBandwidth(req.routerId, data);
       res.status(201).json(data);
     } catch (error) {
       res.status(400).json({ message: "Invalid bandwidth data" });
@@ -280,7 +1483,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // System Actions Routes
-  app.post("/api/system/reboot", async (req, res) => {
+  app.post("/api/system/reboot", requireRole("admin"), async (req, res) => {
     try {
       // In a real implementation, this would trigger a router reboot
       res.json({ message: "Router reboot initiated" });
@@ -291,13 +1494,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/system/speed-test", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required for speed test" });
       }
       
       // Run real speed test using router's built-in capabilities
       const speedTestCommand = `wget -O /dev/null http://speedtest.wdc01.softlayer.com/downloads/test10.zip 2>&1 | grep 'saved' | awk '{print $3 $4}' && ping -c 4 8.8.8.8 | tail -1 | awk -F'/' '{print $5}'`;
-      const result = await sshClient.executeCommand(speedTestCommand);
+      const result = await req.sshClient.executeCommand(speedTestCommand);
       
       // Parse the results (this is a simplified implementation)
       const lines = result.split('\n');
@@ -318,15 +1521,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/system/firmware-update", async (req, res) => {
+  app.post("/api/system/firmware-update", requireRole("admin"), async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required to check firmware updates" });
       }
       
       // Check current firmware version and available updates
       const firmwareCheckCommand = `nvram get buildno && nvram get extendno && cat /tmp/webs_state.txt | grep webs_state_info`;
-      const result = await sshClient.executeCommand(firmwareCheckCommand);
+      const result = await req.sshClient.executeCommand(firmwareCheckCommand);
       
       const lines = result.split('\n').filter(line => line.trim());
       const currentBuild = lines[0] || 'Unknown';
@@ -347,24 +1550,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/system/backup", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required to create backup" });
       }
-      
-      // Create real configuration backup using ASUS router commands
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-      const backupFilename = `router-backup-${timestamp}.cfg`;
-      
-      // Export NVRAM settings to create a proper backup
-      const backupCommand = `nvram save && tar -czf /tmp/${backupFilename} /jffs/nvram/* 2>/dev/null || echo "Backup created"`;
-      const result = await sshClient.executeCommand(backupCommand);
-      
-      res.json({ 
+
+      const backup = await captureConfigBackup(req.routerId, req.sshClient, {
+        source: "manual",
+        createdBy: req.user?.username ?? "system",
+        label: typeof req.body?.label === "string" ? req.body.label.trim() : null,
+      });
+
+      res.json({
         message: "Configuration backup created successfully",
-        filename: backupFilename,
-        location: `/tmp/${backupFilename}`,
-        size: "Backup completed",
-        timestamp: new Date().toISOString()
+        filename: configBackupFilename(backup),
+        backup: summarizeConfigBackup(backup),
       });
     } catch (error) {
       console.error("Backup creation failed:", error);
@@ -372,145 +1571,182 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/system/factory-reset", async (req, res) => {
+  // Config backup history
+  app.get("/api/config-backups", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
-        return res.status(400).json({ message: "SSH connection required for factory reset" });
+      const backups = await storage.getConfigBackups(req.routerId);
+      res.json(backups.map(summarizeConfigBackup));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch config backups" });
+    }
+  });
+
+  // `to` may be "current" to compare a backup against the router's live config
+  app.get("/api/config-backups/compare", async (req, res) => {
+    try {
+      const fromBackup = await storage.getConfigBackup(req.routerId, parseInt(String(req.query.from)));
+      if (!fromBackup) {
+        return res.status(404).json({ message: "Backup not found" });
       }
-      
-      // Execute factory reset command on ASUS router
-      const factoryResetCommand = "mtd-erase -d nvram && reboot";
-      await sshClient.executeCommand(factoryResetCommand);
-      
-      res.json({ 
-        message: "Factory reset initiated successfully",
-        warning: "Router will reboot with default settings",
-        estimatedDowntime: "3-5 minutes",
-        timestamp: new Date().toISOString()
+
+      let to;
+      if (req.query.to === "current") {
+        if (!req.sshClient.isConnectionActive()) {
+          return res.status(400).json({ message: "SSH connection required to compare with the router" });
+        }
+        to = await readRouterConfig(req.sshClient);
+      } else {
+        const toBackup = await storage.getConfigBackup(req.routerId, parseInt(String(req.query.to)));
+        if (!toBackup) {
+          return res.status(404).json({ message: "Backup not found" });
+        }
+        to = backupContents(toBackup);
+      }
+
+      res.json(diffConfigs(backupContents(fromBackup), to));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compare backups" });
+    }
+  });
+
+  // The download holds every password on the router, so only admins get it
+  app.get("/api/config-backups/:id/download", requireRole("admin"), async (req, res) => {
+    try {
+      const backup = await storage.getConfigBackup(req.routerId, parseInt(req.params.id));
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="${configBackupFilename(backup)}"`);
+      res.json(exportConfigBackup(backup));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download backup" });
+    }
+  });
+
+  app.put("/api/config-backups/:id", async (req, res) => {
+    try {
+      const label = typeof req.body?.label === "string" ? req.body.label.trim() : "";
+      const backup = await storage.updateConfigBackup(req.routerId, parseInt(req.params.id), { label: label || null });
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      res.json(summarizeConfigBackup(backup));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update backup" });
+    }
+  });
+
+  app.delete("/api/config-backups/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteConfigBackup(req.routerId, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      res.json({ message: "Backup deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete backup" });
+    }
+  });
+
+  app.get("/api/config-backups/:id/restore-preview", requireRole("admin"), async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to preview a restore" });
+      }
+      const backup = await storage.getConfigBackup(req.routerId, parseInt(req.params.id));
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      const current = await readRouterConfig(req.sshClient);
+      const plan = planRestore(backup, current);
+      res.json({
+        diff: diffConfigs(current, backupContents(backup)),
+        changeCount: Object.keys(plan.changes).length,
+        skipped: plan.skipped,
+        kept: plan.kept,
+        scripts: Object.keys(plan.scripts),
       });
     } catch (error) {
-      console.error("Factory reset failed:", error);
-      res.status(500).json({ message: `Failed to perform factory reset: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      res.status(500).json({ message: "Failed to preview restore" });
     }
   });
 
-  // WiFi Management Routes
-  app.post("/api/wifi/scan", async (req, res) => {
+  // Guarded: the caller has to type RESTORE, the current config is backed up first and the
+  // NVRAM write is rolled back if the router doesn't come back healthy
+  app.post("/api/config-backups/:id/restore", requireRole("admin"), async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
-        return res.status(400).json({ message: "SSH connection required for WiFi scan" });
+      if (req.body?.confirm !== "RESTORE") {
+        return res.status(400).json({ message: "Type RESTORE to confirm" });
       }
-      
-      // Try WiFi scan command first, fallback to router configuration if it fails
-      const scanCommand = `for i in $(nvram get wl_ifnames); do echo "🔍 $i"; wl -i $i scan; sleep 3; wl -i $i scanresults; done`;
-      
-      let scanResult = '';
-      let useConfigFallback = false;
-      
-      try {
-        console.log('Running WiFi scan with your command...');
-        scanResult = await sshClient.executeCommand(scanCommand);
-        console.log('WiFi scan completed, parsing results...');
-      } catch (error) {
-        console.log('WiFi scan failed, using router configuration as fallback...');
-        useConfigFallback = true;
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to restore a backup" });
+      }
+      const backup = await storage.getConfigBackup(req.routerId, parseInt(req.params.id));
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+
+      const result = await restoreConfigBackup(req.routerId, req.sshClient, backup, {
+        includeScripts: req.body.includeScripts === true,
+        createdBy: req.user?.username ?? "system",
+      });
+
+      if (result.changeSet && result.changeSet.status !== "applied") {
+        return res.status(500).json({
+          message: result.changeSet.errorMessage || "Restore was not applied",
+          changeSet: maskChangeSet(result.changeSet),
+          preRestoreBackupId: result.preRestoreBackupId,
+        });
+      }
+
+      const restored = result.changeSet ? Object.keys(result.plan.changes).length : 0;
+      res.json({
+        message: restored + result.scriptsWritten.length > 0
+          ? `Restored ${restored} settings and ${result.scriptsWritten.length} scripts; reboot the router for every service to pick them up`
+          : "The router already matches this backup",
+        changeSet: result.changeSet && maskChangeSet(result.changeSet),
+        preRestoreBackupId: result.preRestoreBackupId,
+        skipped: result.plan.skipped,
+      });
+    } catch (error) {
+      console.error("Backup restore failed:", error);
+      res.status(500).json({ message: `Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  app.post("/api/system/factory-reset", requireRole("admin"), async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required for factory reset" });
       }
       
-      const networks = [];
-      const seenNetworks = new Set(); // Avoid duplicates
+      // Execute factory reset command on ASUS router
+      const factoryResetCommand = "mtd-erase -d nvram && reboot";
+      await req.sshClient.executeCommand(factoryResetCommand);
       
-      if (useConfigFallback) {
-        // Use your actual router WiFi configuration as fallback
-        try {
-          const wifiNetworks = await sshClient.getWiFiNetworks();
-          console.log(`Using router configuration, found ${wifiNetworks.length} networks`);
-          
-          for (const network of wifiNetworks) {
-            if (network.ssid && network.ssid.trim() && !seenNetworks.has(network.ssid)) {
-              seenNetworks.add(network.ssid);
-              networks.push({
-                ssid: network.ssid,
-                channel: network.band === '2.4GHz' ? 6 : (network.band === '5GHz' ? 36 : 149),
-                rssi: -35, // Strong signal for your own networks
-                security: 'WPA2',
-                band: network.band,
-                isOwnNetwork: true
-              });
-            }
-          }
-        } catch (fallbackError) {
-          console.error("Fallback also failed:", fallbackError);
-          return res.status(500).json({ 
-            message: "Unable to retrieve WiFi network information",
-            networks: []
-          });
-        }
-      } else if (scanResult && scanResult.trim()) {
-        const lines = scanResult.split('\n');
-        let currentInterface = '';
-        
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim();
-          
-          // Track which interface we're processing
-          if (line.includes('🔍')) {
-            currentInterface = line.replace('🔍', '').trim();
-            continue;
-          }
-          
-          // Parse SSID from scan results
-          if (line.includes('SSID:')) {
-            const ssidMatch = line.match(/SSID:\s*"([^"]*)"/) || line.match(/SSID:\s*(.+)/);
-            if (ssidMatch) {
-              const ssid = ssidMatch[1].trim().replace(/['"]/g, '');
-              if (!ssid || ssid === '' || ssid === 'Broadcast' || seenNetworks.has(ssid)) continue;
-              
-              let channel = 6;
-              let rssi = -70;
-              let security = 'Open';
-              let band = '2.4GHz';
-              
-              // Look for associated data in nearby lines
-              for (let j = Math.max(0, i-5); j < Math.min(i + 10, lines.length); j++) {
-                const dataLine = lines[j];
-                
-                // Parse channel
-                const channelMatch = dataLine.match(/Channel:\s*(\d+)/) || dataLine.match(/primary channel:\s*(\d+)/i);
-                if (channelMatch) {
-                  channel = parseInt(channelMatch[1]);
-                  band = channel > 14 ? '5GHz' : '2.4GHz';
-                }
-                
-                // Parse RSSI/signal strength
-                const rssiMatch = dataLine.match(/RSSI:\s*(-?\d+)/) || dataLine.match(/Signal:\s*(-?\d+)/);
-                if (rssiMatch) {
-                  rssi = parseInt(rssiMatch[1]);
-                }
-                
-                // Parse security
-                if (dataLine.includes('WPA3')) security = 'WPA3';
-                else if (dataLine.includes('WPA2')) security = 'WPA2';
-                else if (dataLine.includes('WPA')) security = 'WPA';
-                else if (dataLine.includes('WEP')) security = 'WEP';
-                else if (dataLine.includes('Privacy')) security = 'WPA2';
-              }
-              
-              // Normalize and add network
-              seenNetworks.add(ssid);
-              networks.push({
-                ssid,
-                channel,
-                rssi,
-                security,
-                band,
-                interface: currentInterface
-              });
-            }
-          }
-        }
+      res.json({ 
+        message: "Factory reset initiated successfully",
+        warning: "Router will reboot with default settings",
+        estimatedDowntime: "3-5 minutes",
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error("Factory reset failed:", error);
+      res.status(500).json({ message: `Failed to perform factory reset: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  // WiFi Management Routes
+  app.post("/api/wifi/scan", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required for WiFi scan" });
       }
-      
-      res.json({ networks, scannedAt: new Date().toISOString() });
+
+      const networks = await runWifiScan(req.routerId, req.sshClient);
+      res.json({ networks, scannedAt: networks[0]?.scannedAt ?? new Date() });
     } catch (error) {
       console.error("WiFi scan failed:", error);
       res.status(500).json({ message: `WiFi scan failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
@@ -519,13 +1755,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/wifi/restart", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required to restart WiFi" });
       }
       
       // Restart WiFi radios on ASUS router
       const restartCommand = `service restart_wireless && sleep 2 && wl radio on && wl -i eth2 radio on`;
-      await sshClient.executeCommand(restartCommand);
+      await req.sshClient.executeCommand(restartCommand);
       
       res.json({ 
         message: "WiFi radios restarted successfully",
@@ -540,7 +1776,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AiMesh Management Routes with Authentic SSH Detection
   app.get("/api/aimesh/nodes", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required for AiMesh data" });
       }
       
@@ -548,10 +1784,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const aimeshCommand = `cat /var/lib/misc/dnsmasq.leases | grep -Ei 'rp-|rt-|aimesh|asus'`;
       
       // First check what router we're connected to
-      const routerCheck = await sshClient.executeCommand('hostname && whoami && pwd');
+      const routerCheck = await req.sshClient.executeCommand('hostname && whoami && pwd');
       console.log('SSH CONNECTED TO:', routerCheck);
       
-      const aimeshLeases = await sshClient.executeCommand(aimeshCommand);
+      const aimeshLeases = await req.sshClient.executeCommand(aimeshCommand);
       
       // Log what your command finds - with more detail
       console.log('\n======== DEBUG: AiMesh SSH Command ========');
@@ -695,7 +1931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/aimesh/scan", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required for AiMesh scan" });
       }
       
@@ -709,7 +1945,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ];
       
       const scanResults = await Promise.all(
-        scanCommands.map(cmd => sshClient.executeCommand(cmd).catch(err => `No data: ${err.message}`))
+        scanCommands.map(cmd => req.sshClient.executeCommand(cmd).catch(err => `No data: ${err.message}`))
       );
       
       const [meshLogs, assocLogs, staInfo, wirelessData, dhcpAsus] = scanResults;
@@ -770,13 +2006,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/aimesh/optimize", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection required for AiMesh optimization" });
       }
       
-      // Optimize AiMesh network performance
+      // This stays outside NVRAM change sets on purpose: cfg_mnt picks the new backhaul and channel
+      // settings itself, so there are no key/value edits to stage, snapshot or read back for health,
+      // and a rollback could only restore keys it never knew were touched. The commit and wireless
+      // restart persist and apply whatever cfg_mnt chose.
       const optimizeCommand = `cfg_mnt optimize_network && nvram commit && service restart_wireless`;
-      await sshClient.executeCommand(optimizeCommand);
+      await req.sshClient.executeCommand(optimizeCommand);
       
       res.json({ 
         message: "AiMesh network optimization completed",
@@ -788,35 +2027,369 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced Port Forwarding Routes
-  app.post("/api/port-forwarding/apply", async (req, res) => {
+  // NVRAM Change Set Routes
+  app.get("/api/nvram/change-sets", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
-        return res.status(400).json({ message: "SSH connection required to apply port forwarding rules" });
+      const changeSets = await storage.getNvramChangeSets(req.routerId);
+      res.json(changeSets.map(maskChangeSet));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get NVRAM change sets" });
+    }
+  });
+
+  app.get("/api/nvram/change-sets/:id/preview", async (req, res) => {
+    try {
+      const changeSet = await storage.getNvramChangeSet(req.routerId, parseInt(req.params.id));
+      if (!changeSet) {
+        return res.status(404).json({ message: "Change set not found" });
       }
-      
-      // Apply port forwarding rules to router using real ASUS commands
-      const applyCommand = `nvram commit && service restart_firewall`;
-      await sshClient.executeCommand(applyCommand);
-      
-      res.json({ 
-        message: "Port forwarding rules applied successfully",
-        timestamp: new Date().toISOString()
+      res.json(maskNvramDiffEntries(await previewNvramChangeSet(req.sshClient, changeSet)));
+    } catch (error) {
+      console.error("NVRAM change set preview failed:", error);
+      res.status(500).json({ message: "Failed to read current NVRAM values" });
+    }
+  });
+
+  // Raw NVRAM edits can break anything on the router, so staging them by hand is admin-only
+  app.post("/api/nvram/change-sets", requireRole("admin"), async (req, res) => {
+    try {
+      const { description, changes, services = [] } = req.body ?? {};
+      if (typeof description !== "string" || !description.trim() || !changes || typeof changes !== "object" || !Array.isArray(services)) {
+        return res.status(400).json({ message: "A description, changes and a services list are required" });
+      }
+      const validationError = validateNvramChanges(changes, services);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const changeSet = await stageNvramChanges(req.routerId, {
+        description: description.trim(),
+        changes,
+        services,
+        createdBy: req.user?.username ?? "system",
       });
+      res.status(201).json(maskChangeSet(changeSet));
     } catch (error) {
-      console.error("Port forwarding apply failed:", error);
-      res.status(500).json({ message: `Failed to apply port forwarding rules: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      res.status(500).json({ message: "Failed to stage NVRAM changes" });
+    }
+  });
+
+  app.post("/api/nvram/change-sets/:id/apply", requireRole("admin"), async (req, res) => {
+    try {
+      const changeSet = await storage.getNvramChangeSet(req.routerId, parseInt(req.params.id));
+      if (!changeSet) {
+        return res.status(404).json({ message: "Change set not found" });
+      }
+      if (changeSet.status !== "staged") {
+        return res.status(409).json({ message: `Change set is already ${changeSet.status.replace("_", " ")}` });
+      }
+
+      const result = await applyNvramChangeSet(req.routerId, changeSet);
+      if (result.status !== "applied") {
+        return res.status(500).json({ message: result.errorMessage || "Change set was not applied", changeSet: maskChangeSet(result) });
+      }
+      res.json(maskChangeSet(result));
+    } catch (error) {
+      console.error("NVRAM change set apply failed:", error);
+      res.status(500).json({ message: `Failed to apply change set: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  });
+
+  app.post("/api/nvram/change-sets/:id/discard", requireRole("admin"), async (req, res) => {
+    try {
+      const changeSet = await storage.getNvramChangeSet(req.routerId, parseInt(req.params.id));
+      if (!changeSet) {
+        return res.status(404).json({ message: "Change set not found" });
+      }
+      if (changeSet.status !== "staged") {
+        return res.status(409).json({ message: `Change set is already ${changeSet.status.replace("_", " ")}` });
+      }
+
+      const result = await storage.updateNvramChangeSet(req.routerId, changeSet.id, { status: "discarded" });
+      res.json(result && maskChangeSet(result));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to discard change set" });
+    }
+  });
+
+  // NVRAM Snapshot / Drift Routes
+  app.get("/api/nvram/drift", async (req, res) => {
+    try {
+      res.json(await getDriftSummary(req.routerId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch configuration drift" });
+    }
+  });
+
+  app.post("/api/nvram/drift/acknowledge", async (req, res) => {
+    try {
+      const { unacknowledged } = await getDriftSummary(req.routerId);
+      for (const snapshot of unacknowledged) {
+        await storage.updateNvramSnapshot(req.routerId, snapshot.id, {
+          acknowledgedBy: req.user?.username ?? "system",
+          acknowledgedAt: new Date(),
+        });
+      }
+      res.json({ message: `Acknowledged ${unacknowledged.length} drift events` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to acknowledge drift" });
+    }
+  });
+
+  app.get("/api/nvram/snapshots", async (req, res) => {
+    try {
+      const snapshots = await storage.getNvramSnapshots(req.routerId);
+      res.json(snapshots.map(summarizeNvramSnapshot));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch NVRAM snapshots" });
+    }
+  });
+
+  app.post("/api/nvram/snapshots", async (req, res) => {
+    try {
+      if (!req.sshClient.isConnectionActive()) {
+        return res.status(400).json({ message: "SSH connection required to take a snapshot" });
+      }
+
+      const { snapshot, created } = await captureNvramSnapshot(req.routerId, req.sshClient);
+      res.json({
+        message: created ? `Snapshot saved with ${snapshot.changeCount} changed settings` : "No settings changed since the last snapshot",
+        snapshot: summarizeNvramSnapshot(snapshot),
+        created,
+      });
+    } catch (error) {
+      console.error("NVRAM snapshot failed:", error);
+      res.status(500).json({ message: "Failed to take NVRAM snapshot" });
+    }
+  });
+
+  app.get("/api/nvram/snapshots/:id/diff", async (req, res) => {
+    try {
+      const snapshot = await storage.getNvramSnapshot(req.routerId, parseInt(req.params.id));
+      if (!snapshot) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      const against = req.query.against === "baseline" ? "baseline" : "previous";
+      res.json(await diffNvramSnapshot(req.routerId, snapshot, against));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to diff NVRAM snapshot" });
+    }
+  });
+
+  app.post("/api/nvram/snapshots/:id/baseline", requireRole("admin"), async (req, res) => {
+    try {
+      const snapshot = await storage.getNvramSnapshot(req.routerId, parseInt(req.params.id));
+      if (!snapshot) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      const baseline = await pinNvramBaseline(req.routerId, snapshot);
+      res.json(summarizeNvramSnapshot(baseline));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to pin baseline" });
+    }
+  });
+
+  app.post("/api/nvram/snapshots/:id/acknowledge", async (req, res) => {
+    try {
+      const snapshot = await storage.updateNvramSnapshot(req.routerId, parseInt(req.params.id), {
+        acknowledgedBy: req.user?.username ?? "system",
+        acknowledgedAt: new Date(),
+      });
+      if (!snapshot) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      res.json(summarizeNvramSnapshot(snapshot));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to acknowledge snapshot" });
+    }
+  });
+
+  // Alerting Routes
+  app.get("/api/alerts/channels", async (req, res) => {
+    try {
+      const channels = await storage.getAlertChannels();
+      res.json(channels.map(summarizeAlertChannel));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alert channels" });
+    }
+  });
+
+  app.post("/api/alerts/channels", requireRole("admin"), async (req, res) => {
+    try {
+      const { secret, config, ...rest } = req.body;
+      const channelData = insertAlertChannelSchema.parse({
+        ...rest,
+        config: JSON.stringify(config ?? {}),
+        encryptedSecret: encryptChannelSecret(secret),
+      });
+      const configError = validateChannelConfig(channelData.type as AlertChannelType, config ?? {});
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      const channel = await storage.createAlertChannel(channelData);
+      res.status(201).json(summarizeAlertChannel(channel));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid alert channel data" });
+    }
+  });
+
+  app.put("/api/alerts/channels/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getAlertChannel(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Alert channel not found" });
+      }
+
+      // Leaving the secret blank keeps the stored one
+      const { secret, config, ...rest } = req.body;
+      const channelData = insertAlertChannelSchema.partial().parse({
+        ...rest,
+        ...(config !== undefined && { config: JSON.stringify(config) }),
+        ...(secret && { encryptedSecret: encryptChannelSecret(secret) }),
+      });
+      if (config !== undefined) {
+        const configError = validateChannelConfig((channelData.type ?? existing.type) as AlertChannelType, config);
+        if (configError) {
+          return res.status(400).json({ message: configError });
+        }
+      }
+
+      const channel = await storage.updateAlertChannel(existing.id, channelData);
+      res.json(summarizeAlertChannel(channel!));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid alert channel data" });
+    }
+  });
+
+  app.delete("/api/alerts/channels/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAlertChannel(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Alert channel not found" });
+      }
+      res.json({ message: "Alert channel deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete alert channel" });
+    }
+  });
+
+  app.post("/api/alerts/channels/:id/test", requireRole("admin"), async (req, res) => {
+    try {
+      const channel = await storage.getAlertChannel(parseInt(req.params.id));
+      if (!channel) {
+        return res.status(404).json({ message: "Alert channel not found" });
+      }
+
+      const delivery = await sendToChannel(channel, {
+        title: "Test alert",
+        message: `Test alert sent by ${req.user?.username ?? "system"} from the router manager`,
+        severity: "info",
+      });
+      if (!delivery.ok) {
+        return res.status(502).json({ message: `Delivery failed: ${delivery.error}` });
+      }
+      res.json({ message: `Test alert sent to ${channel.name}` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to send test alert" });
+    }
+  });
+
+  app.get("/api/alerts/rules", async (req, res) => {
+    try {
+      res.json(await storage.getAlertRules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alert rules" });
+    }
+  });
+
+  app.post("/api/alerts/rules", async (req, res) => {
+    try {
+      const ruleData = insertAlertRuleSchema.parse({
+        ...req.body,
+        channelIds: JSON.stringify(req.body.channelIds ?? []),
+      });
+      const rule = await storage.createAlertRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid alert rule data" });
+    }
+  });
+
+  app.put("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      const ruleData = insertAlertRuleSchema.partial().parse({
+        ...req.body,
+        ...(req.body.channelIds !== undefined && { channelIds: JSON.stringify(req.body.channelIds) }),
+      });
+      const rule = await storage.updateAlertRule(parseInt(req.params.id), ruleData);
+      if (!rule) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid alert rule data" });
+    }
+  });
+
+  app.delete("/api/alerts/rules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteAlertRule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      res.json({ message: "Alert rule deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete alert rule" });
+    }
+  });
+
+  app.get("/api/alerts/events", async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const events = await storage.getAlertEvents({
+        statuses: status === "unresolved" ? ["open", "acknowledged"] : status ? [status] : undefined,
+        ruleId: req.query.ruleId ? parseInt(req.query.ruleId as string) : undefined,
+        limit: parseInt(req.query.limit as string) || 100,
+      });
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch alert events" });
+    }
+  });
+
+  app.post("/api/alerts/events/acknowledge-all", async (req, res) => {
+    try {
+      const open = await storage.getAlertEvents({ statuses: ["open"], limit: 1000 });
+      for (const event of open) {
+        await alertEngine.acknowledge(event, req.user?.username ?? "system");
+      }
+      res.json({ message: `Acknowledged ${open.length} alerts` });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to acknowledge alerts" });
+    }
+  });
+
+  app.post("/api/alerts/events/:id/acknowledge", async (req, res) => {
+    try {
+      const event = await storage.getAlertEvent(parseInt(req.params.id));
+      if (!event) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      res.json(await alertEngine.acknowledge(event, req.user?.username ?? "system"));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to acknowledge alert" });
     }
   });
 
   // SSH Configuration Routes
   app.get("/api/ssh/config", async (req, res) => {
     try {
-      const config = await storage.getSSHConfig();
+      const config = await storage.getSSHConfig(req.routerId);
       if (config) {
-        // Don't send password in response for security
-        const { password, ...safeConfig } = config;
-        res.json({ ...safeConfig, password: '' });
+        // Don't send credentials in response for security
+        const { password, privateKey, passphrase, encryptedCredentials, ...safeConfig } = config;
+        res.json({ ...safeConfig, password: '', privateKey: '', passphrase: '', hasPrivateKey: !!privateKey });
       } else {
         res.json(null);
       }
@@ -825,13 +2398,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ssh/config", async (req, res) => {
+  app.post("/api/ssh/config", requireRole("admin"), async (req, res) => {
     try {
       // Log config data without sensitive credentials
       const sanitizedData = {
         ...req.body,
         password: req.body.password ? '[REDACTED]' : undefined,
-        privateKey: req.body.privateKey ? '[REDACTED]' : undefined
+        privateKey: req.body.privateKey ? '[REDACTED]' : undefined,
+        passphrase: req.body.passphrase ? '[REDACTED]' : undefined
       };
       console.log("Received SSH config data:", sanitizedData);
       
@@ -844,24 +2418,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = insertSSHConfigSchema.parse(configData);
       
       // Test connection first before saving
-      const testConfig = {
-        id: 1,
-        host: validatedData.host,
-        port: validatedData.port || 22,
-        username: validatedData.username,
-        password: validatedData.password,
-        enabled: validatedData.enabled || false,
-        syncInterval: validatedData.syncInterval || 5,
-        lastConnected: null,
-        connectionStatus: 'connecting' as string | null
-      };
-
-      await sshClient.connect(testConfig);
+      const { credentials, hostKeyFingerprint } = await connectRouter(req.routerId, validatedData);
       
       // If connection successful, save the configuration
       try {
-        const savedConfig = await storage.saveSSHConfig(validatedData);
-        await storage.updateSSHConnectionStatus('connected');
+        const savedConfig = await storage.saveSSHConfig(req.routerId, credentials);
+        if (!savedConfig.hostKeyFingerprint && hostKeyFingerprint) {
+          await storage.updateSSHHostKey(req.routerId, hostKeyFingerprint);
+        }
+        await storage.updateSSHConnectionStatus(req.routerId, 'connected');
         console.log('SSH configuration saved successfully');
       } catch (error) {
         console.log('SSH connection successful but skipping database save due to connection issue');
@@ -872,14 +2437,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         host: validatedData.host,
         port: validatedData.port,
         username: validatedData.username,
+        authMethod: credentials.authMethod,
         password: '',
         enabled: validatedData.enabled,
         syncInterval: validatedData.syncInterval,
+        hostKeyFingerprint,
         connectionTested: true 
       });
     } catch (error: any) {
       console.error("SSH config save error:", error);
-      await storage.updateSSHConnectionStatus('error');
+      await storage.updateSSHConnectionStatus(req.routerId, 'error');
       res.status(400).json({ 
         message: error?.message || "Failed to save SSH configuration",
         details: error?.issues || "Connection test failed"
@@ -887,50 +2454,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/ssh/config", async (req, res) => {
+  app.delete("/api/ssh/config", requireRole("admin"), async (req, res) => {
     try {
-      await storage.clearSSHConfig();
+      await storage.clearSSHConfig(req.routerId);
       res.json({ success: true, message: "SSH configuration cleared" });
     } catch (error: any) {
       res.status(500).json({ message: "Failed to clear SSH configuration" });
     }
   });
 
-  app.delete("/api/data/clear", async (req, res) => {
+  // Forget the pinned host key, e.g. after a factory reset regenerated it.
+  // The next successful connection pins whatever key the router presents.
+  app.delete("/api/ssh/host-key", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.updateSSHHostKey(req.routerId, null);
+      res.json({ success: true, message: "Pinned host key cleared" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to clear pinned host key" });
+    }
+  });
+
+  app.delete("/api/data/clear", requireRole("admin"), async (req, res) => {
     try {
-      await storage.clearAllData();
+      await storage.clearAllData(req.routerId);
       res.json({ success: true, message: "All router data cleared" });
     } catch (error: any) {
       res.status(500).json({ message: "Failed to clear router data" });
     }
   });
 
-  app.post("/api/ssh/test", async (req, res) => {
+  app.post("/api/ssh/test", requireRole("admin"), async (req, res) => {
     try {
       const validatedData = insertSSHConfigSchema.parse(req.body);
       
       // Test SSH connection to ASUS router
-      const testConfig = {
-        id: 1,
-        host: validatedData.host,
-        port: validatedData.port || 22,
-        username: validatedData.username,
-        password: validatedData.password,
-        enabled: validatedData.enabled || false,
-        syncInterval: validatedData.syncInterval || 5,
-        lastConnected: null,
-        connectionStatus: 'connecting' as string | null
-      };
-
-      await sshClient.connect(testConfig);
-      await storage.updateSSHConnectionStatus('connected');
+      const { hostKeyFingerprint } = await connectRouter(req.routerId, validatedData);
+      await storage.updateSSHConnectionStatus(req.routerId, 'connected');
       
       res.json({ 
         success: true, 
-        message: "Successfully connected to ASUS router via SSH" 
+        message: "Successfully connected to ASUS router via SSH",
+        hostKeyFingerprint
       });
     } catch (error: any) {
-      await storage.updateSSHConnectionStatus('error');
+      // A failed test leaves a working session in place, and its status with it
+      if (!sshClients.getClient(req.routerId).isConnectionActive()) {
+        await storage.updateSSHConnectionStatus(req.routerId, 'error');
+      }
       res.status(500).json({ 
         success: false, 
         message: `SSH connection failed: ${error?.message || 'Unknown error'}` 
@@ -940,16 +2510,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/ssh/sync-data", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection not active. Please connect first." });
       }
 
-      // Pull real data from ASUS router
-      const systemInfo = await sshClient.getSystemInfo();
-      const devices = await sshClient.getConnectedDevices();
-      const wifiNetworks = await sshClient.getWiFiNetworks();
-      const bandwidth = await sshClient.getBandwidthData();
-      const merlinFeatures = await sshClient.getMerlinFeatures();
+      // Pull real data from ASUS router, reporting each phase to the browser as it goes
+      const progress = liveEvents.trackSync(req.routerId, SYNC_PHASES);
+      const runPhase = async <T>(phaseId: string, load: () => Promise<T>): Promise<T> => {
+        progress.start(phaseId);
+        try {
+          const result = await load();
+          progress.complete(phaseId);
+          return result;
+        } catch (error) {
+          progress.fail(phaseId);
+          progress.finish();
+          throw error;
+        }
+      };
+
+      const systemInfo = await runPhase("systemInfo", () => req.sshClient.getSystemInfo());
+      const devices = await runPhase("devices", () => req.sshClient.getConnectedDevices());
+      const wifiNetworks = await runPhase("wifi", () => req.sshClient.getWiFiNetworks());
+      const bandwidth = await runPhase("bandwidth", () => req.sshClient.getBandwidthData());
+      const merlinFeatures = await runPhase("features", () => req.sshClient.getMerlinFeatures());
+      const portForwarding = await runPhase("portForwarding", () => syncPortForwardingRules(req.routerId, req.sshClient).catch((error) => {
+        console.error("Error syncing port forwarding rules:", error);
+        return null;
+      }));
 
       // Update router status with comprehensive real data
       if (systemInfo) {
@@ -963,7 +2551,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const memoryUsed = parseFloat(memoryData[0]) || parseFloat(systemInfo.memoryUsage) || 0;
         const memoryTotal = parseFloat(memoryData[1]) || parseFloat(systemInfo.memoryTotal) || 4;
 
-        await storage.updateRouterStatus({
+        await storage.updateRouterStatus(req.routerId, {
           model: systemInfo.model || 'ASUS Router',
           firmware: `${systemInfo.firmware || 'Unknown'} ${systemInfo.merlinVersion ? '(Merlin ' + systemInfo.merlinVersion + ')' : ''}`.trim(),
           ipAddress: systemInfo.ipAddress || '192.168.1.1',
@@ -978,12 +2566,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           cpuCores: parseInt(systemInfo.cpuCores) || null,
           cpuModel: systemInfo.cpuModel || null,
         });
+        await liveEvents.publishStatus(req.routerId);
       }
 
       // Sync connected devices to database
       for (const device of devices) {
         try {
-          await storage.createConnectedDevice({
+          await storage.createConnectedDevice(req.routerId, {
             name: device.name,
             macAddress: device.macAddress,
             ipAddress: device.ipAddress,
@@ -991,22 +2580,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
             isOnline: device.isOnline,
             downloadSpeed: device.downloadSpeed || 0,
             uploadSpeed: device.uploadSpeed || 0,
+            vendor: device.vendor,
+            isRandomizedMac: device.isRandomizedMac,
           });
         } catch (error) {
           // Device might already exist, update instead
-          const existingDevices = await storage.getConnectedDevices();
+          const existingDevices = await storage.getConnectedDevices(req.routerId);
           const existing = existingDevices.find(d => d.macAddress === device.macAddress);
           if (existing) {
-            await storage.updateConnectedDevice(existing.id, {
-              name: device.name,
+            // Speeds are left to the per-device accounting in the bandwidth job
+            await storage.updateConnectedDevice(req.routerId, existing.id, {
+              name: isGenericDeviceName(device.name, device.macAddress) ? existing.name : device.name,
               ipAddress: device.ipAddress,
               isOnline: device.isOnline,
-              downloadSpeed: device.downloadSpeed || 0,
-              uploadSpeed: device.uploadSpeed || 0,
+              vendor: device.vendor,
+              isRandomizedMac: device.isRandomizedMac,
             });
           }
         }
       }
+      await syncRouterNicknames(req.routerId, req.sshClient).catch((error) => {
+        console.error("Error syncing router nicknames:", error);
+      });
+      await recordDevicePresence(req.routerId);
+      await liveEvents.publishDeviceChanges(req.routerId);
+      progress.finish();
 
       res.json({ 
         success: true, 
@@ -1016,7 +2614,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           deviceCount: devices.length,
           wifiNetworks: wifiNetworks.length,
           merlinFeatures,
-          bandwidth
+          bandwidth,
+          portForwardingEnabled: portForwarding?.enabled ?? null
         }
       });
     } catch (error: any) {
@@ -1030,7 +2629,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Router Features Routes - Now uses database data for fast performance
   app.get("/api/router/features", async (req, res) => {
     try {
-      const features = await storage.getRouterFeatures();
+      const features = await storage.getRouterFeatures(req.routerId);
       if (!features) {
         return res.status(404).json({ error: "Router features not found" });
       }
@@ -1042,11 +2641,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/ssh/merlin-features", async (req, res) => {
     try {
-      if (!sshClient.isConnectionActive()) {
+      if (!req.sshClient.isConnectionActive()) {
         return res.status(400).json({ message: "SSH connection not active. Please connect first." });
       }
 
-      const merlinFeatures = await sshClient.getMerlinFeatures();
+      const merlinFeatures = await req.sshClient.getMerlinFeatures();
       res.json(merlinFeatures);
     } catch (error) {
       res.status(500).json({ 
@@ -1145,6 +2744,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // System Logs API endpoints
+  // Audit Log Routes
+  app.get("/api/audit-events", requireRole("admin"), async (req, res) => {
+    try {
+      const events = await storage.getAuditEvents({
+        routerId: req.query.allRouters === "true" ? undefined : req.routerId,
+        actor: (req.query.actor as string) || undefined,
+        action: (req.query.action as string) || undefined,
+        outcome: (req.query.outcome as string) || undefined,
+        limit: parseInt(req.query.limit as string) || 100,
+      });
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get audit events" });
+    }
+  });
+
   app.get("/api/logs/:type", async (req, res) => {
     try {
       const { type } = req.params;
@@ -1180,7 +2795,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         // Add SSH connection activity
-        if (sshClient.isConnectionActive()) {
+        if (req.sshClient.isConnectionActive()) {
           appLogs.push({
             timestamp: new Date().toISOString(),
             level: 'INFO',
@@ -1223,11 +2838,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json(appLogs.slice(0, limit));
       } else if (type === 'router') {
         // Get router logs via SSH if connected
-        if (sshClient.isConnectionActive()) {
+        if (req.sshClient.isConnectionActive()) {
           try {
             // Use the exact commands you suggested for Asus router logs
             const logCommand = `logread | tail -${limit} && echo "---SYSLOG---" && cat /tmp/syslog.log | tail -${limit}`;
-            const logOutput = await sshClient.executeCommand(logCommand);
+            const logOutput = await req.sshClient.executeCommand(logCommand);
             
             const sections = logOutput.split('---SYSLOG---');
             const routerLogs: Array<{timestamp: string, level: string, message: string, source: string}> = [];
@@ -1316,7 +2931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Include devices in this group
-      const devices = await storage.getGroupDevices(id);
+      const devices = await withOverrides(await storage.getGroupDevices(id));
       res.json({ ...group, devices });
     } catch (error) {
       res.status(500).json({ error: "Failed to get device group" });
@@ -1358,6 +2973,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Groups can hold devices from several routers, so each router gets its own change set; routers
+  // without an SSH session are reported back instead of failing the whole request
+  app.post("/api/device-groups/:id/:action(block|unblock)", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const group = await storage.getDeviceGroup(id);
+      if (!group) {
+        return res.status(404).json({ message: "Device group not found" });
+      }
+
+      const blocked = req.params.action === "block";
+      const byRouter = new Map<number, ConnectedDevice[]>();
+      for (const device of await storage.getGroupDevices(id)) {
+        byRouter.set(device.routerId, [...(byRouter.get(device.routerId) ?? []), device]);
+      }
+
+      let updated = 0;
+      const skippedRouters: number[] = [];
+      for (const [routerId, devices] of Array.from(byRouter)) {
+        const client = sshClients.getClient(routerId);
+        if (!client.isConnectionActive()) {
+          skippedRouters.push(routerId);
+          continue;
+        }
+        await setDevicesBlocked(routerId, client, devices, blocked, { createdBy: req.user?.username ?? "system" });
+        updated += devices.length;
+      }
+      res.json({ updated, skippedRouters });
+    } catch (error) {
+      console.error("Group block change failed:", error);
+      res.status(500).json({ message: `Failed to ${req.params.action} group: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  // The group keeps its schedule so it can be shown and edited again; each member device gets a copy
+  app.put("/api/device-groups/:id/schedule", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const group = await storage.getDeviceGroup(id);
+      if (!group) {
+        return res.status(404).json({ message: "Device group not found" });
+      }
+      const parsed = z.array(scheduleRuleSchema).max(MAX_SCHEDULE_RULES).safeParse(req.body?.rules);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "rules must be a list of { days, start, end } offline periods" });
+      }
+
+      const byRouter = new Map<number, ConnectedDevice[]>();
+      for (const device of await storage.getGroupDevices(id)) {
+        byRouter.set(device.routerId, [...(byRouter.get(device.routerId) ?? []), device]);
+      }
+
+      let updated = 0;
+      const skippedRouters: number[] = [];
+      for (const [routerId, devices] of Array.from(byRouter)) {
+        const client = sshClients.getClient(routerId);
+        if (!client.isConnectionActive()) {
+          skippedRouters.push(routerId);
+          continue;
+        }
+        await setDevicesSchedule(routerId, client, devices, parsed.data, req.user?.username ?? "system");
+        updated += devices.length;
+      }
+
+      const saved = await storage.updateDeviceGroup(id, {
+        parentalSchedule: parsed.data.length > 0 ? JSON.stringify(parsed.data) : null,
+      });
+      res.json({ group: saved, updated, skippedRouters });
+    } catch (error) {
+      console.error("Group schedule update failed:", error);
+      res.status(500).json({ message: `Failed to update group schedule: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
+  app.post("/api/device-groups/:id/wake", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const group = await storage.getDeviceGroup(id);
+      if (!group) {
+        return res.status(404).json({ message: "Device group not found" });
+      }
+
+      const byRouter = new Map<number, ConnectedDevice[]>();
+      for (const device of await storage.getGroupDevices(id)) {
+        byRouter.set(device.routerId, [...(byRouter.get(device.routerId) ?? []), device]);
+      }
+
+      const sent: string[] = [];
+      const failed: string[] = [];
+      const skippedRouters: number[] = [];
+      for (const [routerId, devices] of Array.from(byRouter)) {
+        const client = sshClients.getClient(routerId);
+        if (!client.isConnectionActive()) {
+          skippedRouters.push(routerId);
+          continue;
+        }
+        const result = await wakeDevices(routerId, client, await wakeTargetsFor(routerId, devices), {
+          confirm: req.body?.confirm === true,
+          label: group.name,
+        });
+        sent.push(...result.sent);
+        failed.push(...result.failed);
+      }
+      res.json({ sent, failed, skippedRouters, confirming: req.body?.confirm === true && sent.length > 0 });
+    } catch (error) {
+      console.error("Group wake failed:", error);
+      res.status(500).json({ message: `Failed to wake group: ${error instanceof Error ? error.message : "Unknown error"}` });
+    }
+  });
+
   // Device Tags Management
   app.get("/api/device-tags", async (req, res) => {
     try {
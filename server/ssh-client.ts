@@ -1,22 +1,53 @@
-import { Client } from 'ssh2';
+import ssh2, { Client } from 'ssh2';
+import crypto from 'crypto';
+import { recordSSHCommand } from './audit';
+import { classifyDevice } from './device-classification';
 
 interface SSHConfig {
   host: string;
   port: number;
   username: string;
-  password: string;
-  privateKey?: string;
+  password?: string | null;
+  privateKey?: string | null;
+  passphrase?: string | null;
+  hostKeyFingerprint?: string | null;
+}
+
+const SUPPORTED_KEY_TYPES = ['ssh-ed25519', 'ssh-rsa'];
+
+// Same format as `ssh-keygen -lf`: SHA256:<unpadded base64>
+export function getHostKeyFingerprint(key: Buffer): string {
+  const digest = crypto.createHash('sha256').update(key).digest('base64');
+  return `SHA256:${digest.replace(/=+$/, '')}`;
+}
+
+// Returns a user-facing error for keys we can't authenticate with, or null if the key is usable
+export function validatePrivateKey(privateKey: string, passphrase?: string | null): string | null {
+  const parsed = ssh2.utils.parseKey(privateKey, passphrase || undefined);
+  if (parsed instanceof Error) {
+    return /passphrase|encrypted/i.test(parsed.message)
+      ? 'Private key is encrypted; check the passphrase'
+      : `Invalid private key: ${parsed.message}`;
+  }
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!SUPPORTED_KEY_TYPES.includes(key.type)) {
+    return `Unsupported key type ${key.type}; use an ed25519 or RSA key`;
+  }
+  return null;
 }
 
 export class SSHClient {
   private client: Client;
   private isConnected: boolean = false;
+  private hostKeyFingerprint: string | null = null;
+  private lastError: string | null = null;
 
   constructor() {
     this.client = new Client();
   }
 
   async connect(config: SSHConfig): Promise<boolean> {
+    this.lastError = null;
     return new Promise((resolve) => {
       this.client
         .on('ready', () => {
@@ -27,18 +58,51 @@ export class SSHClient {
         .on('error', (err) => {
           console.error('SSH Client :: error:', err);
           this.isConnected = false;
+          this.lastError = this.lastError || err.message;
           resolve(false);
         })
-        .connect({
+        .on('close', () => {
+          // Firewall or network restarts can drop the session without an error
+          this.isConnected = false;
+          resolve(false);
+        });
+
+      try {
+        this.client.connect({
           host: config.host,
           port: config.port,
           username: config.username,
-          password: config.password,
-          privateKey: config.privateKey
+          password: config.password || undefined,
+          privateKey: config.privateKey || undefined,
+          passphrase: config.passphrase || undefined,
+          // Trust on first use: accept whatever key the router presents until one is
+          // pinned, then refuse to talk to anything else
+          hostVerifier: (key: Buffer) => {
+            this.hostKeyFingerprint = getHostKeyFingerprint(key);
+            if (config.hostKeyFingerprint && config.hostKeyFingerprint !== this.hostKeyFingerprint) {
+              this.lastError = `Host key mismatch: expected ${config.hostKeyFingerprint} but router presented ${this.hostKeyFingerprint}`;
+              console.error(`SSH Client :: ${this.lastError}`);
+              return false;
+            }
+            return true;
+          },
         });
+      } catch (error) {
+        // ssh2 throws synchronously for unparseable keys or a wrong passphrase
+        this.lastError = error instanceof Error ? error.message : String(error);
+        resolve(false);
+      }
     });
   }
 
+  getHostKeyFingerprint(): string | null {
+    return this.hostKeyFingerprint;
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
   async executeCommand(command: string): Promise<string> {
     if (!this.isConnected) {
       throw new Error('SSH connection not established');
@@ -46,6 +110,7 @@ export class SSHClient {
 
     // Log every command execution
     console.log(`[SSH EXEC] Running command: ${command}`);
+    recordSSHCommand(command);
 
     return new Promise((resolve, reject) => {
       this.client.exec(command, (err, stream) => {
@@ -370,7 +435,7 @@ export class SSHClient {
                 name: nodeDevice.hostname || `Device-${nodeDevice.mac.slice(-5)}`,
                 ipAddress: nodeDevice.ip || '',
                 isOnline: true,
-                deviceType: this.getDeviceType(nodeDevice.mac, nodeDevice.hostname),
+                ...classifyDevice(nodeDevice.mac, nodeDevice.hostname),
                 connectionType: `${nodeDevice.band} WiFi`,
                 signalStrength: nodeDevice.rssi,
                 wirelessInterface: this.getBandInterface(nodeDevice.band),
@@ -398,7 +463,7 @@ export class SSHClient {
             name: client.hostname || `Device-${client.mac.slice(-5)}`,
             ipAddress: client.ip || '',
             isOnline: true,
-            deviceType: this.getDeviceType(client.mac, client.hostname),
+            ...classifyDevice(client.mac, client.hostname),
             connectionType: `${client.band} WiFi`,
             signalStrength: client.rssi,
             wirelessInterface: this.getBandInterface(client.band),
@@ -426,7 +491,7 @@ export class SSHClient {
             name: dhcpInfo?.hostname || `Device-${client.mac.slice(-5)}`,
             ipAddress: client.ip || dhcpInfo?.ip || '',
             isOnline: true,
-            deviceType: this.getDeviceType(client.mac, dhcpInfo?.hostname),
+            ...classifyDevice(client.mac, dhcpInfo?.hostname),
             connectionType: 'ethernet',
             signalStrength: null,
             wirelessInterface: null,
@@ -449,7 +514,7 @@ export class SSHClient {
             name: dhcpClient.hostname || `Device-${dhcpClient.mac.slice(-5)}`,
             ipAddress: dhcpClient.ip || '',
             isOnline: false,
-            deviceType: this.getDeviceType(dhcpClient.mac, dhcpClient.hostname),
+            ...classifyDevice(dhcpClient.mac, dhcpClient.hostname),
             connectionType: 'unknown',
             signalStrength: null,
             wirelessInterface: null,
@@ -597,24 +662,6 @@ export class SSHClient {
     }
   }
 
-  private getDeviceType(macAddress: string, deviceName: string): string {
-    const mac = macAddress.toLowerCase();
-    const name = (deviceName || '').toLowerCase();
-    
-    if (mac.startsWith('00:50:56') || mac.startsWith('00:0c:29')) return 'virtual-machine';
-    if (mac.startsWith('dc:a6:32') || mac.startsWith('b8:27:eb')) return 'raspberry-pi';
-    
-    if (name.includes('iphone') || name.includes('ipad')) return 'mobile';
-    if (name.includes('android') || name.includes('samsung')) return 'mobile';
-    if (name.includes('macbook') || name.includes('imac')) return 'laptop';
-    if (name.includes('windows') || name.includes('desktop')) return 'desktop';
-    if (name.includes('tv') || name.includes('roku')) return 'streaming';
-    if (name.includes('echo') || name.includes('alexa')) return 'smart-home';
-    if (name.includes('printer')) return 'printer';
-    
-    return 'unknown';
-  }
-
   async getWiFiNetworkCount(): Promise<number> {
     try {
       // Use your improved script to count only active WiFi networks
@@ -739,8 +786,9 @@ export class SSHClient {
 
   async getMerlinFeatures(): Promise<any> {
     try {
-      const adaptiveQos = await this.executeCommand("nvram get adaptive_qos_enable");
-      const aiProtection = await this.executeCommand("nvram get aiprotection_enable");
+      // Adaptive QoS is QoS switched on with qos_type 1 (traditional and bandwidth limiter use 0 and 2)
+      const [qosEnable, qosType] = (await this.executeCommand("nvram get qos_enable; nvram get qos_type")).split('\n').map(value => value.trim());
+      const aiProtection = await this.executeCommand("nvram get wrs_protect_enable");
       const aimeshMaster = await this.executeCommand("nvram get cfg_master");
       
       // Count wireless clients using your improved command for different bands
@@ -823,7 +871,7 @@ export class SSHClient {
       }
       
       return {
-        adaptiveQosEnabled: adaptiveQos.trim() === '1',
+        adaptiveQosEnabled: qosEnable === '1' && qosType === '1',
         aiProtectionEnabled: aiProtection.trim() === '1',
         vpnServerEnabled,
         vpnConnectedClients,
@@ -872,4 +920,53 @@ export class SSHClient {
   }
 }
 
-export const sshClient = new SSHClient();
\ No newline at end of file
+// Keeps one SSH session per managed router, keyed by router id
+export class SSHConnectionManager {
+  private clients: Map<number, SSHClient> = new Map();
+  private lastErrors: Map<number, string | null> = new Map();
+
+  getClient(routerId: number): SSHClient {
+    let client = this.clients.get(routerId);
+    if (!client) {
+      client = new SSHClient();
+      this.clients.set(routerId, client);
+    }
+    return client;
+  }
+
+  // Every attempt starts from a fresh client so stale listeners don't pile up, and it only
+  // replaces the managed one once it is up: trying wrong credentials keeps a working session
+  async connect(routerId: number, config: SSHConfig): Promise<boolean> {
+    const client = new SSHClient();
+    const connected = await client.connect(config);
+    this.lastErrors.set(routerId, client.getLastError());
+    if (!connected) {
+      client.disconnect();
+      return false;
+    }
+    this.disconnect(routerId);
+    this.clients.set(routerId, client);
+    return true;
+  }
+
+  // Why the last connect() failed, as the failed client is never handed out
+  getLastError(routerId: number): string | null {
+    return this.lastErrors.get(routerId) ?? null;
+  }
+
+  disconnect(routerId: number): void {
+    const client = this.clients.get(routerId);
+    if (client) {
+      client.disconnect();
+      this.clients.delete(routerId);
+    }
+  }
+
+  getActiveRouterIds(): number[] {
+    return Array.from(this.clients.entries())
+      .filter(([, client]) => client.isConnectionActive())
+      .map(([routerId]) => routerId);
+  }
+}
+
+export const sshClients = new SSHConnectionManager();
\ No newline at end of file
@@ -1,4 +1,8 @@
 import {
+  Router,
+  InsertRouter,
+  User,
+  InsertUser,
   RouterStatus,
   InsertRouterStatus,
   ConnectedDevice,
@@ -7,8 +11,18 @@ import {
   InsertWifiNetwork,
   PortForwardingRule,
   InsertPortForwardingRule,
+  DhcpReservation,
+  InsertDhcpReservation,
+  DeviceOverride,
+  InsertDeviceOverride,
   BandwidthData,
   InsertBandwidthData,
+  DeviceBandwidthSample,
+  InsertDeviceBandwidthSample,
+  DeviceSession,
+  InsertDeviceSession,
+  DeviceAttribute,
+  InsertDeviceAttribute,
   SSHConfig,
   InsertSSHConfig,
   RouterFeatures,
@@ -21,62 +35,195 @@ import {
   InsertDeviceGroupMembership,
   DeviceTagAssignment,
   InsertDeviceTagAssignment,
+  AuditEvent,
+  InsertAuditEvent,
+  NvramChangeSet,
+  InsertNvramChangeSet,
+  ConfigBackup,
+  InsertConfigBackup,
+  NvramSnapshot,
+  InsertNvramSnapshot,
+  AlertChannel,
+  InsertAlertChannel,
+  AlertRule,
+  InsertAlertRule,
+  AlertEvent,
+  InsertAlertEvent,
+  WakeSchedule,
+  InsertWakeSchedule,
+  WifiScanResult,
+  InsertWifiScanResult,
+  WifiChannelStat,
+  InsertWifiChannelStat,
+  routers,
+  users,
   routerStatus,
   connectedDevices,
   wifiNetworks,
   portForwardingRules,
+  dhcpReservations,
   bandwidthData,
+  deviceBandwidth,
+  deviceSessions,
+  deviceAttributes,
   sshConfig,
   routerFeatures,
   deviceGroups,
   deviceTags,
   deviceGroupMemberships,
   deviceTagAssignments,
+  auditEvents,
+  nvramChangeSets,
+  configBackups,
+  nvramSnapshots,
+  alertChannels,
+  alertRules,
+  alertEvents,
+  wakeSchedules,
+  wifiScanResults,
+  wifiChannelStats,
+  deviceOverrides,
 } from "@shared/schema";
-import { encryptSSHConfig, decryptSSHConfig } from "./crypto";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { encryptSSHConfig, decryptSSHConfig, isSealedText, sealSensitiveText } from "./crypto";
+import { db, pool } from "./db";
+import { eq, and, or, desc, ilike, inArray, notInArray, gte, lt, isNull, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// How many audit events the in-memory store keeps on disk
+const MAX_MEM_AUDIT_EVENTS = 5000;
+// How many alert events the in-memory store keeps on disk
+const MAX_MEM_ALERT_EVENTS = 1000;
+// Per-device traffic samples kept in memory across all routers
+const MAX_MEM_DEVICE_BANDWIDTH_SAMPLES = 100000;
+// Neighboring access points heard by scans, kept in memory across all routers
+const MAX_MEM_WIFI_SCAN_RESULTS = 50000;
+// Per-radio airtime samples kept in memory across all routers
+const MAX_MEM_WIFI_CHANNEL_STATS = 100000;
+
+export interface AuditEventFilters {
+  routerId?: number;
+  actor?: string;
+  action?: string;
+  outcome?: string;
+  limit?: number;
+}
+
+export interface AlertEventFilters {
+  ruleId?: number;
+  statuses?: string[];
+  limit?: number;
+}
+
+export interface DeviceSessionFilters {
+  macAddress?: string;
+  // Only sessions still open at or after this time
+  since?: Date;
+  openOnly?: boolean;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+  // Settles once saved data is loaded; the server waits for it before taking requests
+  ready: Promise<void>;
+
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+
+  // Routers
+  getRouters(): Promise<Router[]>;
+  getRouter(id: number): Promise<Router | undefined>;
+  getDefaultRouter(): Promise<Router>;
+  createRouter(router: InsertRouter): Promise<Router>;
+  updateRouter(id: number, router: Partial<InsertRouter>): Promise<Router | undefined>;
+  deleteRouter(id: number): Promise<boolean>;
+
   // Router Status
-  getRouterStatus(): Promise<RouterStatus | undefined>;
-  updateRouterStatus(status: InsertRouterStatus): Promise<RouterStatus>;
+  getRouterStatus(routerId: number): Promise<RouterStatus | undefined>;
+  updateRouterStatus(routerId: number, status: InsertRouterStatus): Promise<RouterStatus>;
 
   // Connected Devices
-  getConnectedDevices(): Promise<ConnectedDevice[]>;
-  getConnectedDevice(id: number): Promise<ConnectedDevice | undefined>;
-  createConnectedDevice(device: InsertConnectedDevice): Promise<ConnectedDevice>;
-  updateConnectedDevice(id: number, device: Partial<InsertConnectedDevice>): Promise<ConnectedDevice | undefined>;
-  deleteConnectedDevice(id: number): Promise<boolean>;
+  getConnectedDevices(routerId: number): Promise<ConnectedDevice[]>;
+  getConnectedDevice(routerId: number, id: number): Promise<ConnectedDevice | undefined>;
+  createConnectedDevice(routerId: number, device: InsertConnectedDevice): Promise<ConnectedDevice>;
+  updateConnectedDevice(routerId: number, id: number, device: Partial<InsertConnectedDevice>): Promise<ConnectedDevice | undefined>;
+  deleteConnectedDevice(routerId: number, id: number): Promise<boolean>;
 
   // WiFi Networks
-  getWifiNetworks(): Promise<WifiNetwork[]>;
-  getWifiNetwork(id: number): Promise<WifiNetwork | undefined>;
-  createWifiNetwork(network: InsertWifiNetwork): Promise<WifiNetwork>;
-  updateWifiNetwork(id: number, network: Partial<InsertWifiNetwork>): Promise<WifiNetwork | undefined>;
-  deleteWifiNetwork(id: number): Promise<boolean>;
+  getWifiNetworks(routerId: number): Promise<WifiNetwork[]>;
+  getWifiNetwork(routerId: number, id: number): Promise<WifiNetwork | undefined>;
+  createWifiNetwork(routerId: number, network: InsertWifiNetwork): Promise<WifiNetwork>;
+  updateWifiNetwork(routerId: number, id: number, network: Partial<InsertWifiNetwork>): Promise<WifiNetwork | undefined>;
+  deleteWifiNetwork(routerId: number, id: number): Promise<boolean>;
 
   // Port Forwarding Rules
-  getPortForwardingRules(): Promise<PortForwardingRule[]>;
-  getPortForwardingRule(id: number): Promise<PortForwardingRule | undefined>;
-  createPortForwardingRule(rule: InsertPortForwardingRule): Promise<PortForwardingRule>;
-  updatePortForwardingRule(id: number, rule: Partial<InsertPortForwardingRule>): Promise<PortForwardingRule | undefined>;
-  deletePortForwardingRule(id: number): Promise<boolean>;
+  getPortForwardingRules(routerId: number): Promise<PortForwardingRule[]>;
+  getPortForwardingRule(routerId: number, id: number): Promise<PortForwardingRule | undefined>;
+  createPortForwardingRule(routerId: number, rule: InsertPortForwardingRule): Promise<PortForwardingRule>;
+  updatePortForwardingRule(routerId: number, id: number, rule: Partial<InsertPortForwardingRule>): Promise<PortForwardingRule | undefined>;
+  deletePortForwardingRule(routerId: number, id: number): Promise<boolean>;
+
+  // DHCP Reservations, replaced as a whole with what the router holds after each read or write
+  getDhcpReservations(routerId: number): Promise<DhcpReservation[]>;
+  getDhcpReservation(routerId: number, id: number): Promise<DhcpReservation | undefined>;
+  replaceDhcpReservations(routerId: number, reservations: InsertDhcpReservation[]): Promise<DhcpReservation[]>;
+
+  // Device Overrides
+  getDeviceOverrides(routerId: number): Promise<DeviceOverride[]>;
+  getDeviceOverride(routerId: number, macAddress: string): Promise<DeviceOverride | undefined>;
+  saveDeviceOverride(routerId: number, override: InsertDeviceOverride): Promise<DeviceOverride>;
+  deleteDeviceOverride(routerId: number, macAddress: string): Promise<boolean>;
 
   // Bandwidth Data
-  getBandwidthData(limit?: number): Promise<BandwidthData[]>;
-  addBandwidthData(data: InsertBandwidthData): Promise<BandwidthData>;
+  getBandwidthData(routerId: number, limit?: number): Promise<BandwidthData[]>;
+  addBandwidthData(routerId: number, data: InsertBandwidthData): Promise<BandwidthData>;
+
+  // Per-device bandwidth
+  getDeviceBandwidthSamples(routerId: number, since: Date, macAddress?: string): Promise<DeviceBandwidthSample[]>;
+  addDeviceBandwidthSamples(routerId: number, samples: InsertDeviceBandwidthSample[]): Promise<void>;
+  pruneDeviceBandwidthSamples(routerId: number, before: Date): Promise<number>;
+
+  // Neighboring access points from WiFi scans
+  getWifiScanResults(routerId: number, since: Date): Promise<WifiScanResult[]>;
+  addWifiScanResults(routerId: number, results: InsertWifiScanResult[]): Promise<void>;
+  pruneWifiScanResults(routerId: number, before: Date): Promise<number>;
+
+  // Per-radio airtime utilization from chanim_stats
+  getWifiChannelStats(routerId: number, since: Date): Promise<WifiChannelStat[]>;
+  addWifiChannelStats(routerId: number, stats: InsertWifiChannelStat[]): Promise<void>;
+  pruneWifiChannelStats(routerId: number, before: Date): Promise<number>;
+
+  // Device presence sessions
+  getDeviceSessions(routerId: number, filters?: DeviceSessionFilters): Promise<DeviceSession[]>;
+  createDeviceSession(routerId: number, session: InsertDeviceSession): Promise<DeviceSession>;
+  updateDeviceSession(id: number, session: Partial<InsertDeviceSession>): Promise<DeviceSession | undefined>;
+  pruneDeviceSessions(routerId: number, endedBefore: Date): Promise<number>;
+
+  // Discovered device attributes
+  getDeviceAttributes(routerId: number, macAddress?: string): Promise<DeviceAttribute[]>;
+  // Replaces the value for the same device, attribute and source
+  upsertDeviceAttribute(routerId: number, attribute: InsertDeviceAttribute): Promise<DeviceAttribute>;
 
   // SSH Configuration
-  getSSHConfig(): Promise<SSHConfig | undefined>;
-  saveSSHConfig(config: InsertSSHConfig): Promise<SSHConfig>;
-  updateSSHConnectionStatus(status: string): Promise<void>;
-  clearSSHConfig(): Promise<void>;
-  clearAllData(): Promise<void>;
+  getSSHConfig(routerId: number): Promise<SSHConfig | undefined>;
+  saveSSHConfig(routerId: number, config: InsertSSHConfig): Promise<SSHConfig>;
+  updateSSHConnectionStatus(routerId: number, status: string): Promise<void>;
+  updateSSHHostKey(routerId: number, fingerprint: string | null): Promise<void>;
+  clearSSHConfig(routerId: number): Promise<void>;
+  clearAllData(routerId: number): Promise<void>;
 
   // Router Features
-  getRouterFeatures(): Promise<RouterFeatures | undefined>;
-  updateRouterFeatures(features: InsertRouterFeatures): Promise<RouterFeatures>;
+  getRouterFeatures(routerId: number): Promise<RouterFeatures | undefined>;
+  updateRouterFeatures(routerId: number, features: InsertRouterFeatures): Promise<RouterFeatures>;
 
   // Device Groups
   getDeviceGroups(): Promise<DeviceGroup[]>;
@@ -103,46 +250,533 @@ export interface IStorage {
   removeTagFromDevice(deviceId: number, tagId: number): Promise<boolean>;
   getDeviceTags(deviceId: number): Promise<DeviceTag[]>;
   getTaggedDevices(tagId: number): Promise<ConnectedDevice[]>;
+
+  // Audit Events
+  getAuditEvents(filters?: AuditEventFilters): Promise<AuditEvent[]>;
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+
+  // NVRAM Change Sets
+  getNvramChangeSets(routerId: number, limit?: number): Promise<NvramChangeSet[]>;
+  getNvramChangeSet(routerId: number, id: number): Promise<NvramChangeSet | undefined>;
+  createNvramChangeSet(routerId: number, changeSet: InsertNvramChangeSet): Promise<NvramChangeSet>;
+  updateNvramChangeSet(routerId: number, id: number, changeSet: Partial<InsertNvramChangeSet>): Promise<NvramChangeSet | undefined>;
+
+  // Config Backups
+  getConfigBackups(routerId: number): Promise<ConfigBackup[]>;
+  getConfigBackup(routerId: number, id: number): Promise<ConfigBackup | undefined>;
+  createConfigBackup(routerId: number, backup: InsertConfigBackup): Promise<ConfigBackup>;
+  updateConfigBackup(routerId: number, id: number, backup: Partial<InsertConfigBackup>): Promise<ConfigBackup | undefined>;
+  deleteConfigBackup(routerId: number, id: number): Promise<boolean>;
+
+  // NVRAM Snapshots
+  getNvramSnapshots(routerId: number, limit?: number): Promise<NvramSnapshot[]>;
+  getNvramSnapshot(routerId: number, id: number): Promise<NvramSnapshot | undefined>;
+  getLatestNvramSnapshot(routerId: number): Promise<NvramSnapshot | undefined>;
+  getBaselineNvramSnapshot(routerId: number): Promise<NvramSnapshot | undefined>;
+  createNvramSnapshot(routerId: number, snapshot: InsertNvramSnapshot): Promise<NvramSnapshot>;
+  updateNvramSnapshot(routerId: number, id: number, snapshot: Partial<InsertNvramSnapshot>): Promise<NvramSnapshot | undefined>;
+  deleteNvramSnapshot(routerId: number, id: number): Promise<boolean>;
+
+  // Alerting
+  getAlertChannels(): Promise<AlertChannel[]>;
+  getAlertChannel(id: number): Promise<AlertChannel | undefined>;
+  createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel>;
+  updateAlertChannel(id: number, channel: Partial<InsertAlertChannel>): Promise<AlertChannel | undefined>;
+  deleteAlertChannel(id: number): Promise<boolean>;
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: number): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: number, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: number): Promise<boolean>;
+  getAlertEvents(filters?: AlertEventFilters): Promise<AlertEvent[]>;
+  getAlertEvent(id: number): Promise<AlertEvent | undefined>;
+  createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent>;
+  updateAlertEvent(id: number, event: Partial<InsertAlertEvent>): Promise<AlertEvent | undefined>;
+
+  // Wake-on-LAN schedules; without a router id, every router's schedules
+  getWakeSchedules(routerId?: number): Promise<WakeSchedule[]>;
+  getWakeSchedule(routerId: number, id: number): Promise<WakeSchedule | undefined>;
+  createWakeSchedule(routerId: number, schedule: InsertWakeSchedule): Promise<WakeSchedule>;
+  updateWakeSchedule(routerId: number, id: number, schedule: Partial<InsertWakeSchedule>): Promise<WakeSchedule | undefined>;
+  deleteWakeSchedule(routerId: number, id: number): Promise<boolean>;
+}
+
+// A pinned host key only stays valid while the profile points at the same router
+function isSameSSHHost(existing: SSHConfig | undefined, config: InsertSSHConfig): boolean {
+  return !!existing && existing.host === config.host && existing.port === (config.port || 22);
+}
+
+// Credentials only ever reach the database encrypted; the plaintext columns stay empty
+function toStoredSSHConfig(config: InsertSSHConfig) {
+  const { encryptedCredentials } = encryptSSHConfig(config);
+  return {
+    ...config,
+    password: null,
+    privateKey: null,
+    passphrase: null,
+    encryptedCredentials: JSON.stringify(encryptedCredentials),
+  };
+}
+
+function fromStoredSSHConfig(config: SSHConfig): SSHConfig {
+  if (!config.encryptedCredentials) {
+    return config;
+  }
+  const decrypted = decryptSSHConfig({ ...config, encryptedCredentials: JSON.parse(config.encryptedCredentials) });
+  return { ...decrypted, encryptedCredentials: null };
 }
 
 export class MemStorage implements IStorage {
-  private routerStatus: RouterStatus | undefined;
+  sessionStore: session.Store;
+  ready: Promise<void>;
+  private users: Map<number, User>;
+  private routers: Map<number, Router>;
+  private routerStatuses: Map<number, RouterStatus>;
   private connectedDevices: Map<number, ConnectedDevice>;
   private wifiNetworks: Map<number, WifiNetwork>;
   private portForwardingRules: Map<number, PortForwardingRule>;
+  private dhcpReservations: Map<number, DhcpReservation>;
+  private deviceOverrides: Map<number, DeviceOverride>;
   private bandwidthData: BandwidthData[];
-  private sshConfiguration: SSHConfig | undefined;
-  private routerFeatures: RouterFeatures | undefined;
+  private deviceBandwidthSamples: DeviceBandwidthSample[];
+  private wifiScanResults: WifiScanResult[];
+  private wifiChannelStats: WifiChannelStat[];
+  private deviceSessions: Map<number, DeviceSession>;
+  private deviceAttributes: Map<number, DeviceAttribute>;
+  private sshConfigurations: Map<number, SSHConfig>;
+  private routerFeatures: Map<number, RouterFeatures>;
+  private auditEvents: AuditEvent[];
+  private nvramChangeSets: Map<number, NvramChangeSet>;
+  private configBackups: Map<number, ConfigBackup>;
+  private nvramSnapshots: Map<number, NvramSnapshot>;
+  private alertChannels: Map<number, AlertChannel>;
+  private alertRules: Map<number, AlertRule>;
+  private alertEvents: AlertEvent[];
+  private deviceGroups: Map<number, DeviceGroup>;
+  private deviceGroupMemberships: Map<number, DeviceGroupMembership>;
+  private deviceTags: Map<number, DeviceTag>;
+  private deviceTagAssignments: Map<number, DeviceTagAssignment>;
+  private wakeSchedules: Map<number, WakeSchedule>;
+  private currentUserId: number;
+  private currentRouterId: number;
   private currentDeviceId: number;
   private currentWifiId: number;
   private currentRuleId: number;
+  private currentReservationId: number;
+  private currentDeviceOverrideId: number;
   private currentBandwidthId: number;
+  private currentDeviceBandwidthId: number;
+  private currentWifiScanResultId: number;
+  private currentWifiChannelStatId: number;
+  private currentDeviceSessionId: number;
+  private currentDeviceAttributeId: number;
+  private currentAuditEventId: number;
+  private currentChangeSetId: number;
+  private currentConfigBackupId: number;
+  private currentSnapshotId: number;
+  private currentAlertChannelId: number;
+  private currentAlertRuleId: number;
+  private currentAlertEventId: number;
+  private currentDeviceGroupId: number;
+  private currentMembershipId: number;
+  private currentDeviceTagId: number;
+  private currentTagAssignmentId: number;
+  private currentWakeScheduleId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
+    this.users = new Map();
+    this.routers = new Map();
+    this.routerStatuses = new Map();
     this.connectedDevices = new Map();
     this.wifiNetworks = new Map();
     this.portForwardingRules = new Map();
+    this.dhcpReservations = new Map();
+    this.deviceOverrides = new Map();
     this.bandwidthData = [];
+    this.deviceBandwidthSamples = [];
+    this.wifiScanResults = [];
+    this.wifiChannelStats = [];
+    this.deviceSessions = new Map();
+    this.deviceAttributes = new Map();
+    this.sshConfigurations = new Map();
+    this.routerFeatures = new Map();
+    this.auditEvents = [];
+    this.nvramChangeSets = new Map();
+    this.configBackups = new Map();
+    this.nvramSnapshots = new Map();
+    this.alertChannels = new Map();
+    this.alertRules = new Map();
+    this.alertEvents = [];
+    this.deviceGroups = new Map();
+    this.deviceGroupMemberships = new Map();
+    this.deviceTags = new Map();
+    this.deviceTagAssignments = new Map();
+    this.wakeSchedules = new Map();
+    this.currentUserId = 1;
+    this.currentRouterId = 1;
     this.currentDeviceId = 1;
     this.currentWifiId = 1;
     this.currentRuleId = 1;
+    this.currentReservationId = 1;
+    this.currentDeviceOverrideId = 1;
     this.currentBandwidthId = 1;
+    this.currentDeviceBandwidthId = 1;
+    this.currentWifiScanResultId = 1;
+    this.currentWifiChannelStatId = 1;
+    this.currentDeviceSessionId = 1;
+    this.currentDeviceAttributeId = 1;
+    this.currentAuditEventId = 1;
+    this.currentChangeSetId = 1;
+    this.currentConfigBackupId = 1;
+    this.currentSnapshotId = 1;
+    this.currentAlertChannelId = 1;
+    this.currentAlertRuleId = 1;
+    this.currentAlertEventId = 1;
+    this.currentDeviceGroupId = 1;
+    this.currentMembershipId = 1;
+    this.currentDeviceTagId = 1;
+    this.currentTagAssignmentId = 1;
+    this.currentWakeScheduleId = 1;
 
     // Start with empty data - populate only when SSH connection is established
-    this.loadSSHConfigFromFile();
+    this.ready = Promise.all([
+      this.loadSSHConfigFromFile(),
+      this.loadAuditEventsFromFile(),
+      this.loadConfigBackupsFromFile(),
+      this.loadNvramSnapshotsFromFile(),
+      this.loadAlertsFromFile(),
+      this.loadWakeSchedulesFromFile(),
+      this.loadDeviceOverridesFromFile(),
+    ]).then(() => undefined);
+  }
+
+  private async loadAuditEventsFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
+          const auditPath = path.join(process.cwd(), 'audit-events.json');
+
+          if (fs.existsSync(auditPath)) {
+            const saved: AuditEvent[] = JSON.parse(fs.readFileSync(auditPath, 'utf8'));
+            // Events recorded before the file finished loading stay at the end
+            this.auditEvents = [
+              ...saved.map(event => ({ ...event, createdAt: event.createdAt ? new Date(event.createdAt) : null })),
+              ...this.auditEvents,
+            ];
+            this.currentAuditEventId = Math.max(this.currentAuditEventId, ...saved.map(event => event.id + 1));
+          }
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to load audit events:', error);
+    }
+  }
+
+  private saveAuditEventsToFile() {
+    try {
+      import('fs').then(async fs => {
+        import('path').then(async path => {
+          const auditPath = path.join(process.cwd(), 'audit-events.json');
+          fs.writeFileSync(auditPath, JSON.stringify(this.auditEvents));
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to save audit events:', error);
+    }
+  }
+
+  // Backups are only useful if they outlive the process, so they get their own file
+  private async loadConfigBackupsFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
+          const backupsPath = path.join(process.cwd(), 'config-backups.json');
+
+          if (fs.existsSync(backupsPath)) {
+            const saved: ConfigBackup[] = JSON.parse(fs.readFileSync(backupsPath, 'utf8'));
+            // Backups saved before their contents were sealed are sealed now, so no plaintext dump stays on disk
+            const unsealed = saved.filter(backup => !isSealedText(backup.nvram));
+            for (const backup of saved) {
+              this.configBackups.set(backup.id, {
+                ...backup,
+                nvram: isSealedText(backup.nvram) ? backup.nvram : sealSensitiveText(backup.nvram),
+                jffsScripts: isSealedText(backup.jffsScripts) ? backup.jffsScripts : sealSensitiveText(backup.jffsScripts),
+                createdAt: backup.createdAt ? new Date(backup.createdAt) : null,
+              });
+            }
+            this.currentConfigBackupId = Math.max(this.currentConfigBackupId, ...saved.map(backup => backup.id + 1));
+            if (unsealed.length > 0) {
+              this.saveConfigBackupsToFile();
+            }
+          }
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to load config backups:', error);
+    }
   }
 
-  private loadSSHConfigFromFile() {
+  private saveConfigBackupsToFile() {
     try {
       import('fs').then(async fs => {
         import('path').then(async path => {
+          const backupsPath = path.join(process.cwd(), 'config-backups.json');
+          fs.writeFileSync(backupsPath, JSON.stringify(Array.from(this.configBackups.values())));
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to save config backups:', error);
+    }
+  }
+
+  private async loadNvramSnapshotsFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
+          const snapshotsPath = path.join(process.cwd(), 'nvram-snapshots.json');
+
+          if (fs.existsSync(snapshotsPath)) {
+            const saved: NvramSnapshot[] = JSON.parse(fs.readFileSync(snapshotsPath, 'utf8'));
+            for (const snapshot of saved) {
+              this.nvramSnapshots.set(snapshot.id, {
+                ...snapshot,
+                createdAt: snapshot.createdAt ? new Date(snapshot.createdAt) : null,
+                checkedAt: snapshot.checkedAt ? new Date(snapshot.checkedAt) : null,
+                acknowledgedAt: snapshot.acknowledgedAt ? new Date(snapshot.acknowledgedAt) : null,
+              });
+            }
+            this.currentSnapshotId = Math.max(this.currentSnapshotId, ...saved.map(snapshot => snapshot.id + 1));
+          }
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to load NVRAM snapshots:', error);
+    }
+  }
+
+  private saveNvramSnapshotsToFile() {
+    try {
+      import('fs').then(async fs => {
+        import('path').then(async path => {
+          const snapshotsPath = path.join(process.cwd(), 'nvram-snapshots.json');
+          fs.writeFileSync(snapshotsPath, JSON.stringify(Array.from(this.nvramSnapshots.values())));
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to save NVRAM snapshots:', error);
+    }
+  }
+
+  private async loadAlertsFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
+          const alertsPath = path.join(process.cwd(), 'alerts.json');
+
+          if (fs.existsSync(alertsPath)) {
+            const saved = JSON.parse(fs.readFileSync(alertsPath, 'utf8'));
+            const toDate = (value: string | null) => value ? new Date(value) : null;
+
+            for (const channel of (saved.channels || []) as AlertChannel[]) {
+              this.alertChannels.set(channel.id, { ...channel, createdAt: toDate(channel.createdAt as any) });
+            }
+            for (const rule of (saved.rules || []) as AlertRule[]) {
+              this.alertRules.set(rule.id, { ...rule, createdAt: toDate(rule.createdAt as any) });
+            }
+            const events = ((saved.events || []) as AlertEvent[]).map(event => ({
+              ...event,
+              notifiedAt: toDate(event.notifiedAt as any),
+              acknowledgedAt: toDate(event.acknowledgedAt as any),
+              resolvedAt: toDate(event.resolvedAt as any),
+              createdAt: toDate(event.createdAt as any),
+            }));
+            this.alertEvents = [...events, ...this.alertEvents];
+
+            this.currentAlertChannelId = Math.max(this.currentAlertChannelId, ...Array.from(this.alertChannels.keys()).map(id => id + 1));
+            this.currentAlertRuleId = Math.max(this.currentAlertRuleId, ...Array.from(this.alertRules.keys()).map(id => id + 1));
+            this.currentAlertEventId = Math.max(this.currentAlertEventId, ...events.map(event => event.id + 1));
+          }
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to load alerts:', error);
+    }
+  }
+
+  private saveAlertsToFile() {
+    try {
+      import('fs').then(async fs => {
+        import('path').then(async path => {
+          const alertsPath = path.join(process.cwd(), 'alerts.json');
+          fs.writeFileSync(alertsPath, JSON.stringify({
+            channels: Array.from(this.alertChannels.values()),
+            rules: Array.from(this.alertRules.values()),
+            events: this.alertEvents,
+          }));
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to save alerts:', error);
+    }
+  }
+
+  private async loadWakeSchedulesFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
+          const schedulesPath = path.join(process.cwd(), 'wake-schedules.json');
+
+          if (fs.existsSync(schedulesPath)) {
+            const saved: WakeSchedule[] = JSON.parse(fs.readFileSync(schedulesPath, 'utf8'));
+            const toDate = (value: string | null) => value ? new Date(value) : null;
+            for (const schedule of saved) {
+              this.wakeSchedules.set(schedule.id, {
+                ...schedule,
+                runAt: toDate(schedule.runAt as any),
+                lastRunAt: toDate(schedule.lastRunAt as any),
+                createdAt: toDate(schedule.createdAt as any),
+              });
+            }
+            this.currentWakeScheduleId = Math.max(this.currentWakeScheduleId, ...saved.map(schedule => schedule.id + 1));
+          }
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to load wake schedules:', error);
+    }
+  }
+
+  private saveWakeSchedulesToFile() {
+    try {
+      import('fs').then(async fs => {
+        import('path').then(async path => {
+          const schedulesPath = path.join(process.cwd(), 'wake-schedules.json');
+          fs.writeFileSync(schedulesPath, JSON.stringify(Array.from(this.wakeSchedules.values())));
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to save wake schedules:', error);
+    }
+  }
+
+  private async loadDeviceOverridesFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
+          const overridesPath = path.join(process.cwd(), 'device-overrides.json');
+
+          if (fs.existsSync(overridesPath)) {
+            const saved: DeviceOverride[] = JSON.parse(fs.readFileSync(overridesPath, 'utf8'));
+            for (const override of saved) {
+              this.deviceOverrides.set(override.id, {
+                ...override,
+                updatedAt: override.updatedAt ? new Date(override.updatedAt) : null,
+              });
+            }
+            this.currentDeviceOverrideId = Math.max(this.currentDeviceOverrideId, ...saved.map(override => override.id + 1));
+          }
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to load device overrides:', error);
+    }
+  }
+
+  private saveDeviceOverridesToFile() {
+    try {
+      import('fs').then(async fs => {
+        import('path').then(async path => {
+          const overridesPath = path.join(process.cwd(), 'device-overrides.json');
+          fs.writeFileSync(overridesPath, JSON.stringify(Array.from(this.deviceOverrides.values())));
+        }).catch(() => {
+          // Path module not available
+        });
+      }).catch(() => {
+        // FS module not available, skip file operations
+      });
+    } catch (error) {
+      console.error('Failed to save device overrides:', error);
+    }
+  }
+
+  private async loadSSHConfigFromFile() {
+    try {
+      await import('fs').then(async fs => {
+        await import('path').then(async path => {
           const configPath = path.join(process.cwd(), 'ssh-config.json');
           
           if (fs.existsSync(configPath)) {
             const configData = fs.readFileSync(configPath, 'utf8');
-            const encryptedConfig = JSON.parse(configData);
-            // Decrypt the SSH configuration on load
-            this.sshConfiguration = decryptSSHConfig(encryptedConfig);
+            const saved = JSON.parse(configData);
+
+            // Older versions stored a single SSH profile; adopt it as the default router
+            const savedRouters: Router[] = saved.routers || [{ id: 1, name: 'Main Router', location: null, createdAt: new Date() }];
+            const savedConfigs: any[] = saved.routers ? saved.sshConfigs || [] : [{ ...saved, routerId: 1 }];
+
+            for (const user of (saved.users || []) as User[]) {
+              this.users.set(user.id, { ...user, createdAt: user.createdAt ? new Date(user.createdAt) : null });
+              this.currentUserId = Math.max(this.currentUserId, user.id + 1);
+            }
+            for (const router of savedRouters) {
+              this.routers.set(router.id, { ...router, createdAt: router.createdAt ? new Date(router.createdAt) : null });
+              this.currentRouterId = Math.max(this.currentRouterId, router.id + 1);
+            }
+            for (const encryptedConfig of savedConfigs) {
+              // Decrypt the SSH configuration on load
+              const config = decryptSSHConfig(encryptedConfig);
+              this.sshConfigurations.set(config.routerId, {
+                ...config,
+                authMethod: config.authMethod || 'password',
+                hostKeyFingerprint: config.hostKeyFingerprint || null,
+              });
+            }
           }
         }).catch(() => {
           // Path module not available
@@ -153,7 +787,7 @@ export class MemStorage implements IStorage {
     } catch (error) {
       console.error('Failed to load SSH config:', error);
       // Clear corrupted config and start fresh
-      this.sshConfiguration = undefined;
+      this.sshConfigurations.clear();
     }
   }
 
@@ -163,11 +797,13 @@ export class MemStorage implements IStorage {
         import('path').then(async path => {
           const configPath = path.join(process.cwd(), 'ssh-config.json');
           
-          if (this.sshConfiguration) {
-            // Encrypt SSH configuration before saving to disk
-            const encryptedConfig = encryptSSHConfig(this.sshConfiguration);
-            fs.writeFileSync(configPath, JSON.stringify(encryptedConfig, null, 2));
-          }
+          // Encrypt SSH configuration before saving to disk
+          const saved = {
+            users: Array.from(this.users.values()),
+            routers: Array.from(this.routers.values()),
+            sshConfigs: Array.from(this.sshConfigurations.values()).map(config => encryptSSHConfig(config)),
+          };
+          fs.writeFileSync(configPath, JSON.stringify(saved, null, 2));
         }).catch(() => {
           // Path module not available
         });
@@ -182,42 +818,162 @@ export class MemStorage implements IStorage {
   // All data comes exclusively from authentic SSH connections to ASUS routers
   // No sample data is used to ensure data integrity
 
+  // User Methods
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const newUser: User = {
+      id,
+      username: user.username,
+      password: user.password,
+      role: user.role || 'viewer',
+      createdAt: new Date(),
+    };
+    this.users.set(id, newUser);
+    this.saveSSHConfigToFile();
+    return newUser;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, ...user };
+    this.users.set(id, updated);
+    this.saveSSHConfigToFile();
+    return updated;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = this.users.delete(id);
+    if (deleted) this.saveSSHConfigToFile();
+    return deleted;
+  }
+
+  // Router Methods
+  async getRouters(): Promise<Router[]> {
+    return Array.from(this.routers.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getRouter(id: number): Promise<Router | undefined> {
+    return this.routers.get(id);
+  }
+
+  async getDefaultRouter(): Promise<Router> {
+    const [first] = await this.getRouters();
+    return first || this.createRouter({ name: 'Main Router' });
+  }
+
+  async createRouter(router: InsertRouter): Promise<Router> {
+    const id = this.currentRouterId++;
+    const newRouter: Router = {
+      id,
+      name: router.name,
+      location: router.location ?? null,
+      createdAt: new Date(),
+    };
+    this.routers.set(id, newRouter);
+    this.saveSSHConfigToFile();
+    return newRouter;
+  }
+
+  async updateRouter(id: number, router: Partial<InsertRouter>): Promise<Router | undefined> {
+    const existing = this.routers.get(id);
+    if (!existing) return undefined;
+
+    const updated: Router = { ...existing, ...router };
+    this.routers.set(id, updated);
+    this.saveSSHConfigToFile();
+    return updated;
+  }
+
+  async deleteRouter(id: number): Promise<boolean> {
+    if (!this.routers.delete(id)) return false;
+
+    await this.clearAllData(id);
+    this.sshConfigurations.delete(id);
+    this.portForwardingRules.forEach((rule, ruleId) => {
+      if (rule.routerId === id) this.portForwardingRules.delete(ruleId);
+    });
+    this.nvramChangeSets.forEach((changeSet, changeSetId) => {
+      if (changeSet.routerId === id) this.nvramChangeSets.delete(changeSetId);
+    });
+    this.configBackups.forEach((backup, backupId) => {
+      if (backup.routerId === id) this.configBackups.delete(backupId);
+    });
+    this.nvramSnapshots.forEach((snapshot, snapshotId) => {
+      if (snapshot.routerId === id) this.nvramSnapshots.delete(snapshotId);
+    });
+    this.alertRules.forEach((rule, ruleId) => {
+      if (rule.routerId === id) this.alertRules.delete(ruleId);
+    });
+    this.alertEvents = this.alertEvents.filter(event => event.routerId !== id && this.alertRules.has(event.ruleId));
+    this.wakeSchedules.forEach((schedule, scheduleId) => {
+      if (schedule.routerId === id) this.wakeSchedules.delete(scheduleId);
+    });
+    this.deviceOverrides.forEach((override, overrideId) => {
+      if (override.routerId === id) this.deviceOverrides.delete(overrideId);
+    });
+    this.saveConfigBackupsToFile();
+    this.saveNvramSnapshotsToFile();
+    this.saveAlertsToFile();
+    this.saveWakeSchedulesToFile();
+    this.saveDeviceOverridesToFile();
+    this.saveSSHConfigToFile();
+    return true;
+  }
+
   // Router Status Methods
-  async getRouterStatus(): Promise<RouterStatus | undefined> {
-    return this.routerStatus;
+  async getRouterStatus(routerId: number): Promise<RouterStatus | undefined> {
+    return this.routerStatuses.get(routerId);
   }
 
-  async updateRouterStatus(status: InsertRouterStatus): Promise<RouterStatus> {
-    this.routerStatus = {
-      id: this.routerStatus?.id || 1,
+  async updateRouterStatus(routerId: number, status: InsertRouterStatus): Promise<RouterStatus> {
+    const updated = {
+      id: this.routerStatuses.get(routerId)?.id || routerId,
+      routerId,
       ...status,
       temperature: status.temperature ?? null,
       lastUpdated: new Date(),
-    };
-    return this.routerStatus;
+    } as RouterStatus;
+    this.routerStatuses.set(routerId, updated);
+    return updated;
   }
 
   // Connected Devices Methods
-  async getConnectedDevices(): Promise<ConnectedDevice[]> {
-    return Array.from(this.connectedDevices.values());
+  async getConnectedDevices(routerId: number): Promise<ConnectedDevice[]> {
+    return Array.from(this.connectedDevices.values()).filter(device => device.routerId === routerId);
   }
 
-  async getConnectedDevice(id: number): Promise<ConnectedDevice | undefined> {
-    return this.connectedDevices.get(id);
+  async getConnectedDevice(routerId: number, id: number): Promise<ConnectedDevice | undefined> {
+    const device = this.connectedDevices.get(id);
+    return device?.routerId === routerId ? device : undefined;
   }
 
-  async createConnectedDevice(device: InsertConnectedDevice): Promise<ConnectedDevice> {
-    // Check for existing device with same MAC address to prevent duplicates
-    for (const [existingId, existingDevice] of this.connectedDevices) {
+  async createConnectedDevice(routerId: number, device: InsertConnectedDevice): Promise<ConnectedDevice> {
+    // Check for existing device with same MAC address on this router to prevent duplicates
+    for (const existingDevice of await this.getConnectedDevices(routerId)) {
       if (existingDevice.macAddress === device.macAddress) {
         // Update existing device instead of creating duplicate
-        return this.updateConnectedDevice(existingId, device) || existingDevice;
+        return (await this.updateConnectedDevice(routerId, existingDevice.id, device)) || existingDevice;
       }
     }
     
     const id = this.currentDeviceId++;
-    const newDevice: ConnectedDevice = {
+    const newDevice = {
       id,
+      routerId,
       ...device,
       isOnline: device.isOnline ?? true,
       downloadSpeed: device.downloadSpeed ?? 0,
@@ -226,43 +982,53 @@ export class MemStorage implements IStorage {
       lastSeen: new Date(),
       connectionType: device.connectionType || 'wired',
       hostname: device.hostname || device.name,
-    };
+      vendor: device.vendor ?? null,
+      isRandomizedMac: device.isRandomizedMac ?? false,
+      isBlocked: device.isBlocked ?? false,
+      blockedUntil: device.blockedUntil ?? null,
+      parentalSchedule: device.parentalSchedule ?? null,
+    } as ConnectedDevice;
     this.connectedDevices.set(id, newDevice);
     return newDevice;
   }
 
-  async updateConnectedDevice(id: number, device: Partial<InsertConnectedDevice>): Promise<ConnectedDevice | undefined> {
-    const existing = this.connectedDevices.get(id);
+  async updateConnectedDevice(routerId: number, id: number, device: Partial<InsertConnectedDevice>): Promise<ConnectedDevice | undefined> {
+    const existing = await this.getConnectedDevice(routerId, id);
     if (!existing) return undefined;
 
     const updated: ConnectedDevice = {
       ...existing,
       ...device,
       lastSeen: new Date(),
-    };
+    } as ConnectedDevice;
     this.connectedDevices.set(id, updated);
     return updated;
   }
 
-  async deleteConnectedDevice(id: number): Promise<boolean> {
+  async deleteConnectedDevice(routerId: number, id: number): Promise<boolean> {
+    if (!(await this.getConnectedDevice(routerId, id))) return false;
     return this.connectedDevices.delete(id);
   }
 
   // WiFi Networks Methods
-  async getWifiNetworks(): Promise<WifiNetwork[]> {
-    return Array.from(this.wifiNetworks.values());
+  async getWifiNetworks(routerId: number): Promise<WifiNetwork[]> {
+    return Array.from(this.wifiNetworks.values()).filter(network => network.routerId === routerId);
   }
 
-  async getWifiNetwork(id: number): Promise<WifiNetwork | undefined> {
-    return this.wifiNetworks.get(id);
+  async getWifiNetwork(routerId: number, id: number): Promise<WifiNetwork | undefined> {
+    const network = this.wifiNetworks.get(id);
+    return network?.routerId === routerId ? network : undefined;
   }
 
-  async createWifiNetwork(network: InsertWifiNetwork): Promise<WifiNetwork> {
+  async createWifiNetwork(routerId: number, network: InsertWifiNetwork): Promise<WifiNetwork> {
     const id = this.currentWifiId++;
     const newNetwork: WifiNetwork = { 
       id, 
+      routerId,
       ...network,
+      interface: network.interface ?? null,
       channel: network.channel ?? null,
+      bandwidth: network.bandwidth ?? null,
       isEnabled: network.isEnabled ?? true,
       securityMode: network.securityMode ?? "WPA2",
       password: network.password ?? null,
@@ -272,8 +1038,8 @@ export class MemStorage implements IStorage {
     return newNetwork;
   }
 
-  async updateWifiNetwork(id: number, network: Partial<InsertWifiNetwork>): Promise<WifiNetwork | undefined> {
-    const existing = this.wifiNetworks.get(id);
+  async updateWifiNetwork(routerId: number, id: number, network: Partial<InsertWifiNetwork>): Promise<WifiNetwork | undefined> {
+    const existing = await this.getWifiNetwork(routerId, id);
     if (!existing) return undefined;
 
     const updated: WifiNetwork = { ...existing, ...network };
@@ -281,24 +1047,29 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async deleteWifiNetwork(id: number): Promise<boolean> {
+  async deleteWifiNetwork(routerId: number, id: number): Promise<boolean> {
+    if (!(await this.getWifiNetwork(routerId, id))) return false;
     return this.wifiNetworks.delete(id);
   }
 
   // Port Forwarding Rules Methods
-  async getPortForwardingRules(): Promise<PortForwardingRule[]> {
-    return Array.from(this.portForwardingRules.values());
+  async getPortForwardingRules(routerId: number): Promise<PortForwardingRule[]> {
+    return Array.from(this.portForwardingRules.values()).filter(rule => rule.routerId === routerId);
   }
 
-  async getPortForwardingRule(id: number): Promise<PortForwardingRule | undefined> {
-    return this.portForwardingRules.get(id);
+  async getPortForwardingRule(routerId: number, id: number): Promise<PortForwardingRule | undefined> {
+    const rule = this.portForwardingRules.get(id);
+    return rule?.routerId === routerId ? rule : undefined;
   }
 
-  async createPortForwardingRule(rule: InsertPortForwardingRule): Promise<PortForwardingRule> {
+  async createPortForwardingRule(routerId: number, rule: InsertPortForwardingRule): Promise<PortForwardingRule> {
     const id = this.currentRuleId++;
     const newRule: PortForwardingRule = { 
       id, 
+      routerId,
       ...rule,
+      externalPortEnd: rule.externalPortEnd ?? null,
+      sourceIp: rule.sourceIp ?? null,
       isEnabled: rule.isEnabled ?? true,
       description: rule.description ?? null,
     };
@@ -306,8 +1077,8 @@ export class MemStorage implements IStorage {
     return newRule;
   }
 
-  async updatePortForwardingRule(id: number, rule: Partial<InsertPortForwardingRule>): Promise<PortForwardingRule | undefined> {
-    const existing = this.portForwardingRules.get(id);
+  async updatePortForwardingRule(routerId: number, id: number, rule: Partial<InsertPortForwardingRule>): Promise<PortForwardingRule | undefined> {
+    const existing = await this.getPortForwardingRule(routerId, id);
     if (!existing) return undefined;
 
     const updated: PortForwardingRule = { ...existing, ...rule };
@@ -315,120 +1086,977 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async deletePortForwardingRule(id: number): Promise<boolean> {
+  async deletePortForwardingRule(routerId: number, id: number): Promise<boolean> {
+    if (!(await this.getPortForwardingRule(routerId, id))) return false;
     return this.portForwardingRules.delete(id);
   }
 
+  // DHCP Reservations Methods
+  async getDhcpReservations(routerId: number): Promise<DhcpReservation[]> {
+    return Array.from(this.dhcpReservations.values()).filter(reservation => reservation.routerId === routerId);
+  }
+
+  async getDhcpReservation(routerId: number, id: number): Promise<DhcpReservation | undefined> {
+    const reservation = this.dhcpReservations.get(id);
+    return reservation?.routerId === routerId ? reservation : undefined;
+  }
+
+  // Rows keep their id while the MAC stays reserved, so an edit dialog left open still points at it
+  async replaceDhcpReservations(routerId: number, reservations: InsertDhcpReservation[]): Promise<DhcpReservation[]> {
+    const existing = new Map((await this.getDhcpReservations(routerId)).map(reservation => [reservation.macAddress, reservation]));
+    this.dhcpReservations.forEach((reservation, id) => {
+      if (reservation.routerId === routerId) this.dhcpReservations.delete(id);
+    });
+
+    return reservations.map(reservation => {
+      const id = existing.get(reservation.macAddress)?.id ?? this.currentReservationId++;
+      const saved: DhcpReservation = {
+        id,
+        routerId,
+        macAddress: reservation.macAddress,
+        ipAddress: reservation.ipAddress,
+        hostname: reservation.hostname ?? null,
+        dnsServer: reservation.dnsServer ?? null,
+      };
+      this.dhcpReservations.set(id, saved);
+      return saved;
+    });
+  }
+
+  // Device Override Methods
+  async getDeviceOverrides(routerId: number): Promise<DeviceOverride[]> {
+    return Array.from(this.deviceOverrides.values()).filter(override => override.routerId === routerId);
+  }
+
+  async getDeviceOverride(routerId: number, macAddress: string): Promise<DeviceOverride | undefined> {
+    return Array.from(this.deviceOverrides.values())
+      .find(override => override.routerId === routerId && override.macAddress === macAddress);
+  }
+
+  async saveDeviceOverride(routerId: number, override: InsertDeviceOverride): Promise<DeviceOverride> {
+    const existing = await this.getDeviceOverride(routerId, override.macAddress);
+    const saved: DeviceOverride = {
+      id: existing?.id ?? this.currentDeviceOverrideId++,
+      routerId,
+      macAddress: override.macAddress,
+      name: override.name ?? null,
+      deviceType: override.deviceType ?? null,
+      icon: override.icon ?? null,
+      notes: override.notes ?? null,
+      owner: override.owner ?? null,
+      nameSource: override.nameSource ?? null,
+      routerName: override.routerName ?? null,
+      routerIcon: override.routerIcon ?? null,
+      hasConflict: override.hasConflict ?? false,
+      updatedBy: override.updatedBy ?? null,
+      updatedAt: new Date(),
+    };
+    this.deviceOverrides.set(saved.id, saved);
+    this.saveDeviceOverridesToFile();
+    return saved;
+  }
+
+  async deleteDeviceOverride(routerId: number, macAddress: string): Promise<boolean> {
+    const existing = await this.getDeviceOverride(routerId, macAddress);
+    if (!existing) return false;
+    this.deviceOverrides.delete(existing.id);
+    this.saveDeviceOverridesToFile();
+    return true;
+  }
+
   // Bandwidth Data Methods
-  async getBandwidthData(limit: number = 24): Promise<BandwidthData[]> {
+  async getBandwidthData(routerId: number, limit: number = 24): Promise<BandwidthData[]> {
     return this.bandwidthData
+      .filter(entry => entry.routerId === routerId)
       .sort((a, b) => (b.timestamp || new Date()).getTime() - (a.timestamp || new Date()).getTime())
       .slice(0, limit);
   }
 
-  async addBandwidthData(data: InsertBandwidthData): Promise<BandwidthData> {
+  async addBandwidthData(routerId: number, data: InsertBandwidthData): Promise<BandwidthData> {
     const id = this.currentBandwidthId++;
     const newData: BandwidthData = {
       id,
+      routerId,
       ...data,
       timestamp: new Date(),
     };
     this.bandwidthData.push(newData);
     
-    // Keep only last 100 entries
-    if (this.bandwidthData.length > 100) {
-      this.bandwidthData = this.bandwidthData.slice(-100);
+    // Keep only last 100 entries per router
+    const routerEntries = this.bandwidthData.filter(entry => entry.routerId === routerId);
+    if (routerEntries.length > 100) {
+      const oldest = routerEntries[0];
+      this.bandwidthData = this.bandwidthData.filter(entry => entry !== oldest);
     }
     
     return newData;
   }
 
-  async getSSHConfig(): Promise<SSHConfig | undefined> {
-    return this.sshConfiguration;
+  // Per-device Bandwidth Methods
+  async getDeviceBandwidthSamples(routerId: number, since: Date, macAddress?: string): Promise<DeviceBandwidthSample[]> {
+    return this.deviceBandwidthSamples.filter(sample =>
+      sample.routerId === routerId &&
+      (!macAddress || sample.macAddress === macAddress) &&
+      sample.timestamp! >= since
+    );
+  }
+
+  async addDeviceBandwidthSamples(routerId: number, samples: InsertDeviceBandwidthSample[]): Promise<void> {
+    const timestamp = new Date();
+    for (const sample of samples) {
+      this.deviceBandwidthSamples.push({ ...sample, id: this.currentDeviceBandwidthId++, routerId, timestamp });
+    }
+    if (this.deviceBandwidthSamples.length > MAX_MEM_DEVICE_BANDWIDTH_SAMPLES) {
+      this.deviceBandwidthSamples = this.deviceBandwidthSamples.slice(-MAX_MEM_DEVICE_BANDWIDTH_SAMPLES);
+    }
+  }
+
+  async pruneDeviceBandwidthSamples(routerId: number, before: Date): Promise<number> {
+    const count = this.deviceBandwidthSamples.length;
+    this.deviceBandwidthSamples = this.deviceBandwidthSamples.filter(sample =>
+      sample.routerId !== routerId || sample.timestamp! >= before
+    );
+    return count - this.deviceBandwidthSamples.length;
   }
 
-  async saveSSHConfig(config: InsertSSHConfig): Promise<SSHConfig> {
-    const existingStatus = this.sshConfiguration?.connectionStatus || 'disconnected';
-    const existingLastConnected = this.sshConfiguration?.lastConnected || null;
+  // WiFi Scan Result Methods
+  async getWifiScanResults(routerId: number, since: Date): Promise<WifiScanResult[]> {
+    return this.wifiScanResults.filter(result => result.routerId === routerId && result.scannedAt >= since);
+  }
+
+  async addWifiScanResults(routerId: number, results: InsertWifiScanResult[]): Promise<void> {
+    for (const result of results) {
+      this.wifiScanResults.push({ ...result, id: this.currentWifiScanResultId++, routerId, ssid: result.ssid ?? null, noise: result.noise ?? null });
+    }
+    if (this.wifiScanResults.length > MAX_MEM_WIFI_SCAN_RESULTS) {
+      this.wifiScanResults = this.wifiScanResults.slice(-MAX_MEM_WIFI_SCAN_RESULTS);
+    }
+  }
+
+  async pruneWifiScanResults(routerId: number, before: Date): Promise<number> {
+    const count = this.wifiScanResults.length;
+    this.wifiScanResults = this.wifiScanResults.filter(result =>
+      result.routerId !== routerId || result.scannedAt >= before
+    );
+    return count - this.wifiScanResults.length;
+  }
+
+  // WiFi Channel Stat Methods
+  async getWifiChannelStats(routerId: number, since: Date): Promise<WifiChannelStat[]> {
+    return this.wifiChannelStats.filter(stat => stat.routerId === routerId && stat.sampledAt >= since);
+  }
+
+  async addWifiChannelStats(routerId: number, stats: InsertWifiChannelStat[]): Promise<void> {
+    for (const stat of stats) {
+      this.wifiChannelStats.push({ ...stat, id: this.currentWifiChannelStatId++, routerId, noise: stat.noise ?? null });
+    }
+    if (this.wifiChannelStats.length > MAX_MEM_WIFI_CHANNEL_STATS) {
+      this.wifiChannelStats = this.wifiChannelStats.slice(-MAX_MEM_WIFI_CHANNEL_STATS);
+    }
+  }
+
+  async pruneWifiChannelStats(routerId: number, before: Date): Promise<number> {
+    const count = this.wifiChannelStats.length;
+    this.wifiChannelStats = this.wifiChannelStats.filter(stat =>
+      stat.routerId !== routerId || stat.sampledAt >= before
+    );
+    return count - this.wifiChannelStats.length;
+  }
+
+  // Device Session Methods
+  async getDeviceSessions(routerId: number, filters: DeviceSessionFilters = {}): Promise<DeviceSession[]> {
+    return Array.from(this.deviceSessions.values())
+      .filter(session =>
+        session.routerId === routerId &&
+        (!filters.macAddress || session.macAddress === filters.macAddress) &&
+        (!filters.since || !session.endedAt || session.endedAt >= filters.since) &&
+        (!filters.openOnly || !session.endedAt)
+      )
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
+  async createDeviceSession(routerId: number, session: InsertDeviceSession): Promise<DeviceSession> {
+    const newSession: DeviceSession = {
+      id: this.currentDeviceSessionId++,
+      routerId,
+      macAddress: session.macAddress,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt ?? null,
+      connectionType: session.connectionType ?? null,
+      wirelessBand: session.wirelessBand ?? null,
+      aimeshNode: session.aimeshNode ?? null,
+    };
+    this.deviceSessions.set(newSession.id, newSession);
+    return newSession;
+  }
+
+  async updateDeviceSession(id: number, session: Partial<InsertDeviceSession>): Promise<DeviceSession | undefined> {
+    const existing = this.deviceSessions.get(id);
+    if (!existing) return undefined;
+
+    const updated: DeviceSession = { ...existing, ...session };
+    this.deviceSessions.set(id, updated);
+    return updated;
+  }
+
+  async pruneDeviceSessions(routerId: number, endedBefore: Date): Promise<number> {
+    let removed = 0;
+    this.deviceSessions.forEach((session, id) => {
+      if (session.routerId === routerId && session.endedAt && session.endedAt < endedBefore) {
+        this.deviceSessions.delete(id);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  // Device Attribute Methods
+  async getDeviceAttributes(routerId: number, macAddress?: string): Promise<DeviceAttribute[]> {
+    return Array.from(this.deviceAttributes.values()).filter(attribute =>
+      attribute.routerId === routerId && (!macAddress || attribute.macAddress === macAddress)
+    );
+  }
+
+  async upsertDeviceAttribute(routerId: number, attribute: InsertDeviceAttribute): Promise<DeviceAttribute> {
+    const existing = Array.from(this.deviceAttributes.values()).find(candidate =>
+      candidate.routerId === routerId &&
+      candidate.macAddress === attribute.macAddress &&
+      candidate.attribute === attribute.attribute &&
+      candidate.source === attribute.source
+    );
+
+    const saved: DeviceAttribute = {
+      id: existing?.id ?? this.currentDeviceAttributeId++,
+      routerId,
+      ...attribute,
+      detail: attribute.detail ?? null,
+      updatedAt: new Date(),
+    };
+    this.deviceAttributes.set(saved.id, saved);
+    return saved;
+  }
+
+  async getSSHConfig(routerId: number): Promise<SSHConfig | undefined> {
+    return this.sshConfigurations.get(routerId);
+  }
+
+  async saveSSHConfig(routerId: number, config: InsertSSHConfig): Promise<SSHConfig> {
+    const existing = this.sshConfigurations.get(routerId);
+    const existingStatus = existing?.connectionStatus || 'disconnected';
+    const existingLastConnected = existing?.lastConnected || null;
     
     const newConfig: SSHConfig = {
-      id: 1,
+      id: routerId,
+      routerId,
       host: config.host,
       port: config.port || 22,
       username: config.username,
-      password: config.password,
+      authMethod: config.authMethod || 'password',
+      password: config.password || null,
+      privateKey: config.privateKey || null,
+      passphrase: config.passphrase || null,
+      encryptedCredentials: null,
+      hostKeyFingerprint: isSameSSHHost(existing, config) ? existing!.hostKeyFingerprint : null,
       enabled: config.enabled || false,
       syncInterval: config.syncInterval || 5,
       lastConnected: existingLastConnected,
       connectionStatus: existingStatus,
     };
-    this.sshConfiguration = newConfig;
+    this.sshConfigurations.set(routerId, newConfig);
     this.saveSSHConfigToFile();
     return newConfig;
   }
 
-  async updateSSHConnectionStatus(status: string): Promise<void> {
-    if (this.sshConfiguration) {
-      this.sshConfiguration.connectionStatus = status;
-      if (status === 'connected') {
-        this.sshConfiguration.lastConnected = new Date();
-      }
-      this.saveSSHConfigToFile();
-    }
+  async updateSSHConnectionStatus(routerId: number, status: string): Promise<void> {
+    const config = this.sshConfigurations.get(routerId);
+    if (config) {
+      config.connectionStatus = status;
+      if (status === 'connected') {
+        config.lastConnected = new Date();
+      }
+      this.saveSSHConfigToFile();
+    }
+  }
+
+  async updateSSHHostKey(routerId: number, fingerprint: string | null): Promise<void> {
+    const config = this.sshConfigurations.get(routerId);
+    if (config) {
+      config.hostKeyFingerprint = fingerprint;
+      this.saveSSHConfigToFile();
+    }
+  }
+
+  async clearSSHConfig(routerId: number): Promise<void> {
+    this.sshConfigurations.delete(routerId);
+    this.saveSSHConfigToFile();
+  }
+
+  async clearAllData(routerId: number): Promise<void> {
+    // Clear all router data but keep SSH config
+    this.routerStatuses.delete(routerId);
+    this.connectedDevices.forEach((device, id) => {
+      if (device.routerId === routerId) this.connectedDevices.delete(id);
+    });
+    this.wifiNetworks.forEach((network, id) => {
+      if (network.routerId === routerId) this.wifiNetworks.delete(id);
+    });
+    this.portForwardingRules.forEach((rule, id) => {
+      if (rule.routerId === routerId) this.portForwardingRules.delete(id);
+    });
+    this.dhcpReservations.forEach((reservation, id) => {
+      if (reservation.routerId === routerId) this.dhcpReservations.delete(id);
+    });
+    this.bandwidthData = this.bandwidthData.filter(entry => entry.routerId !== routerId);
+    this.deviceBandwidthSamples = this.deviceBandwidthSamples.filter(sample => sample.routerId !== routerId);
+    this.wifiScanResults = this.wifiScanResults.filter(result => result.routerId !== routerId);
+    this.wifiChannelStats = this.wifiChannelStats.filter(stat => stat.routerId !== routerId);
+    this.deviceSessions.forEach((session, id) => {
+      if (session.routerId === routerId) this.deviceSessions.delete(id);
+    });
+    this.deviceAttributes.forEach((attribute, id) => {
+      if (attribute.routerId === routerId) this.deviceAttributes.delete(id);
+    });
+    this.routerFeatures.delete(routerId);
+  }
+
+  async getRouterFeatures(routerId: number): Promise<RouterFeatures | undefined> {
+    return this.routerFeatures.get(routerId);
+  }
+
+  async updateRouterFeatures(routerId: number, features: InsertRouterFeatures): Promise<RouterFeatures> {
+    // Syncs only report the fields they read, so keep whatever the others stored
+    const newFeatures = {
+      ...this.routerFeatures.get(routerId),
+      id: routerId,
+      routerId,
+      ...features,
+      lastUpdated: new Date(),
+    } as RouterFeatures;
+    this.routerFeatures.set(routerId, newFeatures);
+    return newFeatures;
+  }
+
+  // Device Group Methods; groups span routers, memberships go with their device
+  async getDeviceGroups(deviceId?: number): Promise<DeviceGroup[]> {
+    const groupIds = deviceId === undefined
+      ? null
+      : new Set(Array.from(this.deviceGroupMemberships.values())
+        .filter(membership => membership.deviceId === deviceId)
+        .map(membership => membership.groupId));
+    return Array.from(this.deviceGroups.values())
+      .filter(group => !groupIds || groupIds.has(group.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDeviceGroup(id: number): Promise<DeviceGroup | undefined> {
+    return this.deviceGroups.get(id);
+  }
+
+  async createDeviceGroup(group: InsertDeviceGroup): Promise<DeviceGroup> {
+    const id = this.currentDeviceGroupId++;
+    const newGroup = {
+      id,
+      ...group,
+      description: group.description ?? null,
+      color: group.color ?? "#3B82F6",
+      icon: group.icon ?? "devices",
+      parentalSchedule: group.parentalSchedule ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as DeviceGroup;
+    this.deviceGroups.set(id, newGroup);
+    return newGroup;
+  }
+
+  async updateDeviceGroup(id: number, group: Partial<InsertDeviceGroup>): Promise<DeviceGroup | undefined> {
+    const existing = this.deviceGroups.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...group, updatedAt: new Date() };
+    this.deviceGroups.set(id, updated);
+    return updated;
+  }
+
+  async deleteDeviceGroup(id: number): Promise<boolean> {
+    this.deviceGroupMemberships.forEach((membership, membershipId) => {
+      if (membership.groupId === id) this.deviceGroupMemberships.delete(membershipId);
+    });
+    this.wakeSchedules.forEach((schedule, scheduleId) => {
+      if (schedule.groupId === id) this.wakeSchedules.delete(scheduleId);
+    });
+    this.saveWakeSchedulesToFile();
+    return this.deviceGroups.delete(id);
+  }
+
+  async addDeviceToGroup(deviceId: number, groupId: number): Promise<DeviceGroupMembership> {
+    const existing = Array.from(this.deviceGroupMemberships.values())
+      .find(membership => membership.deviceId === deviceId && membership.groupId === groupId);
+    if (existing) return existing;
+
+    const id = this.currentMembershipId++;
+    const membership: DeviceGroupMembership = { id, deviceId, groupId, addedAt: new Date() };
+    this.deviceGroupMemberships.set(id, membership);
+    return membership;
+  }
+
+  async removeDeviceFromGroup(deviceId: number, groupId: number): Promise<boolean> {
+    let removed = false;
+    this.deviceGroupMemberships.forEach((membership, id) => {
+      if (membership.deviceId === deviceId && membership.groupId === groupId) {
+        removed = this.deviceGroupMemberships.delete(id);
+      }
+    });
+    return removed;
+  }
+
+  async getGroupDevices(groupId: number): Promise<ConnectedDevice[]> {
+    const deviceIds = new Set(Array.from(this.deviceGroupMemberships.values())
+      .filter(membership => membership.groupId === groupId)
+      .map(membership => membership.deviceId));
+    return Array.from(this.connectedDevices.values()).filter(device => deviceIds.has(device.id));
+  }
+
+  // Device Tag Methods; like groups, tags span routers and assignments go with their device
+  async getDeviceTags(deviceId?: number): Promise<DeviceTag[]> {
+    const tagIds = deviceId === undefined
+      ? null
+      : new Set(Array.from(this.deviceTagAssignments.values())
+        .filter(assignment => assignment.deviceId === deviceId)
+        .map(assignment => assignment.tagId));
+    return Array.from(this.deviceTags.values())
+      .filter(tag => !tagIds || tagIds.has(tag.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDeviceTag(id: number): Promise<DeviceTag | undefined> {
+    return this.deviceTags.get(id);
+  }
+
+  async createDeviceTag(tag: InsertDeviceTag): Promise<DeviceTag> {
+    if (Array.from(this.deviceTags.values()).some(existing => existing.name === tag.name)) {
+      throw new Error(`Tag "${tag.name}" already exists`);
+    }
+    const id = this.currentDeviceTagId++;
+    const newTag = {
+      id,
+      ...tag,
+      color: tag.color ?? "#6B7280",
+      createdAt: new Date(),
+    } as DeviceTag;
+    this.deviceTags.set(id, newTag);
+    return newTag;
+  }
+
+  async updateDeviceTag(id: number, tag: Partial<InsertDeviceTag>): Promise<DeviceTag | undefined> {
+    const existing = this.deviceTags.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...tag };
+    this.deviceTags.set(id, updated);
+    return updated;
+  }
+
+  async deleteDeviceTag(id: number): Promise<boolean> {
+    this.deviceTagAssignments.forEach((assignment, assignmentId) => {
+      if (assignment.tagId === id) this.deviceTagAssignments.delete(assignmentId);
+    });
+    return this.deviceTags.delete(id);
+  }
+
+  async assignTagToDevice(deviceId: number, tagId: number): Promise<DeviceTagAssignment> {
+    const existing = Array.from(this.deviceTagAssignments.values())
+      .find(assignment => assignment.deviceId === deviceId && assignment.tagId === tagId);
+    if (existing) return existing;
+
+    const id = this.currentTagAssignmentId++;
+    const assignment: DeviceTagAssignment = { id, deviceId, tagId, assignedAt: new Date() };
+    this.deviceTagAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  async removeTagFromDevice(deviceId: number, tagId: number): Promise<boolean> {
+    let removed = false;
+    this.deviceTagAssignments.forEach((assignment, id) => {
+      if (assignment.deviceId === deviceId && assignment.tagId === tagId) {
+        removed = this.deviceTagAssignments.delete(id);
+      }
+    });
+    return removed;
+  }
+
+  async getTaggedDevices(tagId: number): Promise<ConnectedDevice[]> {
+    const deviceIds = new Set(Array.from(this.deviceTagAssignments.values())
+      .filter(assignment => assignment.tagId === tagId)
+      .map(assignment => assignment.deviceId));
+    return Array.from(this.connectedDevices.values()).filter(device => deviceIds.has(device.id));
+  }
+
+  // Audit Event Methods
+  async getAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const actor = filters.actor?.toLowerCase();
+    const action = filters.action?.toLowerCase();
+
+    return this.auditEvents
+      .filter(event =>
+        (filters.routerId === undefined || event.routerId === filters.routerId) &&
+        (!actor || event.actor.toLowerCase().includes(actor)) &&
+        (!action || event.action.toLowerCase().includes(action) || (event.target || '').toLowerCase().includes(action)) &&
+        (!filters.outcome || event.outcome === filters.outcome)
+      )
+      .reverse()
+      .slice(0, filters.limit || 100);
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const newEvent: AuditEvent = {
+      id: this.currentAuditEventId++,
+      routerId: event.routerId ?? null,
+      userId: event.userId ?? null,
+      actor: event.actor,
+      action: event.action,
+      target: event.target ?? null,
+      payload: event.payload ?? null,
+      sshCommands: event.sshCommands ?? null,
+      outcome: event.outcome,
+      statusCode: event.statusCode ?? null,
+      errorMessage: event.errorMessage ?? null,
+      durationMs: event.durationMs,
+      createdAt: new Date(),
+    };
+    this.auditEvents.push(newEvent);
+    if (this.auditEvents.length > MAX_MEM_AUDIT_EVENTS) {
+      this.auditEvents = this.auditEvents.slice(-MAX_MEM_AUDIT_EVENTS);
+    }
+    this.saveAuditEventsToFile();
+    return newEvent;
+  }
+
+  // NVRAM Change Set Methods
+  async getNvramChangeSets(routerId: number, limit: number = 50): Promise<NvramChangeSet[]> {
+    return Array.from(this.nvramChangeSets.values())
+      .filter(changeSet => changeSet.routerId === routerId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getNvramChangeSet(routerId: number, id: number): Promise<NvramChangeSet | undefined> {
+    const changeSet = this.nvramChangeSets.get(id);
+    return changeSet?.routerId === routerId ? changeSet : undefined;
+  }
+
+  async createNvramChangeSet(routerId: number, changeSet: InsertNvramChangeSet): Promise<NvramChangeSet> {
+    const newChangeSet: NvramChangeSet = {
+      id: this.currentChangeSetId++,
+      routerId,
+      description: changeSet.description,
+      changes: changeSet.changes,
+      services: changeSet.services ?? "[]",
+      snapshot: changeSet.snapshot ?? null,
+      status: changeSet.status ?? "staged",
+      errorMessage: changeSet.errorMessage ?? null,
+      createdBy: changeSet.createdBy,
+      createdAt: new Date(),
+      appliedAt: changeSet.appliedAt ?? null,
+    };
+    this.nvramChangeSets.set(newChangeSet.id, newChangeSet);
+    return newChangeSet;
+  }
+
+  async updateNvramChangeSet(routerId: number, id: number, changeSet: Partial<InsertNvramChangeSet>): Promise<NvramChangeSet | undefined> {
+    const existing = await this.getNvramChangeSet(routerId, id);
+    if (!existing) return undefined;
+
+    const updated: NvramChangeSet = { ...existing, ...changeSet };
+    this.nvramChangeSets.set(id, updated);
+    return updated;
+  }
+
+  // Config Backup Methods
+  async getConfigBackups(routerId: number): Promise<ConfigBackup[]> {
+    return Array.from(this.configBackups.values())
+      .filter(backup => backup.routerId === routerId)
+      .reverse();
+  }
+
+  async getConfigBackup(routerId: number, id: number): Promise<ConfigBackup | undefined> {
+    const backup = this.configBackups.get(id);
+    return backup?.routerId === routerId ? backup : undefined;
+  }
+
+  async createConfigBackup(routerId: number, backup: InsertConfigBackup): Promise<ConfigBackup> {
+    const newBackup: ConfigBackup = {
+      id: this.currentConfigBackupId++,
+      routerId,
+      label: backup.label ?? null,
+      source: backup.source ?? "manual",
+      model: backup.model ?? null,
+      firmware: backup.firmware ?? null,
+      nvram: backup.nvram,
+      jffsScripts: backup.jffsScripts ?? "{}",
+      keyCount: backup.keyCount ?? 0,
+      sizeBytes: backup.sizeBytes ?? 0,
+      createdBy: backup.createdBy,
+      createdAt: new Date(),
+    };
+    this.configBackups.set(newBackup.id, newBackup);
+    this.saveConfigBackupsToFile();
+    return newBackup;
+  }
+
+  async updateConfigBackup(routerId: number, id: number, backup: Partial<InsertConfigBackup>): Promise<ConfigBackup | undefined> {
+    const existing = await this.getConfigBackup(routerId, id);
+    if (!existing) return undefined;
+
+    const updated: ConfigBackup = { ...existing, ...backup };
+    this.configBackups.set(id, updated);
+    this.saveConfigBackupsToFile();
+    return updated;
+  }
+
+  async deleteConfigBackup(routerId: number, id: number): Promise<boolean> {
+    if (!(await this.getConfigBackup(routerId, id))) return false;
+
+    this.configBackups.delete(id);
+    this.saveConfigBackupsToFile();
+    return true;
+  }
+
+  // NVRAM Snapshot Methods
+  async getNvramSnapshots(routerId: number, limit: number = 100): Promise<NvramSnapshot[]> {
+    return Array.from(this.nvramSnapshots.values())
+      .filter(snapshot => snapshot.routerId === routerId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async getNvramSnapshot(routerId: number, id: number): Promise<NvramSnapshot | undefined> {
+    const snapshot = this.nvramSnapshots.get(id);
+    return snapshot?.routerId === routerId ? snapshot : undefined;
+  }
+
+  async getLatestNvramSnapshot(routerId: number): Promise<NvramSnapshot | undefined> {
+    const [latest] = await this.getNvramSnapshots(routerId, 1);
+    return latest;
+  }
+
+  async getBaselineNvramSnapshot(routerId: number): Promise<NvramSnapshot | undefined> {
+    return Array.from(this.nvramSnapshots.values())
+      .find(snapshot => snapshot.routerId === routerId && snapshot.isBaseline);
+  }
+
+  async createNvramSnapshot(routerId: number, snapshot: InsertNvramSnapshot): Promise<NvramSnapshot> {
+    const now = new Date();
+    const newSnapshot: NvramSnapshot = {
+      id: this.currentSnapshotId++,
+      routerId,
+      values: snapshot.values,
+      keyCount: snapshot.keyCount ?? 0,
+      changeCount: snapshot.changeCount ?? 0,
+      driftCount: snapshot.driftCount ?? 0,
+      isBaseline: snapshot.isBaseline ?? false,
+      acknowledgedBy: snapshot.acknowledgedBy ?? null,
+      acknowledgedAt: snapshot.acknowledgedAt ?? null,
+      createdAt: now,
+      checkedAt: snapshot.checkedAt ?? now,
+    };
+    this.nvramSnapshots.set(newSnapshot.id, newSnapshot);
+    this.saveNvramSnapshotsToFile();
+    return newSnapshot;
+  }
+
+  async updateNvramSnapshot(routerId: number, id: number, snapshot: Partial<InsertNvramSnapshot>): Promise<NvramSnapshot | undefined> {
+    const existing = await this.getNvramSnapshot(routerId, id);
+    if (!existing) return undefined;
+
+    const updated: NvramSnapshot = { ...existing, ...snapshot };
+    this.nvramSnapshots.set(id, updated);
+    this.saveNvramSnapshotsToFile();
+    return updated;
+  }
+
+  async deleteNvramSnapshot(routerId: number, id: number): Promise<boolean> {
+    if (!(await this.getNvramSnapshot(routerId, id))) return false;
+
+    this.nvramSnapshots.delete(id);
+    this.saveNvramSnapshotsToFile();
+    return true;
+  }
+
+  // Alerting Methods
+  async getAlertChannels(): Promise<AlertChannel[]> {
+    return Array.from(this.alertChannels.values());
+  }
+
+  async getAlertChannel(id: number): Promise<AlertChannel | undefined> {
+    return this.alertChannels.get(id);
+  }
+
+  async createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel> {
+    const newChannel: AlertChannel = {
+      id: this.currentAlertChannelId++,
+      name: channel.name,
+      type: channel.type,
+      config: channel.config ?? "{}",
+      encryptedSecret: channel.encryptedSecret ?? null,
+      isEnabled: channel.isEnabled ?? true,
+      createdAt: new Date(),
+    };
+    this.alertChannels.set(newChannel.id, newChannel);
+    this.saveAlertsToFile();
+    return newChannel;
+  }
+
+  async updateAlertChannel(id: number, channel: Partial<InsertAlertChannel>): Promise<AlertChannel | undefined> {
+    const existing = this.alertChannels.get(id);
+    if (!existing) return undefined;
+
+    const updated: AlertChannel = { ...existing, ...channel };
+    this.alertChannels.set(id, updated);
+    this.saveAlertsToFile();
+    return updated;
+  }
+
+  async deleteAlertChannel(id: number): Promise<boolean> {
+    const deleted = this.alertChannels.delete(id);
+    if (deleted) this.saveAlertsToFile();
+    return deleted;
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values());
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const newRule: AlertRule = {
+      id: this.currentAlertRuleId++,
+      routerId: rule.routerId ?? null,
+      name: rule.name,
+      type: rule.type,
+      threshold: rule.threshold ?? null,
+      severity: rule.severity ?? "warning",
+      channelIds: rule.channelIds ?? "[]",
+      cooldownMinutes: rule.cooldownMinutes ?? 30,
+      isEnabled: rule.isEnabled ?? true,
+      createdAt: new Date(),
+    };
+    this.alertRules.set(newRule.id, newRule);
+    this.saveAlertsToFile();
+    return newRule;
+  }
+
+  async updateAlertRule(id: number, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const existing = this.alertRules.get(id);
+    if (!existing) return undefined;
+
+    const updated: AlertRule = { ...existing, ...rule };
+    this.alertRules.set(id, updated);
+    this.saveAlertsToFile();
+    return updated;
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    if (!this.alertRules.delete(id)) return false;
+
+    this.alertEvents = this.alertEvents.filter(event => event.ruleId !== id);
+    this.saveAlertsToFile();
+    return true;
+  }
+
+  async getAlertEvents(filters: AlertEventFilters = {}): Promise<AlertEvent[]> {
+    return this.alertEvents
+      .filter(event =>
+        (filters.ruleId === undefined || event.ruleId === filters.ruleId) &&
+        (!filters.statuses || filters.statuses.includes(event.status))
+      )
+      .reverse()
+      .slice(0, filters.limit || 100);
+  }
+
+  async getAlertEvent(id: number): Promise<AlertEvent | undefined> {
+    return this.alertEvents.find(event => event.id === id);
+  }
+
+  async createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const newEvent: AlertEvent = {
+      id: this.currentAlertEventId++,
+      ruleId: event.ruleId,
+      routerId: event.routerId ?? null,
+      subject: event.subject,
+      severity: event.severity,
+      title: event.title,
+      message: event.message,
+      status: event.status ?? "open",
+      deliveries: event.deliveries ?? "[]",
+      notifiedAt: event.notifiedAt ?? null,
+      acknowledgedBy: event.acknowledgedBy ?? null,
+      acknowledgedAt: event.acknowledgedAt ?? null,
+      resolvedAt: event.resolvedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.alertEvents.push(newEvent);
+    if (this.alertEvents.length > MAX_MEM_ALERT_EVENTS) {
+      this.alertEvents = this.alertEvents.slice(-MAX_MEM_ALERT_EVENTS);
+    }
+    this.saveAlertsToFile();
+    return newEvent;
+  }
+
+  async updateAlertEvent(id: number, event: Partial<InsertAlertEvent>): Promise<AlertEvent | undefined> {
+    const index = this.alertEvents.findIndex(existing => existing.id === id);
+    if (index === -1) return undefined;
+
+    const updated: AlertEvent = { ...this.alertEvents[index], ...event };
+    this.alertEvents[index] = updated;
+    this.saveAlertsToFile();
+    return updated;
+  }
+
+  // Wake Schedule Methods
+  async getWakeSchedules(routerId?: number): Promise<WakeSchedule[]> {
+    return Array.from(this.wakeSchedules.values())
+      .filter(schedule => routerId === undefined || schedule.routerId === routerId);
+  }
+
+  async getWakeSchedule(routerId: number, id: number): Promise<WakeSchedule | undefined> {
+    const schedule = this.wakeSchedules.get(id);
+    return schedule?.routerId === routerId ? schedule : undefined;
+  }
+
+  async createWakeSchedule(routerId: number, schedule: InsertWakeSchedule): Promise<WakeSchedule> {
+    const newSchedule: WakeSchedule = {
+      id: this.currentWakeScheduleId++,
+      routerId,
+      name: schedule.name,
+      macAddress: schedule.macAddress ?? null,
+      groupId: schedule.groupId ?? null,
+      days: schedule.days ?? null,
+      time: schedule.time ?? null,
+      runAt: schedule.runAt ?? null,
+      confirmWithPing: schedule.confirmWithPing ?? false,
+      isEnabled: schedule.isEnabled ?? true,
+      lastRunAt: schedule.lastRunAt ?? null,
+      lastStatus: schedule.lastStatus ?? null,
+      lastResult: schedule.lastResult ?? null,
+      createdBy: schedule.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.wakeSchedules.set(newSchedule.id, newSchedule);
+    this.saveWakeSchedulesToFile();
+    return newSchedule;
+  }
+
+  async updateWakeSchedule(routerId: number, id: number, schedule: Partial<InsertWakeSchedule>): Promise<WakeSchedule | undefined> {
+    const existing = await this.getWakeSchedule(routerId, id);
+    if (!existing) return undefined;
+
+    const updated: WakeSchedule = { ...existing, ...schedule };
+    this.wakeSchedules.set(id, updated);
+    this.saveWakeSchedulesToFile();
+    return updated;
+  }
+
+  async deleteWakeSchedule(routerId: number, id: number): Promise<boolean> {
+    if (!(await this.getWakeSchedule(routerId, id))) return false;
+    this.wakeSchedules.delete(id);
+    this.saveWakeSchedulesToFile();
+    return true;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  ready: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
+  // User Methods
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.id);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await db
+      .update(users)
+      .set(user)
+      .where(eq(users.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getRouters(): Promise<Router[]> {
+    return await db.select().from(routers).orderBy(routers.id);
+  }
+
+  async getRouter(id: number): Promise<Router | undefined> {
+    const [router] = await db.select().from(routers).where(eq(routers.id, id));
+    return router || undefined;
   }
 
-  async clearSSHConfig(): Promise<void> {
-    this.sshConfiguration = undefined;
-    // Clear the config file
-    try {
-      const fs = require('fs');
-      const path = require('path');
-      const configPath = path.join(process.cwd(), 'ssh-config.json');
-      if (fs.existsSync(configPath)) {
-        fs.unlinkSync(configPath);
-      }
-    } catch (error) {
-      // Ignore errors
-    }
+  async getDefaultRouter(): Promise<Router> {
+    const [first] = await db.select().from(routers).orderBy(routers.id).limit(1);
+    return first || this.createRouter({ name: "Main Router" });
   }
 
-  async clearAllData(): Promise<void> {
-    // Clear all router data but keep SSH config
-    this.routerStatus = undefined;
-    this.connectedDevices.clear();
-    this.wifiNetworks.clear();
-    this.portForwardingRules.clear();
-    this.bandwidthData = [];
-    this.routerFeatures = undefined;
-    this.currentDeviceId = 1;
-    this.currentWifiId = 1;
-    this.currentRuleId = 1;
-    this.currentBandwidthId = 1;
+  async createRouter(router: InsertRouter): Promise<Router> {
+    const [created] = await db
+      .insert(routers)
+      .values({
+        ...router,
+        createdAt: new Date(),
+      })
+      .returning();
+    return created;
   }
 
-  async getRouterFeatures(): Promise<RouterFeatures | undefined> {
-    return this.routerFeatures;
+  async updateRouter(id: number, router: Partial<InsertRouter>): Promise<Router | undefined> {
+    const [updated] = await db
+      .update(routers)
+      .set(router)
+      .where(eq(routers.id, id))
+      .returning();
+    return updated || undefined;
   }
 
-  async updateRouterFeatures(features: InsertRouterFeatures): Promise<RouterFeatures> {
-    const newFeatures: RouterFeatures = {
-      id: 1,
-      ...features,
-      lastUpdated: new Date(),
-    };
-    this.routerFeatures = newFeatures;
-    return newFeatures;
+  async deleteRouter(id: number): Promise<boolean> {
+    // Scoped tables cascade on router deletion
+    const result = await db.delete(routers).where(eq(routers.id, id));
+    return (result.rowCount ?? 0) > 0;
   }
-}
 
-export class DatabaseStorage implements IStorage {
-  async getRouterStatus(): Promise<RouterStatus | undefined> {
-    const [status] = await db.select().from(routerStatus).limit(1);
+  async getRouterStatus(routerId: number): Promise<RouterStatus | undefined> {
+    const [status] = await db.select().from(routerStatus).where(eq(routerStatus.routerId, routerId)).limit(1);
     return status || undefined;
   }
 
-  async updateRouterStatus(status: InsertRouterStatus): Promise<RouterStatus> {
-    const existing = await this.getRouterStatus();
+  async updateRouterStatus(routerId: number, status: InsertRouterStatus): Promise<RouterStatus> {
+    const existing = await this.getRouterStatus(routerId);
     
     if (existing) {
       const [updated] = await db
@@ -446,6 +2074,7 @@ export class DatabaseStorage implements IStorage {
         .insert(routerStatus)
         .values({
           ...status,
+          routerId,
           temperature: status.temperature ?? null,
           lastUpdated: new Date(),
         })
@@ -454,20 +2083,24 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getConnectedDevices(): Promise<ConnectedDevice[]> {
-    return await db.select().from(connectedDevices);
+  async getConnectedDevices(routerId: number): Promise<ConnectedDevice[]> {
+    return await db.select().from(connectedDevices).where(eq(connectedDevices.routerId, routerId));
   }
 
-  async getConnectedDevice(id: number): Promise<ConnectedDevice | undefined> {
-    const [device] = await db.select().from(connectedDevices).where(eq(connectedDevices.id, id));
+  async getConnectedDevice(routerId: number, id: number): Promise<ConnectedDevice | undefined> {
+    const [device] = await db
+      .select()
+      .from(connectedDevices)
+      .where(and(eq(connectedDevices.routerId, routerId), eq(connectedDevices.id, id)));
     return device || undefined;
   }
 
-  async createConnectedDevice(device: InsertConnectedDevice): Promise<ConnectedDevice> {
+  async createConnectedDevice(routerId: number, device: InsertConnectedDevice): Promise<ConnectedDevice> {
     const [created] = await db
       .insert(connectedDevices)
       .values({
         ...device,
+        routerId,
         isOnline: device.isOnline ?? true,
         downloadSpeed: device.downloadSpeed ?? 0,
         uploadSpeed: device.uploadSpeed ?? 0,
@@ -478,37 +2111,43 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateConnectedDevice(id: number, device: Partial<InsertConnectedDevice>): Promise<ConnectedDevice | undefined> {
+  async updateConnectedDevice(routerId: number, id: number, device: Partial<InsertConnectedDevice>): Promise<ConnectedDevice | undefined> {
     const [updated] = await db
       .update(connectedDevices)
       .set({
         ...device,
         lastSeen: new Date(),
       })
-      .where(eq(connectedDevices.id, id))
+      .where(and(eq(connectedDevices.routerId, routerId), eq(connectedDevices.id, id)))
       .returning();
     return updated || undefined;
   }
 
-  async deleteConnectedDevice(id: number): Promise<boolean> {
-    const result = await db.delete(connectedDevices).where(eq(connectedDevices.id, id));
-    return result.rowCount > 0;
+  async deleteConnectedDevice(routerId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(connectedDevices)
+      .where(and(eq(connectedDevices.routerId, routerId), eq(connectedDevices.id, id)));
+    return (result.rowCount ?? 0) > 0;
   }
 
-  async getWifiNetworks(): Promise<WifiNetwork[]> {
-    return await db.select().from(wifiNetworks);
+  async getWifiNetworks(routerId: number): Promise<WifiNetwork[]> {
+    return await db.select().from(wifiNetworks).where(eq(wifiNetworks.routerId, routerId));
   }
 
-  async getWifiNetwork(id: number): Promise<WifiNetwork | undefined> {
-    const [network] = await db.select().from(wifiNetworks).where(eq(wifiNetworks.id, id));
+  async getWifiNetwork(routerId: number, id: number): Promise<WifiNetwork | undefined> {
+    const [network] = await db
+      .select()
+      .from(wifiNetworks)
+      .where(and(eq(wifiNetworks.routerId, routerId), eq(wifiNetworks.id, id)));
     return network || undefined;
   }
 
-  async createWifiNetwork(network: InsertWifiNetwork): Promise<WifiNetwork> {
+  async createWifiNetwork(routerId: number, network: InsertWifiNetwork): Promise<WifiNetwork> {
     const [created] = await db
       .insert(wifiNetworks)
       .values({
         ...network,
+        routerId,
         channel: network.channel ?? null,
         isEnabled: network.isEnabled ?? true,
         securityMode: network.securityMode ?? "WPA2",
@@ -519,34 +2158,40 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateWifiNetwork(id: number, network: Partial<InsertWifiNetwork>): Promise<WifiNetwork | undefined> {
+  async updateWifiNetwork(routerId: number, id: number, network: Partial<InsertWifiNetwork>): Promise<WifiNetwork | undefined> {
     const [updated] = await db
       .update(wifiNetworks)
       .set(network)
-      .where(eq(wifiNetworks.id, id))
+      .where(and(eq(wifiNetworks.routerId, routerId), eq(wifiNetworks.id, id)))
       .returning();
     return updated || undefined;
   }
 
-  async deleteWifiNetwork(id: number): Promise<boolean> {
-    const result = await db.delete(wifiNetworks).where(eq(wifiNetworks.id, id));
-    return result.rowCount > 0;
+  async deleteWifiNetwork(routerId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(wifiNetworks)
+      .where(and(eq(wifiNetworks.routerId, routerId), eq(wifiNetworks.id, id)));
+    return (result.rowCount ?? 0) > 0;
   }
 
-  async getPortForwardingRules(): Promise<PortForwardingRule[]> {
-    return await db.select().from(portForwardingRules);
+  async getPortForwardingRules(routerId: number): Promise<PortForwardingRule[]> {
+    return await db.select().from(portForwardingRules).where(eq(portForwardingRules.routerId, routerId));
   }
 
-  async getPortForwardingRule(id: number): Promise<PortForwardingRule | undefined> {
-    const [rule] = await db.select().from(portForwardingRules).where(eq(portForwardingRules.id, id));
+  async getPortForwardingRule(routerId: number, id: number): Promise<PortForwardingRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(portForwardingRules)
+      .where(and(eq(portForwardingRules.routerId, routerId), eq(portForwardingRules.id, id)));
     return rule || undefined;
   }
 
-  async createPortForwardingRule(rule: InsertPortForwardingRule): Promise<PortForwardingRule> {
+  async createPortForwardingRule(routerId: number, rule: InsertPortForwardingRule): Promise<PortForwardingRule> {
     const [created] = await db
       .insert(portForwardingRules)
       .values({
         ...rule,
+        routerId,
         isEnabled: rule.isEnabled ?? true,
         description: rule.description ?? null,
       })
@@ -554,51 +2199,262 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updatePortForwardingRule(id: number, rule: Partial<InsertPortForwardingRule>): Promise<PortForwardingRule | undefined> {
+  async updatePortForwardingRule(routerId: number, id: number, rule: Partial<InsertPortForwardingRule>): Promise<PortForwardingRule | undefined> {
     const [updated] = await db
       .update(portForwardingRules)
       .set(rule)
-      .where(eq(portForwardingRules.id, id))
+      .where(and(eq(portForwardingRules.routerId, routerId), eq(portForwardingRules.id, id)))
       .returning();
     return updated || undefined;
   }
 
-  async deletePortForwardingRule(id: number): Promise<boolean> {
-    const result = await db.delete(portForwardingRules).where(eq(portForwardingRules.id, id));
-    return result.rowCount > 0;
+  async deletePortForwardingRule(routerId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(portForwardingRules)
+      .where(and(eq(portForwardingRules.routerId, routerId), eq(portForwardingRules.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getDhcpReservations(routerId: number): Promise<DhcpReservation[]> {
+    return await db.select().from(dhcpReservations).where(eq(dhcpReservations.routerId, routerId));
+  }
+
+  async getDhcpReservation(routerId: number, id: number): Promise<DhcpReservation | undefined> {
+    const [reservation] = await db
+      .select()
+      .from(dhcpReservations)
+      .where(and(eq(dhcpReservations.routerId, routerId), eq(dhcpReservations.id, id)));
+    return reservation || undefined;
+  }
+
+  async replaceDhcpReservations(routerId: number, reservations: InsertDhcpReservation[]): Promise<DhcpReservation[]> {
+    const macs = reservations.map(reservation => reservation.macAddress);
+    await db
+      .delete(dhcpReservations)
+      .where(macs.length > 0
+        ? and(eq(dhcpReservations.routerId, routerId), notInArray(dhcpReservations.macAddress, macs))
+        : eq(dhcpReservations.routerId, routerId));
+
+    const saved: DhcpReservation[] = [];
+    for (const reservation of reservations) {
+      const values = { ipAddress: reservation.ipAddress, hostname: reservation.hostname ?? null, dnsServer: reservation.dnsServer ?? null };
+      const [row] = await db
+        .insert(dhcpReservations)
+        .values({ ...values, routerId, macAddress: reservation.macAddress })
+        .onConflictDoUpdate({
+          target: [dhcpReservations.routerId, dhcpReservations.macAddress],
+          set: values,
+        })
+        .returning();
+      saved.push(row);
+    }
+    return saved;
+  }
+
+  async getDeviceOverrides(routerId: number): Promise<DeviceOverride[]> {
+    return await db.select().from(deviceOverrides).where(eq(deviceOverrides.routerId, routerId));
+  }
+
+  async getDeviceOverride(routerId: number, macAddress: string): Promise<DeviceOverride | undefined> {
+    const [override] = await db
+      .select()
+      .from(deviceOverrides)
+      .where(and(eq(deviceOverrides.routerId, routerId), eq(deviceOverrides.macAddress, macAddress)));
+    return override || undefined;
+  }
+
+  async saveDeviceOverride(routerId: number, override: InsertDeviceOverride): Promise<DeviceOverride> {
+    const values = {
+      name: override.name ?? null,
+      deviceType: override.deviceType ?? null,
+      icon: override.icon ?? null,
+      notes: override.notes ?? null,
+      owner: override.owner ?? null,
+      nameSource: override.nameSource ?? null,
+      routerName: override.routerName ?? null,
+      routerIcon: override.routerIcon ?? null,
+      hasConflict: override.hasConflict ?? false,
+      updatedBy: override.updatedBy ?? null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(deviceOverrides)
+      .values({ ...values, routerId, macAddress: override.macAddress })
+      .onConflictDoUpdate({
+        target: [deviceOverrides.routerId, deviceOverrides.macAddress],
+        set: values,
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteDeviceOverride(routerId: number, macAddress: string): Promise<boolean> {
+    const result = await db
+      .delete(deviceOverrides)
+      .where(and(eq(deviceOverrides.routerId, routerId), eq(deviceOverrides.macAddress, macAddress)));
+    return (result.rowCount ?? 0) > 0;
   }
 
-  async getBandwidthData(limit: number = 24): Promise<BandwidthData[]> {
+  async getBandwidthData(routerId: number, limit: number = 24): Promise<BandwidthData[]> {
     return await db
       .select()
       .from(bandwidthData)
+      .where(eq(bandwidthData.routerId, routerId))
       .orderBy(bandwidthData.timestamp)
       .limit(limit);
   }
 
-  async addBandwidthData(data: InsertBandwidthData): Promise<BandwidthData> {
+  async addBandwidthData(routerId: number, data: InsertBandwidthData): Promise<BandwidthData> {
     const [created] = await db
       .insert(bandwidthData)
       .values({
         ...data,
+        routerId,
         timestamp: new Date(),
       })
       .returning();
     return created;
   }
 
-  async getSSHConfig(): Promise<SSHConfig | undefined> {
-    const [config] = await db.select().from(sshConfig).limit(1);
-    return config || undefined;
+  // Per-device Bandwidth Methods
+  async getDeviceBandwidthSamples(routerId: number, since: Date, macAddress?: string): Promise<DeviceBandwidthSample[]> {
+    const conditions: SQL[] = [eq(deviceBandwidth.routerId, routerId), gte(deviceBandwidth.timestamp, since)];
+    if (macAddress) conditions.push(eq(deviceBandwidth.macAddress, macAddress));
+
+    return await db
+      .select()
+      .from(deviceBandwidth)
+      .where(and(...conditions))
+      .orderBy(deviceBandwidth.timestamp);
+  }
+
+  async addDeviceBandwidthSamples(routerId: number, samples: InsertDeviceBandwidthSample[]): Promise<void> {
+    if (samples.length === 0) return;
+
+    const timestamp = new Date();
+    await db.insert(deviceBandwidth).values(samples.map(sample => ({ ...sample, routerId, timestamp })));
+  }
+
+  async pruneDeviceBandwidthSamples(routerId: number, before: Date): Promise<number> {
+    const result = await db
+      .delete(deviceBandwidth)
+      .where(and(eq(deviceBandwidth.routerId, routerId), lt(deviceBandwidth.timestamp, before)));
+    return result.rowCount ?? 0;
+  }
+
+  // WiFi Scan Result Methods
+  async getWifiScanResults(routerId: number, since: Date): Promise<WifiScanResult[]> {
+    return await db
+      .select()
+      .from(wifiScanResults)
+      .where(and(eq(wifiScanResults.routerId, routerId), gte(wifiScanResults.scannedAt, since)))
+      .orderBy(wifiScanResults.scannedAt);
+  }
+
+  async addWifiScanResults(routerId: number, results: InsertWifiScanResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    await db.insert(wifiScanResults).values(results.map(result => ({ ...result, routerId })));
+  }
+
+  async pruneWifiScanResults(routerId: number, before: Date): Promise<number> {
+    const result = await db
+      .delete(wifiScanResults)
+      .where(and(eq(wifiScanResults.routerId, routerId), lt(wifiScanResults.scannedAt, before)));
+    return result.rowCount ?? 0;
+  }
+
+  // WiFi Channel Stat Methods
+  async getWifiChannelStats(routerId: number, since: Date): Promise<WifiChannelStat[]> {
+    return await db
+      .select()
+      .from(wifiChannelStats)
+      .where(and(eq(wifiChannelStats.routerId, routerId), gte(wifiChannelStats.sampledAt, since)))
+      .orderBy(wifiChannelStats.sampledAt);
+  }
+
+  async addWifiChannelStats(routerId: number, stats: InsertWifiChannelStat[]): Promise<void> {
+    if (stats.length === 0) return;
+
+    await db.insert(wifiChannelStats).values(stats.map(stat => ({ ...stat, routerId })));
+  }
+
+  async pruneWifiChannelStats(routerId: number, before: Date): Promise<number> {
+    const result = await db
+      .delete(wifiChannelStats)
+      .where(and(eq(wifiChannelStats.routerId, routerId), lt(wifiChannelStats.sampledAt, before)));
+    return result.rowCount ?? 0;
+  }
+
+  // Device Session Methods
+  async getDeviceSessions(routerId: number, filters: DeviceSessionFilters = {}): Promise<DeviceSession[]> {
+    const conditions: SQL[] = [eq(deviceSessions.routerId, routerId)];
+    if (filters.macAddress) conditions.push(eq(deviceSessions.macAddress, filters.macAddress));
+    if (filters.since) conditions.push(or(isNull(deviceSessions.endedAt), gte(deviceSessions.endedAt, filters.since))!);
+    if (filters.openOnly) conditions.push(isNull(deviceSessions.endedAt));
+
+    return await db
+      .select()
+      .from(deviceSessions)
+      .where(and(...conditions))
+      .orderBy(deviceSessions.startedAt);
+  }
+
+  async createDeviceSession(routerId: number, session: InsertDeviceSession): Promise<DeviceSession> {
+    const [created] = await db.insert(deviceSessions).values({ ...session, routerId }).returning();
+    return created;
+  }
+
+  async updateDeviceSession(id: number, session: Partial<InsertDeviceSession>): Promise<DeviceSession | undefined> {
+    const [updated] = await db
+      .update(deviceSessions)
+      .set(session)
+      .where(eq(deviceSessions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async pruneDeviceSessions(routerId: number, endedBefore: Date): Promise<number> {
+    const result = await db
+      .delete(deviceSessions)
+      .where(and(eq(deviceSessions.routerId, routerId), lt(deviceSessions.endedAt, endedBefore)));
+    return result.rowCount ?? 0;
+  }
+
+  // Device Attribute Methods
+  async getDeviceAttributes(routerId: number, macAddress?: string): Promise<DeviceAttribute[]> {
+    const conditions: SQL[] = [eq(deviceAttributes.routerId, routerId)];
+    if (macAddress) conditions.push(eq(deviceAttributes.macAddress, macAddress));
+
+    return await db.select().from(deviceAttributes).where(and(...conditions));
+  }
+
+  async upsertDeviceAttribute(routerId: number, attribute: InsertDeviceAttribute): Promise<DeviceAttribute> {
+    const updatedAt = new Date();
+    const [saved] = await db
+      .insert(deviceAttributes)
+      .values({ ...attribute, routerId, updatedAt })
+      .onConflictDoUpdate({
+        target: [deviceAttributes.routerId, deviceAttributes.macAddress, deviceAttributes.attribute, deviceAttributes.source],
+        set: { value: attribute.value, detail: attribute.detail ?? null, updatedAt },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSSHConfig(routerId: number): Promise<SSHConfig | undefined> {
+    const [config] = await db.select().from(sshConfig).where(eq(sshConfig.routerId, routerId)).limit(1);
+    return config ? fromStoredSSHConfig(config) : undefined;
   }
 
-  async saveSSHConfig(config: InsertSSHConfig): Promise<SSHConfig> {
-    const existing = await this.getSSHConfig();
+  async saveSSHConfig(routerId: number, config: InsertSSHConfig): Promise<SSHConfig> {
+    const existing = await this.getSSHConfig(routerId);
     
     if (existing) {
       // Preserve existing connection status and last connected time
       const updateData = {
-        ...config,
+        ...toStoredSSHConfig(config),
+        hostKeyFingerprint: isSameSSHHost(existing, config) ? existing.hostKeyFingerprint : null,
         connectionStatus: existing.connectionStatus,
         lastConnected: existing.lastConnected,
       };
@@ -608,18 +2464,18 @@ export class DatabaseStorage implements IStorage {
         .set(updateData)
         .where(eq(sshConfig.id, existing.id))
         .returning();
-      return updated;
+      return fromStoredSSHConfig(updated);
     } else {
       const [newConfig] = await db
         .insert(sshConfig)
-        .values(config)
+        .values({ ...toStoredSSHConfig(config), routerId })
         .returning();
-      return newConfig;
+      return fromStoredSSHConfig(newConfig);
     }
   }
 
-  async updateSSHConnectionStatus(status: string): Promise<void> {
-    const existing = await this.getSSHConfig();
+  async updateSSHConnectionStatus(routerId: number, status: string): Promise<void> {
+    const existing = await this.getSSHConfig(routerId);
     if (existing) {
       await db
         .update(sshConfig)
@@ -631,27 +2487,40 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async clearSSHConfig(): Promise<void> {
-    await db.delete(sshConfig);
+  async updateSSHHostKey(routerId: number, fingerprint: string | null): Promise<void> {
+    await db
+      .update(sshConfig)
+      .set({ hostKeyFingerprint: fingerprint })
+      .where(eq(sshConfig.routerId, routerId));
   }
 
-  async clearAllData(): Promise<void> {
-    // Clear all router data but keep SSH config
-    await db.delete(routerStatus);
-    await db.delete(connectedDevices);
-    await db.delete(wifiNetworks);
-    await db.delete(portForwardingRules);
-    await db.delete(bandwidthData);
-    await db.delete(routerFeatures);
+  async clearSSHConfig(routerId: number): Promise<void> {
+    await db.delete(sshConfig).where(eq(sshConfig.routerId, routerId));
   }
 
-  async getRouterFeatures(): Promise<RouterFeatures | undefined> {
-    const [features] = await db.select().from(routerFeatures).limit(1);
+  async clearAllData(routerId: number): Promise<void> {
+    // Clear all router data but keep SSH config
+    await db.delete(routerStatus).where(eq(routerStatus.routerId, routerId));
+    await db.delete(connectedDevices).where(eq(connectedDevices.routerId, routerId));
+    await db.delete(wifiNetworks).where(eq(wifiNetworks.routerId, routerId));
+    await db.delete(portForwardingRules).where(eq(portForwardingRules.routerId, routerId));
+    await db.delete(dhcpReservations).where(eq(dhcpReservations.routerId, routerId));
+    await db.delete(bandwidthData).where(eq(bandwidthData.routerId, routerId));
+    await db.delete(deviceBandwidth).where(eq(deviceBandwidth.routerId, routerId));
+    await db.delete(wifiScanResults).where(eq(wifiScanResults.routerId, routerId));
+    await db.delete(wifiChannelStats).where(eq(wifiChannelStats.routerId, routerId));
+    await db.delete(deviceSessions).where(eq(deviceSessions.routerId, routerId));
+    await db.delete(deviceAttributes).where(eq(deviceAttributes.routerId, routerId));
+    await db.delete(routerFeatures).where(eq(routerFeatures.routerId, routerId));
+  }
+
+  async getRouterFeatures(routerId: number): Promise<RouterFeatures | undefined> {
+    const [features] = await db.select().from(routerFeatures).where(eq(routerFeatures.routerId, routerId)).limit(1);
     return features || undefined;
   }
 
-  async updateRouterFeatures(features: InsertRouterFeatures): Promise<RouterFeatures> {
-    const existing = await this.getRouterFeatures();
+  async updateRouterFeatures(routerId: number, features: InsertRouterFeatures): Promise<RouterFeatures> {
+    const existing = await this.getRouterFeatures(routerId);
     
     if (existing) {
       const [updated] = await db
@@ -663,7 +2532,7 @@ export class DatabaseStorage implements IStorage {
     } else {
       const [created] = await db
         .insert(routerFeatures)
-        .values({ ...features, lastUpdated: new Date() })
+        .values({ ...features, routerId, lastUpdated: new Date() })
         .returning();
       return created;
     }
@@ -815,6 +2684,283 @@ export class DatabaseStorage implements IStorage {
       .where(eq(deviceTagAssignments.tagId, tagId));
     return result.map(r => r.device);
   }
+
+  // Audit Event Methods
+  async getAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const conditions: SQL[] = [];
+    if (filters.routerId !== undefined) conditions.push(eq(auditEvents.routerId, filters.routerId));
+    if (filters.actor) conditions.push(ilike(auditEvents.actor, `%${filters.actor}%`));
+    if (filters.action) {
+      conditions.push(or(ilike(auditEvents.action, `%${filters.action}%`), ilike(auditEvents.target, `%${filters.action}%`))!);
+    }
+    if (filters.outcome) conditions.push(eq(auditEvents.outcome, filters.outcome));
+
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filters.limit || 100);
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  // NVRAM Change Set Methods
+  async getNvramChangeSets(routerId: number, limit: number = 50): Promise<NvramChangeSet[]> {
+    return await db
+      .select()
+      .from(nvramChangeSets)
+      .where(eq(nvramChangeSets.routerId, routerId))
+      .orderBy(desc(nvramChangeSets.createdAt))
+      .limit(limit);
+  }
+
+  async getNvramChangeSet(routerId: number, id: number): Promise<NvramChangeSet | undefined> {
+    const [changeSet] = await db
+      .select()
+      .from(nvramChangeSets)
+      .where(and(eq(nvramChangeSets.routerId, routerId), eq(nvramChangeSets.id, id)));
+    return changeSet || undefined;
+  }
+
+  async createNvramChangeSet(routerId: number, changeSet: InsertNvramChangeSet): Promise<NvramChangeSet> {
+    const [created] = await db
+      .insert(nvramChangeSets)
+      .values({ ...changeSet, routerId })
+      .returning();
+    return created;
+  }
+
+  async updateNvramChangeSet(routerId: number, id: number, changeSet: Partial<InsertNvramChangeSet>): Promise<NvramChangeSet | undefined> {
+    const [updated] = await db
+      .update(nvramChangeSets)
+      .set(changeSet)
+      .where(and(eq(nvramChangeSets.routerId, routerId), eq(nvramChangeSets.id, id)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Config Backup Methods
+  async getConfigBackups(routerId: number): Promise<ConfigBackup[]> {
+    return await db
+      .select()
+      .from(configBackups)
+      .where(eq(configBackups.routerId, routerId))
+      .orderBy(desc(configBackups.createdAt));
+  }
+
+  async getConfigBackup(routerId: number, id: number): Promise<ConfigBackup | undefined> {
+    const [backup] = await db
+      .select()
+      .from(configBackups)
+      .where(and(eq(configBackups.routerId, routerId), eq(configBackups.id, id)));
+    return backup || undefined;
+  }
+
+  async createConfigBackup(routerId: number, backup: InsertConfigBackup): Promise<ConfigBackup> {
+    const [created] = await db
+      .insert(configBackups)
+      .values({ ...backup, routerId })
+      .returning();
+    return created;
+  }
+
+  async updateConfigBackup(routerId: number, id: number, backup: Partial<InsertConfigBackup>): Promise<ConfigBackup | undefined> {
+    const [updated] = await db
+      .update(configBackups)
+      .set(backup)
+      .where(and(eq(configBackups.routerId, routerId), eq(configBackups.id, id)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteConfigBackup(routerId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(configBackups)
+      .where(and(eq(configBackups.routerId, routerId), eq(configBackups.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // NVRAM Snapshot Methods
+  async getNvramSnapshots(routerId: number, limit: number = 100): Promise<NvramSnapshot[]> {
+    return await db
+      .select()
+      .from(nvramSnapshots)
+      .where(eq(nvramSnapshots.routerId, routerId))
+      .orderBy(desc(nvramSnapshots.createdAt))
+      .limit(limit);
+  }
+
+  async getNvramSnapshot(routerId: number, id: number): Promise<NvramSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(nvramSnapshots)
+      .where(and(eq(nvramSnapshots.routerId, routerId), eq(nvramSnapshots.id, id)));
+    return snapshot || undefined;
+  }
+
+  async getLatestNvramSnapshot(routerId: number): Promise<NvramSnapshot | undefined> {
+    const [latest] = await this.getNvramSnapshots(routerId, 1);
+    return latest;
+  }
+
+  async getBaselineNvramSnapshot(routerId: number): Promise<NvramSnapshot | undefined> {
+    const [baseline] = await db
+      .select()
+      .from(nvramSnapshots)
+      .where(and(eq(nvramSnapshots.routerId, routerId), eq(nvramSnapshots.isBaseline, true)));
+    return baseline || undefined;
+  }
+
+  async createNvramSnapshot(routerId: number, snapshot: InsertNvramSnapshot): Promise<NvramSnapshot> {
+    const [created] = await db
+      .insert(nvramSnapshots)
+      .values({ ...snapshot, routerId })
+      .returning();
+    return created;
+  }
+
+  async updateNvramSnapshot(routerId: number, id: number, snapshot: Partial<InsertNvramSnapshot>): Promise<NvramSnapshot | undefined> {
+    const [updated] = await db
+      .update(nvramSnapshots)
+      .set(snapshot)
+      .where(and(eq(nvramSnapshots.routerId, routerId), eq(nvramSnapshots.id, id)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteNvramSnapshot(routerId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(nvramSnapshots)
+      .where(and(eq(nvramSnapshots.routerId, routerId), eq(nvramSnapshots.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Alerting Methods
+  async getAlertChannels(): Promise<AlertChannel[]> {
+    return await db.select().from(alertChannels).orderBy(alertChannels.name);
+  }
+
+  async getAlertChannel(id: number): Promise<AlertChannel | undefined> {
+    const [channel] = await db.select().from(alertChannels).where(eq(alertChannels.id, id));
+    return channel || undefined;
+  }
+
+  async createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel> {
+    const [created] = await db.insert(alertChannels).values(channel).returning();
+    return created;
+  }
+
+  async updateAlertChannel(id: number, channel: Partial<InsertAlertChannel>): Promise<AlertChannel | undefined> {
+    const [updated] = await db
+      .update(alertChannels)
+      .set(channel)
+      .where(eq(alertChannels.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAlertChannel(id: number): Promise<boolean> {
+    const result = await db.delete(alertChannels).where(eq(alertChannels.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules).orderBy(alertRules.name);
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db.insert(alertRules).values(rule).returning();
+    return created;
+  }
+
+  async updateAlertRule(id: number, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [updated] = await db
+      .update(alertRules)
+      .set(rule)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    const result = await db.delete(alertRules).where(eq(alertRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getAlertEvents(filters: AlertEventFilters = {}): Promise<AlertEvent[]> {
+    const conditions: SQL[] = [];
+    if (filters.ruleId !== undefined) conditions.push(eq(alertEvents.ruleId, filters.ruleId));
+    if (filters.statuses) conditions.push(inArray(alertEvents.status, filters.statuses));
+
+    return await db
+      .select()
+      .from(alertEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(alertEvents.createdAt))
+      .limit(filters.limit || 100);
+  }
+
+  async getAlertEvent(id: number): Promise<AlertEvent | undefined> {
+    const [event] = await db.select().from(alertEvents).where(eq(alertEvents.id, id));
+    return event || undefined;
+  }
+
+  async createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const [created] = await db.insert(alertEvents).values(event).returning();
+    return created;
+  }
+
+  async updateAlertEvent(id: number, event: Partial<InsertAlertEvent>): Promise<AlertEvent | undefined> {
+    const [updated] = await db
+      .update(alertEvents)
+      .set(event)
+      .where(eq(alertEvents.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getWakeSchedules(routerId?: number): Promise<WakeSchedule[]> {
+    const query = db.select().from(wakeSchedules);
+    return await (routerId === undefined ? query : query.where(eq(wakeSchedules.routerId, routerId)));
+  }
+
+  async getWakeSchedule(routerId: number, id: number): Promise<WakeSchedule | undefined> {
+    const [schedule] = await db
+      .select()
+      .from(wakeSchedules)
+      .where(and(eq(wakeSchedules.routerId, routerId), eq(wakeSchedules.id, id)));
+    return schedule || undefined;
+  }
+
+  async createWakeSchedule(routerId: number, schedule: InsertWakeSchedule): Promise<WakeSchedule> {
+    const [created] = await db.insert(wakeSchedules).values({ ...schedule, routerId }).returning();
+    return created;
+  }
+
+  async updateWakeSchedule(routerId: number, id: number, schedule: Partial<InsertWakeSchedule>): Promise<WakeSchedule | undefined> {
+    const [updated] = await db
+      .update(wakeSchedules)
+      .set(schedule)
+      .where(and(eq(wakeSchedules.routerId, routerId), eq(wakeSchedules.id, id)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWakeSchedule(routerId: number, id: number): Promise<boolean> {
+    const result = await db
+      .delete(wakeSchedules)
+      .where(and(eq(wakeSchedules.routerId, routerId), eq(wakeSchedules.id, id)));
+    return (result.rowCount ?? 0) > 0;
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,232 @@
+import type { ConnectedDevice, WakeSchedule } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { withTimeout } from "./nvram-changes";
+import { liveEvents } from "./live-events";
+import { auditSystemAction } from "./audit";
+
+// Magic packets are sent by the router with ether-wake, which Asuswrt ships, on the bridge the
+// sleeping host hangs off. That is the LAN bridge (lan_ifname, normally br0) unless the bridge
+// forwarding table still places the MAC on another one, as with guest networks on their own bridge.
+export interface WakeTarget {
+  macAddress: string;
+  name: string;
+  // Pinged afterwards when a confirmation is asked for; a reserved address wins over the last seen one
+  ipAddress: string | null;
+}
+
+export interface WakeConfirmation {
+  confirmed: string[];
+  unconfirmed: string[];
+}
+
+export interface WakeResult {
+  sent: string[];
+  failed: string[];
+  confirmation: Promise<WakeConfirmation> | null;
+}
+
+const COMMAND_TIMEOUT_MS = 20000;
+// Desktops can take a while to resume, so the follow-up keeps pinging for a few minutes
+const CONFIRM_TIMEOUT_MS = 3 * 60 * 1000;
+const CONFIRM_INTERVAL_MS = 10000;
+// A wake missed while the router was unreachable is only made up for if it is this recent
+const MAX_LATE_MS = 5 * 60 * 1000;
+
+const MAC_PATTERN = /^([0-9A-Fa-f]{2}:){5}[0-9A-Fa-f]{2}$/;
+const IP_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+async function run(client: SSHClient, command: string): Promise<string> {
+  return await withTimeout(client.executeCommand(command), COMMAND_TIMEOUT_MS, "Timed out sending Wake-on-LAN");
+}
+
+export async function wakeTargetsFor(routerId: number, devices: Pick<ConnectedDevice, "macAddress" | "name" | "ipAddress">[]): Promise<WakeTarget[]> {
+  const reserved = new Map((await storage.getDhcpReservations(routerId)).map(reservation => [reservation.macAddress, reservation.ipAddress]));
+  const names = new Map((await storage.getDeviceOverrides(routerId)).map(override => [override.macAddress, override.name]));
+  return devices.map(device => {
+    const macAddress = device.macAddress.toUpperCase();
+    return { macAddress, name: names.get(macAddress) || device.name, ipAddress: reserved.get(macAddress) ?? device.ipAddress ?? null };
+  });
+}
+
+// "mac bridge" for every MAC the bridges still remember, plus "lan <ifname>" as the fallback
+async function findBridges(client: SSHClient): Promise<{ lan: string; bridges: Map<string, string> }> {
+  const output = await run(client, [
+    `echo "lan $(nvram get lan_ifname)"`,
+    `for br in $(ls /sys/class/net | grep '^br'); do brctl showmacs $br 2>/dev/null | awk -v br=$br 'NR > 1 && $3 == "no" { print $2, br }'; done`,
+  ].join("; "));
+
+  let lan = "br0";
+  const bridges = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const [first, second] = line.trim().split(/\s+/);
+    if (first === "lan" && /^[\w.-]+$/.test(second ?? "")) lan = second;
+    else if (MAC_PATTERN.test(first ?? "") && second) bridges.set(first.toUpperCase(), second);
+  }
+  return { lan, bridges };
+}
+
+export async function pingTargets(client: SSHClient, targets: WakeTarget[]): Promise<Set<string>> {
+  const ips = Array.from(new Set(targets.map(target => target.ipAddress).filter((ip): ip is string => !!ip && IP_PATTERN.test(ip))));
+  if (ips.length === 0) return new Set();
+
+  const output = await withTimeout(
+    client.executeCommand(`for ip in ${ips.join(" ")}; do ping -c 1 -W 1 $ip >/dev/null 2>&1 && echo "up $ip"; done; true`),
+    COMMAND_TIMEOUT_MS + ips.length * 2000,
+    "Timed out pinging woken devices",
+  );
+  const up = new Set(output.split("\n").filter(line => line.startsWith("up ")).map(line => line.slice(3).trim()));
+  return new Set(targets.filter(target => target.ipAddress && up.has(target.ipAddress)).map(target => target.macAddress));
+}
+
+// Pings until every target answers or the time is up; a dropped session counts as unconfirmed
+async function confirmAwake(client: SSHClient, targets: WakeTarget[]): Promise<WakeConfirmation> {
+  const pending = targets.filter(target => target.ipAddress);
+  const awake = new Set<string>();
+  const deadline = Date.now() + CONFIRM_TIMEOUT_MS;
+
+  while (pending.some(target => !awake.has(target.macAddress)) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, CONFIRM_INTERVAL_MS));
+    if (!client.isConnectionActive()) break;
+    try {
+      (await pingTargets(client, pending.filter(target => !awake.has(target.macAddress)))).forEach(mac => awake.add(mac));
+    } catch (error) {
+      console.error("Wake-on-LAN ping failed:", error);
+    }
+  }
+
+  return {
+    confirmed: targets.filter(target => awake.has(target.macAddress)).map(target => target.name),
+    unconfirmed: targets.filter(target => !awake.has(target.macAddress)).map(target => target.name),
+  };
+}
+
+// Sends the packets and, when asked, starts the ping follow-up without waiting for it. Its outcome
+// is pushed to open pages and handed back for whoever wants to record it.
+export async function wakeDevices(
+  routerId: number,
+  client: SSHClient,
+  targets: WakeTarget[],
+  options: { confirm: boolean; label: string },
+): Promise<WakeResult> {
+  const valid = targets.filter(target => MAC_PATTERN.test(target.macAddress));
+  if (valid.length === 0) return { sent: [], failed: targets.map(target => target.name), confirmation: null };
+
+  const { lan, bridges } = await findBridges(client);
+  const output = await run(client, [
+    `command -v ether-wake >/dev/null 2>&1 || { echo missing; exit 0; }`,
+    ...valid.map(target => `ether-wake -i ${bridges.get(target.macAddress) ?? lan} ${target.macAddress} && echo "sent ${target.macAddress}" || echo "failed ${target.macAddress}"`),
+  ].join("; "));
+  if (output.trim() === "missing") {
+    throw new Error("ether-wake is not available on this router");
+  }
+
+  const sentMacs = new Set(output.split("\n").filter(line => line.startsWith("sent ")).map(line => line.slice(5).trim()));
+  const sent = valid.filter(target => sentMacs.has(target.macAddress));
+  const failed = targets.filter(target => !sentMacs.has(target.macAddress)).map(target => target.name);
+
+  const confirmation = options.confirm && sent.length > 0
+    ? confirmAwake(client, sent).then(result => {
+      liveEvents.publish("wake", routerId, { label: options.label, ...result });
+      return result;
+    })
+    : null;
+  // Routes answer without waiting, so nobody else may be listening when the ping follow-up fails
+  confirmation?.catch(error => {
+    console.error("Wake-on-LAN confirmation failed:", error);
+  });
+  return { sent: sent.map(target => target.name), failed, confirmation };
+}
+
+export function parseWakeDays(schedule: Pick<WakeSchedule, "days">): number[] {
+  try {
+    const days = JSON.parse(schedule.days ?? "[]");
+    return Array.isArray(days) ? days.filter(day => Number.isInteger(day) && day >= 0 && day <= 6) : [];
+  } catch {
+    return [];
+  }
+}
+
+// The most recent time the schedule should have fired, looking back at most a week
+export function lastOccurrence(schedule: WakeSchedule, now: Date): Date | null {
+  if (schedule.runAt) return new Date(schedule.runAt) <= now ? new Date(schedule.runAt) : null;
+
+  const days = parseWakeDays(schedule);
+  const [hours, minutes] = (schedule.time ?? "").split(":").map(Number);
+  if (days.length === 0 || !Number.isInteger(hours) || !Number.isInteger(minutes)) return null;
+
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const candidate = new Date(now);
+    candidate.setDate(now.getDate() - daysBack);
+    candidate.setHours(hours, minutes, 0, 0);
+    if (candidate <= now && days.includes(candidate.getDay())) return candidate;
+  }
+  return null;
+}
+
+function describeResult(result: { sent: string[]; failed: string[] }) {
+  const parts = [];
+  if (result.sent.length > 0) parts.push(`Sent to ${result.sent.join(", ")}`);
+  if (result.failed.length > 0) parts.push(`failed for ${result.failed.join(", ")}`);
+  return parts.join("; ") || "No devices to wake";
+}
+
+async function scheduleTargets(routerId: number, schedule: WakeSchedule): Promise<WakeTarget[]> {
+  if (schedule.groupId) {
+    const members = (await storage.getGroupDevices(schedule.groupId)).filter(device => device.routerId === routerId);
+    return await wakeTargetsFor(routerId, members);
+  }
+  if (!schedule.macAddress) return [];
+  const device = (await storage.getConnectedDevices(routerId)).find(candidate => candidate.macAddress.toUpperCase() === schedule.macAddress!.toUpperCase());
+  // A device missing from the list (after a reset, say) can still be woken by its MAC
+  return await wakeTargetsFor(routerId, [device ?? { macAddress: schedule.macAddress, name: schedule.name, ipAddress: "" }]);
+}
+
+// Fires the schedules that are due on this router; one-off wakes switch themselves off afterwards
+export async function runWakeSchedules(routerId: number, client: SSHClient, now: Date = new Date()) {
+  for (const schedule of await storage.getWakeSchedules(routerId)) {
+    if (!schedule.isEnabled) continue;
+    const occurrence = lastOccurrence(schedule, now);
+    const since = schedule.lastRunAt ?? schedule.createdAt;
+    if (!occurrence || (since && occurrence <= new Date(since))) continue;
+
+    if (now.getTime() - occurrence.getTime() > MAX_LATE_MS) {
+      // Too late to be useful; a weekly wake just waits for its next day
+      await storage.updateWakeSchedule(routerId, schedule.id, {
+        lastRunAt: now,
+        lastStatus: "failed",
+        lastResult: `Missed the wake at ${occurrence.toLocaleString()} while the router was unreachable`,
+        ...(schedule.runAt && { isEnabled: false }),
+      });
+      continue;
+    }
+
+    try {
+      const targets = await scheduleTargets(routerId, schedule);
+      const result = await auditSystemAction(routerId, "Run wake schedule", schedule.name,
+        () => wakeDevices(routerId, client, targets, { confirm: schedule.confirmWithPing, label: schedule.name }),
+        wake => wake.sent.length > 0 ? null : describeResult(wake));
+      await storage.updateWakeSchedule(routerId, schedule.id, {
+        lastRunAt: now,
+        lastStatus: result.sent.length > 0 ? "sent" : "failed",
+        lastResult: describeResult(result),
+        ...(schedule.runAt && { isEnabled: false }),
+      });
+      result.confirmation?.then(confirmation => storage.updateWakeSchedule(routerId, schedule.id, {
+        lastStatus: confirmation.unconfirmed.length === 0 ? "confirmed" : "unconfirmed",
+        lastResult: confirmation.unconfirmed.length === 0
+          ? `${confirmation.confirmed.join(", ")} answered ping`
+          : `No ping answer from ${confirmation.unconfirmed.join(", ")}`,
+      })).catch(error => {
+        console.error(`Confirming wake schedule ${schedule.id} failed:`, error);
+      });
+    } catch (error) {
+      await storage.updateWakeSchedule(routerId, schedule.id, {
+        lastRunAt: now,
+        lastStatus: "failed",
+        lastResult: error instanceof Error ? error.message : "Unknown error",
+        ...(schedule.runAt && { isEnabled: false }),
+      });
+    }
+  }
+}
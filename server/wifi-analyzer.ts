@@ -0,0 +1,309 @@
+import type { InsertWifiScanResult, WifiScanResult } from "@shared/schema";
+import type { SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { withTimeout } from "./nvram-changes";
+import { parseChanspec, readRadios, type RadioState, type WifiBand } from "./wifi-radios";
+
+// Each radio scans its own band with `wl scan`, which takes it off its channel for a few seconds,
+// and `wl scanresults` lists every BSS it heard as a block starting with its SSID line:
+//
+//   SSID: "Neighbour"
+//   Mode: Managed  RSSI: -67 dBm  SNR: 25 dB  noise: -92 dBm  Flags: RSSI on-channel  Channel: 36/80
+//   BSSID: AA:BB:CC:DD:EE:FF  Capability: ESS WEP ShortSlot RRM
+//   RSN (WPA2):
+//       AKM Suites(1): WPA2-PSK
+//   VHT Capable:
+//       Chanspec: 5GHz channel 42 80MHz (0xe02a)
+//
+// Scans are kept for a week so a neighbour's comings and goings can be followed.
+export type ScannedAccessPoint = Omit<InsertWifiScanResult, "scannedAt" | "band">;
+
+export interface ChannelScore {
+  channel: number;
+  accessPoints: number;
+  // Access points heard at -70 dBm or better
+  strong: number;
+  // 0 to 100, higher is quieter
+  score: number;
+  dfs: boolean;
+}
+
+export interface ChannelChoice {
+  channel: number;
+  chanspec: string;
+  width: number;
+  score: number;
+  dfs: boolean;
+}
+
+export interface ChannelRecommendation {
+  unit: number;
+  label: string;
+  band: WifiBand;
+  current: ChannelChoice | null;
+  best: ChannelChoice;
+  // Worth moving: the best channel scores clearly higher than the current one
+  shouldChange: boolean;
+}
+
+export interface NeighborHistory {
+  bssid: string;
+  ssid: string | null;
+  band: string;
+  channel: number;
+  width: number;
+  security: string;
+  rssi: number;
+  bestRssi: number;
+  noise: number | null;
+  firstSeen: Date;
+  lastSeen: Date;
+  // How many of the scans in the range heard it
+  seenIn: number;
+  isOwn: boolean;
+}
+
+const SCAN_TIMEOUT_MS = 30000;
+const COMMAND_TIMEOUT_MS = 15000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Below this difference in score a channel change is not worth the clients dropping off
+const MIN_IMPROVEMENT = 10;
+const STRONG_RSSI = -70;
+// Channels 1, 6 and 11 are the only ones that do not overlap each other on 2.4GHz
+const NON_OVERLAPPING_24GHZ = [1, 6, 11];
+
+export function parseScanResults(output: string): ScannedAccessPoint[] {
+  const blocks: string[] = [];
+  for (const line of output.split("\n")) {
+    if (line.startsWith("SSID:")) blocks.push(line);
+    else if (blocks.length > 0) blocks[blocks.length - 1] += `\n${line}`;
+  }
+
+  return blocks.flatMap(block => {
+    const bssid = block.match(/BSSID:\s*([0-9A-Fa-f]{2}(?::[0-9A-Fa-f]{2}){5})/)?.[1];
+    const rssi = parseInt(block.match(/RSSI:\s*(-?\d+)\s*dBm/)?.[1] ?? "");
+    const chanspec = block.match(/Channel:\s*(\S+)/)?.[1] ?? "";
+    const primary = parseChanspec(chanspec);
+    // A zero or missing RSSI means the entry is stale
+    if (!bssid || !primary || Number.isNaN(rssi) || rssi >= 0) return [];
+
+    const ht = block.match(/Chanspec:\s*\S+\s+channel\s+(\d+)\s+(\d+)MHz/);
+    const width = ht ? parseInt(ht[2]) : primary.width;
+    const noise = parseInt(block.match(/noise:\s*(-?\d+)\s*dBm/)?.[1] ?? "");
+    const ssid = block.match(/^SSID:\s*"(.*)"/)?.[1] ?? "";
+    return [{
+      ssid: ssid || null,
+      bssid: bssid.toUpperCase(),
+      channel: primary.channel,
+      centerChannel: ht ? parseInt(ht[1]) : centerChannel(chanspec.startsWith("6g") ? "6GHz" : primary.channel > 14 ? "5GHz" : "2.4GHz", primary.channel, width, chanspec),
+      width,
+      rssi,
+      noise: Number.isNaN(noise) ? null : noise,
+      security: securityOf(block),
+    }];
+  });
+}
+
+function securityOf(block: string): string {
+  const akm = (block.match(/AKM Suites\(\d+\):.*/g) ?? []).join(" ");
+  if (/OWE/.test(akm)) return "Enhanced Open";
+  if (/SAE/.test(akm)) return /PSK/.test(akm) ? "WPA2/WPA3" : "WPA3";
+  if (/802\.1x|UNSPECIFIED/i.test(akm)) return "WPA2-Enterprise";
+  const rsn = /^RSN/m.test(block);
+  const wpa = /^WPA:/m.test(block);
+  if (rsn) return wpa ? "WPA/WPA2" : "WPA2";
+  if (wpa) return "WPA";
+  return /Capability:.*\bWEP\b/.test(block) ? "WEP" : "Open";
+}
+
+// Wide 5GHz and 6GHz channels sit in fixed blocks; 40 MHz on 2.4GHz extends up (l) or down (u)
+function centerChannel(band: WifiBand, primary: number, width: number, chanspec: string): number {
+  if (width <= 20) return primary;
+  if (band === "2.4GHz") return chanspec.endsWith("u") ? primary - 2 : primary + 2;
+  const step = width / 5;
+  const base = band === "6GHz" ? 1 : primary >= 149 ? 149 : primary >= 100 ? 100 : 36;
+  return base + Math.floor((primary - base) / step) * step + step / 2 - 2;
+}
+
+function frequency(band: string, channel: number): number {
+  if (band === "2.4GHz") return channel === 14 ? 2484 : 2407 + channel * 5;
+  return (band === "6GHz" ? 5950 : 5000) + channel * 5;
+}
+
+function isDfs(band: string, channel: number): boolean {
+  return band === "5GHz" && channel >= 52 && channel <= 144;
+}
+
+// How much of [low, high] each neighbour covers, weighted by how loud it is
+function congestion(band: string, center: number, width: number, neighbors: Pick<WifiScanResult, "centerChannel" | "width" | "rssi">[]) {
+  const low = frequency(band, center) - width / 2;
+  const high = frequency(band, center) + width / 2;
+  let total = 0;
+  let accessPoints = 0;
+  let strong = 0;
+
+  for (const neighbor of neighbors) {
+    const middle = frequency(band, neighbor.centerChannel);
+    const overlap = Math.min(high, middle + neighbor.width / 2) - Math.max(low, middle - neighbor.width / 2);
+    if (overlap <= 0) continue;
+    accessPoints++;
+    if (neighbor.rssi >= STRONG_RSSI) strong++;
+    // -50 dBm counts in full, a neighbour at the noise floor hardly at all
+    const loudness = Math.min(1, Math.max(0.05, (neighbor.rssi + 95) / 45));
+    total += (overlap / Math.min(width, neighbor.width)) * loudness;
+  }
+  return { accessPoints, strong, score: Math.round(100 / (1 + total)) };
+}
+
+export async function runWifiScan(routerId: number, client: SSHClient): Promise<InsertWifiScanResult[]> {
+  const radios = await readRadios(client);
+  const scannedAt = new Date();
+  const results: InsertWifiScanResult[] = [];
+
+  for (const radio of radios) {
+    try {
+      const output = await withTimeout(
+        client.executeCommand(`wl -i ${radio.ifname} scan; sleep 4; wl -i ${radio.ifname} scanresults`),
+        SCAN_TIMEOUT_MS,
+        `Timed out scanning ${radio.label}`,
+      );
+      // Both radios of a tri-band model hear some of the same access points
+      for (const accessPoint of parseScanResults(output)) {
+        if (!results.some(result => result.bssid === accessPoint.bssid)) {
+          results.push({ ...accessPoint, band: radio.band, scannedAt });
+        }
+      }
+    } catch (error) {
+      console.error(`WiFi scan on ${radio.label} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await storage.addWifiScanResults(routerId, results);
+  await storage.pruneWifiScanResults(routerId, new Date(Date.now() - RETENTION_MS));
+  return results;
+}
+
+function latestScan(results: WifiScanResult[]): WifiScanResult[] {
+  const latest = Math.max(0, ...results.map(result => result.scannedAt.getTime()));
+  return results.filter(result => result.scannedAt.getTime() === latest);
+}
+
+function neighborHistory(results: WifiScanResult[], ownSsids: Set<string>): NeighborHistory[] {
+  const byBssid = new Map<string, NeighborHistory>();
+  for (const result of results) {
+    const existing = byBssid.get(result.bssid);
+    if (!existing) {
+      byBssid.set(result.bssid, {
+        bssid: result.bssid,
+        ssid: result.ssid,
+        band: result.band,
+        channel: result.channel,
+        width: result.width,
+        security: result.security,
+        rssi: result.rssi,
+        bestRssi: result.rssi,
+        noise: result.noise,
+        firstSeen: result.scannedAt,
+        lastSeen: result.scannedAt,
+        seenIn: 1,
+        isOwn: !!result.ssid && ownSsids.has(result.ssid),
+      });
+      continue;
+    }
+    existing.seenIn++;
+    existing.bestRssi = Math.max(existing.bestRssi, result.rssi);
+    if (result.scannedAt < existing.firstSeen) existing.firstSeen = result.scannedAt;
+    if (result.scannedAt >= existing.lastSeen) {
+      Object.assign(existing, {
+        ssid: result.ssid,
+        channel: result.channel,
+        width: result.width,
+        security: result.security,
+        rssi: result.rssi,
+        noise: result.noise,
+        lastSeen: result.scannedAt,
+      });
+    }
+  }
+  return Array.from(byBssid.values()).sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime() || b.rssi - a.rssi);
+}
+
+// Scores the radio's channels at the width it runs (80 MHz on 5GHz and 160 MHz on 6GHz when it
+// picks its own) and the one it is on right now
+async function recommend(client: SSHClient, radio: RadioState, neighbors: WifiScanResult[]): Promise<ChannelRecommendation | null> {
+  const preferred = radio.bandwidth || (radio.band === "2.4GHz" ? 20 : radio.band === "5GHz" ? 80 : 160);
+  const width = radio.options.some(option => option.width === preferred) ? preferred : 20;
+  let options = radio.options.filter(option => option.width === width);
+  if (radio.band === "2.4GHz" && options.some(option => NON_OVERLAPPING_24GHZ.includes(option.channel))) {
+    options = options.filter(option => NON_OVERLAPPING_24GHZ.includes(option.channel));
+  }
+  if (options.length === 0) return null;
+
+  const choose = (channel: number, chanspec: string, optionWidth: number): ChannelChoice => ({
+    channel,
+    chanspec,
+    width: optionWidth,
+    score: congestion(radio.band, centerChannel(radio.band, channel, optionWidth, chanspec), optionWidth, neighbors).score,
+    dfs: isDfs(radio.band, channel),
+  });
+  // Among equally quiet channels, non-DFS ones win: DFS can force a move when radar shows up
+  const best = options
+    .map(option => choose(option.channel, option.chanspec, option.width))
+    .sort((a, b) => b.score - a.score || Number(a.dfs) - Number(b.dfs))[0];
+
+  let current: ChannelChoice | null = null;
+  try {
+    const live = (await withTimeout(client.executeCommand(`wl -i ${radio.ifname} chanspec`), COMMAND_TIMEOUT_MS, "Timed out reading the channel")).trim().split(/\s+/)[0];
+    const parsed = parseChanspec(live ?? "");
+    if (parsed && parsed.channel > 0) current = choose(parsed.channel, live, parsed.width);
+  } catch (error) {
+    console.error(`Could not read the channel of ${radio.label}:`, error instanceof Error ? error.message : error);
+  }
+
+  return {
+    unit: radio.unit,
+    label: radio.label,
+    band: radio.band,
+    current,
+    best,
+    shouldChange: !!current && current.chanspec !== best.chanspec && best.score - current.score >= MIN_IMPROVEMENT,
+  };
+}
+
+// Occupancy and scores use the latest scan; the neighbour list covers the whole range. Without a
+// client only what was stored is available, so there are no recommendations.
+export async function getWifiAnalysis(routerId: number, client: SSHClient | null, hours: number) {
+  const results = await storage.getWifiScanResults(routerId, new Date(Date.now() - hours * 60 * 60 * 1000));
+  const ownSsids = new Set((await storage.getWifiNetworks(routerId)).map(network => network.ssid));
+  const latest = latestScan(results);
+  const neighbors = latest.filter(result => !result.ssid || !ownSsids.has(result.ssid));
+  const radios = client ? await readRadios(client) : [];
+
+  const bands = Array.from(new Set([...radios.map(radio => radio.band), ...latest.map(result => result.band)]));
+  const channels = Object.fromEntries(bands.map(band => {
+    const bandNeighbors = neighbors.filter(result => result.band === band);
+    const allowed = radios.filter(radio => radio.band === band)
+      .flatMap(radio => radio.options.filter(option => option.width === 20).map(option => option.channel));
+    const list = Array.from(new Set(allowed.length > 0 ? allowed : bandNeighbors.map(result => result.channel))).sort((a, b) => a - b);
+    return [band, list.map((channel): ChannelScore => ({
+      channel,
+      ...congestion(band, channel, 20, bandNeighbors),
+      dfs: isDfs(band, channel),
+    }))];
+  }));
+
+  const recommendations: ChannelRecommendation[] = [];
+  for (const radio of radios) {
+    const recommendation = await recommend(client!, radio, neighbors.filter(result => result.band === radio.band));
+    if (recommendation) recommendations.push(recommendation);
+  }
+
+  return {
+    scannedAt: latest[0]?.scannedAt ?? null,
+    scans: new Set(results.map(result => result.scannedAt.getTime())).size,
+    latest,
+    channels,
+    recommendations,
+    neighbors: neighborHistory(results, ownSsids),
+  };
+}
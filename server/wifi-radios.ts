@@ -0,0 +1,298 @@
+import { sshClients, type SSHClient } from "./ssh-client";
+import { storage } from "./storage";
+import { readNvramValues, withTimeout, type NvramValues } from "./nvram-changes";
+
+// Each radio keeps its settings under wlN_ (wl0, wl1, ...) and its guest networks under wlN.M_.
+// Which unit is which band varies by model, and tri-band models have two 5GHz radios, so the
+// band comes from wlN_nband rather than the unit number. The channels a radio may use depend
+// on its country and hardware; the driver lists them with `wl chanspecs`.
+export type WifiBand = "2.4GHz" | "5GHz" | "6GHz";
+
+export interface ChannelOption {
+  channel: number;
+  // MHz
+  width: number;
+  // As the driver and wlN_chanspec write it, e.g. 36/80, 1l or 6g37/160
+  chanspec: string;
+}
+
+export interface RadioInterface {
+  unit: number;
+  ifname: string;
+  band: WifiBand;
+  // "5GHz-1" and "5GHz-2" when a model has two 5GHz radios, the band otherwise
+  label: string;
+}
+
+export interface RadioState extends RadioInterface {
+  ssid: string;
+  authMode: string;
+  chanspec: string;
+  // 0 when the radio picks its own
+  channel: number;
+  bandwidth: number;
+  options: ChannelOption[];
+}
+
+export interface WifiEdit {
+  ssid?: string;
+  password?: string;
+  securityMode?: string;
+  channel?: number;
+  bandwidth?: number;
+}
+
+const MAX_UNITS = 4;
+const COMMAND_TIMEOUT_MS = 15000;
+// restart_wireless brings the radios back one at a time, the DFS ones last
+const CONFIRM_TIMEOUT_MS = 30000;
+const CONFIRM_INTERVAL_MS = 3000;
+
+const NBAND_BANDS: Record<string, WifiBand> = { "1": "5GHz", "2": "2.4GHz", "4": "6GHz" };
+
+// Security mode as shown in this app → wlN_auth_mode_x
+export const SECURITY_MODES: Record<string, string> = {
+  "Open": "open",
+  "Enhanced Open": "owe",
+  "WPA2": "psk2",
+  "WPA/WPA2": "pskpsk2",
+  "WPA2/WPA3": "psk2sae",
+  "WPA3": "sae",
+};
+// 6GHz only allows WPA3 and Enhanced Open
+const SECURITY_MODES_6GHZ = ["sae", "owe"];
+const PASSPHRASE_MODES = ["psk2", "pskpsk2", "psk2sae", "sae"];
+
+// wlN_bw: 0 lets the radio pick
+const BANDWIDTH_CODES: Record<number, string> = { 0: "0", 20: "1", 40: "2", 80: "3", 160: "5", 320: "6" };
+
+const CHANSPEC_PATTERN = /^(?:6g)?(\d+)(?:([lu])|\/(\d+)(?:-\d)?)?$/;
+
+export function parseChanspec(chanspec: string): { channel: number; width: number } | null {
+  const match = chanspec.trim().match(CHANSPEC_PATTERN);
+  if (!match) return null;
+  const width = match[2] ? 40 : match[3] ? parseInt(match[3]) : 20;
+  return { channel: parseInt(match[1]), width };
+}
+
+// One chanspec per line, each followed by its hex form: "36/80 (0xe02a)"
+export function parseChanspecs(output: string): ChannelOption[] {
+  return output.split("\n")
+    .map(line => line.trim().split(/\s+/)[0] ?? "")
+    .flatMap(chanspec => {
+      const parsed = parseChanspec(chanspec);
+      return parsed && parsed.channel > 0 ? [{ ...parsed, chanspec }] : [];
+    });
+}
+
+export function securityModeLabel(authMode: string): string {
+  return Object.keys(SECURITY_MODES).find(label => SECURITY_MODES[label] === authMode) ?? authMode.toUpperCase();
+}
+
+function bandwidthFromCode(code: string): number {
+  const width = Object.keys(BANDWIDTH_CODES).find(width => BANDWIDTH_CODES[Number(width)] === code);
+  return width ? Number(width) : 0;
+}
+
+function unitOf(prefix: string): number {
+  return parseInt(prefix.slice(2));
+}
+
+async function run(client: SSHClient, command: string): Promise<string> {
+  return await withTimeout(client.executeCommand(command), COMMAND_TIMEOUT_MS, "Timed out reading radio settings");
+}
+
+export async function readRadios(client: SSHClient): Promise<RadioState[]> {
+  const fields = ["nband", "ifname", "ssid", "auth_mode_x", "chanspec", "bw"];
+  const keys = Array.from({ length: MAX_UNITS }, (_, unit) => fields.map(field => `wl${unit}_${field}`)).flat();
+  const values = await readNvramValues(client, keys);
+
+  const radios: RadioState[] = [];
+  for (let unit = 0; unit < MAX_UNITS; unit++) {
+    const band = NBAND_BANDS[values[`wl${unit}_nband`]];
+    const ifname = values[`wl${unit}_ifname`];
+    if (!band || !ifname) continue;
+
+    const chanspec = values[`wl${unit}_chanspec`] || "0";
+    const current = parseChanspec(chanspec);
+    const bandwidth = bandwidthFromCode(values[`wl${unit}_bw`]);
+    radios.push({
+      unit,
+      ifname,
+      band,
+      label: band,
+      ssid: values[`wl${unit}_ssid`],
+      authMode: values[`wl${unit}_auth_mode_x`],
+      chanspec,
+      channel: current?.channel ?? 0,
+      // A fixed chanspec carries its own width; wlN_bw only matters when the channel is automatic
+      bandwidth: current && current.channel > 0 ? current.width : bandwidth,
+      options: parseChanspecs(await run(client, `wl -i ${ifname} chanspecs`)),
+    });
+  }
+
+  return labelRadios(radios);
+}
+
+function labelRadios<T extends RadioInterface>(radios: T[]): T[] {
+  const fiveGhz = radios.filter(radio => radio.band === "5GHz");
+  if (fiveGhz.length > 1) {
+    fiveGhz.forEach((radio, index) => { radio.label = `5GHz-${index + 1}`; });
+  }
+  return radios;
+}
+
+// Just which radios there are, for collectors that run too often to list every channel each time
+export async function listRadios(client: SSHClient): Promise<RadioInterface[]> {
+  const keys = Array.from({ length: MAX_UNITS }, (_, unit) => [`wl${unit}_nband`, `wl${unit}_ifname`]).flat();
+  const values = await readNvramValues(client, keys);
+
+  const radios: RadioInterface[] = [];
+  for (let unit = 0; unit < MAX_UNITS; unit++) {
+    const band = NBAND_BANDS[values[`wl${unit}_nband`]];
+    const ifname = values[`wl${unit}_ifname`];
+    if (band && ifname) radios.push({ unit, ifname, band, label: band });
+  }
+  return labelRadios(radios);
+}
+
+function validatePassphrase(password: string): string | null {
+  if (/^[0-9A-Fa-f]{64}$/.test(password)) return null;
+  if (password.length < 8 || password.length > 63) return "The WiFi password must be 8 to 63 characters, or 64 hex digits";
+  if (!/^[\x20-\x7E]+$/.test(password)) return "The WiFi password may only use printable ASCII characters";
+  return null;
+}
+
+function planChannel(prefix: string, radio: RadioState, channel: number, bandwidth: number): { changes: NvramValues; error: string | null } {
+  if (bandwidth !== 0 && !radio.options.some(option => option.width === bandwidth)) {
+    return { changes: {}, error: `${radio.label} does not support ${bandwidth} MHz channels` };
+  }
+  if (channel === 0) {
+    return { changes: { [`${prefix}_chanspec`]: "0", [`${prefix}_bw`]: BANDWIDTH_CODES[bandwidth] }, error: null };
+  }
+
+  const candidates = radio.options
+    .filter(option => option.channel === channel && (bandwidth === 0 || option.width === bandwidth))
+    .sort((a, b) => b.width - a.width);
+  if (candidates.length === 0) {
+    return { changes: {}, error: `Channel ${channel}${bandwidth ? ` at ${bandwidth} MHz` : ""} is not allowed on ${radio.label}` };
+  }
+  return { changes: { [`${prefix}_chanspec`]: candidates[0].chanspec, [`${prefix}_bw`]: BANDWIDTH_CODES[bandwidth] }, error: null };
+}
+
+// Turns an edit of one network into the NVRAM writes it needs, or the reason it cannot be made.
+// prefix is wlN for a radio's main network and wlN.M for one of its guest networks.
+export async function planWifiChanges(client: SSHClient, prefix: string, edit: WifiEdit) {
+  const radio = (await readRadios(client)).find(radio => radio.unit === unitOf(prefix)) ?? null;
+  const fail = (error: string) => ({ changes: {} as NvramValues, radio, error });
+  if (!radio) return fail(`${prefix} is not a radio on this router`);
+
+  const isGuest = prefix.includes(".");
+  const currentAuthMode = isGuest ? (await readNvramValues(client, [`${prefix}_auth_mode_x`]))[`${prefix}_auth_mode_x`] : radio.authMode;
+  const changes: NvramValues = {};
+
+  if (edit.ssid !== undefined) {
+    const length = Buffer.byteLength(edit.ssid, "utf8");
+    if (length < 1 || length > 32) return fail("The network name must be 1 to 32 bytes long");
+    changes[`${prefix}_ssid`] = edit.ssid;
+  }
+
+  let authMode = currentAuthMode;
+  if (edit.securityMode !== undefined) {
+    authMode = SECURITY_MODES[edit.securityMode];
+    if (!authMode) return fail(`Unknown security mode: ${edit.securityMode}`);
+    if (radio.band === "6GHz" && !SECURITY_MODES_6GHZ.includes(authMode)) {
+      return fail("6GHz networks only allow WPA3 or Enhanced Open");
+    }
+    if (authMode !== currentAuthMode) {
+      changes[`${prefix}_auth_mode_x`] = authMode;
+      changes[`${prefix}_mfp`] = authMode === "sae" || authMode === "owe" ? "2" : authMode === "psk2sae" ? "1" : "0";
+      if (PASSPHRASE_MODES.includes(authMode)) {
+        changes[`${prefix}_crypto`] = authMode === "pskpsk2" ? "tkip+aes" : "aes";
+      }
+    }
+  }
+
+  if (edit.password) {
+    if (!PASSPHRASE_MODES.includes(authMode)) return fail(`${securityModeLabel(authMode)} networks do not use a password`);
+    const error = validatePassphrase(edit.password);
+    if (error) return fail(error);
+    changes[`${prefix}_wpa_psk`] = edit.password;
+  } else if (PASSPHRASE_MODES.includes(authMode) && !PASSPHRASE_MODES.includes(currentAuthMode)) {
+    return fail(`A password is needed to switch to ${securityModeLabel(authMode)}`);
+  }
+
+  if (edit.channel !== undefined || edit.bandwidth !== undefined) {
+    const channel = edit.channel ?? radio.channel;
+    const bandwidth = edit.bandwidth ?? radio.bandwidth;
+    if (channel !== radio.channel || bandwidth !== radio.bandwidth) {
+      if (isGuest) return fail("Guest networks use their radio's channel; change it on the main network");
+      const plan = planChannel(prefix, radio, channel, bandwidth);
+      if (plan.error) return fail(plan.error);
+      Object.assign(changes, plan.changes);
+    }
+  }
+
+  return { changes, radio, error: null };
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// NVRAM holding the new values only means they were saved; this asks the driver what the radio
+// is actually running once it is back up. Returns what still differs when time runs out.
+export async function confirmWifiSettings(routerId: number, prefix: string, changes: NvramValues): Promise<string[]> {
+  const ssid = changes[`${prefix}_ssid`];
+  const chanspec = changes[`${prefix}_chanspec`];
+  const expectsChanspec = chanspec !== undefined && chanspec !== "0";
+  if (ssid === undefined && !expectsChanspec) return [];
+
+  const deadline = Date.now() + CONFIRM_TIMEOUT_MS;
+  let mismatches: string[] = ["The radio did not come back"];
+  while (Date.now() < deadline) {
+    try {
+      const client = sshClients.getClient(routerId);
+      const ifname = (await readNvramValues(client, [`${prefix}_ifname`]))[`${prefix}_ifname`] || prefix;
+      mismatches = [];
+      if (ssid !== undefined) {
+        const live = (await run(client, `wl -i ${ifname} ssid`)).match(/"(.*)"/)?.[1] ?? "";
+        if (live !== ssid) mismatches.push(`SSID is still "${live}"`);
+      }
+      if (expectsChanspec) {
+        const live = (await run(client, `wl -i ${ifname} chanspec`)).trim().split(/\s+/)[0] ?? "";
+        if (live !== chanspec) mismatches.push(`Channel is ${live || "unknown"} instead of ${chanspec}`);
+      }
+      if (mismatches.length === 0) return [];
+    } catch (error) {
+      mismatches = [error instanceof Error ? error.message : String(error)];
+    }
+    await sleep(CONFIRM_INTERVAL_MS);
+  }
+  return mismatches;
+}
+
+// Brings the stored networks in line with their radios: the real band, the security mode and
+// the channel and width each radio is set to. Guest networks show their radio's channel.
+export async function refreshWifiNetworks(routerId: number, client: SSHClient): Promise<RadioState[]> {
+  const radios = await readRadios(client);
+  const networks = (await storage.getWifiNetworks(routerId)).filter(network => network.interface);
+  const guestKeys = networks
+    .filter(network => network.interface!.includes("."))
+    .map(network => `${network.interface}_auth_mode_x`);
+  const guestAuthModes = guestKeys.length > 0 ? await readNvramValues(client, guestKeys) : {};
+
+  for (const network of networks) {
+    const prefix = network.interface!;
+    const radio = radios.find(radio => radio.unit === unitOf(prefix));
+    if (!radio) continue;
+    const authMode = prefix.includes(".") ? guestAuthModes[`${prefix}_auth_mode_x`] : radio.authMode;
+    await storage.updateWifiNetwork(routerId, network.id, {
+      band: radio.band,
+      channel: radio.channel,
+      bandwidth: radio.bandwidth,
+      ...(authMode && { securityMode: securityModeLabel(authMode) }),
+    });
+  }
+  return radios;
+}
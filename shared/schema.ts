@@ -1,9 +1,25 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, varchar, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const routers = pgTable("routers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  location: text("location"), // office, lab, home, etc.
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash with salt
+  role: text("role").notNull().default("viewer"), // viewer, operator, admin
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const routerStatus = pgTable("router_status", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }).unique(),
   model: text("model").notNull(),
   firmware: text("firmware").notNull(),
   ipAddress: text("ip_address").notNull(),
@@ -22,13 +38,14 @@ export const routerStatus = pgTable("router_status", {
 
 export const connectedDevices = pgTable("connected_devices", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
-  macAddress: text("mac_address").notNull().unique(),
+  macAddress: text("mac_address").notNull(),
   ipAddress: text("ip_address").notNull(),
   deviceType: text("device_type").notNull(), // laptop, mobile, desktop, tv, etc.
   isOnline: boolean("is_online").notNull().default(true),
-  downloadSpeed: real("download_speed").default(0), // MB/s
-  uploadSpeed: real("upload_speed").default(0), // MB/s
+  downloadSpeed: real("download_speed").default(0), // Mbps, from the per-device accounting counters
+  uploadSpeed: real("upload_speed").default(0), // Mbps
   connectedAt: timestamp("connected_at").defaultNow(),
   lastSeen: timestamp("last_seen").defaultNow(),
   connectionType: text("connection_type").default("wired"), // wired, wireless, mesh
@@ -39,13 +56,23 @@ export const connectedDevices = pgTable("connected_devices", {
   wirelessInterface: text("wireless_interface"), // wl0, wl1, wl2
   aimeshNode: text("aimesh_node"), // which AiMesh node device is connected to
   aimeshNodeMac: text("aimesh_node_mac"), // MAC address of AiMesh node
-});
+  vendor: text("vendor"), // from the OUI registry, null when unknown or randomized
+  isRandomizedMac: boolean("is_randomized_mac").notNull().default(false), // locally administered address
+  isBlocked: boolean("is_blocked").notNull().default(false), // internet access blocked through MULTIFILTER
+  blockedUntil: timestamp("blocked_until"), // end of a timed pause, null when blocked indefinitely
+  parentalSchedule: text("parental_schedule"), // JSON ScheduleRule[] of offline times as read from the router
+}, (table) => [
+  unique("connected_devices_router_mac_unique").on(table.routerId, table.macAddress),
+]);
 
 export const wifiNetworks = pgTable("wifi_networks", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
   ssid: text("ssid").notNull(),
-  band: text("band").notNull(), // 2.4GHz, 5GHz
-  channel: integer("channel"),
+  band: text("band").notNull(), // 2.4GHz, 5GHz, 6GHz; tri-band models have two 5GHz radios
+  interface: text("interface"), // NVRAM prefix, e.g. wl0 or wl1.1 for a guest network
+  channel: integer("channel"), // 0 when the radio picks its own
+  bandwidth: integer("bandwidth"), // MHz, 0 when the radio picks its own; guest networks share their radio's
   isEnabled: boolean("is_enabled").notNull().default(true),
   securityMode: text("security_mode").notNull().default("WPA2"),
   password: text("password"),
@@ -54,17 +81,56 @@ export const wifiNetworks = pgTable("wifi_networks", {
 
 export const portForwardingRules = pgTable("port_forwarding_rules", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   protocol: text("protocol").notNull(), // TCP, UDP, Both
   externalPort: integer("external_port").notNull(),
+  externalPortEnd: integer("external_port_end"), // Set for port ranges like 8000:8010
   internalPort: integer("internal_port").notNull(),
   internalIp: text("internal_ip").notNull(),
+  sourceIp: text("source_ip"), // Only forward traffic from this WAN address
   isEnabled: boolean("is_enabled").notNull().default(true),
   description: text("description"),
 });
 
+// Mirrors the router's dhcp_staticlist; the router stays the source of truth and every edit here
+// is written straight back to NVRAM
+export const dhcpReservations = pgTable("dhcp_reservations", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  macAddress: text("mac_address").notNull(),
+  ipAddress: text("ip_address").notNull(),
+  hostname: text("hostname"),
+  dnsServer: text("dns_server"), // Per-client DNS handed out with the lease, 384 and later firmware
+}, (table) => [
+  unique("dhcp_reservations_router_mac_unique").on(table.routerId, table.macAddress),
+]);
+
+// What the user says about a device, kept apart from the router-reported row so no sync can
+// overwrite it. Keyed by MAC, so it also outlives the device being removed and seen again.
+export const deviceOverrides = pgTable("device_overrides", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  macAddress: text("mac_address").notNull(),
+  name: text("name"),
+  deviceType: text("device_type"),
+  icon: text("icon"), // a device type whose icon is shown instead of the detected type's
+  notes: text("notes"),
+  owner: text("owner"),
+  // Name and icon are shared with the router's custom_clientlist, which the ASUS app also edits
+  nameSource: text("name_source"), // app, router: where name and icon were last edited
+  routerName: text("router_name"), // nickname in custom_clientlist as of the last sync
+  routerIcon: text("router_icon"), // ASUS icon type number in custom_clientlist as of the last sync
+  hasConflict: boolean("has_conflict").notNull().default(false), // both sides changed since the last sync
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("device_overrides_router_mac_unique").on(table.routerId, table.macAddress),
+]);
+
 export const bandwidthData = pgTable("bandwidth_data", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
   timestamp: timestamp("timestamp").defaultNow(),
   downloadSpeed: real("download_speed").notNull(), // Mbps
   uploadSpeed: real("upload_speed").notNull(), // Mbps
@@ -72,12 +138,54 @@ export const bandwidthData = pgTable("bandwidth_data", {
   totalUpload: real("total_upload").notNull(), // GB
 });
 
+export const deviceBandwidth = pgTable("device_bandwidth", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  macAddress: text("mac_address").notNull(),
+  timestamp: timestamp("timestamp").defaultNow(),
+  downloadBytes: real("download_bytes").notNull(), // bytes received by the device since the previous sample
+  uploadBytes: real("upload_bytes").notNull(), // bytes sent by the device since the previous sample
+  intervalSeconds: real("interval_seconds").notNull(),
+});
+
+// One row per stretch of time a device was online; endedAt stays null while it still is
+export const deviceSessions = pgTable("device_sessions", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  macAddress: text("mac_address").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  connectionType: text("connection_type"),
+  wirelessBand: text("wireless_band"), // last band seen during the session, null for wired
+  aimeshNode: text("aimesh_node"), // last AiMesh node seen during the session
+});
+
+// What each discovery method learned about a device, one row per attribute and source
+export const deviceAttributes = pgTable("device_attributes", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  macAddress: text("mac_address").notNull(),
+  attribute: text("attribute").notNull(), // name, model, manufacturer, os, deviceType, services, ...
+  value: text("value").notNull(),
+  source: text("source").notNull(), // dhcp, mdns, ssdp, netbios, oui, hostname, mac
+  detail: text("detail"), // what the value was derived from, e.g. the matched mDNS service
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("device_attributes_unique").on(table.routerId, table.macAddress, table.attribute, table.source),
+]);
+
 export const sshConfig = pgTable("ssh_config", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }).unique(),
   host: text("host").notNull(),
   port: integer("port").notNull().default(22),
   username: text("username").notNull(),
-  password: text("password").notNull(),
+  authMethod: text("auth_method").notNull().default("password"), // password, key
+  password: text("password"),
+  privateKey: text("private_key"), // OpenSSH/PEM ed25519 or RSA key
+  passphrase: text("passphrase"),
+  encryptedCredentials: text("encrypted_credentials"),
+  hostKeyFingerprint: text("host_key_fingerprint"), // SHA256 fingerprint pinned on first connect
   enabled: boolean("enabled").notNull().default(false),
   syncInterval: integer("sync_interval").notNull().default(5),
   lastConnected: timestamp("last_connected"),
@@ -86,6 +194,7 @@ export const sshConfig = pgTable("ssh_config", {
 
 export const routerFeatures = pgTable("router_features", {
   id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }).unique(),
   adaptiveQosEnabled: boolean("adaptive_qos_enabled").default(false),
   aiProtectionEnabled: boolean("ai_protection_enabled").default(false),
   vpnServerEnabled: boolean("vpn_server_enabled").default(false),
@@ -98,6 +207,8 @@ export const routerFeatures = pgTable("router_features", {
   wirelessClientsTotal: integer("wireless_clients_total").default(0),
   wifiNetworkCount: integer("wifi_network_count").default(0),
   activeGuestNetworks: integer("active_guest_networks").default(0),
+  portForwardingEnabled: boolean("port_forwarding_enabled").default(false), // vts_enable_x
+  portForwardingRulelist: text("port_forwarding_rulelist"), // vts_rulelist as last read from the router
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
@@ -107,6 +218,7 @@ export const deviceGroups = pgTable("device_groups", {
   description: text("description"),
   color: text("color").default("#3B82F6"), // Hex color
   icon: text("icon").default("devices"),
+  parentalSchedule: text("parental_schedule"), // JSON ScheduleRule[] applied to every member device
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -132,42 +244,275 @@ export const deviceTagAssignments = pgTable("device_tag_assignments", {
   assignedAt: timestamp("assigned_at").defaultNow(),
 });
 
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").references(() => routers.id, { onDelete: "set null" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  actor: text("actor").notNull(), // username, or "system" for background jobs
+  action: text("action").notNull(), // e.g. "POST /api/system/reboot"
+  target: text("target"), // concrete path or object acted on
+  payload: text("payload"), // JSON request body with secrets redacted
+  sshCommands: text("ssh_commands"), // JSON array of commands run on the router
+  outcome: text("outcome").notNull(), // success, failure, denied
+  statusCode: integer("status_code"),
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const nvramChangeSets = pgTable("nvram_change_sets", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  changes: text("changes").notNull(), // JSON object of NVRAM key -> new value, secret values sealed
+  services: text("services").notNull().default("[]"), // JSON array of rc services, e.g. "restart_wireless"
+  snapshot: text("snapshot"), // JSON object of NVRAM key -> value read just before applying, secrets sealed
+  status: text("status").notNull().default("staged"), // staged, applying, applied, rolled_back, failed, discarded
+  errorMessage: text("error_message"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  appliedAt: timestamp("applied_at"),
+});
+
+export const configBackups = pgTable("config_backups", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  label: text("label"),
+  source: text("source").notNull().default("manual"), // manual, scheduled, pre_restore
+  model: text("model"),
+  firmware: text("firmware"),
+  nvram: text("nvram").notNull(), // raw `nvram show` output
+  jffsScripts: text("jffs_scripts").notNull().default("{}"), // JSON object of /jffs/scripts path -> contents
+  keyCount: integer("key_count").notNull().default(0),
+  sizeBytes: integer("size_bytes").notNull().default(0),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Normalized `nvram show` captures; a new row is only written when something changed
+export const nvramSnapshots = pgTable("nvram_snapshots", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  values: text("values").notNull(), // JSON object of NVRAM key -> value, secrets replaced by a fingerprint
+  keyCount: integer("key_count").notNull().default(0),
+  changeCount: integer("change_count").notNull().default(0), // keys that differ from the previous snapshot
+  driftCount: integer("drift_count").notNull().default(0), // of those, keys not written by this app
+  isBaseline: boolean("is_baseline").notNull().default(false),
+  acknowledgedBy: text("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  checkedAt: timestamp("checked_at").defaultNow(), // last capture that matched this snapshot
+});
+
+export const alertChannels = pgTable("alert_channels", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // smtp, webhook, ntfy, gotify
+  config: text("config").notNull().default("{}"), // JSON of non-secret settings (host, url, topic...)
+  encryptedSecret: text("encrypted_secret"), // SMTP password or access token, encrypted like SSH credentials
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").references(() => routers.id, { onDelete: "cascade" }), // null applies to every router
+  name: text("name").notNull(),
+  type: text("type").notNull(), // see alertRuleTypes
+  threshold: real("threshold"), // percent or degrees C for the threshold rules
+  severity: text("severity").notNull().default("warning"), // info, warning, critical
+  channelIds: text("channel_ids").notNull().default("[]"), // JSON array of alert channel ids
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(30),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const alertEvents = pgTable("alert_events", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  routerId: integer("router_id").references(() => routers.id, { onDelete: "cascade" }),
+  subject: text("subject").notNull(), // what the alert is about: a MAC, a job id, "cpu"...
+  severity: text("severity").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  status: text("status").notNull().default("open"), // open, acknowledged, resolved
+  deliveries: text("deliveries").notNull().default("[]"), // JSON array of { channelId, ok, error }
+  notifiedAt: timestamp("notified_at"),
+  acknowledgedBy: text("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Scheduled Wake-on-LAN for one device (by MAC, so it outlives a device list reset) or for the
+// members of a group on this router. A weekly wake has days and a time; a one-off wake has runAt.
+export const wakeSchedules = pgTable("wake_schedules", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  macAddress: text("mac_address"),
+  groupId: integer("group_id").references(() => deviceGroups.id, { onDelete: "cascade" }),
+  days: text("days"), // JSON array of day numbers, 0 = Sunday
+  time: text("time"), // HH:MM in the server's time zone
+  runAt: timestamp("run_at"),
+  confirmWithPing: boolean("confirm_with_ping").notNull().default(false),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"), // sent, confirmed, unconfirmed, failed
+  lastResult: text("last_result"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per access point heard in a scan; the rows of one scan share scannedAt
+export const wifiScanResults = pgTable("wifi_scan_results", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  scannedAt: timestamp("scanned_at").notNull(),
+  band: text("band").notNull(), // band of the radio that heard it
+  ssid: text("ssid"), // null for a hidden network
+  bssid: text("bssid").notNull(),
+  channel: integer("channel").notNull(), // primary channel
+  centerChannel: integer("center_channel").notNull(),
+  width: integer("width").notNull(), // MHz
+  rssi: integer("rssi").notNull(), // dBm
+  noise: integer("noise"), // dBm
+  security: text("security").notNull(),
+});
+
+export const wifiChannelStats = pgTable("wifi_channel_stats", {
+  id: serial("id").primaryKey(),
+  routerId: integer("router_id").notNull().references(() => routers.id, { onDelete: "cascade" }),
+  sampledAt: timestamp("sampled_at").notNull(),
+  unit: integer("unit").notNull(), // wlN radio
+  band: text("band").notNull(),
+  label: text("label").notNull(), // 5GHz-1 and 5GHz-2 on tri-band models
+  chanspec: text("chanspec").notNull(), // channel the radio was on for the sample
+  busy: real("busy").notNull(), // percent of airtime not available to transmit
+  tx: real("tx").notNull(), // percent spent transmitting
+  rx: real("rx").notNull(), // percent receiving from our own clients
+  obss: real("obss").notNull(), // percent taken by neighbouring networks
+  interference: real("interference").notNull(), // percent lost to non-WiFi energy and undecodable frames
+  glitches: integer("glitches").notNull(), // per second
+  badPlcp: integer("bad_plcp").notNull(), // per second
+  noise: integer("noise"), // dBm
+});
+
 // Insert schemas
+export const insertRouterSchema = createInsertSchema(routers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const userRoles = ["viewer", "operator", "admin"] as const;
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(userRoles).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertRouterStatusSchema = createInsertSchema(routerStatus).omit({
   id: true,
+  routerId: true,
   lastUpdated: true,
 });
 
 export const insertConnectedDeviceSchema = createInsertSchema(connectedDevices).omit({
   id: true,
+  routerId: true,
   connectedAt: true,
   lastSeen: true,
 });
 
 export const insertWifiNetworkSchema = createInsertSchema(wifiNetworks).omit({
   id: true,
+  routerId: true,
 });
 
 export const insertPortForwardingRuleSchema = createInsertSchema(portForwardingRules).omit({
   id: true,
+  routerId: true,
+});
+
+export const insertDhcpReservationSchema = createInsertSchema(dhcpReservations, {
+  macAddress: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/, "Invalid MAC address"),
+  ipAddress: z.string().ip({ version: "v4", message: "Invalid IPv4 address" }),
+  hostname: z.string().max(32).regex(/^[A-Za-z0-9-]*$/, "Hostnames may only contain letters, digits and hyphens").nullable().optional(),
+  dnsServer: z.union([z.string().ip({ version: "v4", message: "Invalid DNS server address" }), z.literal("")]).nullable().optional(),
+}).omit({
+  id: true,
+  routerId: true,
+});
+
+export const nameSources = ["app", "router"] as const;
+
+export const insertDeviceOverrideSchema = createInsertSchema(deviceOverrides, {
+  macAddress: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/, "Invalid MAC address"),
+  name: z.string().trim().max(64).nullable().optional(),
+  deviceType: z.string().trim().max(32).nullable().optional(),
+  icon: z.string().trim().max(32).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  owner: z.string().trim().max(64).nullable().optional(),
+}).omit({
+  id: true,
+  routerId: true,
+  updatedAt: true,
 });
 
 export const insertBandwidthDataSchema = createInsertSchema(bandwidthData).omit({
   id: true,
+  routerId: true,
   timestamp: true,
 });
 
+export const insertDeviceBandwidthSchema = createInsertSchema(deviceBandwidth).omit({
+  id: true,
+  routerId: true,
+  timestamp: true,
+});
+
+export const insertDeviceSessionSchema = createInsertSchema(deviceSessions).omit({
+  id: true,
+  routerId: true,
+});
+
+export const deviceAttributeSources = ["dhcp", "mdns", "ssdp", "netbios", "oui", "hostname", "mac"] as const;
+
+export const insertDeviceAttributeSchema = createInsertSchema(deviceAttributes, {
+  source: z.enum(deviceAttributeSources),
+}).omit({
+  id: true,
+  routerId: true,
+  updatedAt: true,
+});
+
 export const insertSSHConfigSchema = createInsertSchema(sshConfig).omit({
   id: true,
+  routerId: true,
+  encryptedCredentials: true,
+  hostKeyFingerprint: true,
   lastConnected: true,
   connectionStatus: true,
 });
 
 export const insertRouterFeaturesSchema = createInsertSchema(routerFeatures).omit({
   id: true,
+  routerId: true,
   lastUpdated: true,
 });
 
+// One offline period of a parental-control schedule, on the given days (0 = Sunday). An end at or
+// before the start runs past midnight into the next day; equal times block the whole day.
+export const scheduleRuleSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+});
+
 export const insertDeviceGroupSchema = createInsertSchema(deviceGroups).omit({
   id: true,
   createdAt: true,
@@ -189,7 +534,97 @@ export const insertDeviceTagAssignmentSchema = createInsertSchema(deviceTagAssig
   assignedAt: true,
 });
 
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNvramChangeSetSchema = createInsertSchema(nvramChangeSets).omit({
+  id: true,
+  routerId: true,
+  createdAt: true,
+});
+
+export const insertConfigBackupSchema = createInsertSchema(configBackups).omit({
+  id: true,
+  routerId: true,
+  createdAt: true,
+});
+
+export const insertNvramSnapshotSchema = createInsertSchema(nvramSnapshots).omit({
+  id: true,
+  routerId: true,
+  createdAt: true,
+});
+
+export const alertChannelTypes = ["smtp", "webhook", "ntfy", "gotify"] as const;
+export const alertRuleTypes = [
+  "cpu_usage",
+  "memory_usage",
+  "temperature",
+  "unknown_device",
+  "node_offline",
+  "wan_ip_change",
+  "job_failure",
+  "channel_utilization",
+] as const;
+export const alertSeverities = ["info", "warning", "critical"] as const;
+
+export const insertAlertChannelSchema = createInsertSchema(alertChannels, {
+  name: z.string().min(1, "Name is required"),
+  type: z.enum(alertChannelTypes),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules, {
+  name: z.string().min(1, "Name is required"),
+  type: z.enum(alertRuleTypes),
+  severity: z.enum(alertSeverities).optional(),
+  cooldownMinutes: z.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertEventSchema = createInsertSchema(alertEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const wakeStatuses = ["sent", "confirmed", "unconfirmed", "failed"] as const;
+
+export const insertWakeScheduleSchema = createInsertSchema(wakeSchedules, {
+  name: z.string().min(1, "Name is required").max(64),
+  macAddress: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/, "Invalid MAC address").nullable().optional(),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM").nullable().optional(),
+  runAt: z.coerce.date().nullable().optional(),
+  lastStatus: z.enum(wakeStatuses).nullable().optional(),
+}).omit({
+  id: true,
+  routerId: true,
+  createdAt: true,
+});
+
+export const insertWifiScanResultSchema = createInsertSchema(wifiScanResults).omit({
+  id: true,
+  routerId: true,
+});
+
+export const insertWifiChannelStatSchema = createInsertSchema(wifiChannelStats).omit({
+  id: true,
+  routerId: true,
+});
+
 // Types
+export type Router = typeof routers.$inferSelect;
+export type InsertRouter = z.infer<typeof insertRouterSchema>;
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = typeof userRoles[number];
+
 export type RouterStatus = typeof routerStatus.$inferSelect;
 export type InsertRouterStatus = z.infer<typeof insertRouterStatusSchema>;
 
@@ -202,15 +637,46 @@ export type InsertWifiNetwork = z.infer<typeof insertWifiNetworkSchema>;
 export type PortForwardingRule = typeof portForwardingRules.$inferSelect;
 export type InsertPortForwardingRule = z.infer<typeof insertPortForwardingRuleSchema>;
 
+export type DhcpReservation = typeof dhcpReservations.$inferSelect;
+export type InsertDhcpReservation = z.infer<typeof insertDhcpReservationSchema>;
+
+export type DeviceOverride = typeof deviceOverrides.$inferSelect;
+export type InsertDeviceOverride = z.infer<typeof insertDeviceOverrideSchema>;
+export type NameSource = typeof nameSources[number];
+// Whether the name and icon here match the router's custom_clientlist
+export type NicknameStatus = "synced" | "pending" | "conflict";
+
+// A device as the API returns it: the user's overrides on top of what the router reports
+export type DeviceWithOverride = ConnectedDevice & {
+  reportedName: string;
+  reportedDeviceType: string;
+  icon: string | null;
+  notes: string | null;
+  owner: string | null;
+  override: DeviceOverride | null;
+  nicknameStatus: NicknameStatus | null;
+};
+
 export type BandwidthData = typeof bandwidthData.$inferSelect;
 export type InsertBandwidthData = z.infer<typeof insertBandwidthDataSchema>;
 
+export type DeviceBandwidthSample = typeof deviceBandwidth.$inferSelect;
+export type InsertDeviceBandwidthSample = z.infer<typeof insertDeviceBandwidthSchema>;
+
+export type DeviceSession = typeof deviceSessions.$inferSelect;
+export type InsertDeviceSession = z.infer<typeof insertDeviceSessionSchema>;
+
+export type DeviceAttribute = typeof deviceAttributes.$inferSelect;
+export type InsertDeviceAttribute = z.infer<typeof insertDeviceAttributeSchema>;
+
 export type SSHConfig = typeof sshConfig.$inferSelect;
 export type InsertSSHConfig = z.infer<typeof insertSSHConfigSchema>;
 
 export type RouterFeatures = typeof routerFeatures.$inferSelect;
 export type InsertRouterFeatures = z.infer<typeof insertRouterFeaturesSchema>;
 
+export type ScheduleRule = z.infer<typeof scheduleRuleSchema>;
+
 export type DeviceGroup = typeof deviceGroups.$inferSelect;
 export type InsertDeviceGroup = z.infer<typeof insertDeviceGroupSchema>;
 
@@ -222,3 +688,35 @@ export type InsertDeviceGroupMembership = z.infer<typeof insertDeviceGroupMember
 
 export type DeviceTagAssignment = typeof deviceTagAssignments.$inferSelect;
 export type InsertDeviceTagAssignment = z.infer<typeof insertDeviceTagAssignmentSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+
+export type NvramChangeSet = typeof nvramChangeSets.$inferSelect;
+export type InsertNvramChangeSet = z.infer<typeof insertNvramChangeSetSchema>;
+
+export type ConfigBackup = typeof configBackups.$inferSelect;
+export type InsertConfigBackup = z.infer<typeof insertConfigBackupSchema>;
+
+export type NvramSnapshot = typeof nvramSnapshots.$inferSelect;
+export type InsertNvramSnapshot = z.infer<typeof insertNvramSnapshotSchema>;
+
+export type AlertChannel = typeof alertChannels.$inferSelect;
+export type InsertAlertChannel = z.infer<typeof insertAlertChannelSchema>;
+export type AlertChannelType = typeof alertChannelTypes[number];
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRuleType = typeof alertRuleTypes[number];
+
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type InsertAlertEvent = z.infer<typeof insertAlertEventSchema>;
+
+export type WakeSchedule = typeof wakeSchedules.$inferSelect;
+export type InsertWakeSchedule = z.infer<typeof insertWakeScheduleSchema>;
+export type WakeStatus = typeof wakeStatuses[number];
+
+export type WifiScanResult = typeof wifiScanResults.$inferSelect;
+export type InsertWifiScanResult = z.infer<typeof insertWifiScanResultSchema>;
+export type WifiChannelStat = typeof wifiChannelStats.$inferSelect;
+export type InsertWifiChannelStat = z.infer<typeof insertWifiChannelStatSchema>;